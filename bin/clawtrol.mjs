@@ -5,6 +5,7 @@ import { execSync, spawn } from 'node:child_process';
 import { existsSync, mkdirSync, cpSync, writeFileSync, readFileSync, readdirSync, statSync } from 'node:fs';
 import { resolve, dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { randomBytes, scryptSync, createHash } from 'node:crypto';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -15,7 +16,7 @@ const PKG_ROOT = resolve(__dirname, '..');
 const ALL_MODULES = [
   { id: 'overview',   label: 'Overview',    desc: 'System stats — CPU, RAM, disk, uptime, weather' },
   { id: 'screen',     label: 'Screen',      desc: 'Remote screen viewer with click interaction' },
-  { id: 'terminal',   label: 'Terminal',    desc: 'Web terminal via ttyd PTY' },
+  { id: 'terminal',   label: 'Terminal',    desc: 'Interactive PTY shells & command runner' },
   { id: 'files',      label: 'Files',       desc: 'File browser with read & zip' },
   { id: 'sessions',   label: 'Sessions',    desc: 'OpenClaw session viewer & chat' },
   { id: 'tasks',      label: 'Tasks',       desc: 'Kanban task board' },
@@ -24,6 +25,8 @@ const ALL_MODULES = [
   { id: 'logs',       label: 'Logs',        desc: 'Gateway log viewer' },
   { id: 'network',    label: 'Network',     desc: 'Tailscale peers & processes' },
   { id: 'subagents',  label: 'Sub-agents',  desc: 'Sub-agent management' },
+  { id: 'audit',      label: 'Audit',       desc: 'Log of every mutating action — who, when, what' },
+  { id: 'alerts',     label: 'Alerts',      desc: 'Threshold alerts — firing, acknowledged, silenced' },
 ];
 
 // ── Helpers ──────────────────────────────────────────────────────────
@@ -380,6 +383,130 @@ function runPluginsList() {
   print();
 }
 
+// ── Auth Commands ────────────────────────────────────────────────────
+
+function askHidden(question) {
+  return new Promise((res) => {
+    const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+    // Suppress echo of typed characters
+    rl._writeToOutput = (s) => {
+      if (s.includes(question)) rl.output.write(s);
+    };
+    rl.question(question, (answer) => {
+      rl.close();
+      print();
+      res(answer);
+    });
+  });
+}
+
+async function runHashPassword() {
+  const password = await askHidden(`${bold('Password')}: `);
+  if (!password) {
+    print(yellow('  Password cannot be empty.'));
+    process.exit(1);
+  }
+  const confirm = await askHidden(`${bold('Confirm password')}: `);
+  if (password !== confirm) {
+    print(yellow('  Passwords do not match.'));
+    process.exit(1);
+  }
+
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 64);
+  print();
+  print(`  ${green('CLAWTROL_PASSWORD_HASH=')}'scrypt$${salt.toString('hex')}$${hash.toString('hex')}'`);
+  print();
+  print(dim('  Put it in the environment (e.g. .env.local) and reference it from auth.users with'));
+  print(dim('  process.env — clawtrol.config.ts is bundled into the browser, so no hashes inline.'));
+  print();
+}
+
+function runToken(name) {
+  if (!name) {
+    print(yellow('  Usage: clawtrol token <name>'));
+    process.exit(1);
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const hash = createHash('sha256').update(token).digest('hex');
+  const envName = `CLAWTROL_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_TOKEN_HASH`;
+  print();
+  print(`  ${bold('Token')} ${dim('(shown once — store it with the client that will use it)')}:`);
+  print(`    ${cyan(token)}`);
+  print();
+  print(`  ${bold('Environment')} ${dim('(e.g. .env.local)')}:`);
+  print(`    ${green(`${envName}=`)}'sha256$${hash}'`);
+  print();
+  print(`  ${bold('Config entry')} ${dim('(auth.tokens in clawtrol.config.ts)')}:`);
+  print(`    { name: '${name}', tokenHash: process.env.${envName} ?? '' }`);
+  print();
+  print(dim('  clawtrol.config.ts is bundled into the browser, so keep the hash out of it.'));
+  print(dim(`  Clients send it as: Authorization: Bearer <token>`));
+  print();
+}
+
+// ── Screen Macros ────────────────────────────────────────────────────
+
+function dashboardUrl() {
+  if (process.env.CLAWTROL_URL) return process.env.CLAWTROL_URL.replace(/\/$/, '');
+  // Port the daemon was started on (written by bin/daemon.mjs)
+  try {
+    const state = JSON.parse(readFileSync(join(process.cwd(), '.clawtrol.json'), 'utf8'));
+    if (state.port) return `http://localhost:${state.port}`;
+  } catch {}
+  // Same default as bin/daemon.mjs
+  return 'http://localhost:4781';
+}
+
+async function runMacro(name, args) {
+  if (!name) {
+    print(yellow('  Usage: clawtrol macro <name> [--dry-run]'));
+    process.exit(1);
+  }
+
+  const dryRun = args.includes('--dry-run');
+  const headers = { 'Content-Type': 'application/json' };
+  if (process.env.CLAWTROL_TOKEN) headers.Authorization = `Bearer ${process.env.CLAWTROL_TOKEN}`;
+
+  const url = `${dashboardUrl()}/api/screen/macros`;
+  const res = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ action: 'run', name, dryRun }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data.success) {
+    print(yellow(`  ${data.error || `HTTP ${res.status}`}`));
+    process.exit(1);
+  }
+
+  if (dryRun) {
+    print(`  ${bold(data.macro)} ${dim('(dry run)')}`);
+    for (const p of data.points) print(`    ${dim(`${p.step}.`)} ${p.type} at ${p.x},${p.y}`);
+    return;
+  }
+
+  // The dashboard plays it in the background; follow until it's done
+  let run = data.run;
+  while (!run.finishedAt) {
+    await new Promise((r) => setTimeout(r, 500));
+    const poll = await fetch(`${url}?run=${encodeURIComponent(run.id)}`, { headers });
+    const body = await poll.json().catch(() => ({}));
+    if (!poll.ok) {
+      print(yellow(`  ${body.error || `HTTP ${poll.status}`}`));
+      process.exit(1);
+    }
+    run = body.run;
+  }
+  if (run.error) {
+    print(yellow(`  ${run.error}`));
+    process.exit(1);
+  }
+  const stopped = run.cancelled ? yellow(run.timedOut ? ' (timed out)' : ' (stopped)') : '';
+  print(`  ${green('✓')} ${data.macro}: ${run.completed} steps${stopped}`);
+}
+
 // ── CLI Router ───────────────────────────────────────────────────────
 
 const command = process.argv[2];
@@ -412,6 +539,24 @@ switch (command) {
     runPluginsList();
     break;
 
+  case 'hash-password':
+    runHashPassword().catch((err) => {
+      console.error(err);
+      process.exit(1);
+    });
+    break;
+
+  case 'token':
+    runToken(process.argv[3]);
+    break;
+
+  case 'macro':
+    runMacro(process.argv[3], process.argv.slice(4)).catch((err) => {
+      console.error(err.message);
+      process.exit(1);
+    });
+    break;
+
   case 'start':
   case 'stop':
   case 'restart':
@@ -443,6 +588,13 @@ switch (command) {
     print(`    clawtrol ${green('remove')} ${dim('<plugin>')}  Remove a plugin`);
     print(`    clawtrol ${green('plugins')}           List installed plugins`);
     print();
+    print(dim('  Auth:'));
+    print(`    clawtrol ${green('hash-password')}     Hash a dashboard login password`);
+    print(`    clawtrol ${green('token')} ${dim('<name>')}      Generate an API bearer token`);
+    print();
+    print(dim('  Screen:'));
+    print(`    clawtrol ${green('macro')} ${dim('<name>')}      Replay a saved screen macro ${dim('(--dry-run to list clicks)')}`);
+    print();
     if (command) {
       print(yellow(`  Unknown command: "${command}"`));
       print();
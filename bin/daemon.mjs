@@ -6,6 +6,7 @@ import { existsSync, readFileSync, writeFileSync, rmSync, statSync } from 'node:
 import { resolve } from 'node:path';
 
 const APP_NAME = 'clawtrol';
+const PTY_APP_NAME = 'clawtrol-pty';
 const STATE_FILE = resolve(process.cwd(), '.clawtrol.json');
 const LEGACY_STATE_FILE = resolve(process.cwd(), '.clawtrol.pid.json');
 
@@ -61,6 +62,29 @@ function readConfigPort() {
   }
 }
 
+function readConfigPtyPort() {
+  const cfg = resolve(process.cwd(), 'clawtrol.config.ts');
+  if (!existsSync(cfg)) return 7683;
+  try {
+    const m = readFileSync(cfg, 'utf8').match(/^\s*ptyPort\s*:\s*(\d{2,5})\b/m);
+    const p = m ? Number(m[1]) : 7683;
+    return Number.isInteger(p) && p > 0 && p < 65536 ? p : 7683;
+  } catch {
+    return 7683;
+  }
+}
+
+function readConfigPtyHost() {
+  const cfg = resolve(process.cwd(), 'clawtrol.config.ts');
+  if (!existsSync(cfg)) return '127.0.0.1';
+  try {
+    const m = readFileSync(cfg, 'utf8').match(/^\s*ptyHost\s*:\s*['"]([^'"]+)['"]/m);
+    return m ? m[1] : '127.0.0.1';
+  } catch {
+    return '127.0.0.1';
+  }
+}
+
 function getMtimeSafe(path) {
   try {
     return statSync(path).mtimeMs;
@@ -125,11 +149,17 @@ async function start() {
   run('pm2', ['delete', APP_NAME], { allowFail: true });
   run('pm2', ['start', 'node', '--name', APP_NAME, '--', 'node_modules/.bin/next', 'start', '-p', String(port)]);
 
+  // Interactive shells for the Terminal module (WebSocket sidecar)
+  const ptyPort = readConfigPtyPort();
+  run('pm2', ['delete', PTY_APP_NAME], { allowFail: true });
+  run('pm2', ['start', 'bin/pty-server.mjs', '--name', PTY_APP_NAME, '--', '--port', String(ptyPort), '--host', readConfigPtyHost()], { allowFail: true });
+
   const pidInfo = run('pm2', ['pid', APP_NAME], { capture: true, allowFail: true });
   const pid = Number(pidInfo.stdout.trim()) || null;
 
   writeState({
     port,
+    ptyPort,
     pid,
     startedAt: new Date().toISOString(),
   });
@@ -140,6 +170,7 @@ async function start() {
 function stop() {
   run('pm2', ['stop', APP_NAME], { allowFail: true });
   run('pm2', ['delete', APP_NAME], { allowFail: true });
+  run('pm2', ['delete', PTY_APP_NAME], { allowFail: true });
   cleanupState();
   console.log('🛑 Clawtrol stopped');
 }
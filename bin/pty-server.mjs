@@ -0,0 +1,276 @@
+#!/usr/bin/env node
+
+// PTY sidecar for the Terminal module.
+//
+// Next.js route handlers can't upgrade to WebSockets, so interactive shells
+// live in this small companion process. The dashboard hands the browser a
+// short-lived signed ticket (POST /api/terminal/pty); the browser then
+// connects here with ws://host:<port>/?ticket=... Sessions are named and keep
+// running (with scrollback) when the page reloads, so the next connection
+// with the same name reattaches. Each ticket works once.
+
+import { createServer } from 'node:http';
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { WebSocketServer } from 'ws';
+import pty from 'node-pty';
+
+const KEY_FILE = join(homedir(), '.openclaw', 'control-center', 'pty-secret');
+const SCROLLBACK_CHARS = 200_000;
+const IDLE_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+const SESSION_NAME = /^[a-zA-Z0-9_-]{1,32}$/;
+
+function argValue(...flags) {
+  const args = process.argv.slice(2);
+  const i = args.findIndex((a) => flags.includes(a));
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+function parsePort() {
+  const p = Number(argValue('--port', '-p') ?? process.env.CLAWTROL_PTY_PORT);
+  return Number.isInteger(p) && p > 0 && p < 65536 ? p : 7683;
+}
+
+// Loopback unless told otherwise — a login shell shouldn't be one port scan away
+function parseHost() {
+  return argValue('--host', '-H') || process.env.CLAWTROL_PTY_HOST || '127.0.0.1';
+}
+
+// Same key file as src/lib/pty.ts — whoever starts first creates it
+function loadKey() {
+  if (process.env.CLAWTROL_PTY_SECRET) return Buffer.from(process.env.CLAWTROL_PTY_SECRET);
+  try {
+    const existing = readFileSync(KEY_FILE, 'utf8').trim();
+    if (existing) return Buffer.from(existing, 'hex');
+  } catch {}
+  const generated = randomBytes(32).toString('hex');
+  mkdirSync(dirname(KEY_FILE), { recursive: true });
+  try {
+    writeFileSync(KEY_FILE, generated, { mode: 0o600, flag: 'wx' });
+    return Buffer.from(generated, 'hex');
+  } catch {
+    return Buffer.from(readFileSync(KEY_FILE, 'utf8').trim(), 'hex');
+  }
+}
+
+const key = loadKey();
+
+/** Ticket id → expiry (ms), kept until the ticket would have expired anyway */
+const usedTickets = new Map();
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [jti, exp] of usedTickets) {
+    if (exp < now) usedTickets.delete(jti);
+  }
+}, 60_000).unref();
+
+function verifyTicket(token) {
+  const [body, signature] = String(token || '').split('.');
+  if (!body || !signature) return null;
+  const expected = Buffer.from(createHmac('sha256', key).update(body).digest('base64url'));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) return null;
+    if (typeof payload.jti !== 'string' || usedTickets.has(payload.jti)) return null;
+    usedTickets.set(payload.jti, payload.exp * 1000);
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// ── Sessions ─────────────────────────────────────────────────────────
+
+/** @type {Map<string, { id: string, name: string, owner: string, term: import('node-pty').IPty, scrollback: string, clients: Set<import('ws').WebSocket>, cols: number, rows: number, createdAt: number, lastActivity: number }>} */
+const sessions = new Map();
+
+const sessionId = (owner, name) => `${owner}/${name}`;
+
+function summarize(s) {
+  return {
+    name: s.name,
+    owner: s.owner,
+    pid: s.term.pid,
+    cols: s.cols,
+    rows: s.rows,
+    clients: s.clients.size,
+    createdAt: s.createdAt,
+    lastActivity: s.lastActivity,
+  };
+}
+
+function broadcast(s, message) {
+  const data = JSON.stringify(message);
+  for (const ws of s.clients) {
+    if (ws.readyState === ws.OPEN) ws.send(data);
+  }
+}
+
+function createSession(owner, name, cols, rows) {
+  const shell = process.env.SHELL || '/bin/bash';
+  const term = pty.spawn(shell, ['-l'], {
+    name: 'xterm-256color',
+    cols,
+    rows,
+    cwd: homedir(),
+    env: {
+      ...process.env,
+      PATH: `/opt/homebrew/bin:/usr/local/bin:/usr/bin:/bin:/usr/sbin:/sbin:${process.env.PATH}`,
+      TERM: 'xterm-256color',
+      COLORTERM: 'truecolor',
+      CLAWTROL_SESSION: name,
+    },
+  });
+
+  const s = {
+    id: sessionId(owner, name),
+    name,
+    owner,
+    term,
+    scrollback: '',
+    clients: new Set(),
+    cols,
+    rows,
+    createdAt: Date.now(),
+    lastActivity: Date.now(),
+  };
+
+  term.onData((data) => {
+    s.scrollback = (s.scrollback + data).slice(-SCROLLBACK_CHARS);
+    s.lastActivity = Date.now();
+    broadcast(s, { type: 'output', data });
+  });
+
+  term.onExit(({ exitCode, signal }) => {
+    broadcast(s, { type: 'exit', code: exitCode, signal });
+    for (const ws of s.clients) ws.close(1000, 'Session ended');
+    sessions.delete(s.id);
+    log(`session ${s.id} exited (${exitCode})`);
+  });
+
+  sessions.set(s.id, s);
+  log(`session ${s.id} started (pid ${term.pid})`);
+  return s;
+}
+
+function resize(s, cols, rows) {
+  if (!Number.isInteger(cols) || !Number.isInteger(rows) || cols < 2 || rows < 2) return;
+  if (cols === s.cols && rows === s.rows) return;
+  s.cols = Math.min(cols, 500);
+  s.rows = Math.min(rows, 200);
+  try {
+    s.term.resize(s.cols, s.rows);
+  } catch {}
+}
+
+// Shells nobody has looked at for a day are reaped
+setInterval(() => {
+  const now = Date.now();
+  for (const s of sessions.values()) {
+    if (s.clients.size === 0 && now - s.lastActivity > IDLE_TIMEOUT_MS) {
+      log(`session ${s.id} idle, killing`);
+      s.term.kill();
+    }
+  }
+}, 60_000).unref();
+
+function log(msg) {
+  console.log(`[pty] ${new Date().toISOString()} ${msg}`);
+}
+
+// ── HTTP (session management, called by the dashboard server) ────────
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  const auth = req.headers.authorization?.startsWith('Bearer ') ? req.headers.authorization.slice(7) : null;
+  const ticket = verifyTicket(auth);
+  if (!ticket || ticket.scope !== 'manage') return sendJson(res, 401, { error: 'Invalid ticket' });
+
+  const visible = [...sessions.values()].filter((s) => ticket.admin || s.owner === ticket.sub);
+
+  if (req.method === 'GET' && url.pathname === '/sessions') {
+    return sendJson(res, 200, { sessions: visible.map(summarize) });
+  }
+
+  const match = url.pathname.match(/^\/sessions\/([^/]+)$/);
+  if (req.method === 'DELETE' && match) {
+    const name = decodeURIComponent(match[1]);
+    const owner = url.searchParams.get('owner') || ticket.sub;
+    const s = visible.find((v) => v.name === name && v.owner === owner);
+    if (!s) return sendJson(res, 404, { error: 'Session not found' });
+    s.term.kill();
+    return sendJson(res, 200, { success: true });
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+// ── WebSocket (browser terminals) ────────────────────────────────────
+
+const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 * 1024 });
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url, 'http://localhost');
+  const ticket = verifyTicket(url.searchParams.get('ticket'));
+  if (!ticket || ticket.scope !== 'attach' || !SESSION_NAME.test(ticket.session || '')) {
+    socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, (ws) => attach(ws, ticket));
+});
+
+function attach(ws, ticket) {
+  const id = sessionId(ticket.sub, ticket.session);
+  const cols = Number(ticket.cols) || 80;
+  const rows = Number(ticket.rows) || 24;
+
+  let s = sessions.get(id);
+  const reattached = Boolean(s);
+  if (!s) s = createSession(ticket.sub, ticket.session, cols, rows);
+
+  s.clients.add(ws);
+  ws.send(JSON.stringify({ type: 'ready', session: summarize(s), reattached }));
+  if (s.scrollback) ws.send(JSON.stringify({ type: 'output', data: s.scrollback }));
+  resize(s, cols, rows);
+
+  ws.on('message', (raw) => {
+    let msg;
+    try {
+      msg = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (msg.type === 'input' && typeof msg.data === 'string') {
+      s.lastActivity = Date.now();
+      s.term.write(msg.data);
+    } else if (msg.type === 'resize') {
+      resize(s, msg.cols, msg.rows);
+    }
+  });
+
+  ws.on('close', () => {
+    s.clients.delete(ws);
+  });
+}
+
+const port = parsePort();
+const host = parseHost();
+server.listen(port, host, () => log(`listening on ${host}:${port}`));
+
+for (const sig of ['SIGINT', 'SIGTERM']) {
+  process.on(sig, () => {
+    for (const s of sessions.values()) s.term.kill();
+    process.exit(0);
+  });
+}
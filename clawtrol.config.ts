@@ -8,20 +8,24 @@ const config: ClawtrolConfig = {
   modules: [
     'overview',    // System info: CPU, RAM, disk, uptime, weather
     'screen',      // Remote screen viewer with click interaction
-    'terminal',    // Web terminal (ttyd PTY)
+    'terminal',    // Interactive PTY shells & command runner
     'files',       // File browser with read/zip
     'sessions',    // OpenClaw session viewer & chat
+    'costs',       // Daily spend by model and session
     'tasks',       // Kanban task board
     'memory',      // Memory/markdown file browser
     'cron',        // Cron job manager
     'logs',        // Gateway log viewer
     'network',     // Tailscale peers & processes
     'subagents',   // Sub-agent management
+    'audit',       // Audit log of mutating actions
+    'alerts',      // Threshold alerts & notification channels
   ],
 
   // Dashboard widget grid (shown on the Overview tab)
   widgets: [
     { module: 'overview', widget: 'system-stats', size: 'md' },
+    { module: 'overview', widget: 'system-history', size: 'lg' },
     { module: 'tasks', widget: 'kanban-summary', size: 'md' },
     { module: 'sessions', widget: 'active-sessions', size: 'md' },
     { module: 'memory', widget: 'recent-notes', size: 'md' },
@@ -53,6 +57,85 @@ const config: ClawtrolConfig = {
 
   // Dashboard port
   port: 4781,
+
+  // Terminal: PTY sidecar port and the policy for EXEC commands
+  // terminal: {
+  //   ptyPort: 7683,
+  //   ptyHost: '127.0.0.1',
+  //   ptyUrl: 'wss://dash.example.com/pty',
+  //   policy: {
+  //     deny: [{ pattern: /\bshutdown\b/, reason: 'No shutdowns from the dashboard' }],
+  //     allow: [{ pattern: /^(ls|cat|git|npm)\b/, roles: ['operator'] }],
+  //     confirm: [{ pattern: /git\s+push.*--force/, reason: 'Force push rewrites history' }],
+  //     jail: '~/projects',  // best-effort, not a sandbox — pair it with allow
+  //   },
+  // },
+
+  // Background sampler behind the system history charts (~/.openclaw/control-center/metrics.json)
+  // metrics: {
+  //   enabled: true,
+  //   interval: 15,  // seconds
+  // },
+
+  // Alert rules, evaluated on the server every 30s (defaults: gateway down, disk > 90%, cron failures)
+  // alerts: {
+  //   rules: [
+  //     { id: 'disk-full', name: 'Disk almost full', metric: 'disk', op: '>', value: 90, for: 300 },
+  //     { id: 'gateway-down', name: 'Gateway down', check: 'gateway-down', for: 60, severity: 'critical' },
+  //     { id: 'co2', name: 'Stuffy office', metric: 'co2', op: '>=', value: 1400, channels: ['browser'] },
+  //     { id: 'cron-failed', name: 'Cron job failed', check: 'cron-failed' },
+  //   ],
+  //   channels: [
+  //     { id: 'browser', type: 'browser' },
+  //     { id: 'hook', type: 'webhook', url: process.env.CLAWTROL_ALERT_WEBHOOK ?? '' },
+  //     { id: 'me', type: 'openclaw', target: 'telegram:me', severities: ['critical'] },
+  //   ],
+  // },
+
+  // Spending budgets — warn at `soft` (default 80%), act at `limit`; notifications use the alert channels
+  // budgets: {
+  //   rules: [
+  //     { id: 'daily', name: 'Daily spend', period: 'daily', limit: 25 },
+  //     { id: 'month', period: 'monthly', limit: 400, soft: 300, actions: ['notify', 'pause-cron'] },
+  //     { id: 'researcher', agent: 'researcher', period: 'daily', limit: 5, actions: ['clear-subagent-task'] },
+  //     { id: 'bookmarks', session: '*:topic:<topic-id>', period: 'monthly', limit: 20, channels: ['me'] },
+  //   ],
+  // },
+
+  // Screen backend — 'auto' uses macOS tools on darwin and X11 (xdotool + ImageMagick) elsewhere
+  // screen: {
+  //   backend: 'auto',
+  //   display: ':0',
+  //   xvfb: { enabled: true, display: ':99', size: '1920x1080', session: 'openbox' },  // headless Linux
+  // },
+
+  // Session names — first matching rule wins; rename, pin and archive from the Sessions tab
+  // sessions: {
+  //   labels: [
+  //     { match: 'agent:main:main', label: 'Main', emoji: '🏠' },
+  //     { match: '*:topic:<topic-id>', label: 'Bookmarks', emoji: '🔖', color: 'var(--accent-purple)' },
+  //     { match: /:telegram:group:(-?\d+):topic:(\d+)$/, label: 'Topic $2' },
+  //   ],
+  //   // Replies go out on the session's own channel; override per channel or with '*'
+  //   send: { adapters: { whatsapp: 'gateway' } },  // or { '*': 'file' } to write them to outbox.jsonl
+  // },
+
+  // Login for the dashboard and API (keep secrets in env vars — this file ships to the browser)
+  // auth: {
+  //   enabled: true,
+  //   users: [
+  //     { username: 'admin', passwordHash: process.env.CLAWTROL_PASSWORD_HASH ?? '' },  // npx clawtrol hash-password
+  //     { username: 'guest', passwordHash: process.env.GUEST_PASSWORD_HASH ?? '', role: 'viewer' },
+  //   ],
+  //   tokens: [
+  //     { name: 'agent', tokenHash: process.env.CLAWTROL_AGENT_TOKEN_HASH ?? '', role: 'operator' },  // npx clawtrol token agent
+  //   ],
+  //   // Modules per role: viewer | operator | admin
+  //   // roles: { viewer: ['overview', 'sessions', 'tasks'] },
+  //   sessionTtlHours: 168,
+  //   // Behind a reverse proxy on this machine: trust its X-Forwarded-For
+  //   // trustedProxies: ['127.0.0.1'],
+  // },
 };
 
 export default config;
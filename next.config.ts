@@ -2,7 +2,7 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   // CORS: If cross-origin access is needed, configure allowedOrigins in
-  // clawtrol.config.ts and use src/middleware.ts to set headers dynamically.
+  // clawtrol.config.ts and use src/proxy.ts to set headers dynamically.
 };
 
 export default nextConfig;
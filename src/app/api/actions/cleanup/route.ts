@@ -3,12 +3,13 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import os from 'os';
 import path from 'path';
+import { withAudit } from '@/lib/audit';
 
 const execAsync = promisify(exec);
 
 export const dynamic = 'force-dynamic';
 
-export async function POST() {
+async function handlePost() {
   try {
     const { stdout } = await execAsync(
       `${path.join(os.homedir(), 'projects', 'control-center', 'scripts', 'memory-cleanup.sh')} 90`,
@@ -20,3 +21,5 @@ export async function POST() {
     return NextResponse.json({ error: String(error) }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, () => ({ action: 'memory-cleanup' }));
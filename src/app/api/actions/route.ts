@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
 import os from 'os';
 import { execSafe, validateInput, SAFE_NAME } from '@/lib/security';
+import { getRequestUser } from '@/lib/auth';
+import { ACTION_ROLES, hasRole } from '@/lib/permissions';
+import { withAudit } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
@@ -13,7 +16,7 @@ const ALLOWED_ACTIONS = new Set([
   'openclaw-update',
 ]);
 
-export async function POST(request: Request) {
+async function handlePost(request: Request) {
   try {
     const { action, target } = await request.json();
 
@@ -21,6 +24,11 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
     }
 
+    const user = await getRequestUser(request);
+    if (!user || !hasRole(user.role, ACTION_ROLES[action])) {
+      return NextResponse.json({ error: `Requires the ${ACTION_ROLES[action]} role` }, { status: 403 });
+    }
+
     switch (action) {
       case 'pm2-restart': {
         const t = target ? validateInput(target, SAFE_NAME, 'target') : 'all';
@@ -61,3 +69,5 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: String(error) }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, (body) => ({ action: body.action, summary: [body.action, body.target].filter(Boolean).join(' ') }));
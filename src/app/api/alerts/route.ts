@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { withAudit } from '@/lib/audit';
+import { getBrowserEvents } from '@/lib/alert-channels';
+import {
+  acknowledgeAlert,
+  describeRule,
+  getAlertChannels,
+  getAlertRules,
+  getAlerts,
+  isAlertEngineRunning,
+  sendTestAlert,
+  silenceRule,
+} from '@/lib/alerts';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Alerts, rules and channels. `since` (ms) also returns browser-channel
+ * notifications newer than that, for AlertNotifier.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const since = parseInt(request.nextUrl.searchParams.get('since') || '') || Date.now();
+    const { alerts, silences } = await getAlerts();
+
+    return NextResponse.json({
+      alerts,
+      silences,
+      rules: getAlertRules().map(rule => ({
+        id: rule.id,
+        name: rule.name ?? rule.id,
+        severity: rule.severity ?? 'warning',
+        description: describeRule(rule),
+      })),
+      channels: getAlertChannels().map(c => ({ id: c.id, type: c.type })),
+      events: getBrowserEvents(since),
+      running: isAlertEngineRunning(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Alerts error:', error);
+    return NextResponse.json({ error: 'Failed to get alerts', alerts: [] }, { status: 500 });
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const { action, id, ruleId, minutes, channel } = await request.json();
+
+    switch (action) {
+      case 'ack': {
+        const user = await getRequestUser(request);
+        const alert = await acknowledgeAlert(id, user?.username ?? 'anonymous');
+        if (!alert) return NextResponse.json({ error: 'No firing alert with that id' }, { status: 404 });
+        return NextResponse.json({ success: true, alert });
+      }
+      case 'silence': {
+        if (!ruleId || !(minutes > 0)) {
+          return NextResponse.json({ error: 'ruleId and minutes required' }, { status: 400 });
+        }
+        const until = Date.now() + minutes * 60_000;
+        await silenceRule(ruleId, until);
+        return NextResponse.json({ success: true, until });
+      }
+      case 'unsilence': {
+        if (!ruleId) return NextResponse.json({ error: 'ruleId required' }, { status: 400 });
+        await silenceRule(ruleId, 0);
+        return NextResponse.json({ success: true });
+      }
+      case 'test': {
+        const failures = await sendTestAlert(channel || undefined);
+        return NextResponse.json({ success: failures.length === 0, failures });
+      }
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Alerts action error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Alert action failed' }, { status: 500 });
+  }
+}
+
+export const POST = withAudit(handlePost, (body, data) => ({
+  action: `alert-${body.action}`,
+  summary: body.action === 'ack'
+    ? `ack ${data?.alert?.name ?? body.id}`
+    : body.action === 'test'
+      ? `test ${body.channel ?? 'all channels'}`
+      : `${body.action} ${body.ruleId}${body.minutes ? ` for ${body.minutes}m` : ''}`,
+}));
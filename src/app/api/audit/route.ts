@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readAudit } from '@/lib/audit';
+import type { AuditResult } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+const RESULTS = new Set<AuditResult>(['ok', 'error', 'denied']);
+
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const n = Number(value);
+  if (!isNaN(n)) return n;
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const result = params.get('result') as AuditResult | null;
+    const limit = Math.min(Math.max(parseInt(params.get('limit') || '200') || 200, 1), 1000);
+
+    const { entries, total } = await readAudit({
+      user: params.get('user') || undefined,
+      route: params.get('route') || undefined,
+      action: params.get('action') || undefined,
+      result: result && RESULTS.has(result) ? result : undefined,
+      since: parseTime(params.get('since')),
+      until: parseTime(params.get('until')),
+      q: params.get('q') || undefined,
+      limit,
+    });
+
+    return NextResponse.json({ entries, total, timestamp: Date.now() });
+  } catch (error) {
+    console.error('Audit error:', error);
+    return NextResponse.json({ error: 'Failed to read audit log', entries: [] }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import {
+  SESSION_COOKIE,
+  authenticateUser,
+  createSessionToken,
+  getClientIp,
+  getSessionTtlSeconds,
+  isAuthEnabled,
+  sessionCookieOptions,
+} from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_FAILURES = 10;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// Enough for any real crowd of clients; a spray of addresses can't grow it further
+const MAX_TRACKED_IPS = 10_000;
+
+// Failed attempts per client IP (in-memory, resets on restart)
+const failures = new Map<string, { count: number; resetAt: number }>();
+
+function isLockedOut(ip: string): boolean {
+  const entry = failures.get(ip);
+  if (!entry) return false;
+  if (Date.now() > entry.resetAt) {
+    failures.delete(ip);
+    return false;
+  }
+  return entry.count >= MAX_FAILURES;
+}
+
+function recordFailure(ip: string) {
+  const now = Date.now();
+  const entry = failures.get(ip);
+  if (!entry || now > entry.resetAt) {
+    failures.delete(ip);
+    // Expired entries go first; if that isn't enough, the oldest ones
+    for (const [key, { resetAt }] of failures) {
+      if (now > resetAt) failures.delete(key);
+    }
+    while (failures.size >= MAX_TRACKED_IPS) failures.delete(failures.keys().next().value!);
+    failures.set(ip, { count: 1, resetAt: now + LOCKOUT_MS });
+  } else {
+    entry.count++;
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    if (!isAuthEnabled()) {
+      return NextResponse.json({ error: 'Authentication is not enabled' }, { status: 400 });
+    }
+
+    const ip = getClientIp(request);
+    if (isLockedOut(ip)) {
+      return NextResponse.json({ error: 'Too many failed attempts, try again later' }, { status: 429 });
+    }
+
+    const { username, password } = await request.json();
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return NextResponse.json({ error: 'Username and password required' }, { status: 400 });
+    }
+
+    const user = await authenticateUser(username, password);
+    if (!user) {
+      recordFailure(ip);
+      return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 });
+    }
+
+    failures.delete(ip);
+    const token = await createSessionToken(user.username);
+    const response = NextResponse.json({ success: true, user: { username: user.username } });
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(request, getSessionTtlSeconds()));
+    return response;
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json({ error: 'Login failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser, isAuthEnabled } from '@/lib/auth';
+import { getRoleModules } from '@/lib/permissions';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const user = await getRequestUser(request);
+  return NextResponse.json({
+    authEnabled: isAuthEnabled(),
+    user: user ? { username: user.username, via: user.via, role: user.role } : null,
+    modules: user ? getRoleModules(user.role) : [],
+    timestamp: Date.now(),
+  });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAudit } from '@/lib/audit';
+import { evaluateBudgets, getBudgetStatuses, isBudgetEngineRunning, resumeBudgetCron } from '@/lib/budgets';
+
+export const dynamic = 'force-dynamic';
+
+/** Spend against each configured budget for its current period */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      budgets: await getBudgetStatuses(),
+      running: isBudgetEngineRunning(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Budgets error:', error);
+    return NextResponse.json({ error: 'Failed to get budgets', budgets: [] }, { status: 500 });
+  }
+}
+
+/**
+ * Actions:
+ *   resume-cron { id }  re-enable the cron jobs a budget paused
+ *   evaluate            check every budget now instead of waiting for the engine
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const { action, id } = await request.json();
+
+    switch (action) {
+      case 'resume-cron': {
+        if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 });
+        const resumed = await resumeBudgetCron(id);
+        if (!resumed) return NextResponse.json({ error: 'That budget has no paused cron jobs' }, { status: 404 });
+        return NextResponse.json({ success: true, resumed });
+      }
+      case 'evaluate': {
+        await evaluateBudgets();
+        return NextResponse.json({ success: true, budgets: await getBudgetStatuses() });
+      }
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Budgets action error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Budget action failed' }, { status: 500 });
+  }
+}
+
+export const POST = withAudit(handlePost, (body, data) => ({
+  action: `budget-${body.action}`,
+  summary: body.action === 'resume-cron'
+    ? `resume ${data?.resumed?.length ?? 0} cron jobs paused by ${body.id}`
+    : 'evaluate budgets',
+}));
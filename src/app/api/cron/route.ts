@@ -3,6 +3,7 @@ import { readFile, writeFile } from 'fs/promises';
 import os from 'os';
 import path from 'path';
 import { execSafe, validateInput, ALPHANUM_DASH } from '@/lib/security';
+import { withAudit } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
@@ -23,7 +24,7 @@ export async function GET() {
   }
 }
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const { action, id } = await request.json();
     
@@ -75,3 +76,5 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Action failed' }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, (body) => ({ action: body.action, summary: `${body.action} ${body.id}` }));
@@ -1,41 +1,58 @@
 import { NextResponse } from 'next/server';
-import os from 'os';
-import path from 'path';
-import { execSafe, validateInput, NUMERIC } from '@/lib/security';
+import { validateInput, NUMERIC } from '@/lib/security';
+import { queryLogs } from '@/lib/log-tail';
+import { compileSearch, LOG_LEVELS, type LogLevel, type LogStream } from '@/lib/log-parse';
 
 export const dynamic = 'force-dynamic';
 
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const n = Number(value);
+  if (!isNaN(n)) return n;
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Parsed gateway log records, newest `lines` matches in time order.
+ * Query: lines (max 500), type (out | err | all), level (comma list),
+ * since / until (ms or ISO), q (search), regex=1 (treat q as a regex)
+ */
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
     const linesParam = searchParams.get('lines') || '100';
     const logType = searchParams.get('type') || 'all'; // 'out', 'err', 'all'
-    
+
     // Validate lines is numeric
     validateInput(linesParam, NUMERIC, 'lines');
-    const lines = Math.min(parseInt(linesParam), 500).toString();
-    
-    const logDir = path.join(os.homedir(), '.openclaw', 'logs');
-    let logs = '';
-
-    if (logType === 'err' || logType === 'all') {
-      try {
-        const { stdout } = await execSafe('tail', ['-n', lines, path.join(logDir, 'gateway.err.log')]);
-        if (logType === 'all') logs += '=== STDERR ===\n';
-        logs += stdout;
-      } catch {}
-    }
+    const lines = Math.min(parseInt(linesParam), 500);
+
+    const levelParam = searchParams.get('level');
+    const levels = levelParam
+      ? levelParam.split(',').map(l => l.trim().toLowerCase()).filter((l): l is LogLevel => (LOG_LEVELS as readonly string[]).includes(l))
+      : undefined;
 
-    if (logType === 'out' || logType === 'all') {
-      try {
-        const { stdout } = await execSafe('tail', ['-n', lines, path.join(logDir, 'gateway.log')]);
-        if (logType === 'all') logs += '\n=== STDOUT ===\n';
-        logs += stdout;
-      } catch {}
+    let search: RegExp | null;
+    try {
+      search = compileSearch(searchParams.get('q') || '', searchParams.get('regex') === '1');
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid regular expression' }, { status: 400 });
     }
 
+    // Same order as before: stderr first
+    const streams = (['err', 'out'] as LogStream[]).filter(s => logType === 'all' || logType === s);
+    const { records, scanned } = await queryLogs(streams, {
+      levels,
+      since: parseTime(searchParams.get('since')),
+      until: parseTime(searchParams.get('until')),
+      search,
+    }, lines);
+
     return NextResponse.json({
-      logs: logs || 'No logs found',
+      records,
+      logs: records.length > 0 ? records.map(r => r.raw).join('\n') : 'No logs found',
+      scanned,
       timestamp: Date.now(),
     });
   } catch (error) {
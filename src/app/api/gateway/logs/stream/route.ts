@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { stat } from 'fs/promises';
+import { createSSEResponse } from '@/lib/sse';
+import { followFile, GATEWAY_LOGS, readLastLines } from '@/lib/log-tail';
+import { parseLogLines, type LogRecord, type LogStream } from '@/lib/log-parse';
+import { validateInput, NUMERIC } from '@/lib/security';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from timing out an idle stream
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Follow the gateway logs as Server-Sent Events:
+ *   records   { stream, records, initial? } (initial = backlog sent on connect)
+ *   reset     { stream }                    (file truncated or rotated)
+ *   heartbeat { t }
+ *
+ * Query: lines (backlog per file, max 500), type (out | err | all)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const linesParam = searchParams.get('lines') || '100';
+    const logType = searchParams.get('type') || 'all';
+
+    validateInput(linesParam, NUMERIC, 'lines');
+    const backlog = Math.min(parseInt(linesParam), 500);
+
+    // Same order as the polling endpoint: stderr first
+    const streams = (['err', 'out'] as LogStream[]).filter(s => logType === 'all' || logType === s);
+
+    // Snapshot each file's size now so the backlog and the follow pick up at the same byte
+    const initial = await Promise.all(streams.map(async (stream) => {
+      const size = await stat(GATEWAY_LOGS[stream]).then(s => s.size).catch(() => 0);
+      const lines = await readLastLines(GATEWAY_LOGS[stream], backlog, size).catch(() => []);
+      return { stream, size, lines };
+    }));
+
+    return createSSEResponse(request, (channel) => {
+      // Last record per stream, so stack traces split across polls stay attached
+      const previous: Partial<Record<LogStream, LogRecord | null>> = {};
+
+      for (const { stream, lines } of initial) {
+        const records = parseLogLines(lines, stream);
+        previous[stream] = records[records.length - 1] ?? null;
+        channel.send('records', { stream, records, initial: true });
+      }
+
+      const stops = initial.map(({ stream, size }) => followFile(GATEWAY_LOGS[stream], size, {
+        onLines: (lines) => {
+          const records = parseLogLines(lines, stream, previous[stream]);
+          previous[stream] = records[records.length - 1];
+          channel.send('records', { stream, records });
+        },
+        onReset: () => {
+          previous[stream] = null;
+          channel.send('reset', { stream });
+        },
+      }));
+
+      const heartbeat = setInterval(() => channel.send('heartbeat', { t: Date.now() }), HEARTBEAT_MS);
+
+      return () => {
+        clearInterval(heartbeat);
+        stops.forEach(stop => stop());
+      };
+    });
+  } catch (error) {
+    console.error('Gateway log stream error:', error);
+    return NextResponse.json({ error: 'Failed to stream gateway logs' }, { status: 500 });
+  }
+}
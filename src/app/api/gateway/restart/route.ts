@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
 import { execSafe } from '@/lib/security';
+import { withAudit } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
-export async function POST() {
+async function handlePost() {
   try {
     // Kill the gateway process and let the watchdog/launchd restart it
     await execSafe('pkill', ['-f', 'openclaw-gateway'], { timeout: 10000 }).catch(() => {});
@@ -14,3 +15,5 @@ export async function POST() {
     return NextResponse.json({ error: 'Failed to restart gateway' }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, () => ({ action: 'restart', summary: 'Gateway restart' }));
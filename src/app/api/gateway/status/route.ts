@@ -4,6 +4,7 @@ import { promisify } from 'util';
 import { readFile } from 'fs/promises';
 import os from 'os';
 import path from 'path';
+import { getGatewayProcess } from '@/lib/system';
 
 const execAsync = promisify(exec);
 
@@ -12,23 +13,11 @@ export const dynamic = 'force-dynamic';
 export async function GET() {
   try {
     // Check if openclaw-gateway process is running (it's standalone, not PM2)
-    let running = false;
-    let pid: string | null = null;
-    let memory = 0;
-    let cpuUsage = 0;
-
-    try {
-      const { stdout } = await execAsync("ps -eo pid,rss,%cpu,comm | grep 'openclaw-gateway' | grep -v grep");
-      const parts = stdout.trim().split(/\s+/);
-      if (parts.length >= 3) {
-        pid = parts[0];
-        memory = parseInt(parts[1]) * 1024; // RSS is in KB, convert to bytes
-        cpuUsage = parseFloat(parts[2]);
-        running = true;
-      }
-    } catch {
-      // Process not found
-    }
+    const gateway = await getGatewayProcess();
+    const running = gateway !== null;
+    const pid = gateway?.pid ?? null;
+    const memory = gateway?.memory ?? 0;
+    const cpuUsage = gateway?.cpu ?? 0;
 
     // Get uptime from process start time
     let uptime = 0;
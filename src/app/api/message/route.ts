@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
-import { execSafe } from '@/lib/security';
+import { sendOpenclawMessage } from '@/lib/openclaw';
+import { withAudit } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: Request) {
+async function handlePost(request: Request) {
   try {
     const { message, target } = await request.json();
     
@@ -11,14 +12,7 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Message required' }, { status: 400 });
     }
 
-    // Send via openclaw CLI — using execFile (no shell interpolation)
-    const args = ['send'];
-    if (target) {
-      args.push('--to', target);
-    }
-    args.push(message);
-    
-    await execSafe('openclaw', args);
+    await sendOpenclawMessage(message, target);
     
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -26,3 +20,5 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Failed to send message' }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, (body) => ({ action: 'send', summary: `${body.target ?? 'default'}: ${String(body.message ?? '').slice(0, 80)}` }));
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getMetrics, METRIC_WINDOWS } from '@/lib/metrics';
+import type { MetricWindow } from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Recorded system stats for a window.
+ * Query: window (1h | 24h | 7d, default 1h), points (downsample to at most this many)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const window = (searchParams.get('window') || '1h') as MetricWindow;
+    if (!(window in METRIC_WINDOWS)) {
+      return NextResponse.json({ error: `Unknown window: ${window}` }, { status: 400 });
+    }
+    const points = parseInt(searchParams.get('points') || '') || undefined;
+
+    const { step, samples, running } = getMetrics(window, points);
+    return NextResponse.json({ window, step, samples, running, timestamp: Date.now() });
+  } catch (error) {
+    console.error('Metrics error:', error);
+    return NextResponse.json({ error: 'Failed to get metrics' }, { status: 500 });
+  }
+}
@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
 import { execSafe, validateInput, NUMERIC } from '@/lib/security';
+import { withAudit } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: Request) {
+async function handlePost(request: Request) {
   try {
     const { pid, signal = 'TERM' } = await request.json();
 
@@ -20,12 +21,22 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Cannot kill system processes' }, { status: 400 });
     }
 
+    // Capture the command name first so the audit log says what was killed
+    const processName = await execSafe('ps', ['-p', safePid, '-o', 'comm='], { timeout: 5000 })
+      .then(({ stdout }) => stdout.trim())
+      .catch(() => '');
+
     const sig = signal === 'KILL' ? '-9' : '-15';
     await execSafe('kill', [sig, safePid], { timeout: 5000 });
 
-    return NextResponse.json({ success: true, message: `Sent ${signal} to PID ${pid}` });
+    return NextResponse.json({ success: true, message: `Sent ${signal} to PID ${pid}`, process: processName || undefined });
   } catch (error) {
     console.error('Kill process error:', error);
     return NextResponse.json({ error: String(error) }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, (body, data) => ({
+  action: 'kill',
+  summary: `${body.signal ?? 'TERM'} → PID ${body.pid}${data.process ? ` (${data.process})` : ''}`,
+}));
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAudit } from '@/lib/audit';
+import {
+  cancelMacroRun,
+  deleteMacro,
+  findMacro,
+  findMacroRun,
+  getLastMacroRun,
+  getMacroRun,
+  listMacros,
+  planMacro,
+  saveMacro,
+  startMacroRun,
+} from '@/lib/screen-macros';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Macros and the current run; ?run=<id> for one run's progress and outcome
+export async function GET(request: NextRequest) {
+  try {
+    const runId = request.nextUrl.searchParams.get('run');
+    if (runId) {
+      const run = findMacroRun(runId);
+      if (!run) return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+      return NextResponse.json({ run, timestamp: Date.now() });
+    }
+    return NextResponse.json({
+      macros: await listMacros(),
+      running: getMacroRun(),
+      lastRun: getLastMacroRun(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Screen macros error:', error);
+    return NextResponse.json({ error: 'Failed to list macros', macros: [] }, { status: 500 });
+  }
+}
+
+/**
+ * Actions:
+ *   save   { macro: { id?, name, description?, steps } }
+ *   delete { id }
+ *   run    { id | name, dryRun? } — starts the macro and returns its run (poll GET ?run=<id>); dryRun only returns the click points
+ *   stop   {}
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const { action, id, name, macro, dryRun } = await request.json();
+
+    switch (action) {
+      case 'save': {
+        try {
+          const saved = await saveMacro(macro ?? {});
+          return NextResponse.json({ success: true, macro: saved });
+        } catch (err) {
+          return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid macro' }, { status: 400 });
+        }
+      }
+      case 'delete': {
+        if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 });
+        if (!(await deleteMacro(id))) return NextResponse.json({ error: 'Macro not found' }, { status: 404 });
+        return NextResponse.json({ success: true });
+      }
+      case 'run': {
+        const target = await findMacro(String(id ?? name ?? ''));
+        if (!target) return NextResponse.json({ error: 'Macro not found' }, { status: 404 });
+        if (dryRun) {
+          return NextResponse.json({ success: true, dryRun: true, macro: target.name, points: planMacro(target) });
+        }
+        if (getMacroRun()) return NextResponse.json({ error: 'Another macro is running' }, { status: 409 });
+        const run = startMacroRun(target);
+        return NextResponse.json({ success: true, macro: target.name, run });
+      }
+      case 'stop': {
+        if (!cancelMacroRun()) return NextResponse.json({ error: 'No macro is running' }, { status: 404 });
+        return NextResponse.json({ success: true });
+      }
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Screen macro action error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Macro action failed' }, { status: 500 });
+  }
+}
+
+export const POST = withAudit(handlePost, (body, data) => ({
+  action: `macro-${body.action}${body.dryRun ? '-dry' : ''}`,
+  summary: body.action === 'save'
+    ? `Saved macro ${body.macro?.name ?? ''}`
+    : body.action === 'run'
+      ? `${body.dryRun ? 'Dry-ran' : 'Ran'} macro ${data.macro ?? body.name ?? body.id}`
+      : `${body.action} macro ${body.id ?? ''}`.trim(),
+  // Steps may type passwords — log only their count
+  payload: body.macro
+    ? { ...body, macro: { ...body.macro, steps: `[${Array.isArray(body.macro.steps) ? body.macro.steps.length : 0} steps]` } }
+    : body,
+}));
@@ -0,0 +1,49 @@
+import { getScreenBackend } from '@/lib/screen';
+import { parseStreamOptions } from '@/lib/screen-stream';
+
+export const dynamic = 'force-dynamic';
+
+const BOUNDARY = 'clawtrolframe';
+
+/**
+ * Live screen as multipart/x-mixed-replace, for a plain <img src>.
+ * Same query as /api/screen/stream. Frames are captured on pull, so a slow
+ * client lowers the frame rate instead of growing a buffer.
+ */
+export async function GET(request: Request) {
+  const { fps, quality, width } = parseStreamOptions(new URL(request.url).searchParams);
+  const backend = getScreenBackend();
+  const encoder = new TextEncoder();
+  const interval = 1000 / fps;
+  let last = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const wait = last + interval - Date.now();
+      if (wait > 0) await new Promise(r => setTimeout(r, wait));
+      if (request.signal.aborted) return;
+      last = Date.now();
+
+      try {
+        const jpeg = await backend.capture({ width, quality });
+        controller.enqueue(encoder.encode(
+          `--${BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${jpeg.length}\r\n\r\n`,
+        ));
+        controller.enqueue(new Uint8Array(jpeg));
+        controller.enqueue(encoder.encode('\r\n'));
+      } catch (error) {
+        console.error('Screen MJPEG error:', error);
+        controller.error(error);
+      }
+    },
+  }, { highWaterMark: 0 });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': `multipart/x-mixed-replace; boundary=${BOUNDARY}`,
+      'Cache-Control': 'no-cache, no-store',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readRecordingFrame, RECORDING_ID } from '@/lib/screen-recorder';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * One JPEG frame of a recording: ?id=<recording>&file=000001.jpg
+ */
+export async function GET(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id') || '';
+  const file = request.nextUrl.searchParams.get('file') || '';
+  if (!RECORDING_ID.test(id)) return NextResponse.json({ error: 'Invalid recording id' }, { status: 400 });
+
+  const frame = await readRecordingFrame(id, file);
+  if (!frame) return NextResponse.json({ error: 'Frame not found' }, { status: 404 });
+
+  return new Response(new Uint8Array(frame), {
+    headers: {
+      'Content-Type': 'image/jpeg',
+      // Frames never change once written
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    },
+  });
+}
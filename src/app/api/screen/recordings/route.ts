@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { withAudit } from '@/lib/audit';
+import {
+  deleteRecording,
+  getActiveRecording,
+  getRecording,
+  listRecordings,
+  RECORDING_ID,
+  startRecording,
+  stopRecording,
+} from '@/lib/screen-recorder';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Without `id`: every recording (summaries) plus the one running, if any.
+ * With `id`: that recording's frames and click/type events.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (id) {
+      if (!RECORDING_ID.test(id)) return NextResponse.json({ error: 'Invalid recording id' }, { status: 400 });
+      const recording = await getRecording(id);
+      if (!recording) return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+      return NextResponse.json({ recording });
+    }
+
+    return NextResponse.json({
+      recordings: await listRecordings(),
+      active: getActiveRecording(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Screen recordings error:', error);
+    return NextResponse.json({ error: 'Failed to list recordings', recordings: [] }, { status: 500 });
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const { action, id, name, interval, maxMinutes } = await request.json();
+
+    switch (action) {
+      case 'start': {
+        if (getActiveRecording()) return NextResponse.json({ error: 'A recording is already running' }, { status: 409 });
+        const user = await getRequestUser(request);
+        const recording = await startRecording({
+          name: typeof name === 'string' ? name : undefined,
+          interval: Number(interval) || undefined,
+          maxMinutes: Number(maxMinutes) || undefined,
+          owner: user?.username ?? 'anonymous',
+        });
+        return NextResponse.json({ success: true, recording });
+      }
+      case 'stop': {
+        const recording = await stopRecording();
+        if (!recording) return NextResponse.json({ error: 'No recording is running' }, { status: 404 });
+        return NextResponse.json({ success: true, recording });
+      }
+      case 'delete': {
+        if (typeof id !== 'string' || !RECORDING_ID.test(id)) {
+          return NextResponse.json({ error: 'Invalid recording id' }, { status: 400 });
+        }
+        if (!(await deleteRecording(id))) return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+        return NextResponse.json({ success: true });
+      }
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Screen recording action error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Recording action failed' }, { status: 500 });
+  }
+}
+
+export const POST = withAudit(handlePost, (body, data) => ({
+  action: `recording-${body.action}`,
+  summary: body.action === 'delete'
+    ? `Deleted recording ${body.id}`
+    : `${body.action === 'start' ? 'Started' : 'Stopped'} recording ${data.recording?.name ?? ''}`.trim(),
+}));
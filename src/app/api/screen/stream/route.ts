@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { createSSEResponse } from '@/lib/sse';
+import { getScreenBackend } from '@/lib/screen';
+import { FrameDiffer, parseStreamOptions } from '@/lib/screen-stream';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from timing out while the screen is static
+const HEARTBEAT_MS = 15000;
+// Slow down after capture failures instead of hammering a broken backend
+const ERROR_BACKOFF_MS = 5000;
+
+/**
+ * Live screen as Server-Sent Events:
+ *   info      { backend, screenDims, fps, quality, width }
+ *   frame     StreamFrame (keyframe, or patches for the regions that changed)
+ *   error     { error }
+ *   heartbeat { t }
+ *
+ * Query: fps (0.2–10, default 2), quality (20–90, default 60), width (320–1920, default 1280)
+ *
+ * One capture is in flight at a time, and ticks are skipped while the client
+ * still has unread frames queued.
+ */
+export async function GET(request: Request) {
+  const options = parseStreamOptions(new URL(request.url).searchParams);
+  const backend = getScreenBackend();
+  let screenDims;
+  try {
+    screenDims = await backend.dimensions();
+  } catch (error) {
+    console.error('Screen stream error:', error);
+    return NextResponse.json({
+      error: 'Failed to open screen stream',
+      detail: error instanceof Error ? error.message : String(error),
+      backend: backend.name,
+    }, { status: 500 });
+  }
+  const differ = new FrameDiffer(options.quality);
+  const interval = 1000 / options.fps;
+
+  return createSSEResponse(request, (channel) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    channel.send('info', { backend: backend.name, screenDims, ...options });
+
+    const tick = async () => {
+      const started = Date.now();
+      let delay = interval;
+      if (!channel.backedUp) {
+        try {
+          const jpeg = await backend.capture({ width: options.width, quality: options.quality });
+          const frame = await differ.next(jpeg);
+          if (frame) channel.send('frame', frame);
+        } catch (error) {
+          channel.send('error', { error: error instanceof Error ? error.message : String(error) });
+          delay = ERROR_BACKOFF_MS;
+        }
+      }
+      if (!channel.closed) timer = setTimeout(tick, Math.max(0, delay - (Date.now() - started)));
+    };
+    tick();
+
+    const heartbeat = setInterval(() => channel.send('heartbeat', { t: Date.now() }), HEARTBEAT_MS);
+
+    return () => {
+      clearTimeout(timer);
+      clearInterval(heartbeat);
+    };
+  });
+}
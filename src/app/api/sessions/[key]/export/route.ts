@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findSession } from '@/lib/sessions';
+import { getSessionLabeler } from '@/lib/session-labels';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  readRange,
+  toHtml,
+  toJson,
+  toMarkdown,
+  type ExportFormat,
+  type ExportMeta,
+} from '@/lib/session-export';
+
+export const dynamic = 'force-dynamic';
+
+const RENDERERS = { md: toMarkdown, html: toHtml, json: toJson };
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ key: string }> }
+) {
+  const { key: rawKey } = await context.params;
+  const key = decodeURIComponent(rawKey);
+  const params = request.nextUrl.searchParams;
+
+  const format = (params.get('format') || 'md') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `Unknown format: ${format}` }, { status: 400 });
+  }
+
+  try {
+    const found = await findSession(key, params.get('agent') || undefined);
+    if (!found?.file) {
+      return NextResponse.json({ error: 'Session not found', key }, { status: 404 });
+    }
+
+    const messages = await readRange(found.file, params.get('from') || undefined, params.get('to') || undefined);
+    if (!messages) {
+      return NextResponse.json({ error: 'Range not found in transcript' }, { status: 404 });
+    }
+
+    const meta: ExportMeta = {
+      key,
+      label: found.orphan ? `Transcript ${key.slice(0, 8)}` : (await getSessionLabeler())(key).label,
+      model: (found.session.model || found.session.modelProvider || null) as string | null,
+      exportedAt: new Date().toISOString(),
+    };
+
+    // Header values must stay ASCII
+    const slug = meta.label.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'session';
+    return new Response(RENDERERS[format](meta, messages), {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${slug}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Session export error:', error);
+    return NextResponse.json({ error: 'Failed to export session' }, { status: 500 });
+  }
+}
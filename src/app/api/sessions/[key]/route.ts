@@ -1,67 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { readFile } from 'fs/promises';
-import os from 'os';
-import path from 'path';
+import { stat } from 'fs/promises';
+import { cursorFor, findSession, readTranscriptWindow, type TranscriptWindowMode } from '@/lib/sessions';
 
 export const dynamic = 'force-dynamic';
 
-const SESSIONS_INDEX = path.join(os.homedir(), '.openclaw', 'agents', 'main', 'sessions', 'sessions.json');
-const SESSIONS_DIR = path.join(os.homedir(), '.openclaw', 'agents', 'main', 'sessions');
-
-interface SessionMessage {
-  role: string;
-  text: string;
-  timestamp: string;
-  id?: string;
-}
-
-function extractTextFromContent(content: unknown): string {
-  if (typeof content === 'string') return content;
-  if (Array.isArray(content)) {
-    return content
-      .filter((p: Record<string, unknown>) => p.type === 'text' && p.text)
-      .map((p: Record<string, unknown>) => p.text as string)
-      .join(' ');
-  }
-  return '';
-}
-
-async function getMessages(sessionFile: string, limit: number): Promise<{ messages: SessionMessage[]; totalMessages: number }> {
-  try {
-    const data = await readFile(sessionFile, 'utf-8');
-    const lines = data.trim().split('\n').filter(Boolean);
-    const allMessages: SessionMessage[] = [];
-
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line);
-        if (parsed.type === 'message' && parsed.message) {
-          const { role, content } = parsed.message;
-          if (role === 'user' || role === 'assistant') {
-            const text = extractTextFromContent(content);
-            if (text) {
-              allMessages.push({
-                role,
-                text,
-                timestamp: parsed.timestamp || '',
-                id: parsed.id || undefined,
-              });
-            }
-          }
-        }
-      } catch {
-        // Skip unparseable lines
-      }
-    }
-
-    const totalMessages = allMessages.length;
-    const messages = allMessages.slice(-limit);
-
-    return { messages, totalMessages };
-  } catch {
-    return { messages: [], totalMessages: 0 };
-  }
-}
+const MAX_LIMIT = 200;
 
 export async function GET(
   request: NextRequest,
@@ -72,47 +15,52 @@ export async function GET(
     // Decode the key (it may be URL-encoded, e.g., agent%3Amain%3Amain)
     const key = decodeURIComponent(rawKey);
 
-    const limitParam = request.nextUrl.searchParams.get('limit');
-    const limit = Math.min(Math.max(parseInt(limitParam || '20', 10), 1), 100);
+    const params = request.nextUrl.searchParams;
+    const limit = Math.min(Math.max(parseInt(params.get('limit') || '20', 10) || 20, 1), MAX_LIMIT);
+    const mode: TranscriptWindowMode = params.has('before') ? 'before'
+      : params.has('after') ? 'after'
+      : params.has('around') ? 'around'
+      : 'tail';
+    const cursor = mode === 'tail' ? null : params.get(mode);
 
-    // Read sessions index to find the session
-    const raw = await readFile(SESSIONS_INDEX, 'utf-8');
-    const sessionsMap: Record<string, Record<string, unknown>> = JSON.parse(raw);
-
-    const session = sessionsMap[key];
-    if (!session) {
+    const found = await findSession(key, params.get('agent') || undefined);
+    if (!found) {
       return NextResponse.json({ error: 'Session not found', key }, { status: 404 });
     }
+    const { session, file: sessionFile } = found;
 
-    // Support sessionFile (full path), transcriptPath (filename), or derive from sessionId
-    const sessionFile = (session.sessionFile as string) 
-      || (session.transcriptPath as string)
-      || (session.sessionId ? `${session.sessionId}.jsonl` : null);
     const updatedAt = session.updatedAt as number;
-
-    let messages: SessionMessage[] = [];
-    let totalMessages = 0;
-
-    if (sessionFile && sessionFile !== 'N/A') {
-      // Resolve to full path if it's just a filename
-      const resolvedFile = sessionFile.startsWith('/') 
-        ? sessionFile 
-        : `${SESSIONS_DIR}/${sessionFile}`;
-      const result = await getMessages(resolvedFile, limit);
-      messages = result.messages;
-      totalMessages = result.totalMessages;
+    const exists = sessionFile ? await stat(sessionFile).then(() => true, () => false) : false;
+    let page = exists ? await readTranscriptWindow(sessionFile!, mode, cursor, limit) : { messages: [], total: 0, focus: null };
+    if (!page) {
+      // A stale deep link still opens the conversation, just at the end
+      if (mode !== 'around') {
+        return NextResponse.json({ error: 'Message not found', cursor }, { status: 404 });
+      }
+      page = await readTranscriptWindow(sessionFile!, 'tail', null, limit);
     }
+    const { messages, total, focus } = page!;
+    const first = messages[0];
+    const last = messages[messages.length - 1];
 
     return NextResponse.json({
       key,
+      agent: found.agent,
       sessionId: session.sessionId || null,
       chatType: session.chatType || null,
       model: session.model || session.modelProvider || null,
       updatedAt,
       lastActivity: new Date(updatedAt).toISOString(),
       isActive: Date.now() - updatedAt < 10 * 60 * 1000,
-      totalMessages,
+      totalMessages: total,
       messages,
+      offset: first?.index ?? total,
+      focus,
+      // Pass back as ?before= / ?after= to page through the transcript
+      cursors: {
+        before: first && first.index > 0 ? cursorFor(first) : null,
+        after: last && last.index < total - 1 ? cursorFor(last) : null,
+      },
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { createSSEResponse } from '@/lib/sse';
+import { subscribeSessionEvents } from '@/lib/session-watcher';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from timing out an idle stream
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Live session activity as Server-Sent Events:
+ *   new-message     { agent, key, messages, total }  (total = messages in the transcript)
+ *   session-updated { agent, key, updatedAt }        (sessions.json entry changed)
+ *   reset           { agent, key }                   (transcript truncated or replaced)
+ *   resync          {}                               (events were dropped — refetch)
+ *   heartbeat       { t }
+ *
+ * Query: agent (only that agent's sessions)
+ */
+export async function GET(request: NextRequest) {
+  const agent = request.nextUrl.searchParams.get('agent');
+
+  return createSSEResponse(request, (channel) => {
+    // A client that can't keep up gets one resync instead of a growing queue
+    let dropped = false;
+
+    const unsubscribe = subscribeSessionEvents((event) => {
+      if (agent && event.agent !== agent) return;
+      if (channel.backedUp) {
+        dropped = true;
+        return;
+      }
+      if (dropped) {
+        dropped = false;
+        channel.send('resync', {});
+      }
+      channel.send(event.type, event);
+    });
+
+    const heartbeat = setInterval(() => channel.send('heartbeat', { t: Date.now() }), HEARTBEAT_MS);
+
+    return () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+  });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAudit } from '@/lib/audit';
+import { describeLabelRules, loadLabelOverrides, resetSessionLabel, updateSessionLabel } from '@/lib/session-labels';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      labels: await loadLabelOverrides(),
+      rules: describeLabelRules(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Session labels error:', error);
+    return NextResponse.json({ error: 'Failed to load labels', labels: {} }, { status: 500 });
+  }
+}
+
+/**
+ * Actions:
+ *   set   { key, label?, emoji?, color?, pinned?, archived? } — omitted fields are kept, null or '' clears
+ *   reset { key } — drop every edit and fall back to config rules
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const { action, key, label, emoji, color, pinned, archived } = await request.json();
+    if (!key || typeof key !== 'string') return NextResponse.json({ error: 'key required' }, { status: 400 });
+
+    switch (action) {
+      case 'set': {
+        try {
+          const override = await updateSessionLabel(key, { label, emoji, color, pinned, archived });
+          return NextResponse.json({ success: true, override });
+        } catch (err) {
+          return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid label' }, { status: 400 });
+        }
+      }
+      case 'reset': {
+        if (!(await resetSessionLabel(key))) return NextResponse.json({ error: 'No saved label for this session' }, { status: 404 });
+        return NextResponse.json({ success: true });
+      }
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Session label action error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Label action failed' }, { status: 500 });
+  }
+}
+
+export const POST = withAudit(handlePost, body => ({
+  action: `session-label-${body.action}`,
+  summary: body.action === 'reset'
+    ? `Reset label for ${body.key}`
+    : `Updated label for ${body.key}${body.label ? ` → ${body.label}` : ''}`,
+}));
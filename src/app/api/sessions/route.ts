@@ -1,89 +1,30 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { readFile, readdir, stat } from 'fs/promises';
 import { join } from 'path';
-import os from 'os';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import {
+  DEFAULT_AGENT,
+  agentFromKey,
+  extractTextFromContent,
+  getSessionKind,
+  listAgents,
+  readSessionsIndex,
+  resolveSessionFile,
+  sessionsDir,
+} from '@/lib/sessions';
+import { getSessionLabeler } from '@/lib/session-labels';
 
 const execAsync = promisify(exec);
 
 export const dynamic = 'force-dynamic';
 
-const SESSIONS_INDEX = join(os.homedir(), '.openclaw', 'agents', 'main', 'sessions', 'sessions.json');
-const SESSIONS_DIR = join(os.homedir(), '.openclaw', 'agents', 'main', 'sessions');
-
-// Topic name mapping for friendly labels
-const TOPIC_NAMES: Record<string, string> = {
-  '1369': '🔖 Bookmarks',
-  '13': '🌴 Bali Trip',
-  '14': '💰 Expenses',
-  '60': '🐦 Bird (Twitter)',
-  '59': '📬 Daily Briefing',
-  '342': '🚨 Alerts',
-  '12': '💼 Work',
-  '1503': '🔬 Prototyping',
-  '1819': '🇷🇺 Russian',
-  '2145': '💡 Ideas',
-  '3414': '🧠 Brain Dump',
-  '2841': '🧠 Trivia',
-  '2217': '🎤 Standup',
-  '2154': '📝 Content Ideas',
-  '2966': '🏃 Health',
-  '4213': '🔧 Fontanero',
-  '4575': '💪 Stronks',
-  '83': '🛠️ Dev / Control Center',
-  '1': '💬 General',
-};
-
 interface SessionMessage {
   role: string;
   text: string;
   timestamp: string;
 }
 
-function getSessionKind(key: string): string {
-  if (key.includes(':subagent:')) return 'subagent';
-  if (key === 'agent:main:main') return 'main';
-  if (key.includes(':telegram:')) return 'telegram';
-  return 'channel';
-}
-
-function getSessionLabel(key: string, origin?: Record<string, string>): string {
-  if (key === 'agent:main:main') return 'Main Session (DM)';
-
-  // Subagent
-  if (key.includes(':subagent:')) {
-    const uuid = key.split(':subagent:')[1] || '';
-    return `Subagent ${uuid.slice(0, 8)}`;
-  }
-
-  // Telegram topic
-  const topicMatch = key.match(/:topic:(\d+)$/);
-  if (topicMatch) {
-    const topicId = topicMatch[1];
-    return TOPIC_NAMES[topicId] || `Topic ${topicId}`;
-  }
-
-  // Telegram group without topic
-  if (key.includes(':telegram:group:')) {
-    const groupId = key.match(/:group:(-?\d+)/)?.[1] || '';
-    return `Group ${groupId}`;
-  }
-
-  return origin?.label || key.split(':').pop() || key;
-}
-
-function extractTextFromContent(content: unknown): string {
-  if (typeof content === 'string') return content;
-  if (Array.isArray(content)) {
-    return content
-      .filter((p: Record<string, unknown>) => p.type === 'text' && p.text)
-      .map((p: Record<string, unknown>) => p.text as string)
-      .join(' ');
-  }
-  return '';
-}
-
 async function getLastMessages(sessionFile: string, count: number): Promise<SessionMessage[]> {
   try {
     const data = await readFile(sessionFile, 'utf-8');
@@ -139,19 +80,15 @@ async function getMessageCount(sessionFile: string): Promise<number> {
   }
 }
 
-async function readSessionsFromIndex() {
-  const raw = await readFile(SESSIONS_INDEX, 'utf-8');
-  const sessionsMap: Record<string, Record<string, unknown>> = JSON.parse(raw);
+async function readSessionsFromIndex(agent: string) {
+  const sessionsMap = await readSessionsIndex(agent);
+  const labelFor = await getSessionLabeler();
 
   const sessions = await Promise.all(
     Object.entries(sessionsMap).map(async ([key, session]) => {
       const kind = getSessionKind(key);
-      const label = getSessionLabel(key, session.origin as Record<string, string>);
-      // Support sessionFile (full path), transcriptPath (filename), or derive from sessionId
-      const sessionId = session.sessionId as string | undefined;
-      const sessionFile = (session.sessionFile as string) 
-        || (session.transcriptPath as string)
-        || (sessionId ? `${sessionId}.jsonl` : null);
+      const label = labelFor(key, session.origin as Record<string, string>);
+      const sessionFile = resolveSessionFile(session, agent);
       const updatedAt = session.updatedAt as number;
 
       // Determine if active (updated in last 10 minutes)
@@ -161,14 +98,10 @@ async function readSessionsFromIndex() {
       let lastMessages: SessionMessage[] = [];
       let messageCount = 0;
 
-      if (sessionFile && sessionFile !== 'N/A') {
-        // Resolve to full path if it's just a filename
-        const resolvedFile = sessionFile.startsWith('/') 
-          ? sessionFile 
-          : `${SESSIONS_DIR}/${sessionFile}`;
+      if (sessionFile) {
         const [msgs, count] = await Promise.all([
-          getLastMessages(resolvedFile, 3),
-          getMessageCount(resolvedFile),
+          getLastMessages(sessionFile, 3),
+          getMessageCount(sessionFile),
         ]);
         lastMessages = msgs;
         messageCount = count;
@@ -189,7 +122,8 @@ async function readSessionsFromIndex() {
 
       return {
         key,
-        label,
+        agent,
+        ...label,
         kind,
         chatType: session.chatType || null,
         sessionId: session.sessionId || null,
@@ -208,109 +142,145 @@ async function readSessionsFromIndex() {
     })
   );
 
-  // Sort by updatedAt descending (most recent first)
-  sessions.sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
-
   return sessions;
 }
 
-export async function GET() {
+/**
+ * Sessions from `openclaw sessions --json`, or null if the CLI isn't
+ * available or returned nothing. Each is tagged with the agent in its key.
+ */
+async function readSessionsFromCli() {
   try {
-    // Try openclaw CLI first
-    try {
-      const { stdout } = await execAsync('openclaw sessions --json 2>/dev/null', { timeout: 5000 });
-      const data = JSON.parse(stdout);
-      
-      // CLI returns {path, count, activeMinutes, sessions: [...]} or just an array
-      const sessionsArray = Array.isArray(data) ? data : (data.sessions || []);
-      
-      if (sessionsArray.length > 0) {
-        // Add friendly labels and enrich the data
-        const enrichedSessions = await Promise.all(sessionsArray.map(async (session: any) => {
-          let messageCount = session.messageCount || 0;
-          let lastMessages = session.lastMessages || [];
-          
-          // If messageCount is missing/null, try to read from file
-          // Support transcriptPath or derive from sessionId
-          const transcriptFile = session.transcriptPath 
-            || (session.sessionId ? `${session.sessionId}.jsonl` : null);
-          
-          if (!session.messageCount && transcriptFile) {
-            try {
-              const filePath = transcriptFile.startsWith('/') 
-                ? transcriptFile 
-                : `${SESSIONS_DIR}/${transcriptFile}`;
-              const [msgs, count] = await Promise.all([
-                getLastMessages(filePath, 3),
-                getMessageCount(filePath),
-              ]);
-              messageCount = count;
-              lastMessages = msgs;
-            } catch {
-              // Ignore read errors
-            }
-          }
-          
-          return {
-            ...session,
-            label: getSessionLabel(session.key),
-            kind: getSessionKind(session.key),
-            lastActivity: new Date(session.updatedAt).toISOString(),
-            isActive: Date.now() - session.updatedAt < 10 * 60 * 1000,
-            messageCount,
-            lastMessages,
-          };
-        }));
-        
-        return NextResponse.json({
-          sessions: enrichedSessions,
-          source: 'cli',
-          timestamp: Date.now(),
-        });
+    const { stdout } = await execAsync('openclaw sessions --json 2>/dev/null', { timeout: 5000 });
+    const data = JSON.parse(stdout);
+
+    // CLI returns {path, count, activeMinutes, sessions: [...]} or just an array
+    const sessionsArray = Array.isArray(data) ? data : (data.sessions || []);
+    if (sessionsArray.length === 0) return null;
+
+    // Add friendly labels and enrich the data
+    const labelFor = await getSessionLabeler();
+    return await Promise.all(sessionsArray.map(async (session: any) => {
+      const agent = agentFromKey(session.key) ?? DEFAULT_AGENT;
+      let messageCount = session.messageCount || 0;
+      let lastMessages = session.lastMessages || [];
+
+      // If messageCount is missing/null, try to read from file
+      // Support transcriptPath or derive from sessionId
+      const transcriptFile = session.transcriptPath
+        || (session.sessionId ? `${session.sessionId}.jsonl` : null);
+
+      if (!session.messageCount && transcriptFile) {
+        try {
+          const filePath = transcriptFile.startsWith('/')
+            ? transcriptFile
+            : join(sessionsDir(agent), transcriptFile);
+          const [msgs, count] = await Promise.all([
+            getLastMessages(filePath, 3),
+            getMessageCount(filePath),
+          ]);
+          messageCount = count;
+          lastMessages = msgs;
+        } catch {
+          // Ignore read errors
+        }
+      }
+
+      return {
+        ...session,
+        agent,
+        ...labelFor(session.key, session.origin),
+        kind: getSessionKind(session.key),
+        lastActivity: new Date(session.updatedAt).toISOString(),
+        isActive: Date.now() - session.updatedAt < 10 * 60 * 1000,
+        messageCount,
+        lastMessages,
+      };
+    }));
+  } catch {
+    return null;
+  }
+}
+
+/** Last resort when an agent has no readable sessions.json: list its transcript files */
+async function readSessionsFromFiles(agent: string) {
+  const dir = sessionsDir(agent);
+  const files = await readdir(dir);
+  const jsonlFiles = files.filter(f => f.endsWith('.jsonl') && !f.includes('.deleted.') && !f.includes('.lock'));
+  return Promise.all(
+    jsonlFiles.map(async (file) => {
+      const filePath = join(dir, file);
+      const fileStat = await stat(filePath);
+      const msgs = await getLastMessages(filePath, 3);
+      return {
+        key: file.replace('.jsonl', ''),
+        agent,
+        label: file.replace('.jsonl', '').slice(0, 8),
+        kind: 'unknown',
+        chatType: null,
+        sessionId: file.replace('.jsonl', ''),
+        model: null,
+        updatedAt: fileStat.mtimeMs,
+        lastActivity: fileStat.mtime.toISOString(),
+        isActive: Date.now() - fileStat.mtimeMs < 10 * 60 * 1000,
+        messageCount: msgs.length,
+        lastMessages: msgs,
+      };
+    })
+  );
+}
+
+type SessionSource = 'cli' | 'file' | 'fallback';
+
+export async function GET(request: NextRequest) {
+  try {
+    const agents = await listAgents();
+    const agent = request.nextUrl.searchParams.get('agent');
+    if (agent && !agents.includes(agent)) {
+      return NextResponse.json({ error: `Unknown agent: ${agent}`, sessions: [] }, { status: 404 });
+    }
+    const targets = agent ? [agent] : agents;
+
+    // Try openclaw CLI first; it may not list every agent, so the rest are read from disk
+    const cli = await readSessionsFromCli();
+    const sessions: Record<string, any>[] = [];
+    const sources: Record<string, SessionSource> = {};
+    for (const s of cli ?? []) {
+      if (!targets.includes(s.agent)) continue;
+      sessions.push(s);
+      sources[s.agent] = 'cli';
+    }
+
+    for (const id of targets) {
+      if (sources[id]) continue;
+      try {
+        sessions.push(...await readSessionsFromIndex(id));
+        sources[id] = 'file';
+      } catch (error) {
+        try {
+          sessions.push(...await readSessionsFromFiles(id));
+          sources[id] = 'fallback';
+        } catch {
+          console.error(`Sessions error (${id}):`, error);
+        }
       }
-    } catch {
-      // CLI not available, fall through to file-based approach
     }
 
-    // Fallback: read from sessions index file
-    const sessions = await readSessionsFromIndex();
+    if (Object.keys(sources).length === 0) {
+      return NextResponse.json({ error: 'Failed to get sessions', sessions: [] }, { status: 500 });
+    }
+
+    // Sort by updatedAt descending (most recent first)
+    sessions.sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
 
     return NextResponse.json({
       sessions,
-      source: 'file',
+      agents,
+      sources,
       timestamp: Date.now(),
     });
   } catch (error) {
     console.error('Sessions error:', error);
-
-    // Last resort: try to list session files directly
-    try {
-      const files = await readdir(SESSIONS_DIR);
-      const jsonlFiles = files.filter(f => f.endsWith('.jsonl') && !f.includes('.deleted.') && !f.includes('.lock'));
-      const sessions = await Promise.all(
-        jsonlFiles.map(async (file) => {
-          const filePath = join(SESSIONS_DIR, file);
-          const fileStat = await stat(filePath);
-          const msgs = await getLastMessages(filePath, 3);
-          return {
-            key: file.replace('.jsonl', ''),
-            label: file.replace('.jsonl', '').slice(0, 8),
-            kind: 'unknown',
-            chatType: null,
-            sessionId: file.replace('.jsonl', ''),
-            model: null,
-            updatedAt: fileStat.mtimeMs,
-            lastActivity: fileStat.mtime.toISOString(),
-            isActive: Date.now() - fileStat.mtimeMs < 10 * 60 * 1000,
-            messageCount: msgs.length,
-            lastMessages: msgs,
-          };
-        })
-      );
-      sessions.sort((a, b) => b.updatedAt - a.updatedAt);
-      return NextResponse.json({ sessions, source: 'fallback', timestamp: Date.now() });
-    } catch {
-      return NextResponse.json({ error: 'Failed to get sessions', sessions: [] }, { status: 500 });
-    }
+    return NextResponse.json({ error: 'Failed to get sessions', sessions: [] }, { status: 500 });
   }
 }
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchSessions } from '@/lib/session-search';
+import type { SessionKind } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+const ROLES = ['user', 'assistant'] as const;
+const KINDS: SessionKind[] = ['main', 'telegram', 'subagent', 'channel'];
+
+/** Epoch ms or anything Date can parse (e.g. 2026-01-31) */
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const t = /^\d+$/.test(value) ? Number(value) : new Date(value).getTime();
+  return Number.isFinite(t) ? t : undefined;
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const q = params.get('q')?.trim() || '';
+  if (!q) {
+    return NextResponse.json({ error: 'Query required' }, { status: 400 });
+  }
+
+  const role = params.get('role');
+  const kind = params.get('kind');
+  if (role && !ROLES.includes(role as typeof ROLES[number])) {
+    return NextResponse.json({ error: `Unknown role: ${role}` }, { status: 400 });
+  }
+  if (kind && !KINDS.includes(kind as SessionKind)) {
+    return NextResponse.json({ error: `Unknown session kind: ${kind}` }, { status: 400 });
+  }
+
+  try {
+    const started = Date.now();
+    const result = await searchSessions({
+      q,
+      role: (role as typeof ROLES[number]) || undefined,
+      kind: (kind as SessionKind) || undefined,
+      agent: params.get('agent') || undefined,
+      since: parseTime(params.get('since')),
+      until: parseTime(params.get('until')),
+      sort: params.get('sort') === 'relevance' ? 'relevance' : 'recent',
+      limit: parseInt(params.get('limit') || '20', 10) || 20,
+      offset: parseInt(params.get('offset') || '0', 10) || 0,
+    });
+    return NextResponse.json({ ...result, tookMs: Date.now() - started });
+  } catch (error) {
+    console.error('Session search error:', error);
+    return NextResponse.json({ error: 'Search failed' }, { status: 500 });
+  }
+}
@@ -1,101 +1,114 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { readFile } from 'fs/promises';
-import os from 'os';
-import path from 'path';
+import { withAudit } from '@/lib/audit';
+import { getRequestUser } from '@/lib/auth';
+import { canUseModule } from '@/lib/permissions';
+import { isAgentId } from '@/lib/sessions';
+import { sendToSession } from '@/lib/session-channels';
+import { MAX_ATTACHMENTS, attachmentFromPath, storeUpload, type SendAttachment } from '@/lib/session-attachments';
 
 export const dynamic = 'force-dynamic';
 
-const CONFIG_PATH = path.join(os.homedir(), '.openclaw', 'openclaw.json');
-
-async function getConfig(): Promise<any> {
-  try {
-    const raw = await readFile(CONFIG_PATH, 'utf-8');
-    return JSON.parse(raw);
-  } catch {
-    return {};
-  }
-}
-
-async function getBotToken(): Promise<string> {
-  const config = await getConfig();
-  return config?.channels?.telegram?.botToken || '';
-}
-
-async function getDefaultChatId(): Promise<string | null> {
-  if (process.env.CLAWTROL_CHAT_ID) return process.env.CLAWTROL_CHAT_ID;
-  const config = await getConfig();
-  return config?.channels?.telegram?.chatId || config?.channels?.telegram?.defaultChatId || null;
+interface SendRequest {
+  sessionKey?: string;
+  message?: string;
+  agent?: string;
+  replyTo?: string;
+  uploads: File[];
+  /** Files on this machine, picked in the Files browser */
+  paths: string[];
 }
 
-async function parseSessionKey(key: string): Promise<{ chatId: string; topicId?: string } | null> {
-  // agent:main:main → DM to owner/default chat
-  if (key === 'agent:main:main') {
-    const configuredChatId = await getDefaultChatId();
-    return configuredChatId ? { chatId: configuredChatId } : null;
-  }
-
-  // agent:main:telegram:group:<id>:topic:<id>
-  const topicMatch = key.match(/:group:(-?\d+):topic:(\d+)$/);
-  if (topicMatch) {
-    return { chatId: topicMatch[1], topicId: topicMatch[2] };
-  }
-
-  // agent:main:telegram:group:<id>
-  const groupMatch = key.match(/:group:(-?\d+)$/);
-  if (groupMatch) {
-    return { chatId: groupMatch[1] };
+/** JSON for plain messages; multipart/form-data when the browser uploads files */
+async function readSendRequest(request: NextRequest): Promise<SendRequest> {
+  if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+    const form = await request.formData();
+    const field = (name: string) => {
+      const value = form.get(name);
+      return typeof value === 'string' && value ? value : undefined;
+    };
+    return {
+      sessionKey: field('sessionKey'),
+      message: field('message'),
+      agent: field('agent'),
+      replyTo: field('replyTo'),
+      uploads: form.getAll('files').filter((f): f is File => typeof f !== 'string'),
+      paths: form.getAll('paths').filter((p): p is string => typeof p === 'string' && p !== ''),
+    };
   }
-
-  return null;
+  const { sessionKey, message, agent, replyTo, paths } = await request.json();
+  return {
+    sessionKey,
+    message: message != null ? String(message) : undefined,
+    agent,
+    replyTo: replyTo != null ? String(replyTo) : undefined,
+    uploads: [],
+    paths: Array.isArray(paths) ? paths.filter((p: unknown): p is string => typeof p === 'string') : [],
+  };
 }
 
-export async function POST(request: NextRequest) {
+/**
+ * Body: { sessionKey, message, agent?, replyTo?, paths? } as JSON, or the
+ * same fields as multipart/form-data with `files` for uploads. `replyTo` is
+ * the channel's message id; `paths` need access to the Files module.
+ */
+async function handlePost(request: NextRequest) {
   try {
-    const { sessionKey, message } = await request.json();
+    const { sessionKey, message = '', agent, replyTo, uploads, paths } = await readSendRequest(request);
 
-    if (!sessionKey || !message) {
-      return NextResponse.json({ error: 'Missing sessionKey or message' }, { status: 400 });
+    if (!sessionKey || (!message.trim() && uploads.length === 0 && paths.length === 0)) {
+      return NextResponse.json({ error: 'Missing sessionKey, or a message or attachment' }, { status: 400 });
     }
-
-    const target = await parseSessionKey(sessionKey);
-    if (!target) {
-      return NextResponse.json({ error: 'Cannot send to this session type (only Telegram sessions supported)' }, { status: 400 });
+    if (agent && !isAgentId(agent)) {
+      return NextResponse.json({ error: `Invalid agent: ${agent}` }, { status: 400 });
     }
-
-    const botToken = await getBotToken();
-    if (!botToken) {
-      return NextResponse.json({ error: 'Telegram bot token not configured' }, { status: 500 });
+    if (uploads.length + paths.length > MAX_ATTACHMENTS) {
+      return NextResponse.json({ error: `At most ${MAX_ATTACHMENTS} attachments per message` }, { status: 400 });
     }
-
-    // Send via Telegram Bot API
-    const body: Record<string, unknown> = {
-      chat_id: target.chatId,
-      text: message,
-    };
-    if (target.topicId) {
-      body.message_thread_id = parseInt(target.topicId);
+    if (paths.length > 0) {
+      const user = await getRequestUser(request);
+      if (!user || !canUseModule(user.role, 'files')) {
+        return NextResponse.json({ error: 'Attaching files from disk needs access to the Files module' }, { status: 403 });
+      }
     }
 
-    const res = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-    });
-
-    const data = await res.json();
+    const attachments: SendAttachment[] = [];
+    try {
+      for (const file of uploads) attachments.push(await storeUpload(file));
+      for (const p of paths) attachments.push(await attachmentFromPath(p));
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid attachment' }, { status: 400 });
+    }
 
-    if (!data.ok) {
-      return NextResponse.json({ error: `Telegram API error: ${data.description}` }, { status: 500 });
+    let sent;
+    try {
+      sent = await sendToSession(sessionKey, { text: message.trim(), attachments, replyTo: replyTo || undefined }, agent || undefined);
+    } catch (error) {
+      console.error('Session send error:', error);
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to send message' }, { status: 502 });
+    }
+    if (!sent) {
+      return NextResponse.json({ error: 'This session has no chat to reply to' }, { status: 400 });
     }
 
     return NextResponse.json({
       success: true,
-      messageId: data.result?.message_id,
-      chatId: target.chatId,
-      topicId: target.topicId,
+      messageId: sent.messageId,
+      adapter: sent.adapter,
+      channel: sent.target.channel,
+      to: sent.target.to,
+      threadId: sent.target.threadId,
+      attachments: attachments.map(a => ({ name: a.name, mimeType: a.mimeType, size: a.size })),
     });
   } catch (error) {
     console.error('Session send error:', error);
     return NextResponse.json({ error: 'Failed to send message' }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, (body, data) => {
+  const files = data?.attachments?.length ? ` [+${data.attachments.length} file${data.attachments.length === 1 ? '' : 's'}]` : '';
+  return {
+    action: 'send',
+    summary: `${body.sessionKey}${data?.adapter ? ` via ${data.adapter}` : ''}: ${String(body.message ?? '').slice(0, 80)}${files}`,
+  };
+});
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAudit } from '@/lib/audit';
+import { deleteSnippet, loadSnippets, saveSnippet } from '@/lib/session-snippets';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ snippets: await loadSnippets(), timestamp: Date.now() });
+  } catch (error) {
+    console.error('Snippets error:', error);
+    return NextResponse.json({ error: 'Failed to load snippets', snippets: [] }, { status: 500 });
+  }
+}
+
+/**
+ * Actions:
+ *   save   { id?, name, text } — without an id, creates a snippet
+ *   delete { id }
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const { action, id, name, text } = await request.json();
+
+    switch (action) {
+      case 'save': {
+        try {
+          const snippet = await saveSnippet({ id, name, text });
+          return NextResponse.json({ success: true, snippet });
+        } catch (err) {
+          return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid snippet' }, { status: 400 });
+        }
+      }
+      case 'delete': {
+        if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 });
+        if (!(await deleteSnippet(id))) return NextResponse.json({ error: 'No snippet with that id' }, { status: 404 });
+        return NextResponse.json({ success: true });
+      }
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Snippet action error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Snippet action failed' }, { status: 500 });
+  }
+}
+
+export const POST = withAudit(handlePost, (body, data) => ({
+  action: `snippet-${body.action}`,
+  summary: body.action === 'delete' ? `Deleted snippet ${body.id}` : `Saved snippet "${data?.snippet?.name ?? body.name}"`,
+}));
@@ -1,52 +1,18 @@
 import { NextResponse } from 'next/server';
-import { readFile, writeFile, readdir } from 'fs/promises';
-import { join } from 'path';
-import os from 'os';
+import { writeFile } from 'fs/promises';
+import { AGENT_COSTS_FILE, loadAgentCosts, type AgentCostsData } from '@/lib/subclawds';
 
 export const dynamic = 'force-dynamic';
 
-const COSTS_FILE = join(os.homedir(), 'memory', 'costs', 'agent-costs.json');
-const SESSIONS_DIR = join(os.homedir(), '.openclaw', 'sessions');
-
-interface SessionCost {
-  sessionId: string;
-  cost: number;
-  tokens: number;
-  timestamp: string;
-}
-
-interface AgentCosts {
-  totalCost: number;
-  taskCount: number;
-  sessions: SessionCost[];
-}
-
-interface CostsData {
-  agents: Record<string, AgentCosts>;
-  lastUpdated: string;
-}
-
-async function loadCosts(): Promise<CostsData> {
-  try {
-    const data = await readFile(COSTS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return {
-      agents: {},
-      lastUpdated: new Date().toISOString()
-    };
-  }
-}
-
-async function saveCosts(data: CostsData): Promise<void> {
+async function saveCosts(data: AgentCostsData): Promise<void> {
   data.lastUpdated = new Date().toISOString();
-  await writeFile(COSTS_FILE, JSON.stringify(data, null, 2));
+  await writeFile(AGENT_COSTS_FILE, JSON.stringify(data, null, 2));
 }
 
 // GET - Get cost summary for all agents
 export async function GET() {
   try {
-    const costs = await loadCosts();
+    const costs = await loadAgentCosts();
     
     // Calculate totals
     let totalCost = 0;
@@ -91,7 +57,7 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'agentId and cost required' }, { status: 400 });
     }
     
-    const costs = await loadCosts();
+    const costs = await loadAgentCosts();
     
     if (!costs.agents[agentId]) {
       costs.agents[agentId] = { totalCost: 0, taskCount: 0, sessions: [] };
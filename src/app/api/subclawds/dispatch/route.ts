@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { readFile, writeFile } from 'fs/promises';
 import { join } from 'path';
 import os from 'os';
+import { withAudit } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
@@ -13,7 +14,7 @@ const BASE_RULES_FILE = join(os.homedir(), 'agents', 'SUBCLAWD_BASE.md');
 // This endpoint prepares a task for dispatch and returns the spawn parameters
 // The actual spawning happens from the gateway via sessions_spawn
 
-export async function POST(request: Request) {
+async function handlePost(request: Request) {
   try {
     const body = await request.json();
     const { agentId, task, taskId, priority } = body;
@@ -111,3 +112,5 @@ Work autonomously. Update your memory when done.
     return NextResponse.json({ error: 'Failed to prepare dispatch' }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, (body) => ({ action: 'dispatch', summary: [body.agentId, body.taskId].filter(Boolean).join(' ') }));
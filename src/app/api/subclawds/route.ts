@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import { readFile, writeFile } from 'fs/promises';
 import { join } from 'path';
 import os from 'os';
+import { withAudit } from '@/lib/audit';
+import { clearAgentTask } from '@/lib/subclawds';
 
 export const dynamic = 'force-dynamic';
 
@@ -97,7 +99,7 @@ export async function GET() {
 }
 
 // POST - Dispatch task to subclawd
-export async function POST(request: Request) {
+async function handlePost(request: Request) {
   try {
     const body = await request.json();
     const { action, agentId, task, taskId } = body;
@@ -132,14 +134,7 @@ Instructions: Complete this task and report back to Mikey.
     }
     
     if (action === 'clear') {
-      const taskFile = join(MEMORY_BASE, agentId, 'current-task.md');
-      await writeFile(taskFile, `# Current Task
-
-*No active task*
-
----
-Last updated: ${new Date().toISOString().split('T')[0]}
-`);
+      await clearAgentTask(agentId);
       return NextResponse.json({ ok: true, message: 'Task cleared' });
     }
     
@@ -148,3 +143,5 @@ Last updated: ${new Date().toISOString().split('T')[0]}
     return NextResponse.json({ error: 'Failed to process request' }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, (body) => ({ action: body.action, summary: [body.action, body.agentId, body.taskId].filter(Boolean).join(' ') }));
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { readFile, readdir } from 'fs/promises';
 import { join } from 'path';
 import os from 'os';
+import { withAudit } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
@@ -76,7 +77,7 @@ export async function GET() {
 }
 
 // POST - Trigger wake for specific agent
-export async function POST(request: Request) {
+async function handlePost(request: Request) {
   try {
     const { agentId } = await request.json();
     
@@ -125,3 +126,5 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Wake trigger failed' }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, (body) => ({ action: 'wake', summary: body.agentId }));
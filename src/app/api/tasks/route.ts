@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 import os from 'os';
+import { withAudit } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
@@ -106,7 +107,7 @@ function addActivity(task: Task, type: Activity['type'], agentId: string, conten
 }
 
 // POST - Create new task or update existing
-export async function POST(request: Request) {
+async function handlePost(request: Request) {
   try {
     const body = await request.json();
     const data = await loadTasks();
@@ -218,3 +219,8 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Failed to process request' }, { status: 500 });
   }
 }
+
+export const POST = withAudit(handlePost, (body, data) => ({
+  action: body.action,
+  summary: [body.action, body.id ?? data.task?.id, body.status ?? body.title].filter(Boolean).join(' '),
+}));
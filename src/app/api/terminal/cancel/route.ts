@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { withAudit } from '@/lib/audit';
+import { hasRole } from '@/lib/permissions';
+import { getRun, killRun } from '@/lib/terminal';
+
+export const dynamic = 'force-dynamic';
+
+async function handlePost(request: Request) {
+  try {
+    const { id } = await request.json();
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json({ error: 'Run id required' }, { status: 400 });
+    }
+
+    const run = getRun(id);
+    if (!run) {
+      return NextResponse.json({ error: 'Command not running' }, { status: 404 });
+    }
+
+    // Only the user who started it (or an admin) can stop it
+    const user = await getRequestUser(request);
+    if (!user || (user.username !== run.owner && !hasRole(user.role, 'admin'))) {
+      return NextResponse.json({ error: 'Not your command' }, { status: 403 });
+    }
+
+    killRun(run);
+    return NextResponse.json({ success: true, command: run.command });
+  } catch (error) {
+    console.error('Terminal cancel error:', error);
+    return NextResponse.json({ error: 'Failed to cancel command' }, { status: 500 });
+  }
+}
+
+export const POST = withAudit(handlePost, (body, data) => ({
+  action: 'cancel',
+  summary: data.command ?? body.id,
+}));
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { withAudit } from '@/lib/audit';
+import { PTY_LOOPBACK, PTY_PORT, PTY_URL, SESSION_NAME, createAttachTicket, ptyRequest } from '@/lib/pty';
+import type { PtySession } from '@/lib/pty';
+
+export const dynamic = 'force-dynamic';
+
+// GET - List the caller's shell sessions
+export async function GET(request: NextRequest) {
+  const user = await getRequestUser(request);
+  if (!user) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+  try {
+    const { sessions } = await ptyRequest<{ sessions: PtySession[] }>(user, '/sessions');
+    return NextResponse.json({ available: true, port: PTY_PORT, sessions, timestamp: Date.now() });
+  } catch (error) {
+    // Sidecar not running — the UI explains how to start it
+    return NextResponse.json({ available: false, port: PTY_PORT, sessions: [], error: String(error), timestamp: Date.now() });
+  }
+}
+
+// POST - Issue a ticket to open (or reattach to) a named session
+async function handlePost(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+    const { session, cols = 80, rows = 24 } = await request.json();
+    if (typeof session !== 'string' || !SESSION_NAME.test(session)) {
+      return NextResponse.json({ error: 'Invalid session name' }, { status: 400 });
+    }
+
+    const ticket = await createAttachTicket(user, session, Number(cols) || 80, Number(rows) || 24);
+    return NextResponse.json({ ticket, port: PTY_PORT, url: PTY_URL, loopback: PTY_LOOPBACK, session });
+  } catch (error) {
+    console.error('PTY ticket error:', error);
+    return NextResponse.json({ error: 'Failed to open session' }, { status: 500 });
+  }
+}
+
+// DELETE - Kill a session (?session=name[&owner=user])
+async function handleDelete(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+    const session = request.nextUrl.searchParams.get('session') || '';
+    const owner = request.nextUrl.searchParams.get('owner') || user.username;
+    if (!SESSION_NAME.test(session)) {
+      return NextResponse.json({ error: 'Invalid session name' }, { status: 400 });
+    }
+
+    await ptyRequest(user, `/sessions/${encodeURIComponent(session)}?owner=${encodeURIComponent(owner)}`, { method: 'DELETE' });
+    return NextResponse.json({ success: true, session, owner });
+  } catch (error) {
+    console.error('PTY kill error:', error);
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
+
+export const POST = withAudit(handlePost, (body) => ({ action: 'pty-open', summary: body.session }));
+export const DELETE = withAudit(handleDelete, (_body, data) => ({
+  action: 'pty-kill',
+  summary: data.session ? `${data.owner}/${data.session}` : undefined,
+}));
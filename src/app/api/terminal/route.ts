@@ -1,38 +1,114 @@
 import { NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import os from 'os';
+import { getRequestUser } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { createSSEResponse } from '@/lib/sse';
+import { defaultCwd, evaluateCommand, resolveCwd } from '@/lib/command-policy';
+import { killRun, startRun } from '@/lib/terminal';
 
 export const dynamic = 'force-dynamic';
 
+// `cd` on its own changes the session's directory instead of spawning a shell
+const CD_COMMAND = /^cd(?:\s+(.+?))?\s*$/;
+// How often a paused command checks whether the client has caught up
+const DRAIN_POLL_MS = 100;
+
+/**
+ * Run a command and stream its output as Server-Sent Events:
+ *   start  { id, command, cwd }
+ *   stdout { data }
+ *   stderr { data }
+ *   cwd    { cwd }                       (after a `cd`)
+ *   exit   { code, signal, durationMs, cancelled }
+ *
+ * Commands are checked against terminal.policy first: blocked commands get a
+ * 403 with the reason, and ones needing confirmation a 409 until the client
+ * resends them with `confirmed: true`. Output is never dropped: when the
+ * client falls behind, the command's pipes are paused until it catches up.
+ */
 export async function POST(request: Request) {
   try {
-    const { command } = await request.json();
+    const { command, cwd: requestedCwd, confirmed = false } = await request.json();
 
     if (!command || typeof command !== 'string') {
       return NextResponse.json({ error: 'No command provided' }, { status: 400 });
     }
 
-    // Safety: block extremely dangerous commands
-    const blocked = ['rm -rf /', 'mkfs', ':(){', 'dd if='];
-    if (blocked.some(b => command.includes(b))) {
-      return NextResponse.json({ error: 'Command blocked for safety' }, { status: 403 });
+    const user = await getRequestUser(request);
+    const role = user?.role ?? 'viewer';
+
+    const base = resolveCwd(typeof requestedCwd === 'string' ? requestedCwd : undefined, defaultCwd(role), role);
+    if ('error' in base) {
+      return NextResponse.json({ error: base.error, cwd: defaultCwd(role) }, { status: 403 });
+    }
+
+    const decision = evaluateCommand(command.trim(), role, base.cwd, confirmed === true);
+    if (decision.action === 'deny') {
+      await recordAudit(request, { action: 'exec', summary: command, payload: { command, cwd: base.cwd }, result: 'denied', status: 403, error: decision.reason }, user);
+      return NextResponse.json({ error: `Blocked: ${decision.reason}`, reason: decision.reason }, { status: 403 });
+    }
+    if (decision.action === 'confirm') {
+      return NextResponse.json({ error: 'Confirmation required', confirm: true, reason: decision.reason }, { status: 409 });
     }
 
-    return new Promise<NextResponse>((resolve) => {
-      const child = exec(command, {
-        timeout: 30000,
-        maxBuffer: 1024 * 1024,
-        env: { ...process.env, PATH: `/opt/homebrew/bin:/usr/local/bin:/usr/bin:/bin:/usr/sbin:/sbin:${process.env.PATH}` },
-        cwd: os.homedir(),
-      }, (error, stdout, stderr) => {
-        resolve(NextResponse.json({
-          stdout: stdout || '',
-          stderr: stderr || '',
-          exitCode: error ? error.code || 1 : 0,
-          command,
-          timestamp: Date.now(),
-        }));
+    const cd = command.trim().match(CD_COMMAND);
+    if (cd) {
+      const target = resolveCwd(cd[1]?.replace(/^(['"])(.*)\1$/, '$2'), base.cwd, role);
+      return createSSEResponse(request, (channel) => {
+        channel.send('start', { id: null, command, cwd: base.cwd });
+        if ('error' in target) {
+          channel.send('stderr', { data: `cd: ${target.error}\n` });
+          channel.send('exit', { code: 1, signal: null, durationMs: 0, cancelled: false });
+        } else {
+          channel.send('cwd', { cwd: target.cwd });
+          channel.send('exit', { code: 0, signal: null, durationMs: 0, cancelled: false });
+        }
+        channel.close();
       });
+    }
+
+    return createSSEResponse(request, (channel) => {
+      // A full pipe blocks the command, so `yes` waits for a slow client instead of filling memory
+      let draining: ReturnType<typeof setInterval> | undefined;
+      const resume = () => {
+        clearInterval(draining);
+        draining = undefined;
+        run.child.stdout?.resume();
+        run.child.stderr?.resume();
+      };
+      const forward = (event: 'stdout' | 'stderr') => (data: string) => {
+        channel.send(event, { data });
+        if (!channel.backedUp || draining) return;
+        run.child.stdout?.pause();
+        run.child.stderr?.pause();
+        draining = setInterval(() => {
+          if (channel.closed || !channel.backedUp) resume();
+        }, DRAIN_POLL_MS);
+      };
+
+      const run = startRun(command, user?.username ?? 'anonymous', {
+        onStdout: forward('stdout'),
+        onStderr: forward('stderr'),
+        onExit: (result) => {
+          channel.send('exit', result);
+          channel.close();
+          recordAudit(request, {
+            action: 'exec',
+            summary: `${command} (${result.cancelled ? 'cancelled' : `exit ${result.code ?? result.signal}`})`,
+            payload: { command, cwd: run.cwd, confirmed },
+            result: result.code === 0 ? 'ok' : 'error',
+            status: 200,
+            durationMs: result.durationMs,
+          }, user);
+        },
+      }, base.cwd);
+
+      channel.send('start', { id: run.id, command, cwd: run.cwd });
+
+      // Client went away (tab closed, navigated) — don't leave the command running
+      return () => {
+        clearInterval(draining);
+        if (run.child.exitCode === null && run.child.signalCode === null) killRun(run);
+      };
     });
   } catch (error) {
     console.error('Terminal error:', error);
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listAgents } from '@/lib/sessions';
+import { getSessionLabeler } from '@/lib/session-labels';
+import { MAX_HISTORY_DAYS, getUsageHistory, parseDay } from '@/lib/usage-history';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_DAYS = 30;
+
+function localDate(t: number, tzOffset: number) {
+  return new Date(t - tzOffset * 60_000).toISOString().slice(0, 10);
+}
+
+/**
+ * GET ?from=YYYY-MM-DD&to=YYYY-MM-DD&tz=<minutes behind UTC>&agent=<id>&limit=<sessions>
+ * Defaults to the 30 days ending today in the caller's time zone.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const tzOffset = parseInt(params.get('tz') || '0', 10) || 0;
+  const to = params.get('to') || localDate(Date.now(), tzOffset);
+  const last = parseDay(to);
+  const from = params.get('from') || (last !== null ? localDate((last - DEFAULT_DAYS + 1) * 86400_000, 0) : '');
+  const first = parseDay(from);
+
+  if (first === null || last === null) {
+    return NextResponse.json({ error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+  }
+  if (last < first || last - first + 1 > MAX_HISTORY_DAYS) {
+    return NextResponse.json({ error: `Range must run forwards and span at most ${MAX_HISTORY_DAYS} days` }, { status: 400 });
+  }
+
+  const agents = await listAgents();
+  const agent = params.get('agent');
+  if (agent && !agents.includes(agent)) {
+    return NextResponse.json({ error: `Unknown agent: ${agent}` }, { status: 404 });
+  }
+
+  try {
+    const history = await getUsageHistory({
+      from,
+      to,
+      tzOffset,
+      agent: agent || undefined,
+      limit: Math.min(parseInt(params.get('limit') || '20', 10) || 20, 100),
+    });
+    const labelFor = await getSessionLabeler();
+    return NextResponse.json({
+      ...history,
+      sessions: history.sessions.map(s => ({ ...s, ...labelFor(s.key) })),
+      agents,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Usage history error:', error);
+    return NextResponse.json({ error: 'Failed to build usage history' }, { status: 500 });
+  }
+}
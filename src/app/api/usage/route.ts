@@ -1,36 +1,15 @@
-import { NextResponse } from 'next/server';
-import { readFile, readdir } from 'fs/promises';
-import { join } from 'path';
-import os from 'os';
+import { NextRequest, NextResponse } from 'next/server';
+import { readFile } from 'fs/promises';
+import { listAgents, readSessionsIndex, resolveSessionFile } from '@/lib/sessions';
+import { getSessionLabeler } from '@/lib/session-labels';
 
 export const dynamic = 'force-dynamic';
 
-const SESSIONS_DIR = join(os.homedir(), '.openclaw', 'agents', 'main', 'sessions');
-const SESSIONS_INDEX = join(SESSIONS_DIR, 'sessions.json');
-
-const TOPIC_NAMES: Record<string, string> = {
-  '1369': '🔖 Bookmarks', '13': '🌴 Bali', '14': '💰 Expenses',
-  '60': '🐦 Twitter', '59': '📬 Daily', '342': '🚨 Alerts',
-  '12': '💼 Work', '1503': '🔬 Prototyping', '1819': '🇷🇺 Russian',
-  '2145': '💡 Ideas', '3414': '🧠 Brain Dump', '2841': '🧠 Trivia',
-  '2217': '🎤 Standup', '2154': '📝 Content', '2966': '🏃 Health',
-  '4213': '🔧 Fontanero', '4575': '💪 Stronks', '83': '🛠️ Control Center',
-  '1': '💬 General',
-};
-
-function getLabel(key: string): string {
-  if (key === 'agent:main:main') return 'Main DM';
-  if (key.includes(':subagent:')) return `Subagent ${key.split(':subagent:')[1]?.slice(0, 8)}`;
-  const topicMatch = key.match(/:topic:(\d+)$/);
-  if (topicMatch) return TOPIC_NAMES[topicMatch[1]] || `Topic ${topicMatch[1]}`;
-  const groupMatch = key.match(/:group:(-?\d+)$/);
-  if (groupMatch) return `Group`;
-  return key.split(':').pop() || key;
-}
-
 interface SessionCost {
   key: string;
+  agent: string;
   label: string;
+  emoji?: string;
   model: string;
   totalCost: number;
   inputCost: number;
@@ -44,9 +23,9 @@ interface SessionCost {
   apiCalls: number;
 }
 
-async function calculateSessionCost(sessionFile: string, key: string, model: string): Promise<SessionCost> {
+async function calculateSessionCost(sessionFile: string, key: string, agent: string, model: string, label: { label: string; emoji?: string }): Promise<SessionCost> {
   const result: SessionCost = {
-    key, label: getLabel(key), model,
+    key, agent, label: label.label, emoji: label.emoji, model,
     totalCost: 0, inputCost: 0, outputCost: 0, cacheCost: 0,
     totalTokens: 0, inputTokens: 0, outputTokens: 0,
     cacheReadTokens: 0, cacheWriteTokens: 0, apiCalls: 0,
@@ -88,21 +67,31 @@ async function calculateSessionCost(sessionFile: string, key: string, model: str
   return result;
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const raw = await readFile(SESSIONS_INDEX, 'utf-8');
-    const sessionsMap: Record<string, Record<string, unknown>> = JSON.parse(raw);
+    const agents = await listAgents();
+    const agent = request.nextUrl.searchParams.get('agent');
+    if (agent && !agents.includes(agent)) {
+      return NextResponse.json({ error: `Unknown agent: ${agent}` }, { status: 404 });
+    }
+    const labelFor = await getSessionLabeler();
+
+    // An agent without a sessions.json yet just has no usage
+    const indexes = await Promise.all((agent ? [agent] : agents).map(async id => ({
+      agent: id,
+      sessionsMap: await readSessionsIndex(id).catch(() => ({} as Record<string, Record<string, unknown>>)),
+    })));
 
     const costs = await Promise.all(
-      Object.entries(sessionsMap).map(async ([key, session]) => {
-        const sessionFile = session.sessionFile as string;
+      indexes.flatMap(({ agent: id, sessionsMap }) => Object.entries(sessionsMap).map(async ([key, session]) => {
+        const sessionFile = resolveSessionFile(session, id);
         const model = (session.model || session.modelProvider || 'unknown') as string;
-        if (!sessionFile || sessionFile === 'N/A') {
-          return { key, label: getLabel(key), model, totalCost: 0, inputCost: 0, outputCost: 0, cacheCost: 0, totalTokens: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, apiCalls: 0 };
+        const { label, emoji } = labelFor(key);
+        if (!sessionFile) {
+          return { key, agent: id, label, emoji, model, totalCost: 0, inputCost: 0, outputCost: 0, cacheCost: 0, totalTokens: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, apiCalls: 0 };
         }
-        const resolvedFile = sessionFile;
-        return calculateSessionCost(resolvedFile, key, model);
-      })
+        return calculateSessionCost(sessionFile, key, id, model, { label, emoji });
+      }))
     );
 
     // Sort by cost descending
@@ -127,10 +116,21 @@ export async function GET() {
       byModel[m].calls += c.apiCalls;
     }
 
+    // By agent
+    const byAgent: Record<string, { cost: number; tokens: number; calls: number }> = {};
+    for (const c of costs) {
+      if (!byAgent[c.agent]) byAgent[c.agent] = { cost: 0, tokens: 0, calls: 0 };
+      byAgent[c.agent].cost += c.totalCost;
+      byAgent[c.agent].tokens += c.totalTokens;
+      byAgent[c.agent].calls += c.apiCalls;
+    }
+
     return NextResponse.json({
       sessions: costs.filter(c => c.totalCost > 0 || c.apiCalls > 0),
       totals: grandTotal,
       byModel,
+      byAgent,
+      agents,
       timestamp: Date.now(),
     });
   } catch (error) {
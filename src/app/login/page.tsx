@@ -0,0 +1,115 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import config from '../../../clawtrol.config';
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Only follow same-origin relative paths after login
+  const nextParam = searchParams.get('next');
+  const next = nextParam && nextParam.startsWith('/') && !nextParam.startsWith('//') ? nextParam : '/';
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || !password || submitting) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Login failed');
+        setPassword('');
+      } else {
+        router.replace(next);
+        router.refresh();
+        return;
+      }
+    } catch {
+      setError('Connection error');
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4" style={{ background: 'var(--bg-primary)', color: 'var(--text-primary)' }}>
+      <form onSubmit={submit} className="card-base w-full max-w-sm p-6 space-y-4 animate-fade-in">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-8 h-8 rounded flex items-center justify-center text-lg" style={{ background: 'rgba(0,255,200,0.1)', border: '1px solid rgba(0,255,200,0.2)' }}>
+            👾
+          </div>
+          <div>
+            <h1 className="text-sm font-bold tracking-[0.2em] uppercase" style={{ fontFamily: 'var(--font-display)', color: 'var(--accent-cyan)' }}>
+              {config.title ?? 'Clawtrol'}
+            </h1>
+            <p className="text-[10px] tracking-wider" style={{ color: 'var(--text-dim)' }}>
+              SIGN IN
+            </p>
+          </div>
+        </div>
+
+        <label className="block space-y-1">
+          <span className="text-[9px] uppercase tracking-widest" style={{ color: 'var(--text-dim)' }}>Username</span>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoCapitalize="off"
+            autoFocus
+            className="w-full rounded px-3 py-2"
+          />
+        </label>
+
+        <label className="block space-y-1">
+          <span className="text-[9px] uppercase tracking-widest" style={{ color: 'var(--text-dim)' }}>Password</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="w-full rounded px-3 py-2"
+          />
+        </label>
+
+        {error && (
+          <div className="text-[11px] px-3 py-1.5 rounded" style={{ background: 'rgba(255,59,92,0.1)', color: 'var(--accent-red)' }}>
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={submitting || !username || !password}
+          className="w-full px-3 py-2 rounded text-[11px] tracking-wider font-medium border transition-all disabled:opacity-30"
+          style={{ borderColor: 'var(--border-accent)', color: 'var(--accent-cyan)', background: 'rgba(0,255,200,0.05)' }}
+        >
+          {submitting ? '···' : 'LOG IN'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center" style={{ background: '#050508', color: '#00ffc8' }}>
+        <span className="animate-pulse">Loading...</span>
+      </div>
+    }>
+      <LoginForm />
+    </Suspense>
+  );
+}
@@ -1,10 +1,12 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { MODULE_COMPONENTS } from '@/components/modules';
 import { MODULE_META } from '@/lib/config';
 import type { ModuleId } from '@/lib/config';
+import { useAuthSession, logout } from '@/lib/useAuthSession';
+import { AlertNotifier } from '@/components/shared/AlertNotifier';
 import config from '../../clawtrol.config';
 
 const enabledModules = config.modules ?? Object.keys(MODULE_META) as ModuleId[];
@@ -18,6 +20,13 @@ export default function Shell() {
 
   const [activeTab, setActiveTabState] = useState<ModuleId>(initialTab);
   const [drawerOpen, setDrawerOpen] = useState(false);
+  const authSession = useAuthSession();
+  const signedInUser = authSession?.authEnabled ? authSession.user : null;
+
+  // Hide tabs the signed-in role can't use (the API enforces the same rules)
+  const visibleModules = useMemo(() => (
+    signedInUser ? enabledModules.filter(id => authSession!.modules.includes(id)) : enabledModules
+  ), [signedInUser, authSession]);
 
   const setActiveTab = useCallback((tab: ModuleId) => {
     setActiveTabState(tab);
@@ -28,21 +37,28 @@ export default function Shell() {
   useEffect(() => {
     const handler = (e: Event) => {
       const detail = (e as CustomEvent).detail;
-      if (detail?.tab && enabledModules.includes(detail.tab)) {
+      if (detail?.tab && visibleModules.includes(detail.tab)) {
         setActiveTab(detail.tab);
       }
     };
     window.addEventListener('clawtrol:navigate', handler);
     return () => window.removeEventListener('clawtrol:navigate', handler);
-  }, [setActiveTab]);
+  }, [setActiveTab, visibleModules]);
+
+  // Fall back to the first permitted tab once the session's role is known
+  useEffect(() => {
+    if (visibleModules.length > 0 && !visibleModules.includes(activeTab)) {
+      setActiveTabState(visibleModules[0]);
+    }
+  }, [visibleModules, activeTab]);
 
-  const tabs = enabledModules.map(id => ({
+  const tabs = visibleModules.map(id => ({
     id,
     label: MODULE_META[id].label.toUpperCase(),
     icon: MODULE_META[id].icon,
   }));
 
-  const ActiveModule = MODULE_COMPONENTS[activeTab];
+  const ActiveModule = visibleModules.includes(activeTab) ? MODULE_COMPONENTS[activeTab] : null;
 
   return (
     <div className="min-h-screen relative" style={{ background: 'var(--bg-primary)', color: 'var(--text-primary)' }}>
@@ -72,12 +88,29 @@ export default function Shell() {
             </div>
           </div>
 
-          {/* Mobile: show current tab name */}
-          <div className="md:hidden flex items-center gap-2">
-            <span className="text-[10px]">{tabs.find(t => t.id === activeTab)?.icon}</span>
-            <span className="text-[10px] tracking-[0.15em] font-medium" style={{ color: 'var(--accent-cyan)' }}>
-              {tabs.find(t => t.id === activeTab)?.label}
-            </span>
+          <div className="flex items-center gap-3">
+            {/* Mobile: show current tab name */}
+            <div className="md:hidden flex items-center gap-2">
+              <span className="text-[10px]">{tabs.find(t => t.id === activeTab)?.icon}</span>
+              <span className="text-[10px] tracking-[0.15em] font-medium" style={{ color: 'var(--accent-cyan)' }}>
+                {tabs.find(t => t.id === activeTab)?.label}
+              </span>
+            </div>
+
+            {signedInUser && (
+              <div className="hidden md:flex items-center gap-2">
+                <span className="text-[10px] tracking-wider" style={{ color: 'var(--text-dim)' }}>
+                  {signedInUser.username}
+                </span>
+                <button
+                  onClick={logout}
+                  className="px-2 py-0.5 rounded text-[10px] border transition-colors"
+                  style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)', background: 'transparent' }}
+                >
+                  LOGOUT
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -155,6 +188,14 @@ export default function Shell() {
 
         {/* Drawer footer */}
         <div className="px-4 py-3 border-t" style={{ borderColor: 'var(--border-dim)' }}>
+          {signedInUser && (
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[10px] tracking-wider" style={{ color: 'var(--text-dim)' }}>{signedInUser.username}</span>
+              <button onClick={logout} className="text-[10px] tracking-wider" style={{ color: 'var(--accent-red)' }}>
+                LOGOUT
+              </button>
+            </div>
+          )}
           <div className="text-[8px] tracking-[0.3em] uppercase" style={{ color: 'var(--text-dim)', fontFamily: 'var(--font-display)' }}>
             {config.title ?? 'Clawtrol'} · v0.1.0
           </div>
@@ -163,9 +204,17 @@ export default function Shell() {
 
       {/* Main content */}
       <main className="max-w-[1400px] mx-auto p-4 pt-20 md:pt-24 space-y-3 relative z-10 overflow-x-hidden">
-        <ActiveModule />
+        {ActiveModule ? (
+          <ActiveModule />
+        ) : (
+          <div className="text-center py-16 text-[10px] tracking-wider" style={{ color: 'var(--text-dim)' }}>
+            No modules available for your role
+          </div>
+        )}
       </main>
 
+      {visibleModules.includes('alerts') && <AlertNotifier />}
+
       {/* Footer */}
       <footer className="text-center py-3" style={{ color: 'var(--text-dim)' }}>
         <div className="text-[9px] tracking-[0.3em] uppercase" style={{ fontFamily: 'var(--font-display)' }}>
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { Card } from '@/components/shared/StatCard';
+import { timeAgo } from '@/lib/types';
+import type { Alert } from '@/lib/alerts';
+
+interface RuleInfo {
+  id: string;
+  name: string;
+  severity: Alert['severity'];
+  description: string;
+}
+
+const SEVERITY_COLORS: Record<Alert['severity'], string> = {
+  info: 'var(--accent-cyan)',
+  warning: 'var(--accent-yellow)',
+  critical: 'var(--accent-red)',
+};
+
+const STATE_COLORS: Record<Alert['state'], string> = {
+  pending: 'var(--text-dim)',
+  firing: 'var(--accent-red)',
+  acknowledged: 'var(--accent-orange)',
+  resolved: 'var(--accent-green)',
+};
+
+const SILENCE_OPTIONS = [
+  { minutes: 60, label: '1H' },
+  { minutes: 24 * 60, label: '24H' },
+];
+
+function ago(ms: number) {
+  return timeAgo(new Date(ms).toISOString());
+}
+
+export default function AlertsModule() {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [rules, setRules] = useState<RuleInfo[]>([]);
+  const [channels, setChannels] = useState<{ id: string; type: string }[]>([]);
+  const [silences, setSilences] = useState<Record<string, number>>({});
+  const [running, setRunning] = useState(true);
+  const [actionResult, setActionResult] = useState<{ text: string; ok: boolean } | null>(null);
+  const [permission, setPermission] = useState<string>('default');
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const res = await fetch('/api/alerts');
+      const data = await res.json();
+      setAlerts(data.alerts || []);
+      setRules(data.rules || []);
+      setChannels(data.channels || []);
+      setSilences(data.silences || {});
+      setRunning(data.running !== false);
+    } catch {}
+  }, []);
+
+  useEffect(() => {
+    fetchAlerts();
+    const interval = setInterval(fetchAlerts, 15000);
+    return () => clearInterval(interval);
+  }, [fetchAlerts]);
+
+  useEffect(() => {
+    if (typeof Notification !== 'undefined') setPermission(Notification.permission);
+  }, []);
+
+  const act = async (body: Record<string, unknown>, success: string) => {
+    try {
+      const res = await fetch('/api/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      const ok = res.ok && data.success;
+      const failures = (data.failures || []).map((f: { channel: string; error: string }) => `${f.channel}: ${f.error}`).join(', ');
+      setActionResult({ text: ok ? success : failures || data.error || 'Failed', ok });
+      fetchAlerts();
+    } catch {
+      setActionResult({ text: 'Request failed', ok: false });
+    }
+    setTimeout(() => setActionResult(null), 4000);
+  };
+
+  const enableNotifications = async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  const active = alerts.filter(a => a.state !== 'resolved');
+  const history = alerts.filter(a => a.state === 'resolved').slice(0, 50);
+
+  return (
+    <div className="space-y-3 animate-fade-in">
+      {actionResult && (
+        <div className="text-[10px] px-3 py-1.5 rounded" style={{
+          background: actionResult.ok ? 'rgba(0,255,106,0.15)' : 'rgba(255,59,92,0.15)',
+          color: actionResult.ok ? 'var(--accent-green)' : 'var(--accent-red)',
+        }}>
+          {actionResult.text}
+        </div>
+      )}
+
+      {!running && (
+        <div className="text-[10px] px-3 py-1.5 rounded" style={{ background: 'rgba(255,200,0,0.1)', color: 'var(--accent-yellow)' }}>
+          The alert engine is off (<code>alerts.enabled: false</code>) — rules are not being evaluated
+        </div>
+      )}
+
+      <Card title="ACTIVE ALERTS" tag={`${active.filter(a => a.state !== 'pending').length} firing`} actions={
+        <div className="flex items-center gap-3">
+          {permission === 'default' && (
+            <button onClick={enableNotifications} className="text-[10px] tracking-wider transition-colors" style={{ color: 'var(--accent-cyan)' }}>
+              ENABLE NOTIFICATIONS
+            </button>
+          )}
+          <button onClick={fetchAlerts} className="text-[10px] tracking-wider transition-colors" style={{ color: 'var(--text-dim)' }}>
+            ↻ REFRESH
+          </button>
+        </div>
+      }>
+        {active.length === 0 ? (
+          <div className="text-center py-8" style={{ color: 'var(--text-dim)' }}>
+            <div className="text-2xl mb-2">◎</div>
+            <div>All clear</div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {active.map(alert => (
+              <div key={alert.id} className="card-base p-3 border-l-2" style={{ borderLeftColor: SEVERITY_COLORS[alert.severity] }}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-[9px] uppercase tracking-wider" style={{ color: STATE_COLORS[alert.state] }}>{alert.state}</span>
+                      <h3 className="text-[11px] font-medium" style={{ color: 'var(--text-primary)' }}>{alert.name}</h3>
+                      <span className="text-[9px] uppercase" style={{ color: SEVERITY_COLORS[alert.severity] }}>{alert.severity}</span>
+                    </div>
+                    <div className="text-[10px] truncate" style={{ color: 'var(--text-secondary)' }}>{alert.message}</div>
+                    <div className="text-[9px] mt-1" style={{ color: 'var(--text-dim)' }}>
+                      {alert.state === 'pending' ? `Condition true since ${ago(alert.startedAt)}` : `Firing since ${ago(alert.firedAt ?? alert.startedAt)}`}
+                      {alert.acknowledgedBy && ` · acknowledged by ${alert.acknowledgedBy}`}
+                    </div>
+                  </div>
+                  {alert.state === 'firing' && (
+                    <button
+                      onClick={() => act({ action: 'ack', id: alert.id }, `Acknowledged ${alert.name}`)}
+                      className="px-2 py-1 rounded text-[9px] border transition-colors shrink-0"
+                      style={{ borderColor: 'rgba(255,140,0,0.3)', color: 'var(--accent-orange)', background: 'rgba(255,140,0,0.05)' }}
+                    >
+                      ACK
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Card title="RULES">
+          <div className="space-y-2">
+            {rules.map(rule => {
+              const silencedUntil = silences[rule.id];
+              return (
+                <div key={rule.id} className="flex items-center justify-between gap-3 text-[10px]">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ background: SEVERITY_COLORS[rule.severity] }} />
+                      <span style={{ color: 'var(--text-primary)' }}>{rule.name}</span>
+                    </div>
+                    <div className="text-[9px] font-mono" style={{ color: 'var(--text-dim)' }}>{rule.description}</div>
+                    {silencedUntil && (
+                      <div className="text-[9px]" style={{ color: 'var(--accent-yellow)' }}>
+                        Silenced until {new Date(silencedUntil).toLocaleString()}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {silencedUntil ? (
+                      <button
+                        onClick={() => act({ action: 'unsilence', ruleId: rule.id }, `${rule.name} unsilenced`)}
+                        className="px-2 py-0.5 rounded text-[9px] border"
+                        style={{ borderColor: 'var(--border-dim)', color: 'var(--accent-yellow)' }}
+                      >
+                        UNSILENCE
+                      </button>
+                    ) : SILENCE_OPTIONS.map(opt => (
+                      <button
+                        key={opt.minutes}
+                        onClick={() => act({ action: 'silence', ruleId: rule.id, minutes: opt.minutes }, `${rule.name} silenced for ${opt.label.toLowerCase()}`)}
+                        className="px-2 py-0.5 rounded text-[9px] border"
+                        style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)' }}
+                        title={`Silence for ${opt.label.toLowerCase()}`}
+                      >
+                        MUTE {opt.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+
+        <Card title="CHANNELS">
+          <div className="space-y-2">
+            {channels.map(channel => (
+              <div key={channel.id} className="flex items-center justify-between text-[10px]">
+                <div>
+                  <span style={{ color: 'var(--text-primary)' }}>{channel.id}</span>
+                  <span className="ml-2 text-[9px] uppercase tracking-wider" style={{ color: 'var(--text-dim)' }}>{channel.type}</span>
+                </div>
+                <button
+                  onClick={() => act({ action: 'test', channel: channel.id }, `Test alert sent to ${channel.id}`)}
+                  className="px-2 py-0.5 rounded text-[9px] border"
+                  style={{ borderColor: 'var(--border-dim)', color: 'var(--accent-cyan)' }}
+                >
+                  TEST
+                </button>
+              </div>
+            ))}
+          </div>
+        </Card>
+      </div>
+
+      <Card title="HISTORY" tag={`${history.length}`}>
+        {history.length === 0 ? (
+          <div className="text-[10px] py-4 text-center" style={{ color: 'var(--text-dim)' }}>No resolved alerts yet</div>
+        ) : (
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="border-b text-[9px] tracking-wider" style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)' }}>
+                <th className="text-left py-2 pr-3">RESOLVED</th>
+                <th className="text-left py-2 px-3">ALERT</th>
+                <th className="text-left py-2 px-3">DETAIL</th>
+                <th className="text-right py-2 pl-3">LASTED</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(alert => (
+                <tr key={alert.id} className="border-b" style={{ borderColor: 'var(--border-dim)' }}>
+                  <td className="py-1.5 pr-3 whitespace-nowrap" style={{ color: 'var(--text-secondary)' }}>
+                    {alert.resolvedAt ? ago(alert.resolvedAt) : '—'}
+                  </td>
+                  <td className="py-1.5 px-3 whitespace-nowrap" style={{ color: SEVERITY_COLORS[alert.severity] }}>{alert.name}</td>
+                  <td className="py-1.5 px-3 max-w-[420px] truncate" style={{ color: 'var(--text-primary)' }}>{alert.message}</td>
+                  <td className="py-1.5 pl-3 text-right whitespace-nowrap" style={{ color: 'var(--text-dim)' }}>
+                    {alert.resolvedAt && alert.firedAt ? `${Math.max(1, Math.round((alert.resolvedAt - alert.firedAt) / 60000))}m` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
+    </div>
+  );
+}
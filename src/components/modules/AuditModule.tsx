@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useCallback, useEffect, Fragment } from 'react';
+import { Card } from '@/components/shared/StatCard';
+import { timeAgo } from '@/lib/types';
+
+interface AuditEntry {
+  id: string;
+  timestamp: number;
+  user: string;
+  via: string;
+  role?: string;
+  ip: string;
+  method: string;
+  route: string;
+  action?: string;
+  summary?: string;
+  payload?: unknown;
+  result: 'ok' | 'error' | 'denied';
+  status: number;
+  error?: string;
+  durationMs?: number;
+}
+
+const RANGES = [
+  { id: '1h', label: '1H', ms: 3600_000 },
+  { id: '24h', label: '24H', ms: 86400_000 },
+  { id: '7d', label: '7D', ms: 7 * 86400_000 },
+  { id: 'all', label: 'ALL', ms: 0 },
+];
+
+const RESULT_COLORS: Record<AuditEntry['result'], string> = {
+  ok: 'var(--accent-green)',
+  error: 'var(--accent-red)',
+  denied: 'var(--accent-orange)',
+};
+
+export default function AuditModule() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [range, setRange] = useState('24h');
+  const [result, setResult] = useState<AuditEntry['result'] | ''>('');
+  const [user, setUser] = useState('');
+  const [query, setQuery] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const fetchAudit = useCallback(async () => {
+    const params = new URLSearchParams({ limit: '300' });
+    const ms = RANGES.find(r => r.id === range)?.ms;
+    if (ms) params.set('since', String(Date.now() - ms));
+    if (result) params.set('result', result);
+    if (user.trim()) params.set('user', user.trim());
+    if (query.trim()) params.set('q', query.trim());
+
+    try {
+      const res = await fetch(`/api/audit?${params}`);
+      const data = await res.json();
+      setEntries(data.entries || []);
+      setTotal(data.total || 0);
+    } catch {}
+  }, [range, result, user, query]);
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchAudit, 300);
+    const interval = setInterval(fetchAudit, 15000);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [fetchAudit]);
+
+  const chip = (active: boolean, color = 'var(--accent-cyan)') => ({
+    borderColor: active ? color : 'var(--border-dim)',
+    color: active ? color : 'var(--text-dim)',
+    background: active ? 'rgba(0,255,200,0.05)' : 'transparent',
+  });
+
+  return (
+    <div className="space-y-3 animate-fade-in">
+      <Card title="AUDIT LOG" tag={`${total} events`} actions={
+        <button onClick={fetchAudit} className="text-[10px] tracking-wider transition-colors" style={{ color: 'var(--text-dim)' }}>
+          ↻ REFRESH
+        </button>
+      }>
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setRange(r.id)}
+              className="px-2 py-0.5 rounded text-[9px] tracking-wider border transition-colors"
+              style={chip(range === r.id)}
+            >
+              {r.label}
+            </button>
+          ))}
+          <span className="w-px h-4" style={{ background: 'var(--border-dim)' }} />
+          {(['ok', 'error', 'denied'] as const).map(r => (
+            <button
+              key={r}
+              onClick={() => setResult(result === r ? '' : r)}
+              className="px-2 py-0.5 rounded text-[9px] tracking-wider border uppercase transition-colors"
+              style={chip(result === r, RESULT_COLORS[r])}
+            >
+              {r}
+            </button>
+          ))}
+          <input
+            type="text"
+            value={user}
+            onChange={(e) => setUser(e.target.value)}
+            placeholder="User..."
+            className="rounded px-2 py-0.5 text-[10px] w-24"
+          />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search route, action, payload..."
+            className="rounded px-2 py-0.5 text-[10px] flex-1 min-w-[160px]"
+          />
+        </div>
+
+        {/* Entries */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="border-b text-[9px] tracking-wider" style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)' }}>
+                <th className="text-left py-2 pr-3">WHEN</th>
+                <th className="text-left py-2 px-3">WHO</th>
+                <th className="text-left py-2 px-3">ROUTE</th>
+                <th className="text-left py-2 px-3">WHAT</th>
+                <th className="text-right py-2 pl-3">RESULT</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <Fragment key={entry.id}>
+                  <tr
+                    onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                    className="border-b cursor-pointer hover:opacity-80"
+                    style={{ borderColor: 'var(--border-dim)' }}
+                  >
+                    <td className="py-1.5 pr-3 whitespace-nowrap" style={{ color: 'var(--text-secondary)' }} title={new Date(entry.timestamp).toLocaleString()}>
+                      {timeAgo(new Date(entry.timestamp).toISOString())}
+                    </td>
+                    <td className="py-1.5 px-3 whitespace-nowrap">
+                      <span style={{ color: 'var(--text-primary)' }}>{entry.user}</span>
+                      {entry.role && <span className="ml-1 text-[8px]" style={{ color: 'var(--text-dim)' }}>{entry.role}</span>}
+                    </td>
+                    <td className="py-1.5 px-3 whitespace-nowrap" style={{ color: 'var(--accent-cyan)', fontFamily: 'var(--font-data)' }}>
+                      {entry.route}
+                    </td>
+                    <td className="py-1.5 px-3 max-w-[420px] truncate" style={{ color: 'var(--text-primary)' }}>
+                      {entry.summary || entry.action || entry.error || '—'}
+                    </td>
+                    <td className="py-1.5 pl-3 text-right whitespace-nowrap uppercase tracking-wider" style={{ color: RESULT_COLORS[entry.result] }}>
+                      {entry.result}
+                    </td>
+                  </tr>
+                  {expanded === entry.id && (
+                    <tr className="border-b" style={{ borderColor: 'var(--border-dim)' }}>
+                      <td colSpan={5} className="py-2">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-2 text-[9px]" style={{ color: 'var(--text-dim)' }}>
+                          <div>TIME: <span style={{ color: 'var(--text-secondary)' }}>{new Date(entry.timestamp).toLocaleString()}</span></div>
+                          <div>VIA: <span style={{ color: 'var(--text-secondary)' }}>{entry.via} · {entry.ip}</span></div>
+                          <div>STATUS: <span style={{ color: 'var(--text-secondary)' }}>{entry.method} {entry.status}</span></div>
+                          {entry.durationMs != null && (
+                            <div>DURATION: <span style={{ color: 'var(--text-secondary)' }}>{entry.durationMs}ms</span></div>
+                          )}
+                        </div>
+                        {entry.error && (
+                          <div className="text-[10px] mb-2" style={{ color: 'var(--accent-red)' }}>{entry.error}</div>
+                        )}
+                        {entry.payload !== undefined && (
+                          <pre className="text-[10px] p-2 rounded overflow-x-auto" style={{ background: 'rgba(0,0,0,0.3)', color: 'var(--text-secondary)', fontFamily: 'var(--font-data)' }}>
+                            {JSON.stringify(entry.payload, null, 2)}
+                          </pre>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {entries.length === 0 && (
+          <div className="text-center py-8" style={{ color: 'var(--text-dim)' }}>
+            <div className="text-2xl mb-2">◎</div>
+            <div>No audit events match</div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,362 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { Card, MetricBlock, ProgressBar } from '@/components/shared/StatCard';
+import { Sparkline } from '@/components/shared/Sparkline';
+import type { BudgetLevel, BudgetStatus } from '@/lib/budgets';
+import type { SessionUsage, UsageHistory } from '@/lib/usage-history';
+
+type History = Omit<UsageHistory, 'sessions'> & {
+  sessions: (SessionUsage & { label: string; emoji?: string })[];
+  agents: string[];
+};
+
+const PRESETS = [
+  { id: '7d', label: '7D', days: 7 },
+  { id: '30d', label: '30D', days: 30 },
+  { id: '90d', label: '90D', days: 90 },
+];
+
+// Models are colored by rank, most expensive first
+const MODEL_COLORS = [
+  'var(--accent-cyan)',
+  'var(--accent-purple)',
+  'var(--accent-yellow)',
+  'var(--accent-green)',
+  'var(--accent-orange)',
+  'var(--accent-red)',
+];
+
+/** YYYY-MM-DD for a local date `daysAgo` days before today */
+function localDay(daysAgo = 0) {
+  const d = new Date();
+  d.setDate(d.getDate() - daysAgo);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function formatCost(cost: number) {
+  return `$${cost < 1 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number) {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return String(tokens);
+}
+
+const chipStyle = (active: boolean) => active
+  ? { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' }
+  : { background: 'transparent', color: 'var(--text-dim)' };
+
+const dateInputStyle = { borderColor: 'var(--border-dim)', color: 'var(--text-secondary)', colorScheme: 'dark' as const };
+
+function DailyBars({ history, colorFor }: { history: History; colorFor: (model: string) => string }) {
+  const max = Math.max(...history.days.map(d => d.cost), 0);
+  if (max === 0) {
+    return <div className="text-[10px] py-8 text-center" style={{ color: 'var(--text-dim)' }}>No spend in this range</div>;
+  }
+  const { days } = history;
+  const ticks = [days[0], days[Math.floor((days.length - 1) / 2)], days[days.length - 1]];
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-40">
+        {days.map(day => (
+          <div
+            key={day.date}
+            className="flex-1 min-w-0 h-full flex flex-col-reverse group"
+            title={[`${day.date} · ${formatCost(day.cost)} · ${day.calls} calls`,
+              ...Object.entries(day.byModel).sort((a, b) => b[1] - a[1]).map(([m, c]) => `${m}: ${formatCost(c)}`)].join('\n')}
+          >
+            {history.models.filter(m => day.byModel[m.model]).map(m => (
+              <div
+                key={m.model}
+                className="w-full transition-opacity group-hover:opacity-80"
+                style={{ height: `${(day.byModel[m.model] / max) * 100}%`, background: colorFor(m.model) }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-[9px] font-mono" style={{ color: 'var(--text-dim)' }}>
+        {ticks.map((d, i) => <span key={i}>{d.date.slice(5)}</span>)}
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+        {history.models.map(m => (
+          <span key={m.model} className="flex items-center gap-1 text-[9px]" style={{ color: 'var(--text-secondary)' }}>
+            <span className="w-2 h-2 rounded-sm" style={{ background: colorFor(m.model) }} />
+            {m.model}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const LEVEL_COLORS: Record<BudgetLevel, string> = {
+  ok: 'var(--accent-green)',
+  warning: 'var(--accent-yellow)',
+  exceeded: 'var(--accent-red)',
+};
+
+function formatResetsIn(periodEnd: number) {
+  const hours = Math.max(0, (periodEnd - Date.now()) / 3600_000);
+  return hours >= 48 ? `${Math.round(hours / 24)}d` : hours >= 1 ? `${Math.round(hours)}h` : `${Math.round(hours * 60)}m`;
+}
+
+function BudgetsCard() {
+  const [budgets, setBudgets] = useState<BudgetStatus[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBudgets = useCallback(async () => {
+    try {
+      const res = await fetch('/api/budgets');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load budgets');
+      setBudgets(data.budgets);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load budgets');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBudgets();
+    const interval = setInterval(fetchBudgets, 60000);
+    return () => clearInterval(interval);
+  }, [fetchBudgets]);
+
+  const resumeCron = async (id: string) => {
+    setBusy(id);
+    try {
+      const res = await fetch('/api/budgets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'resume-cron', id }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to resume cron jobs');
+      setError(null);
+      await fetchBudgets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resume cron jobs');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!budgets || budgets.length === 0) return null;
+  const over = budgets.filter(b => b.level !== 'ok').length;
+
+  return (
+    <Card title="BUDGETS" tag={over ? `${over} over soft limit` : `${budgets.length} on track`}>
+      {error && <div className="text-[10px] mb-2" style={{ color: 'var(--accent-red)' }}>{error}</div>}
+      <div className="space-y-3">
+        {budgets.map(b => {
+          const color = LEVEL_COLORS[b.level];
+          const lastAction = b.actions[b.actions.length - 1];
+          return (
+            <div key={b.id}>
+              <div className="flex items-center gap-2 text-[10px] mb-1">
+                <span className="truncate" style={{ color: 'var(--text-primary)' }}>{b.name}</span>
+                <span className="text-[9px] truncate" style={{ color: 'var(--text-dim)' }}>{b.scope} · {b.period}</span>
+                <span className="text-[9px] uppercase" style={{ color }}>{b.level}</span>
+                <span className="flex-1" />
+                <span className="font-mono" style={{ color }}>{formatCost(b.spent)}</span>
+                <span className="font-mono" style={{ color: 'var(--text-dim)' }}>/ {formatCost(b.limit)}</span>
+              </div>
+              <div className="relative">
+                <ProgressBar value={b.limit > 0 ? (b.spent / b.limit) * 100 : 0} color={color} />
+                <div
+                  className="absolute top-0 h-full w-px"
+                  style={{ left: `${Math.min((b.soft / b.limit) * 100, 100)}%`, background: 'var(--accent-yellow)' }}
+                  title={`Soft limit ${formatCost(b.soft)}`}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-x-2 mt-1 text-[9px]" style={{ color: 'var(--text-dim)' }}>
+                <span>
+                  projected <span style={{ color: b.projected > b.limit ? 'var(--accent-red)' : 'var(--text-secondary)' }}>{formatCost(b.projected)}</span>
+                </span>
+                <span>· resets in {formatResetsIn(b.periodEnd)}</span>
+                {lastAction && (
+                  <span style={{ color: lastAction.ok ? 'var(--text-secondary)' : 'var(--accent-red)' }}>
+                    · {new Date(lastAction.at).toLocaleString()}: {lastAction.detail}
+                  </span>
+                )}
+                {b.problem && <span style={{ color: 'var(--accent-orange)' }}>· {b.problem}</span>}
+                {b.pausedJobs.length > 0 && (
+                  <button
+                    onClick={() => resumeCron(b.id)}
+                    disabled={busy === b.id}
+                    className="ml-auto px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors"
+                    style={{ background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' }}
+                  >
+                    {busy === b.id ? '...' : `RESUME ${b.pausedJobs.length} CRON`}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
+
+export default function CostsModule() {
+  const [preset, setPreset] = useState<string | null>('30d');
+  const [from, setFrom] = useState(() => localDay(29));
+  const [to, setTo] = useState(() => localDay());
+  const [agent, setAgent] = useState('');
+  const [history, setHistory] = useState<History | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    const params = new URLSearchParams({ from, to, tz: String(new Date().getTimezoneOffset()) });
+    if (agent) params.set('agent', agent);
+    try {
+      const res = await fetch(`/api/usage/history?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load costs');
+      setHistory(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load costs');
+    }
+  }, [from, to, agent]);
+
+  useEffect(() => {
+    fetchHistory();
+    const interval = setInterval(fetchHistory, 60000);
+    return () => clearInterval(interval);
+  }, [fetchHistory]);
+
+  const applyPreset = (id: string, days: number) => {
+    setPreset(id);
+    setFrom(localDay(days - 1));
+    setTo(localDay());
+  };
+
+  const colorFor = (model: string) => {
+    const rank = history?.models.findIndex(m => m.model === model) ?? -1;
+    return rank >= 0 && rank < MODEL_COLORS.length ? MODEL_COLORS[rank] : 'var(--text-dim)';
+  };
+
+  const totals = history?.totals;
+  const dayCount = history?.days.length || 1;
+
+  return (
+    <div className="space-y-3 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-2">
+        {PRESETS.map(p => (
+          <button key={p.id} onClick={() => applyPreset(p.id, p.days)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(preset === p.id)}>
+            {p.label}
+          </button>
+        ))}
+        <input type="date" value={from} max={to} onChange={(e) => { setPreset(null); setFrom(e.target.value); }} className="rounded border bg-transparent px-1.5 py-0.5 text-[10px]" style={dateInputStyle} />
+        <span className="text-[10px]" style={{ color: 'var(--text-dim)' }}>→</span>
+        <input type="date" value={to} min={from} onChange={(e) => { setPreset(null); setTo(e.target.value); }} className="rounded border bg-transparent px-1.5 py-0.5 text-[10px]" style={dateInputStyle} />
+        {history && history.agents.length > 1 && (
+          <>
+            <span className="w-px h-4" style={{ background: 'var(--border-dim)' }} />
+            {['', ...history.agents].map(a => (
+              <button key={a || 'all'} onClick={() => setAgent(a)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(agent === a)}>
+                {a || 'ALL AGENTS'}
+              </button>
+            ))}
+          </>
+        )}
+        <span className="flex-1" />
+        <button onClick={fetchHistory} className="text-[10px] tracking-wider transition-colors" style={{ color: 'var(--text-dim)' }}>
+          ↻ REFRESH
+        </button>
+      </div>
+
+      {error && <div className="text-[11px]" style={{ color: 'var(--accent-red)' }}>{error}</div>}
+
+      {totals && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <MetricBlock label="TOTAL SPEND" value={formatCost(totals.cost)} sub={`${totals.calls.toLocaleString()} API calls`} accent="var(--accent-yellow)" />
+          <MetricBlock label="PER DAY" value={formatCost(totals.cost / dayCount)} sub={`over ${dayCount} days`} accent="var(--accent-cyan)" sparkData={history.days.map(d => d.cost)} />
+          <MetricBlock label="CACHE SAVINGS" value={formatCost(totals.cacheSavings)} sub="vs. uncached input" accent="var(--accent-green)" />
+          <MetricBlock label="CACHE HIT RATE" value={`${(totals.cacheHitRate * 100).toFixed(0)}%`} sub={`${formatTokens(totals.tokens)} tokens`} accent="var(--accent-purple)" />
+        </div>
+      )}
+
+      <BudgetsCard />
+
+      <Card title="DAILY SPEND" tag={history ? `${history.from} → ${history.to}` : undefined}>
+        {history ? (
+          <DailyBars history={history} colorFor={colorFor} />
+        ) : (
+          <div className="h-40 rounded animate-pulse" style={{ background: 'rgba(255,255,255,0.05)' }} />
+        )}
+      </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-3">
+        <Card title="BY MODEL" tag={history ? `${history.models.length} models` : undefined}>
+          <div className="overflow-x-auto">
+            <table className="w-full text-[10px]">
+              <thead>
+                <tr className="border-b text-[9px] tracking-wider" style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)' }}>
+                  <th className="text-left py-2 pr-3">MODEL</th>
+                  <th className="text-right py-2 px-3">COST</th>
+                  <th className="text-left py-2 px-3 w-24">SHARE</th>
+                  <th className="text-right py-2 px-3">TOKENS</th>
+                  <th className="text-right py-2 px-3">CACHED</th>
+                  <th className="text-right py-2 pl-3">SAVED</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history?.models.map(m => {
+                  const prompt = m.inputTokens + m.cacheReadTokens + m.cacheWriteTokens;
+                  return (
+                    <tr key={m.model} className="border-b" style={{ borderColor: 'var(--border-dim)' }}>
+                      <td className="py-1.5 pr-3">
+                        <span className="flex items-center gap-1.5 min-w-0">
+                          <span className="w-2 h-2 rounded-sm shrink-0" style={{ background: colorFor(m.model) }} />
+                          <span className="truncate" style={{ color: 'var(--text-primary)', fontFamily: 'var(--font-data)' }}>{m.model}</span>
+                        </span>
+                      </td>
+                      <td className="py-1.5 px-3 text-right font-mono" style={{ color: 'var(--text-primary)' }}>{formatCost(m.cost)}</td>
+                      <td className="py-1.5 px-3">
+                        <ProgressBar value={totals?.cost ? (m.cost / totals.cost) * 100 : 0} color={colorFor(m.model)} />
+                      </td>
+                      <td className="py-1.5 px-3 text-right font-mono" style={{ color: 'var(--text-secondary)' }}>{formatTokens(m.tokens)}</td>
+                      <td className="py-1.5 px-3 text-right font-mono" style={{ color: 'var(--text-secondary)' }}>
+                        {prompt > 0 ? `${((m.cacheReadTokens / prompt) * 100).toFixed(0)}%` : '—'}
+                      </td>
+                      <td className="py-1.5 pl-3 text-right font-mono" style={{ color: 'var(--accent-green)' }}>{formatCost(m.cacheSavings)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+
+        <Card title="TOP SESSIONS" tag={history ? `${history.sessions.length} shown` : undefined}>
+          <div className="space-y-1">
+            {history?.sessions.map(s => (
+              <div key={`${s.agent}:${s.key}`} className="flex items-center gap-2 text-[10px] py-1 border-b" style={{ borderColor: 'var(--border-dim)' }}>
+                <div className="min-w-0 flex-1">
+                  <div className="truncate" style={{ color: 'var(--text-primary)' }}>
+                    {s.emoji && `${s.emoji} `}{s.label}
+                  </div>
+                  <div className="text-[9px] truncate" style={{ color: 'var(--text-dim)' }}>
+                    {history.agents.length > 1 && `${s.agent} · `}{s.calls.toLocaleString()} calls · {formatTokens(s.tokens)} tokens
+                  </div>
+                </div>
+                <Sparkline data={s.daily} color="var(--accent-yellow)" height={20} width={90} />
+                <div className="w-16 text-right font-mono" style={{ color: 'var(--accent-yellow)' }}>{formatCost(s.cost)}</div>
+              </div>
+            ))}
+            {history && history.sessions.length === 0 && (
+              <div className="text-[10px] py-4 text-center" style={{ color: 'var(--text-dim)' }}>No sessions with usage in this range</div>
+            )}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
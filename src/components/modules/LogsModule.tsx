@@ -1,33 +1,356 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import type { ReactNode } from 'react';
 import { Card } from '@/components/shared/StatCard';
-import { LogsView } from '@/components/shared/ActivityFeed';
+import { compileSearch, LOG_LEVELS, searchMatches } from '@/lib/log-parse';
+import type { LogLevel, LogRecord, LogStream } from '@/lib/log-parse';
+
+type Status = 'connecting' | 'live' | 'reconnecting';
+type Range = 'live' | '1h' | '6h' | '24h';
+
+// Oldest lines drop off past this, same as a terminal's scrollback
+const MAX_LINES = 5000;
+
+const RANGES: { id: Range; label: string; ms: number }[] = [
+  { id: 'live', label: 'LIVE', ms: 0 },
+  { id: '1h', label: '1H', ms: 3600_000 },
+  { id: '6h', label: '6H', ms: 6 * 3600_000 },
+  { id: '24h', label: '24H', ms: 24 * 3600_000 },
+];
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: 'var(--text-dim)',
+  info: 'var(--accent-cyan)',
+  warn: 'var(--accent-yellow)',
+  error: 'var(--accent-red)',
+};
+
+// Stand-in record for a truncation notice in the live view
+function marker(stream: LogStream): LogRecord {
+  const file = stream === 'err' ? 'gateway.err.log' : 'gateway.log';
+  return { stream, timestamp: null, level: 'debug', component: null, message: '', raw: `── ${file} truncated or rotated ──` };
+}
+
+function cap(lines: LogRecord[]): LogRecord[] {
+  return lines.length > MAX_LINES ? lines.slice(-MAX_LINES) : lines;
+}
+
+function highlight(text: string, search: RegExp | null): ReactNode {
+  if (!search) return text || ' ';
+  const parts: ReactNode[] = [];
+  let last = 0;
+  search.lastIndex = 0;
+  for (const match of text.matchAll(search)) {
+    if (!match[0]) break;
+    const start = match.index ?? 0;
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <mark key={start} style={{ background: 'rgba(255,200,0,0.35)', color: 'inherit', borderRadius: 2 }}>{match[0]}</mark>
+    );
+    last = start + match[0].length;
+  }
+  if (parts.length === 0) return text || ' ';
+  parts.push(text.slice(last));
+  return parts;
+}
 
 export default function LogsModule() {
-  const [logs, setLogs] = useState('');
+  const [records, setRecords] = useState<LogRecord[]>([]);
+  const [status, setStatus] = useState<Status>('connecting');
+  const [paused, setPaused] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [connection, setConnection] = useState(0);
+  const [range, setRange] = useState<Range>('live');
+  const [levels, setLevels] = useState<LogLevel[]>([...LOG_LEVELS]);
+  const [query, setQuery] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [onlyMatches, setOnlyMatches] = useState(false);
+  const [current, setCurrent] = useState(-1);
+  const [loading, setLoading] = useState(false);
+  const pausedRef = useRef(false);
+  const pendingRef = useRef<LogRecord[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const stickRef = useRef(true);
+
+  const { search, searchError } = useMemo(() => {
+    try {
+      return { search: compileSearch(query, regex), searchError: null };
+    } catch (err) {
+      return { search: null, searchError: err instanceof Error ? err.message : 'Invalid regular expression' };
+    }
+  }, [query, regex]);
+
+  // Live mode: follow the stream
+  useEffect(() => {
+    if (range !== 'live') return;
+    const source = new EventSource('/api/gateway/logs/stream?lines=100');
+
+    const push = (incoming: LogRecord[]) => {
+      if (pausedRef.current) {
+        pendingRef.current = cap([...pendingRef.current, ...incoming]);
+        setPendingCount(pendingRef.current.length);
+      } else {
+        setRecords(prev => cap([...prev, ...incoming]));
+      }
+    };
+
+    // The server resends the backlog on every (re)connect
+    source.onopen = () => {
+      setStatus('live');
+      setRecords([]);
+      pendingRef.current = [];
+      setPendingCount(0);
+    };
+    source.onerror = () => setStatus('reconnecting');
+
+    source.addEventListener('records', (event) => {
+      const { records: incoming } = JSON.parse((event as MessageEvent).data) as { records: LogRecord[] };
+      push(incoming);
+    });
+    source.addEventListener('reset', (event) => {
+      const { stream } = JSON.parse((event as MessageEvent).data) as { stream: LogStream };
+      push([marker(stream)]);
+    });
+
+    return () => source.close();
+  }, [range, connection]);
 
-  const fetchLogs = useCallback(async () => {
+  // History mode: let the backend filter the wider window
+  const fetchRange = useCallback(async () => {
+    const selected = RANGES.find(r => r.id === range);
+    if (!selected || range === 'live') return;
+    setLoading(true);
     try {
-      const res = await fetch('/api/gateway/logs?lines=100');
+      const params = new URLSearchParams({ lines: '500', since: String(Date.now() - selected.ms) });
+      if (levels.length < LOG_LEVELS.length) params.set('level', levels.join(','));
+      if (onlyMatches && query && !searchError) {
+        params.set('q', query);
+        if (regex) params.set('regex', '1');
+      }
+      const res = await fetch(`/api/gateway/logs?${params}`);
       const data = await res.json();
-      setLogs(data.logs || '');
-    } catch {}
-  }, []);
+      setRecords(data.records || []);
+      stickRef.current = true;
+    } catch {} finally {
+      setLoading(false);
+    }
+  }, [range, levels, onlyMatches, query, regex, searchError]);
 
   useEffect(() => {
-    fetchLogs();
-    const interval = setInterval(fetchLogs, 10000);
-    return () => clearInterval(interval);
-  }, [fetchLogs]);
+    if (range === 'live') return;
+    const timer = setTimeout(fetchRange, 300);
+    return () => clearTimeout(timer);
+  }, [range, fetchRange]);
+
+  const counts = useMemo(() => {
+    const c: Record<LogLevel, number> = { debug: 0, info: 0, warn: 0, error: 0 };
+    for (const r of records) c[r.level]++;
+    return c;
+  }, [records]);
+
+  const visible = useMemo(() => records.filter(r =>
+    levels.includes(r.level) && (!onlyMatches || !search || searchMatches(r, search))
+  ), [records, levels, onlyMatches, search]);
+
+  const matches = useMemo(() => {
+    if (!search) return [];
+    const hits: number[] = [];
+    visible.forEach((r, i) => { if (searchMatches(r, search)) hits.push(i); });
+    return hits;
+  }, [visible, search]);
+
+  useEffect(() => {
+    setCurrent(-1);
+  }, [search]);
+
+  // Follow the bottom unless the user has scrolled up to read
+  useEffect(() => {
+    if (scrollRef.current && stickRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [visible]);
+
+  const onScroll = () => {
+    const el = scrollRef.current;
+    if (el) stickRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 40;
+  };
+
+  const jump = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const next = current === -1
+      ? (direction === 1 ? 0 : matches.length - 1)
+      : (current + direction + matches.length) % matches.length;
+    setCurrent(next);
+    stickRef.current = false;
+    scrollRef.current?.querySelector(`[data-line="${matches[next]}"]`)?.scrollIntoView({ block: 'center' });
+  };
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels(prev => prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]);
+  };
+
+  const togglePause = () => {
+    if (paused) {
+      const pending = pendingRef.current;
+      pendingRef.current = [];
+      setPendingCount(0);
+      setRecords(prev => cap([...prev, ...pending]));
+      stickRef.current = true;
+    }
+    pausedRef.current = !paused;
+    setPaused(!paused);
+  };
+
+  const changeRange = (next: Range) => {
+    if (next === range) return;
+    setRecords([]);
+    setStatus('connecting');
+    setRange(next);
+  };
+
+  const reload = () => {
+    if (range === 'live') {
+      setStatus('connecting');
+      setConnection(c => c + 1);
+    } else {
+      fetchRange();
+    }
+  };
+
+  const currentLine = current >= 0 ? matches[current] : -1;
 
   return (
     <Card title="GATEWAY LOGS" actions={
-      <button onClick={fetchLogs} className="text-[10px] tracking-wider transition-colors" style={{ color: 'var(--text-dim)' }}>
-        ↻ REFRESH
-      </button>
+      <div className="flex items-center gap-3">
+        {range === 'live' && (
+          <>
+            <span className="text-[10px] tracking-wider" style={{
+              color: paused ? 'var(--accent-yellow)' : status === 'live' ? 'var(--accent-green)' : 'var(--accent-orange)',
+            }}>
+              {paused ? `● PAUSED${pendingCount > 0 ? ` (${pendingCount} new)` : ''}` : status === 'live' ? '● LIVE' : status === 'connecting' ? '○ CONNECTING…' : '○ RECONNECTING…'}
+            </span>
+            <button onClick={togglePause} className="text-[10px] tracking-wider transition-colors" style={{ color: 'var(--text-dim)' }}>
+              {paused ? '▶ RESUME' : '❚❚ PAUSE'}
+            </button>
+          </>
+        )}
+        <button onClick={reload} className="text-[10px] tracking-wider transition-colors" style={{ color: 'var(--text-dim)' }}>
+          {loading ? '…' : '↻ RELOAD'}
+        </button>
+      </div>
     }>
-      <LogsView logs={logs} />
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <div className="flex items-center gap-1">
+          {RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => changeRange(r.id)}
+              className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors"
+              style={range === r.id
+                ? { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' }
+                : { background: 'transparent', color: 'var(--text-dim)' }}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1">
+          {LOG_LEVELS.map(level => {
+            const on = levels.includes(level);
+            return (
+              <button
+                key={level}
+                onClick={() => toggleLevel(level)}
+                className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider border transition-colors"
+                style={{
+                  borderColor: on ? LEVEL_COLORS[level] : 'var(--border-dim)',
+                  color: on ? LEVEL_COLORS[level] : 'var(--text-dim)',
+                  opacity: on ? 1 : 0.6,
+                }}
+              >
+                {level} {counts[level]}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-1 ml-auto">
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') jump(e.shiftKey ? -1 : 1);
+              if (e.key === 'Escape') setQuery('');
+            }}
+            placeholder={regex ? 'regex…' : 'search…'}
+            title={searchError ?? undefined}
+            className="text-[11px] px-2 py-1 rounded border bg-transparent outline-none w-44"
+            style={{ borderColor: searchError ? 'var(--accent-red)' : 'var(--border-dim)', color: 'var(--text-primary)' }}
+          />
+          <button
+            onClick={() => setRegex(!regex)}
+            title="Regular expression"
+            className="text-[10px] px-1.5 py-0.5 rounded font-mono transition-colors"
+            style={{ color: regex ? 'var(--accent-cyan)' : 'var(--text-dim)', background: regex ? 'rgba(0,255,200,0.1)' : 'transparent' }}
+          >
+            .*
+          </button>
+          <button
+            onClick={() => setOnlyMatches(!onlyMatches)}
+            title="Only show matching lines"
+            className="text-[9px] px-1.5 py-0.5 rounded tracking-wider transition-colors"
+            style={{ color: onlyMatches ? 'var(--accent-cyan)' : 'var(--text-dim)', background: onlyMatches ? 'rgba(0,255,200,0.1)' : 'transparent' }}
+          >
+            ONLY
+          </button>
+          {search && (
+            <span className="text-[10px] tabular-nums" style={{ color: 'var(--text-dim)' }}>
+              {matches.length === 0 ? '0/0' : `${current + 1 || '–'}/${matches.length}`}
+            </span>
+          )}
+          <button onClick={() => jump(-1)} disabled={matches.length === 0} className="text-[10px] px-1 disabled:opacity-30" style={{ color: 'var(--text-dim)' }} title="Previous match (Shift+Enter)">▲</button>
+          <button onClick={() => jump(1)} disabled={matches.length === 0} className="text-[10px] px-1 disabled:opacity-30" style={{ color: 'var(--text-dim)' }} title="Next match (Enter)">▼</button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={onScroll}
+        className="rounded p-3 overflow-y-auto overflow-x-hidden font-mono text-[11px] leading-relaxed"
+        style={{
+          background: 'var(--bg-secondary)',
+          height: 'calc(100dvh - 310px)',
+          minHeight: '300px',
+          maxHeight: 'calc(100vh - 310px)',
+          WebkitOverflowScrolling: 'touch',
+          overscrollBehavior: 'contain'
+        }}
+      >
+        {visible.length === 0 ? (
+          <div style={{ color: 'var(--text-dim)' }}>
+            {records.length > 0 ? 'No lines match the current filters' : status === 'live' || range !== 'live' ? 'No logs found' : 'Loading...'}
+          </div>
+        ) : (
+          visible.map((record, i) => (
+            <div
+              key={i}
+              data-line={i}
+              className="flex gap-2 whitespace-pre-wrap break-all"
+              style={{
+                color: record.level === 'info' ? '#b0bcc8' : LEVEL_COLORS[record.level],
+                background: i === currentLine ? 'rgba(255,200,0,0.08)' : undefined,
+              }}
+            >
+              <span className="shrink-0 w-10 text-[9px] uppercase tracking-wider pt-px" style={{ color: LEVEL_COLORS[record.level], opacity: record.continuation ? 0 : 1 }}>
+                {record.level}
+              </span>
+              <span className="min-w-0">{highlight(record.raw, search)}</span>
+            </div>
+          ))
+        )}
+      </div>
     </Card>
   );
 }
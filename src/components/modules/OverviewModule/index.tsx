@@ -2,8 +2,9 @@
 
 import { useState, useEffect, useCallback, Suspense, lazy, ComponentType } from 'react';
 import { MODULE_META } from '@/lib/config';
-import type { WidgetConfig } from '@/lib/config';
+import type { ModuleId, WidgetConfig } from '@/lib/config';
 import { widgetRegistry } from '@/lib/widgets';
+import { useAuthSession } from '@/lib/useAuthSession';
 import type { WidgetManifest } from '@/lib/widgets';
 import config from '../../../../clawtrol.config';
 
@@ -98,7 +99,11 @@ function WidgetCard({
 }
 
 export default function OverviewModule() {
-  const widgetConfigs = config.widgets || [];
+  const authSession = useAuthSession();
+  // Only show widgets from modules the signed-in role can open
+  const widgetConfigs = (config.widgets || []).filter(w =>
+    !authSession?.authEnabled || authSession.modules.includes(w.module as ModuleId)
+  );
   const resolved = widgetRegistry.resolve(widgetConfigs);
 
   const navigateToTab = useCallback((module: string) => {
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatBytes } from '@/lib/types';
+import type { MetricSample, MetricWindow } from '@/lib/metrics';
+import { Sparkline } from '@/components/shared/Sparkline';
+
+const WINDOWS: MetricWindow[] = ['1h', '24h', '7d'];
+
+const SERIES: { key: Exclude<keyof MetricSample, 't'>; label: string; color: string; format: (v: number) => string }[] = [
+  { key: 'cpu', label: 'CPU', color: 'var(--accent-cyan)', format: v => `${v.toFixed(1)}%` },
+  { key: 'memory', label: 'RAM', color: 'var(--accent-purple)', format: v => `${v.toFixed(1)}%` },
+  { key: 'disk', label: 'DISK', color: 'var(--accent-yellow)', format: v => `${v.toFixed(1)}%` },
+  { key: 'temperature', label: 'TEMP', color: 'var(--accent-orange)', format: v => `${v.toFixed(0)}°C` },
+  { key: 'gatewayRss', label: 'GATEWAY RSS', color: 'var(--accent-green)', format: v => formatBytes(v) },
+  { key: 'gatewayCpu', label: 'GATEWAY CPU', color: 'var(--accent-red)', format: v => `${v.toFixed(1)}%` },
+];
+
+export default function SystemHistoryWidget() {
+  const [window, setWindow] = useState<MetricWindow>('1h');
+  const [samples, setSamples] = useState<MetricSample[] | null>(null);
+  const [running, setRunning] = useState(true);
+
+  const fetchMetrics = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/metrics?window=${window}&points=120`);
+      const data = await res.json();
+      setSamples(data.samples || []);
+      setRunning(data.running !== false);
+    } catch {}
+  }, [window]);
+
+  useEffect(() => {
+    fetchMetrics();
+    const interval = setInterval(fetchMetrics, 30000);
+    return () => clearInterval(interval);
+  }, [fetchMetrics]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        {WINDOWS.map(w => (
+          <button
+            key={w}
+            onClick={() => setWindow(w)}
+            className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors"
+            style={window === w
+              ? { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' }
+              : { background: 'transparent', color: 'var(--text-dim)' }}
+          >
+            {w}
+          </button>
+        ))}
+      </div>
+
+      {!running ? (
+        <div className="text-[10px] py-4 text-center" style={{ color: 'var(--text-dim)' }}>
+          Metrics sampler is off — set <code>metrics.enabled</code> in clawtrol.config.ts
+        </div>
+      ) : samples === null ? (
+        <div className="h-20 rounded animate-pulse" style={{ background: 'rgba(255,255,255,0.05)' }} />
+      ) : samples.length < 2 ? (
+        <div className="text-[10px] py-4 text-center" style={{ color: 'var(--text-dim)' }}>
+          Collecting samples…
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+          {SERIES.map(series => {
+            const values = samples.map(s => s[series.key]).filter((v): v is number => v !== null);
+            if (values.length === 0) return null;
+            const latest = values[values.length - 1];
+            const avg = values.reduce((a, b) => a + b, 0) / values.length;
+            return (
+              <div key={series.key} className="p-2 rounded" style={{ background: 'rgba(255,255,255,0.03)' }}>
+                <div className="flex items-center justify-between">
+                  <div className="text-[9px] uppercase tracking-widest" style={{ color: 'var(--text-dim)' }}>{series.label}</div>
+                  <div className="text-sm font-bold font-mono" style={{ color: series.color }}>{series.format(latest)}</div>
+                </div>
+                <Sparkline data={values} color={series.color} height={36} width={220} />
+                <div className="flex justify-between text-[9px] font-mono" style={{ color: 'var(--text-dim)' }}>
+                  <span>min {series.format(Math.min(...values))}</span>
+                  <span>avg {series.format(avg)}</span>
+                  <span>max {series.format(Math.max(...values))}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
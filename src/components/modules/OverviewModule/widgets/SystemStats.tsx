@@ -3,9 +3,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import { formatBytes, formatUptime } from '@/lib/types';
 import type { SystemInfo } from '@/lib/types';
+import type { MetricSample } from '@/lib/metrics';
+import { Sparkline } from '@/components/shared/Sparkline';
 
 export default function SystemStatsWidget() {
   const [system, setSystem] = useState<SystemInfo | null>(null);
+  const [history, setHistory] = useState<MetricSample[]>([]);
 
   const fetchSystem = useCallback(async () => {
     try {
@@ -15,20 +18,34 @@ export default function SystemStatsWidget() {
     } catch {}
   }, []);
 
+  // Last hour from the server-side sampler, so the sparklines don't start empty
+  const fetchHistory = useCallback(async () => {
+    try {
+      const res = await fetch('/api/metrics?window=1h&points=60');
+      const data = await res.json();
+      setHistory(data.samples || []);
+    } catch {}
+  }, []);
+
   useEffect(() => {
     fetchSystem();
+    fetchHistory();
     const interval = setInterval(fetchSystem, 5000);
-    return () => clearInterval(interval);
-  }, [fetchSystem]);
+    const historyInterval = setInterval(fetchHistory, 15000);
+    return () => {
+      clearInterval(interval);
+      clearInterval(historyInterval);
+    };
+  }, [fetchSystem, fetchHistory]);
 
   if (!system) return <div className="animate-pulse space-y-2">{[...Array(4)].map((_, i) => <div key={i} className="h-12 rounded" style={{ background: 'rgba(255,255,255,0.05)' }} />)}</div>;
 
   const mainDisk = system.disk.find(d => d.mount === '/' || d.mount.includes('Data'));
   const metrics = [
-    { label: 'CPU', value: `${system.cpu.load.toFixed(1)}%`, color: system.cpu.load > 80 ? 'var(--accent-red)' : system.cpu.load > 50 ? 'var(--accent-yellow)' : 'var(--accent-cyan)' },
-    { label: 'RAM', value: `${system.memory.usedPercent.toFixed(1)}%`, sub: formatBytes(system.memory.used), color: system.memory.usedPercent > 85 ? 'var(--accent-red)' : 'var(--accent-purple)' },
-    { label: 'DISK', value: mainDisk ? `${mainDisk.usedPercent.toFixed(0)}%` : '—', sub: mainDisk ? `${formatBytes(mainDisk.available)} free` : undefined, color: 'var(--accent-yellow)' },
-    { label: 'UPTIME', value: formatUptime(system.uptime), color: 'var(--accent-green)' },
+    { label: 'CPU', value: `${system.cpu.load.toFixed(1)}%`, spark: history.map(h => h.cpu), color: system.cpu.load > 80 ? 'var(--accent-red)' : system.cpu.load > 50 ? 'var(--accent-yellow)' : 'var(--accent-cyan)' },
+    { label: 'RAM', value: `${system.memory.usedPercent.toFixed(1)}%`, sub: formatBytes(system.memory.used), spark: history.map(h => h.memory), color: system.memory.usedPercent > 85 ? 'var(--accent-red)' : 'var(--accent-purple)' },
+    { label: 'DISK', value: mainDisk ? `${mainDisk.usedPercent.toFixed(0)}%` : '—', sub: mainDisk ? `${formatBytes(mainDisk.available)} free` : undefined, spark: history.map(h => h.disk), color: 'var(--accent-yellow)' },
+    { label: 'UPTIME', value: formatUptime(system.uptime), spark: undefined, color: 'var(--accent-green)' },
   ];
 
   return (
@@ -36,8 +53,13 @@ export default function SystemStatsWidget() {
       {metrics.map(m => (
         <div key={m.label} className="p-2 rounded" style={{ background: 'rgba(255,255,255,0.03)' }}>
           <div className="text-[9px] uppercase tracking-widest mb-1" style={{ color: 'var(--text-dim)' }}>{m.label}</div>
-          <div className="text-lg font-bold font-mono" style={{ color: m.color }}>{m.value}</div>
-          {m.sub && <div className="text-[10px]" style={{ color: 'var(--text-dim)' }}>{m.sub}</div>}
+          <div className="flex items-end justify-between gap-2">
+            <div>
+              <div className="text-lg font-bold font-mono" style={{ color: m.color }}>{m.value}</div>
+              {m.sub && <div className="text-[10px]" style={{ color: 'var(--text-dim)' }}>{m.sub}</div>}
+            </div>
+            {m.spark && m.spark.length > 1 && <Sparkline data={m.spark} color={m.color} height={24} width={64} />}
+          </div>
         </div>
       ))}
     </div>
@@ -7,3 +7,11 @@ widgetRegistry.register('overview', 'system-stats', {
   refreshInterval: 5000,
   description: 'CPU, RAM, disk, and uptime mini cards',
 });
+
+widgetRegistry.register('overview', 'system-history', {
+  component: () => import('./SystemHistory'),
+  sizes: ['md', 'lg'],
+  defaultSize: 'lg',
+  refreshInterval: 30000,
+  description: 'CPU, RAM, disk, temperature and gateway history over 1h / 24h / 7d',
+});
@@ -0,0 +1,351 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Card } from '@/components/shared/StatCard';
+import type { ScreenActionBody, ScreenMarker } from '@/components/shared/InteractiveScreen';
+import type { Macro, MacroPoint, MacroRun, MacroStep } from '@/lib/screen-macros';
+
+const STEP_TYPES = ['click', 'doubleclick', 'rightclick', 'hover', 'clicktype', 'type', 'key', 'shortcut', 'scroll', 'wait'] as const;
+const POINTER_TYPES = new Set(['click', 'doubleclick', 'rightclick', 'hover', 'clicktype']);
+// Pauses shorter than this while recording aren't worth a wait step
+const MIN_RECORDED_WAIT_MS = 200;
+const MAX_RECORDED_WAIT_MS = 60000;
+
+interface Draft {
+  id?: string;
+  name: string;
+  description: string;
+  steps: MacroStep[];
+}
+
+const inputStyle = { background: 'var(--bg-elevated)', borderColor: 'var(--border-dim)', color: 'var(--text-primary)' };
+
+function showMarkers(markers: ScreenMarker[]) {
+  window.dispatchEvent(new CustomEvent('clawtrol:screen-markers', { detail: markers }));
+}
+
+function StepEditor({ draft, onChange, onSave, onCancel }: {
+  draft: Draft;
+  onChange: (draft: Draft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  const setStep = (i: number, step: MacroStep) => {
+    onChange({ ...draft, steps: draft.steps.map((s, j) => (j === i ? step : s)) });
+  };
+  const move = (i: number, by: number) => {
+    const steps = [...draft.steps];
+    const [step] = steps.splice(i, 1);
+    steps.splice(Math.max(0, Math.min(steps.length, i + by)), 0, step);
+    onChange({ ...draft, steps });
+  };
+  const changeType = (i: number, type: string) => {
+    const prev = draft.steps[i] as Record<string, unknown>;
+    setStep(i, type === 'wait'
+      ? { type: 'wait', ms: 1000 }
+      : { type: type as Exclude<MacroStep['type'], 'wait'>, x: Number(prev.x) || 0, y: Number(prev.y) || 0, text: typeof prev.text === 'string' ? prev.text : undefined });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          value={draft.name}
+          onChange={(e) => onChange({ ...draft, name: e.target.value })}
+          placeholder="Macro name"
+          className="flex-1 rounded px-2 py-1 text-[11px] border"
+          style={inputStyle}
+          autoFocus
+        />
+        <input
+          value={draft.description}
+          onChange={(e) => onChange({ ...draft, description: e.target.value })}
+          placeholder="Description (optional)"
+          className="flex-[2] rounded px-2 py-1 text-[11px] border"
+          style={inputStyle}
+        />
+      </div>
+
+      <div className="space-y-1 max-h-72 overflow-y-auto">
+        {draft.steps.map((step, i) => (
+          <div key={i} className="flex items-center gap-1.5 text-[10px]">
+            <span className="w-6 text-right font-mono" style={{ color: 'var(--text-dim)' }}>{i + 1}</span>
+            <select
+              value={step.type}
+              onChange={(e) => changeType(i, e.target.value)}
+              className="rounded px-1 py-0.5 border text-[10px]"
+              style={inputStyle}
+            >
+              {STEP_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+            {step.type === 'wait' ? (
+              <>
+                <input
+                  type="number"
+                  value={step.ms}
+                  onChange={(e) => setStep(i, { type: 'wait', ms: Number(e.target.value) })}
+                  className="w-20 rounded px-1 py-0.5 border"
+                  style={inputStyle}
+                />
+                <span style={{ color: 'var(--text-dim)' }}>ms</span>
+              </>
+            ) : (
+              <>
+                {POINTER_TYPES.has(step.type) && (
+                  <>
+                    <input type="number" value={step.x ?? 0} onChange={(e) => setStep(i, { ...step, x: Number(e.target.value) })} className="w-16 rounded px-1 py-0.5 border" style={inputStyle} title="x" />
+                    <input type="number" value={step.y ?? 0} onChange={(e) => setStep(i, { ...step, y: Number(e.target.value) })} className="w-16 rounded px-1 py-0.5 border" style={inputStyle} title="y" />
+                  </>
+                )}
+                {!['click', 'doubleclick', 'rightclick', 'hover'].includes(step.type) && (
+                  <input
+                    value={step.text ?? ''}
+                    onChange={(e) => setStep(i, { ...step, text: e.target.value })}
+                    placeholder={step.type === 'key' ? 'return' : step.type === 'shortcut' ? 'cmd+s' : step.type === 'scroll' ? 'up | down' : 'text'}
+                    className="flex-1 min-w-0 rounded px-1 py-0.5 border"
+                    style={inputStyle}
+                  />
+                )}
+              </>
+            )}
+            <div className="ml-auto flex gap-1 shrink-0" style={{ color: 'var(--text-dim)' }}>
+              <button onClick={() => move(i, -1)} title="Move up">▲</button>
+              <button onClick={() => move(i, 1)} title="Move down">▼</button>
+              <button onClick={() => onChange({ ...draft, steps: draft.steps.filter((_, j) => j !== i) })} title="Remove" style={{ color: 'var(--accent-red)' }}>✕</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange({ ...draft, steps: [...draft.steps, { type: 'click', x: 0, y: 0 }] })}
+          className="px-2 py-0.5 rounded text-[9px] border"
+          style={{ borderColor: 'var(--border-dim)', color: 'var(--text-secondary)' }}
+        >
+          + STEP
+        </button>
+        <button
+          onClick={() => onChange({ ...draft, steps: [...draft.steps, { type: 'wait', ms: 1000 }] })}
+          className="px-2 py-0.5 rounded text-[9px] border"
+          style={{ borderColor: 'var(--border-dim)', color: 'var(--text-secondary)' }}
+        >
+          + WAIT
+        </button>
+        <div className="ml-auto flex gap-2">
+          <button onClick={onCancel} className="px-2 py-0.5 rounded text-[9px] border" style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)' }}>
+            CANCEL
+          </button>
+          <button onClick={onSave} className="px-2 py-0.5 rounded text-[9px] border" style={{ borderColor: 'var(--accent-cyan)', color: 'var(--accent-cyan)', background: 'rgba(0,255,200,0.1)' }}>
+            SAVE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function Macros() {
+  const [macros, setMacros] = useState<Macro[]>([]);
+  const [running, setRunning] = useState<MacroRun | null>(null);
+  const [recorded, setRecorded] = useState<MacroStep[] | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [result, setResult] = useState<{ text: string; ok: boolean } | null>(null);
+  const lastActionAt = useRef(0);
+  // Run started from this card, whose outcome hasn't been shown yet
+  const pendingRun = useRef<string | null>(null);
+
+  const flash = useCallback((text: string, ok: boolean) => {
+    setResult({ text, ok });
+    setTimeout(() => setResult(null), 4000);
+  }, []);
+
+  const fetchMacros = useCallback(async () => {
+    try {
+      const res = await fetch('/api/screen/macros');
+      const data = await res.json();
+      setMacros(data.macros || []);
+      setRunning(data.running || null);
+      const last: MacroRun | null = data.lastRun;
+      if (last && last.id === pendingRun.current) {
+        pendingRun.current = null;
+        if (last.error) flash(last.error, false);
+        else if (last.cancelled) flash(`${last.name} ${last.timedOut ? 'timed out' : 'stopped'} after ${last.completed} steps`, false);
+        else flash(`${last.name} finished`, true);
+      }
+    } catch {}
+  }, [flash]);
+
+  useEffect(() => {
+    fetchMacros();
+    // Follow progress while a macro is playing
+    const interval = setInterval(fetchMacros, running ? 1000 : 30000);
+    return () => clearInterval(interval);
+  }, [fetchMacros, running]);
+
+  // Capture what the user does on the screen while recording
+  const recording = recorded !== null;
+  useEffect(() => {
+    if (!recording) return;
+    lastActionAt.current = Date.now();
+    const onAction = (e: Event) => {
+      const { type, x, y, text } = (e as CustomEvent<ScreenActionBody>).detail;
+      const gap = Date.now() - lastActionAt.current;
+      lastActionAt.current = Date.now();
+      const step = (POINTER_TYPES.has(type) ? { type, x, y, text } : { type, text }) as MacroStep;
+      setRecorded(prev => [
+        ...(prev ?? []),
+        ...(gap >= MIN_RECORDED_WAIT_MS ? [{ type: 'wait' as const, ms: Math.min(gap, MAX_RECORDED_WAIT_MS) }] : []),
+        step,
+      ]);
+    };
+    window.addEventListener('clawtrol:screen-action', onAction);
+    return () => window.removeEventListener('clawtrol:screen-action', onAction);
+  }, [recording]);
+
+  const post = async (body: Record<string, unknown>) => {
+    const res = await fetch('/api/screen/macros', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    return { ok: res.ok && data.success, data };
+  };
+
+  const stopRecording = () => {
+    // The first wait is just the time before the first action
+    const steps = (recorded ?? []).filter((s, i) => !(i === 0 && s.type === 'wait'));
+    setRecorded(null);
+    if (steps.length === 0) return flash('Nothing recorded — turn on INTERACTIVE and use the screen', false);
+    setDraft({ name: '', description: '', steps });
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    try {
+      const { ok, data } = await post({ action: 'save', macro: draft });
+      if (!ok) return flash(data.error || 'Save failed', false);
+      setDraft(null);
+      flash(`Saved ${data.macro.name}`, true);
+      fetchMacros();
+    } catch {
+      flash('Request failed', false);
+    }
+  };
+
+  const run = async (macro: Macro) => {
+    try {
+      const { ok, data } = await post({ action: 'run', id: macro.id });
+      if (ok) {
+        pendingRun.current = data.run.id;
+        setRunning(data.run);
+      } else {
+        flash(data.error || 'Run failed', false);
+      }
+    } catch {
+      flash('Request failed', false);
+    }
+    fetchMacros();
+  };
+
+  const dryRun = async (macro: Macro) => {
+    try {
+      const { ok, data } = await post({ action: 'run', id: macro.id, dryRun: true });
+      if (!ok) return flash(data.error || 'Dry run failed', false);
+      const points: MacroPoint[] = data.points;
+      showMarkers(points.map(p => ({ x: p.x, y: p.y, label: `${p.step}. ${p.type}` })));
+      flash(points.length ? `${macro.name}: ${points.length} points drawn on the screen` : `${macro.name} has no pointer steps`, true);
+    } catch {
+      flash('Request failed', false);
+    }
+  };
+
+  const remove = async (macro: Macro) => {
+    if (!confirm(`Delete macro "${macro.name}"?`)) return;
+    const { ok, data } = await post({ action: 'delete', id: macro.id }).catch(() => ({ ok: false, data: {} }));
+    if (!ok) flash(data.error || 'Delete failed', false);
+    fetchMacros();
+  };
+
+  return (
+    <Card title="MACROS" tag={`${macros.length}`} actions={
+      recording ? (
+        <button onClick={stopRecording} className="text-[10px] tracking-wider flex items-center gap-1.5" style={{ color: 'var(--accent-red)' }}>
+          <span className="w-1.5 h-1.5 rounded-full animate-pulse" style={{ background: 'var(--accent-red)' }} />
+          ■ STOP · {recorded.filter(s => s.type !== 'wait').length} actions
+        </button>
+      ) : !draft && (
+        <div className="flex items-center gap-3">
+          <button onClick={() => setRecorded([])} className="text-[10px] tracking-wider" style={{ color: 'var(--accent-red)' }}>
+            ● RECORD
+          </button>
+          <button onClick={() => setDraft({ name: '', description: '', steps: [] })} className="text-[10px] tracking-wider" style={{ color: 'var(--text-dim)' }}>
+            + NEW
+          </button>
+        </div>
+      )
+    }>
+      {result && (
+        <div className="text-[10px] px-3 py-1.5 mb-2 rounded" style={{
+          background: result.ok ? 'rgba(0,255,106,0.15)' : 'rgba(255,59,92,0.15)',
+          color: result.ok ? 'var(--accent-green)' : 'var(--accent-red)',
+        }}>
+          {result.text}
+        </div>
+      )}
+
+      {recording && (
+        <div className="text-[10px] mb-2" style={{ color: 'var(--text-dim)' }}>
+          Recording — clicks, keys and typing on the screen above become steps, with the pauses between them as waits.
+        </div>
+      )}
+
+      {running && (
+        <div className="flex items-center justify-between text-[10px] px-3 py-1.5 mb-2 rounded" style={{ background: 'rgba(0,255,200,0.08)', color: 'var(--accent-cyan)' }}>
+          <span>Running {running.name} · step {running.step}/{running.total}</span>
+          <button onClick={() => post({ action: 'stop' }).then(fetchMacros).catch(() => {})} style={{ color: 'var(--accent-red)' }}>■ STOP</button>
+        </div>
+      )}
+
+      {draft ? (
+        <StepEditor draft={draft} onChange={setDraft} onSave={save} onCancel={() => setDraft(null)} />
+      ) : macros.length === 0 ? (
+        <div className="text-[10px] py-4 text-center" style={{ color: 'var(--text-dim)' }}>
+          No macros yet — press ● RECORD and drive the screen, or build one step by step with + NEW
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {macros.map(macro => (
+            <div key={macro.id} className="flex items-center justify-between gap-3 text-[10px] py-1 border-b" style={{ borderColor: 'var(--border-dim)' }}>
+              <div className="min-w-0">
+                <div className="truncate" style={{ color: 'var(--text-primary)' }}>{macro.name}</div>
+                <div className="text-[9px] truncate" style={{ color: 'var(--text-dim)' }}>
+                  {macro.steps.length} steps{macro.description ? ` · ${macro.description}` : ''}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button onClick={() => run(macro)} disabled={!!running} className="px-2 py-0.5 rounded text-[9px] border disabled:opacity-40" style={{ borderColor: 'var(--border-dim)', color: 'var(--accent-cyan)' }}>
+                  ▶ RUN
+                </button>
+                <button onClick={() => dryRun(macro)} className="px-2 py-0.5 rounded text-[9px] border" style={{ borderColor: 'var(--border-dim)', color: 'var(--accent-purple)' }} title="Draw where the clicks would land without sending them">
+                  DRY
+                </button>
+                <button
+                  onClick={() => setDraft({ id: macro.id, name: macro.name, description: macro.description ?? '', steps: macro.steps })}
+                  className="px-2 py-0.5 rounded text-[9px] border"
+                  style={{ borderColor: 'var(--border-dim)', color: 'var(--text-secondary)' }}
+                >
+                  EDIT
+                </button>
+                <button onClick={() => remove(macro)} className="px-2 py-0.5 rounded text-[9px] border" style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)' }}>
+                  DEL
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
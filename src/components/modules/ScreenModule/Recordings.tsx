@@ -0,0 +1,271 @@
+'use client';
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Card } from '@/components/shared/StatCard';
+import type { Recording, RecordingEvent, RecordingSummary } from '@/lib/screen-recorder';
+
+const SPEEDS = [1, 2, 4, 8];
+const PLAYBACK_TICK_MS = 100;
+// How long an interaction stays drawn over the frame
+const EVENT_VISIBLE_MS = 1500;
+
+const EVENT_COLORS: Record<string, string> = {
+  click: 'var(--accent-cyan)',
+  doubleclick: 'var(--accent-cyan)',
+  rightclick: 'var(--accent-purple)',
+  hover: 'var(--accent-yellow)',
+  type: 'var(--accent-green)',
+  clicktype: 'var(--accent-green)',
+  key: 'var(--accent-orange)',
+  shortcut: 'var(--accent-orange)',
+  scroll: 'var(--text-secondary)',
+};
+
+const chipStyle = (active: boolean) => active
+  ? { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' }
+  : { background: 'transparent', color: 'var(--text-dim)' };
+
+function formatClock(ms: number) {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+function describeEvent(event: RecordingEvent) {
+  if (event.chars !== undefined) return `${event.type} · ${event.chars} chars`;
+  if (event.text) return `${event.type} · ${event.text}`;
+  return `${event.type} @ ${event.x},${event.y}`;
+}
+
+// Pointer events are drawn where they happened; keyboard ones in a corner
+const POINTER_EVENTS = new Set(['click', 'doubleclick', 'rightclick', 'hover', 'clicktype']);
+
+function Player({ recording, onClose }: { recording: Recording; onClose: () => void }) {
+  const [pos, setPos] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const duration = Math.max(
+    recording.frames[recording.frames.length - 1]?.t ?? 0,
+    recording.events[recording.events.length - 1]?.t ?? 0,
+  );
+
+  useEffect(() => {
+    if (!playing) return;
+    const interval = setInterval(() => {
+      setPos(p => {
+        const next = p + PLAYBACK_TICK_MS * speed;
+        if (next >= duration) {
+          setPlaying(false);
+          return duration;
+        }
+        return next;
+      });
+    }, PLAYBACK_TICK_MS);
+    return () => clearInterval(interval);
+  }, [playing, speed, duration]);
+
+  // Last frame captured at or before the playhead
+  const frame = useMemo(() => {
+    let current = recording.frames[0];
+    for (const f of recording.frames) {
+      if (f.t > pos) break;
+      current = f;
+    }
+    return current;
+  }, [recording.frames, pos]);
+
+  const visible = recording.events.filter(e => e.t <= pos && pos - e.t < EVENT_VISIBLE_MS);
+  const { logicalWidth, logicalHeight } = recording.screenDims;
+
+  const togglePlay = () => {
+    if (!playing && pos >= duration) setPos(0);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-[10px]">
+        <span style={{ color: 'var(--text-primary)' }}>{recording.name}</span>
+        <span style={{ color: 'var(--text-dim)' }}>
+          {recording.frames.length} frames · {recording.events.length} events · {recording.backend}
+        </span>
+        <button onClick={onClose} className="ml-auto text-[10px] tracking-wider" style={{ color: 'var(--text-dim)' }}>✕ CLOSE</button>
+      </div>
+
+      <div className="relative rounded overflow-hidden border" style={{ borderColor: 'var(--border-dim)', background: '#000' }}>
+        {frame ? (
+          <img
+            src={`/api/screen/recordings/frame?id=${encodeURIComponent(recording.id)}&file=${frame.file}`}
+            alt="Recorded frame"
+            className="w-full h-auto block"
+            draggable={false}
+          />
+        ) : (
+          <div className="h-64 flex items-center justify-center text-[10px]" style={{ color: 'var(--text-dim)' }}>No frames captured</div>
+        )}
+        {visible.filter(e => POINTER_EVENTS.has(e.type)).map((e, i) => (
+          <div
+            key={`${e.t}-${i}`}
+            className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+            style={{ left: `${(e.x / logicalWidth) * 100}%`, top: `${(e.y / logicalHeight) * 100}%` }}
+          >
+            <div className="w-6 h-6 rounded-full border-2" style={{ borderColor: EVENT_COLORS[e.type], background: 'rgba(0,0,0,0.25)' }} />
+            <div className="absolute left-7 top-0 whitespace-nowrap px-1.5 py-0.5 rounded text-[9px]" style={{ background: 'rgba(0,0,0,0.8)', color: EVENT_COLORS[e.type] }}>
+              {describeEvent(e)}
+            </div>
+          </div>
+        ))}
+        <div className="absolute bottom-2 left-2 space-y-1 pointer-events-none">
+          {visible.filter(e => !POINTER_EVENTS.has(e.type)).map((e, i) => (
+            <div key={`${e.t}-${i}`} className="px-2 py-0.5 rounded text-[10px]" style={{ background: 'rgba(0,0,0,0.8)', color: EVENT_COLORS[e.type] }}>
+              {describeEvent(e)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button onClick={togglePlay} className="text-[10px] w-6" style={{ color: 'var(--accent-cyan)' }}>
+          {playing ? '❚❚' : '▶'}
+        </button>
+        <div className="flex-1 space-y-1">
+          <input
+            type="range"
+            min={0}
+            max={duration || 1}
+            step={PLAYBACK_TICK_MS}
+            value={pos}
+            onChange={(e) => setPos(Number(e.target.value))}
+            className="w-full"
+          />
+          <div className="relative h-2">
+            {recording.events.map((e, i) => (
+              <button
+                key={`${e.t}-${i}`}
+                onClick={() => setPos(e.t)}
+                title={`${formatClock(e.t)} ${describeEvent(e)}`}
+                className="absolute top-0 w-0.5 h-2 -translate-x-1/2"
+                style={{ left: `${duration ? (e.t / duration) * 100 : 0}%`, background: EVENT_COLORS[e.type] }}
+              />
+            ))}
+          </div>
+        </div>
+        <span className="text-[10px] font-mono whitespace-nowrap" style={{ color: 'var(--text-dim)' }}>
+          {formatClock(pos)} / {formatClock(duration)}
+        </span>
+        <div className="flex items-center gap-1">
+          {SPEEDS.map(s => (
+            <button key={s} onClick={() => setSpeed(s)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(speed === s)}>
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function Recordings() {
+  const [recordings, setRecordings] = useState<RecordingSummary[]>([]);
+  const [active, setActive] = useState<RecordingSummary | null>(null);
+  const [selected, setSelected] = useState<Recording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRecordings = useCallback(async () => {
+    try {
+      const res = await fetch('/api/screen/recordings');
+      const data = await res.json();
+      setRecordings(data.recordings || []);
+      setActive(data.active || null);
+    } catch {}
+  }, []);
+
+  useEffect(() => {
+    fetchRecordings();
+    // Faster while recording so the frame count moves
+    const interval = setInterval(fetchRecordings, active ? 3000 : 30000);
+    return () => clearInterval(interval);
+  }, [fetchRecordings, active]);
+
+  const act = async (body: Record<string, unknown>) => {
+    try {
+      const res = await fetch('/api/screen/recordings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      setError(res.ok ? null : data.error || 'Failed');
+    } catch {
+      setError('Request failed');
+    }
+    fetchRecordings();
+  };
+
+  const open = async (id: string) => {
+    try {
+      const res = await fetch(`/api/screen/recordings?id=${encodeURIComponent(id)}`);
+      const data = await res.json();
+      if (data.recording) setSelected(data.recording);
+      else setError(data.error || 'Failed to load recording');
+    } catch {}
+  };
+
+  const finished = recordings.filter(r => r.id !== active?.id);
+
+  return (
+    <Card title="RECORDINGS" tag={`${finished.length}`} actions={
+      active ? (
+        <button onClick={() => act({ action: 'stop' })} className="text-[10px] tracking-wider flex items-center gap-1.5" style={{ color: 'var(--accent-red)' }}>
+          <span className="w-1.5 h-1.5 rounded-full animate-pulse" style={{ background: 'var(--accent-red)' }} />
+          ■ STOP · {formatClock(Date.now() - active.startedAt)} · {active.frameCount} frames
+        </button>
+      ) : (
+        <button onClick={() => act({ action: 'start' })} className="text-[10px] tracking-wider" style={{ color: 'var(--accent-red)' }}>
+          ● REC
+        </button>
+      )
+    }>
+      {error && (
+        <div className="text-[10px] px-3 py-1.5 mb-2 rounded" style={{ background: 'rgba(255,59,92,0.15)', color: 'var(--accent-red)' }}>
+          {error}
+        </div>
+      )}
+
+      {selected && <Player key={selected.id} recording={selected} onClose={() => setSelected(null)} />}
+
+      {!selected && (finished.length === 0 ? (
+        <div className="text-[10px] py-4 text-center" style={{ color: 'var(--text-dim)' }}>
+          No recordings yet — press ● REC to capture the screen while an agent works
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {finished.map(r => (
+            <div key={r.id} className="flex items-center justify-between gap-3 text-[10px] py-1 border-b" style={{ borderColor: 'var(--border-dim)' }}>
+              <div className="min-w-0">
+                <div className="truncate" style={{ color: 'var(--text-primary)' }}>{r.name}</div>
+                <div className="text-[9px]" style={{ color: 'var(--text-dim)' }}>
+                  {new Date(r.startedAt).toLocaleString()} · {formatClock(r.duration)} · {r.frameCount} frames · {r.eventCount} events
+                  {r.stoppedBy === 'error' && <span style={{ color: 'var(--accent-red)' }}> · stopped: {r.error}</span>}
+                  {r.stoppedBy === 'limit' && ' · hit time limit'}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button onClick={() => open(r.id)} className="px-2 py-0.5 rounded text-[9px] border" style={{ borderColor: 'var(--border-dim)', color: 'var(--accent-cyan)' }}>
+                  ▶ PLAY
+                </button>
+                <button
+                  onClick={() => confirm(`Delete "${r.name}"?`) && act({ action: 'delete', id: r.id })}
+                  className="px-2 py-0.5 rounded text-[9px] border"
+                  style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)' }}
+                >
+                  DEL
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </Card>
+  );
+}
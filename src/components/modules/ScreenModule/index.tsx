@@ -4,10 +4,28 @@ import { useState, useCallback, useEffect } from 'react';
 import { Card } from '@/components/shared/StatCard';
 import { InteractiveScreen } from '@/components/shared/InteractiveScreen';
 import type { ScreenInfo } from '@/lib/types';
+import { Recordings } from './Recordings';
+import { Macros } from './Macros';
+
+const FPS_OPTIONS = [1, 2, 5, 10];
+const QUALITY_OPTIONS = [
+  { value: 40, label: 'LOW' },
+  { value: 60, label: 'MED' },
+  { value: 80, label: 'HIGH' },
+];
+
+const chipStyle = (active: boolean) => active
+  ? { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' }
+  : { background: 'transparent', color: 'var(--text-dim)' };
 
 export default function ScreenModule() {
   const [screen, setScreen] = useState('');
   const [screenDims, setScreenDims] = useState<ScreenInfo | null>(null);
+  const [backend, setBackend] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [live, setLive] = useState(true);
+  const [fps, setFps] = useState(2);
+  const [quality, setQuality] = useState(60);
 
   const fetchScreen = useCallback(async () => {
     try {
@@ -15,18 +33,64 @@ export default function ScreenModule() {
       const data = await res.json();
       if (data.image) setScreen(data.image);
       if (data.screenDims) setScreenDims(data.screenDims);
+      if (data.backend) setBackend(data.backend);
+      setError(data.error ? data.detail || data.error : null);
     } catch {}
   }, []);
 
+  // Snapshot polling only when the live stream is off
   useEffect(() => {
+    if (live) return;
     fetchScreen();
     const interval = setInterval(fetchScreen, 30000);
     return () => clearInterval(interval);
-  }, [fetchScreen]);
+  }, [fetchScreen, live]);
+
+  const noop = useCallback(() => {}, []);
 
   return (
-    <Card title="REMOTE SCREEN" tag="INTERACTIVE">
-      <InteractiveScreen screen={screen} onRefresh={fetchScreen} externalScreenInfo={screenDims} />
-    </Card>
+    <div className="space-y-3 animate-fade-in">
+      <Card title="REMOTE SCREEN" tag={backend ? `INTERACTIVE · ${backend.toUpperCase()}` : 'INTERACTIVE'} actions={
+        <div className="flex items-center gap-2">
+          {live && (
+            <>
+              <div className="flex items-center gap-1">
+                {FPS_OPTIONS.map(f => (
+                  <button key={f} onClick={() => setFps(f)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(fps === f)}>
+                    {f} FPS
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-1">
+                {QUALITY_OPTIONS.map(q => (
+                  <button key={q.value} onClick={() => setQuality(q.value)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(quality === q.value)}>
+                    {q.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+          <button onClick={() => setLive(!live)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(live)}>
+            {live ? '● LIVE' : '○ LIVE'}
+          </button>
+        </div>
+      }>
+        {error && (
+          <div className="text-[10px] px-3 py-1.5 mb-2 rounded" style={{ background: 'rgba(255,59,92,0.15)', color: 'var(--accent-red)' }}>
+            {error}
+          </div>
+        )}
+        <InteractiveScreen
+          screen={screen}
+          onRefresh={live ? noop : fetchScreen}
+          externalScreenInfo={screenDims}
+          stream={live ? { fps, quality } : undefined}
+          onStreamInfo={(info) => setBackend(info.backend)}
+          onStreamError={setError}
+        />
+      </Card>
+      <Macros />
+      <Recordings />
+    </div>
   );
 }
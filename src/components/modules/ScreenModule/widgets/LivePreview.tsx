@@ -1,44 +1,45 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState } from 'react';
 
-export default function LivePreviewWidget() {
-  const [screen, setScreen] = useState('');
-
-  const fetchScreen = useCallback(async () => {
-    try {
-      const res = await fetch('/api/screen');
-      const data = await res.json();
-      if (data.image) setScreen(data.image);
-    } catch {}
-  }, []);
+// The preview is small — keep it light
+const PREVIEW_SRC = '/api/screen/mjpeg?fps=1&quality=50&width=640';
 
-  useEffect(() => {
-    fetchScreen();
-    const interval = setInterval(fetchScreen, 30000);
-    return () => clearInterval(interval);
-  }, [fetchScreen]);
+export default function LivePreviewWidget() {
+  const [loaded, setLoaded] = useState(false);
+  const [failed, setFailed] = useState(false);
+  // Bumped to reopen the stream after an error
+  const [attempt, setAttempt] = useState(0);
 
-  if (!screen) {
-    return (
-      <div className="aspect-video rounded overflow-hidden animate-pulse" style={{ background: 'rgba(255,255,255,0.05)' }}>
-        <div className="flex items-center justify-center h-full text-[10px]" style={{ color: 'var(--text-dim)' }}>Loading screen...</div>
-      </div>
-    );
-  }
+  const retry = () => {
+    setFailed(false);
+    setLoaded(false);
+    setAttempt(a => a + 1);
+  };
 
   return (
     <div className="space-y-2">
-      <div className="aspect-video rounded overflow-hidden border" style={{ borderColor: 'var(--border-dim)' }}>
-        <img
-          src={`data:image/png;base64,${screen}`}
-          alt="Screen preview"
-          className="w-full h-full object-contain"
-          style={{ background: '#000' }}
-        />
+      <div className="relative aspect-video rounded overflow-hidden border" style={{ borderColor: 'var(--border-dim)', background: '#000' }}>
+        {!failed && (
+          <img
+            key={attempt}
+            src={`${PREVIEW_SRC}&n=${attempt}`}
+            alt="Screen preview"
+            className="w-full h-full object-contain"
+            onLoad={() => setLoaded(true)}
+            onError={() => setFailed(true)}
+          />
+        )}
+        {(!loaded || failed) && (
+          <div className={`absolute inset-0 flex items-center justify-center text-[10px] ${failed ? '' : 'animate-pulse'}`} style={{ color: 'var(--text-dim)', background: 'rgba(255,255,255,0.05)' }}>
+            {failed ? (
+              <button onClick={retry} style={{ color: 'var(--accent-red)' }}>Screen unavailable — retry</button>
+            ) : 'Loading screen...'}
+          </div>
+        )}
       </div>
       <div className="text-[9px] text-center" style={{ color: 'var(--text-dim)' }}>
-        Auto-refreshes every 30s
+        Live · 1 fps
       </div>
     </div>
   );
@@ -4,6 +4,5 @@ widgetRegistry.register('screen', 'live-preview', {
   component: () => import('./LivePreview'),
   sizes: ['sm', 'md'],
   defaultSize: 'sm',
-  refreshInterval: 30000,
-  description: 'Small screen thumbnail that auto-refreshes',
+  description: 'Small live screen thumbnail (MJPEG, 1 fps)',
 });
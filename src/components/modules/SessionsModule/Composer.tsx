@@ -0,0 +1,374 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { renderMarkdown } from '@/components/shared/MarkdownRenderer';
+import type { PromptSnippet } from '@/lib/session-snippets';
+import type { TranscriptMessage } from '@/lib/sessions';
+
+// Mirrors MAX_ATTACHMENTS in session-attachments; the route has the final say
+const MAX_ATTACHMENTS = 10;
+const MAX_ROWS = 8;
+
+/** A browser upload, or a path picked in the Files browser */
+interface Attachment {
+  id: string;
+  name: string;
+  size: number;
+  file?: File;
+  path?: string;
+}
+
+export interface SentMessage {
+  text: string;
+  attachments: string[];
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const chipStyle = { borderColor: 'var(--border-dim)', color: 'var(--text-dim)' };
+const activeChipStyle = { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)', borderColor: 'rgba(0,255,200,0.2)' };
+
+function FilePicker({ onPick, onClose }: { onPick: (file: { path: string; name: string; size: number }) => void; onClose: () => void }) {
+  const [dir, setDir] = useState<string | null>(null);
+  const [listing, setListing] = useState<{ path: string; basePath: string; entries: any[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/files${dir ? `?path=${encodeURIComponent(dir)}` : ''}`)
+      .then(res => res.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.error) setError(data.error);
+        else {
+          setError(null);
+          setListing(data);
+        }
+      })
+      .catch(() => !cancelled && setError('Failed to list directory'));
+    return () => { cancelled = true; };
+  }, [dir]);
+
+  const parent = listing && listing.path !== listing.basePath ? listing.path.replace(/\/[^/]+\/?$/, '') || '/' : null;
+
+  return (
+    <div className="border-b max-h-56 overflow-auto text-[11px]" style={{ borderColor: 'var(--border-dim)', background: 'var(--bg-secondary)' }}>
+      <div className="sticky top-0 flex items-center gap-2 px-4 py-1.5" style={{ background: 'var(--bg-secondary)' }}>
+        <span className="truncate text-[10px]" style={{ color: 'var(--text-dim)', fontFamily: 'var(--font-data)' }}>{listing?.path ?? '~'}</span>
+        <button onClick={onClose} className="ml-auto text-[10px]" style={{ color: 'var(--text-dim)' }}>✕</button>
+      </div>
+      {error && <div className="px-4 py-1" style={{ color: 'var(--accent-red)' }}>{error}</div>}
+      {parent && (
+        <button onClick={() => setDir(parent)} className="block w-full text-left px-4 py-0.5" style={{ color: 'var(--accent-cyan)' }}>
+          ..
+        </button>
+      )}
+      {listing?.entries.map(entry => (
+        <button
+          key={entry.name}
+          onClick={() => entry.type === 'directory'
+            ? setDir(`${listing.path}/${entry.name}`)
+            : onPick({ path: `${listing.path}/${entry.name}`, name: entry.name, size: entry.size })}
+          className="flex w-full items-center gap-2 text-left px-4 py-0.5 hover:bg-white/5"
+          style={{ color: entry.type === 'directory' ? 'var(--accent-cyan)' : 'var(--text-primary)' }}
+        >
+          <span className="truncate">{entry.type === 'directory' ? `${entry.name}/` : entry.name}</span>
+          {entry.type === 'file' && <span className="ml-auto text-[9px] shrink-0" style={{ color: 'var(--text-dim)' }}>{formatSize(entry.size)}</span>}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function SnippetMenu({ text, onInsert, onClose }: { text: string; onInsert: (text: string) => void; onClose: () => void }) {
+  const [snippets, setSnippets] = useState<PromptSnippet[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/sessions/snippets');
+      const data = await res.json();
+      setSnippets(data.snippets || []);
+    } catch {}
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const act = async (body: Record<string, unknown>) => {
+    try {
+      const res = await fetch('/api/sessions/snippets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || 'Snippet action failed');
+        return false;
+      }
+      setError(null);
+      await load();
+      return true;
+    } catch {
+      setError('Snippet action failed');
+      return false;
+    }
+  };
+
+  const save = async () => {
+    if (await act({ action: 'save', name, text })) setName('');
+  };
+
+  return (
+    <div className="border-b max-h-56 overflow-auto text-[11px]" style={{ borderColor: 'var(--border-dim)', background: 'var(--bg-secondary)' }}>
+      <div className="sticky top-0 flex items-center gap-2 px-4 py-1.5" style={{ background: 'var(--bg-secondary)' }}>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && name.trim() && text.trim() && save()}
+          placeholder={text.trim() ? 'Name, to save the current message' : 'Type a message to save it as a snippet'}
+          disabled={!text.trim()}
+          className="flex-1 bg-transparent border-none outline-none text-[11px]"
+          style={{ color: 'var(--text-primary)' }}
+        />
+        <button onClick={save} disabled={!name.trim() || !text.trim()} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider disabled:opacity-30" style={activeChipStyle}>
+          save
+        </button>
+        <button onClick={onClose} className="text-[10px]" style={{ color: 'var(--text-dim)' }}>✕</button>
+      </div>
+      {error && <div className="px-4 py-1" style={{ color: 'var(--accent-red)' }}>{error}</div>}
+      {snippets.length === 0 && <div className="px-4 py-1" style={{ color: 'var(--text-dim)' }}>No saved snippets</div>}
+      {snippets.map(snippet => (
+        <div key={snippet.id} className="flex items-center gap-2 px-4 py-0.5 hover:bg-white/5">
+          <button onClick={() => onInsert(snippet.text)} className="flex-1 min-w-0 text-left truncate" title={snippet.text}>
+            <span style={{ color: 'var(--accent-cyan)' }}>{snippet.name}</span>
+            <span className="ml-2" style={{ color: 'var(--text-dim)' }}>{snippet.text.slice(0, 80)}</span>
+          </button>
+          <button onClick={() => act({ action: 'delete', id: snippet.id })} className="text-[10px] shrink-0" style={{ color: 'var(--text-dim)' }}>✕</button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Message box for a session: markdown preview, attachments (upload, drop,
+ * paste, or pick from the home directory), reply-to and saved snippets.
+ */
+export function Composer({ session, replyTo, onCancelReply, onSent }: {
+  session: { key: string; agent?: string };
+  /** The message being answered; only ones with a channelMessageId can be */
+  replyTo: TranscriptMessage | null;
+  onCancelReply: () => void;
+  onSent: (message: SentMessage) => void;
+}) {
+  const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [panel, setPanel] = useState<'files' | 'snippets' | null>(null);
+  const [preview, setPreview] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const textarea = useRef<HTMLTextAreaElement>(null);
+
+  const addAttachments = (added: Attachment[]) => {
+    setAttachments(prev => {
+      const next = [...prev, ...added.filter(a => !a.path || !prev.some(p => p.path === a.path))];
+      if (next.length > MAX_ATTACHMENTS) setSendError(`At most ${MAX_ATTACHMENTS} attachments per message`);
+      return next.slice(0, MAX_ATTACHMENTS);
+    });
+  };
+
+  const addFiles = (files: FileList | File[]) => {
+    const list = Array.from(files);
+    if (list.length === 0) return;
+    addAttachments(list.map(file => ({ id: crypto.randomUUID(), name: file.name || 'pasted', size: file.size, file })));
+  };
+
+  const insertSnippet = (text: string) => {
+    setInput(prev => (prev.trim() ? `${prev.replace(/\s+$/, '')}\n${text}` : text));
+    setPanel(null);
+    setPreview(false);
+    textarea.current?.focus();
+  };
+
+  const send = async () => {
+    const msg = input.trim();
+    if ((!msg && attachments.length === 0) || sending) return;
+    setSending(true);
+
+    // Uploads need multipart; anything else stays JSON
+    const uploads = attachments.filter(a => a.file);
+    const paths = attachments.flatMap(a => (a.path ? [a.path] : []));
+    let body: BodyInit;
+    const headers: Record<string, string> = {};
+    if (uploads.length > 0) {
+      const form = new FormData();
+      form.set('sessionKey', session.key);
+      form.set('message', msg);
+      if (session.agent) form.set('agent', session.agent);
+      if (replyTo?.channelMessageId) form.set('replyTo', replyTo.channelMessageId);
+      for (const a of uploads) form.append('files', a.file!, a.name);
+      for (const p of paths) form.append('paths', p);
+      body = form;
+    } else {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify({ sessionKey: session.key, agent: session.agent, message: msg, replyTo: replyTo?.channelMessageId, paths });
+    }
+
+    try {
+      const res = await fetch('/api/sessions/send', { method: 'POST', headers, body });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setSendError(data.error || 'Failed to send message');
+      } else {
+        setSendError(null);
+        setInput('');
+        setAttachments([]);
+        setPreview(false);
+        setPanel(null);
+        onCancelReply();
+        onSent({ text: msg, attachments: attachments.map(a => a.name) });
+      }
+    } catch {
+      setSendError('Failed to send message');
+    }
+    setSending(false);
+  };
+
+  const rows = Math.min(MAX_ROWS, input.split('\n').length);
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        if (e.dataTransfer.files.length === 0) return;
+        e.preventDefault();
+        setDragging(false);
+        addFiles(e.dataTransfer.files);
+      }}
+    >
+      {sendError && (
+        <div className="px-4 py-1.5 text-[10px] border-t" style={{ borderColor: 'var(--border-dim)', color: 'var(--accent-red)' }}>
+          {sendError}
+        </div>
+      )}
+
+      {replyTo && (
+        <div className="flex items-center gap-2 px-4 py-1.5 text-[10px] border-t" style={{ borderColor: 'var(--border-dim)', background: 'var(--bg-secondary)' }}>
+          <span style={{ color: 'var(--accent-cyan)' }}>↩ Replying to</span>
+          <span className="truncate" style={{ color: 'var(--text-dim)' }}>{replyTo.text.slice(0, 120) || `message ${replyTo.channelMessageId}`}</span>
+          <button onClick={onCancelReply} className="ml-auto shrink-0" style={{ color: 'var(--text-dim)' }}>✕</button>
+        </div>
+      )}
+
+      {panel === 'files' && (
+        <FilePicker
+          onPick={(file) => addAttachments([{ id: file.path, ...file }])}
+          onClose={() => setPanel(null)}
+        />
+      )}
+      {panel === 'snippets' && <SnippetMenu text={input} onInsert={insertSnippet} onClose={() => setPanel(null)} />}
+
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 px-4 py-1.5 border-t" style={{ borderColor: 'var(--border-dim)' }}>
+          {attachments.map(a => (
+            <span key={a.id} className="flex items-center gap-1.5 text-[10px] px-1.5 py-0.5 rounded border" style={chipStyle} title={a.path}>
+              <span style={{ color: 'var(--text-primary)' }}>📎 {a.name}</span>
+              <span>{formatSize(a.size)}</span>
+              <button onClick={() => setAttachments(prev => prev.filter(p => p.id !== a.id))}>✕</button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="px-4 py-3 border-t" style={{ borderColor: dragging ? 'var(--accent-cyan)' : 'var(--border-accent)', background: '#0c0c14' }}>
+        {preview ? (
+          <div className="text-[12px] leading-relaxed break-words max-h-48 overflow-auto" style={{ color: 'var(--text-primary)' }}>
+            {input.trim() ? renderMarkdown(input) : <span style={{ color: 'var(--text-dim)' }}>Nothing to preview</span>}
+          </div>
+        ) : (
+          <textarea
+            ref={textarea}
+            value={input}
+            rows={rows}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                e.preventDefault();
+                send();
+              }
+            }}
+            onPaste={(e) => {
+              if (e.clipboardData.files.length === 0) return;
+              e.preventDefault();
+              addFiles(e.clipboardData.files);
+            }}
+            placeholder={dragging ? 'Drop to attach' : 'Send a message... (Shift+Enter for a new line)'}
+            disabled={sending}
+            className="w-full resize-none bg-transparent border-none outline-none text-[13px]"
+            style={{ color: 'var(--text-primary)', fontFamily: 'var(--font-data)', caretColor: 'var(--accent-cyan)' }}
+            autoFocus
+          />
+        )}
+        <div className="flex items-center gap-1.5 mt-2">
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) addFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => fileInput.current?.click()} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider border" style={chipStyle}>
+            📎 upload
+          </button>
+          <button
+            onClick={() => setPanel(p => (p === 'files' ? null : 'files'))}
+            className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider border"
+            style={panel === 'files' ? activeChipStyle : chipStyle}
+          >
+            files
+          </button>
+          <button
+            onClick={() => setPanel(p => (p === 'snippets' ? null : 'snippets'))}
+            className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider border"
+            style={panel === 'snippets' ? activeChipStyle : chipStyle}
+          >
+            snippets
+          </button>
+          <button
+            onClick={() => setPreview(p => !p)}
+            className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider border"
+            style={preview ? activeChipStyle : chipStyle}
+          >
+            preview
+          </button>
+          <button
+            onClick={send}
+            disabled={sending || (!input.trim() && attachments.length === 0)}
+            className="ml-auto px-3 py-1.5 rounded text-[11px] tracking-wider font-medium border transition-all disabled:opacity-30"
+            style={{ borderColor: 'var(--border-accent)', color: 'var(--accent-cyan)', background: 'rgba(0,255,200,0.05)' }}
+          >
+            {sending ? '···' : 'SEND'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import { renderMarkdown } from '@/components/shared/MarkdownRenderer';
+import type { ContentBlock } from '@/lib/sessions';
+
+type ToolCall = Extract<ContentBlock, { type: 'tool_call' }>;
+type ToolResult = Extract<ContentBlock, { type: 'tool_result' }>;
+
+function formatDuration(ms: number) {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+/** One-line hint of what a call was for — the first short string argument */
+function summarizeInput(input: unknown): string {
+  if (typeof input === 'string') return input.slice(0, 80);
+  if (input && typeof input === 'object') {
+    const value = Object.values(input).find(v => typeof v === 'string' && v.trim());
+    if (typeof value === 'string') return value.split('\n')[0].slice(0, 80);
+  }
+  return '';
+}
+
+const preStyle = { background: 'var(--bg-secondary)', color: 'var(--text-secondary)' };
+
+function Collapsible({ header, accent, children }: { header: ReactNode; accent: string; children: ReactNode }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="rounded border text-[10px] my-1" style={{ borderColor: 'var(--border-dim)', borderLeft: `2px solid ${accent}` }}>
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-2 px-2 py-1 text-left min-w-0">
+        <span style={{ color: 'var(--text-dim)' }}>{open ? '▾' : '▸'}</span>
+        {header}
+      </button>
+      {open && <div className="px-2 pb-2">{children}</div>}
+    </div>
+  );
+}
+
+function ToolCallCard({ block }: { block: ToolCall }) {
+  const summary = summarizeInput(block.input);
+  return (
+    <Collapsible accent="var(--accent-purple)" header={
+      <>
+        <span className="font-medium" style={{ color: 'var(--accent-purple)' }}>⚙ {block.name}</span>
+        {summary && <span className="truncate font-mono" style={{ color: 'var(--text-dim)' }}>{summary}</span>}
+      </>
+    }>
+      <pre className="p-2 rounded overflow-x-auto whitespace-pre-wrap break-all text-[10px] max-h-80" style={preStyle}>
+        {typeof block.input === 'string' ? block.input : JSON.stringify(block.input, null, 2)}
+      </pre>
+      {block.truncated && <div className="mt-1 text-[9px]" style={{ color: 'var(--text-dim)' }}>Arguments truncated</div>}
+    </Collapsible>
+  );
+}
+
+function ToolResultCard({ block }: { block: ToolResult }) {
+  const accent = block.isError ? 'var(--accent-red)' : 'var(--accent-green)';
+  return (
+    <Collapsible accent={accent} header={
+      <>
+        <span className="font-medium" style={{ color: accent }}>{block.isError ? '✗' : '✓'} {block.name ?? 'result'}</span>
+        {block.durationMs !== undefined && <span style={{ color: 'var(--text-dim)' }}>{formatDuration(block.durationMs)}</span>}
+        <span className="truncate font-mono" style={{ color: 'var(--text-dim)' }}>{block.text.split('\n')[0].slice(0, 80)}</span>
+      </>
+    }>
+      <pre className="p-2 rounded overflow-x-auto whitespace-pre-wrap break-all text-[10px] max-h-80" style={{ ...preStyle, color: block.isError ? 'var(--accent-red)' : preStyle.color }}>
+        {block.text || '(no output)'}
+      </pre>
+      {block.truncated && <div className="mt-1 text-[9px]" style={{ color: 'var(--text-dim)' }}>Output truncated</div>}
+    </Collapsible>
+  );
+}
+
+export function ContentBlocks({ blocks }: { blocks: ContentBlock[] }) {
+  return (
+    <>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'text':
+            return <div key={i}>{renderMarkdown(block.text)}</div>;
+          case 'thinking':
+            return (
+              <Collapsible key={i} accent="var(--text-dim)" header={<span className="italic" style={{ color: 'var(--text-dim)' }}>thinking</span>}>
+                <div className="italic whitespace-pre-wrap text-[11px]" style={{ color: 'var(--text-secondary)' }}>{block.text}</div>
+              </Collapsible>
+            );
+          case 'tool_call':
+            return <ToolCallCard key={i} block={block} />;
+          case 'tool_result':
+            return <ToolResultCard key={i} block={block} />;
+          case 'image':
+            return block.src
+              // eslint-disable-next-line @next/next/no-img-element
+              ? <img key={i} src={block.src} alt="Attached image" className="max-w-full max-h-80 rounded my-1" />
+              : <div key={i} className="text-[10px] my-1" style={{ color: 'var(--text-dim)' }}>[image · {block.mimeType}]</div>;
+        }
+      })}
+    </>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+
+const COLORS = [
+  '',
+  'var(--accent-cyan)',
+  'var(--accent-green)',
+  'var(--accent-yellow)',
+  'var(--accent-orange)',
+  'var(--accent-red)',
+  'var(--accent-purple)',
+];
+
+const chipStyle = (active: boolean) => active
+  ? { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' }
+  : { background: 'transparent', color: 'var(--text-dim)' };
+
+const inputStyle = { borderColor: 'var(--border-dim)', color: 'var(--text-primary)', fontFamily: 'var(--font-data)', caretColor: 'var(--accent-cyan)' };
+
+interface Props {
+  session: { key: string; label: string; emoji?: string; color?: string; pinned?: boolean; archived?: boolean };
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/** Inline rename / emoji / color / pin / archive for one session card */
+export function LabelEditor({ session, onClose, onSaved }: Props) {
+  const [label, setLabel] = useState(session.label);
+  const [emoji, setEmoji] = useState(session.emoji ?? '');
+  const [color, setColor] = useState(session.color ?? '');
+  const [pinned, setPinned] = useState(!!session.pinned);
+  const [archived, setArchived] = useState(!!session.archived);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = async (body: Record<string, unknown>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/sessions/labels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: session.key, ...body }),
+      });
+      const data = await res.json();
+      // Nothing saved to reset is fine — the card already shows the defaults
+      if (!res.ok && !(body.action === 'reset' && res.status === 404)) throw new Error(data.error || 'Save failed');
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Only send what changed, so an untouched rule-derived label doesn't get frozen into the store
+  const save = () => post({
+    action: 'set',
+    label: label !== session.label ? label : undefined,
+    emoji: emoji !== (session.emoji ?? '') ? emoji : undefined,
+    color: color !== (session.color ?? '') ? color : undefined,
+    pinned,
+    archived,
+  });
+
+  return (
+    <div className="mt-2 p-2 rounded space-y-2" style={{ background: 'var(--bg-secondary)' }} onClick={(e) => e.stopPropagation()}>
+      <div className="flex gap-2">
+        <input
+          value={emoji}
+          onChange={(e) => setEmoji(e.target.value)}
+          placeholder="🙂"
+          className="w-10 px-1.5 py-1 rounded border bg-transparent outline-none text-[12px] text-center"
+          style={inputStyle}
+        />
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+          placeholder="Label"
+          autoFocus
+          className="flex-1 min-w-0 px-2 py-1 rounded border bg-transparent outline-none text-[12px]"
+          style={inputStyle}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        {COLORS.map(c => (
+          <button
+            key={c || 'none'}
+            onClick={() => setColor(c)}
+            title={c || 'No color'}
+            className="w-4 h-4 rounded-full border"
+            style={{ background: c || 'transparent', borderColor: color === c ? 'var(--text-primary)' : 'var(--border-dim)' }}
+          />
+        ))}
+        <span className="flex-1" />
+        <button onClick={() => setPinned(!pinned)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(pinned)}>
+          📌 PIN
+        </button>
+        <button onClick={() => setArchived(!archived)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(archived)}>
+          ARCHIVE
+        </button>
+      </div>
+      {error && <div className="text-[10px]" style={{ color: 'var(--accent-red)' }}>{error}</div>}
+      <div className="flex justify-end gap-2 text-[10px] tracking-wider">
+        <button onClick={() => post({ action: 'reset' })} disabled={saving} style={{ color: 'var(--text-dim)' }}>RESET</button>
+        <button onClick={onClose} disabled={saving} style={{ color: 'var(--text-dim)' }}>CANCEL</button>
+        <button onClick={() => save()} disabled={saving} style={{ color: 'var(--accent-cyan)' }}>
+          {saving ? 'SAVING…' : 'SAVE'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useVirtualList } from '@/lib/useVirtualList';
+import type { TranscriptMessage, TranscriptRole } from '@/lib/sessions';
+import { Composer, type SentMessage } from './Composer';
+import { ContentBlocks } from './ContentBlocks';
+import { agentActivity, useSessionEvents } from './useSessionEvents';
+
+const PAGE_SIZE = 50;
+const EXPORT_FORMATS = [
+  { value: 'md', label: '↓ MD' },
+  { value: 'html', label: '↓ HTML' },
+  { value: 'json', label: '↓ JSON' },
+];
+// Start fetching the next page this far before the edge
+const LOAD_THRESHOLD_PX = 600;
+
+/** Sent from this view but not yet read back from the transcript */
+type ChatMessage = TranscriptMessage & { pending?: boolean };
+
+interface Cursors {
+  before: string | null;
+  after: string | null;
+}
+
+const ROLE_LABELS: Record<TranscriptRole, { label: string; color: string }> = {
+  user: { label: 'you', color: 'var(--accent-cyan)' },
+  assistant: { label: 'assistant', color: 'var(--accent-green)' },
+  tool: { label: 'tool', color: 'var(--accent-purple)' },
+};
+
+const messageKey = (m: ChatMessage) => (m.pending ? `pending-${m.index}` : `${m.index}`);
+
+export function SessionViewer({ session, focus, onBack }: {
+  session: any;
+  /** Message id (or `#n`) to open at instead of the end */
+  focus?: string;
+  onBack: () => void;
+}) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [cursors, setCursors] = useState<Cursors>({ before: null, after: null });
+  const [total, setTotal] = useState<number | null>(null);
+  const [focusIndex, setFocusIndex] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  // Export picks a range by clicking its first and last message
+  const [selecting, setSelecting] = useState(false);
+  const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+  // Guards against the scroll handler firing the same page request twice
+  const paging = useRef(false);
+
+  // File-name keys can repeat across agents; the agent pins down which transcript
+  const agentQuery = session.agent ? `&agent=${encodeURIComponent(session.agent)}` : '';
+  const url = useCallback((query: string) => (
+    `/api/sessions/${encodeURIComponent(session.key)}?limit=${PAGE_SIZE}${agentQuery}${query}`
+  ), [session.key, agentQuery]);
+
+  const list = useVirtualList({
+    count: messages.length,
+    getKey: (i) => messageKey(messages[i]),
+    estimateSize: 90,
+  });
+
+  const loadInitial = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(url(focus ? `&around=${encodeURIComponent(focus)}` : ''));
+      const data = await res.json();
+      const loaded: ChatMessage[] = data.messages || [];
+      setMessages(loaded);
+      setCursors(data.cursors || { before: null, after: null });
+      setTotal(data.totalMessages ?? null);
+      setFocusIndex(data.focus !== null && data.focus !== undefined ? loaded[data.focus]?.index ?? null : null);
+    } catch {}
+    setLoading(false);
+  }, [url, focus]);
+
+  useEffect(() => {
+    loadInitial();
+  }, [loadInitial]);
+
+  // Bring a deep-linked message into view once its page has rendered
+  const { scrollToIndex } = list;
+  useEffect(() => {
+    if (focusIndex === null) return;
+    const position = messages.findIndex(m => !m.pending && m.index === focusIndex);
+    if (position >= 0) scrollToIndex(position);
+  }, [focusIndex]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadPage = useCallback(async (direction: 'before' | 'after') => {
+    const cursor = cursors[direction];
+    if (!cursor || paging.current) return;
+    paging.current = true;
+    try {
+      const res = await fetch(url(`&${direction}=${encodeURIComponent(cursor)}`));
+      const data = await res.json();
+      const page: ChatMessage[] = data.messages || [];
+      if (direction === 'before') {
+        setMessages(prev => [...page, ...prev]);
+        setCursors(c => ({ ...c, before: data.cursors?.before ?? null }));
+      } else {
+        setMessages(prev => [...prev.filter(m => !m.pending), ...page]);
+        setCursors(c => ({ ...c, after: data.cursors?.after ?? null }));
+      }
+      setTotal(data.totalMessages ?? null);
+    } catch {}
+    paging.current = false;
+  }, [cursors, url]);
+
+  const onScroll = () => {
+    list.onScroll();
+    const el = list.containerRef.current;
+    if (!el || loading) return;
+    if (el.scrollTop < LOAD_THRESHOLD_PX) loadPage('before');
+    else if (el.scrollHeight - el.scrollTop - el.clientHeight < LOAD_THRESHOLD_PX) loadPage('after');
+  };
+
+  // Pick up anything written since the last message we hold
+  const refresh = useCallback(async () => {
+    const last = [...messages].reverse().find(m => !m.pending);
+    if (!last || cursors.after) {
+      // Paged away from the end (or nothing loaded) — jump back to the latest messages
+      setFocusIndex(null);
+      setLoading(true);
+      try {
+        const res = await fetch(url(''));
+        const data = await res.json();
+        setMessages(data.messages || []);
+        setCursors(data.cursors || { before: null, after: null });
+        setTotal(data.totalMessages ?? null);
+      } catch {}
+      setLoading(false);
+      list.scrollToEnd();
+      return;
+    }
+    try {
+      const res = await fetch(url(`&after=${encodeURIComponent(last.id ?? `#${last.index}`)}`));
+      const data = await res.json();
+      setMessages(prev => [...prev.filter(m => !m.pending), ...(data.messages || [])]);
+      setCursors(c => ({ ...c, after: data.cursors?.after ?? null }));
+      setTotal(data.totalMessages ?? null);
+    } catch {}
+  }, [messages, cursors.after, url, list]);
+
+  // New lines in this transcript, pushed by the session watcher
+  useSessionEvents((event) => {
+    if (event.type === 'resync') {
+      refresh();
+      return;
+    }
+    if (event.key !== session.key || (session.agent && event.agent !== session.agent)) return;
+    if (event.type === 'reset') {
+      loadInitial();
+      return;
+    }
+    if (event.type !== 'new-message') return;
+
+    setTotal(event.total);
+    // Paged away from the end — the next page load picks them up
+    if (cursors.after) return;
+    const last = [...messages].reverse().find(m => !m.pending);
+    if (!last || event.messages[0].index > last.index + 1) {
+      refresh();
+      return;
+    }
+    const fresh = event.messages.filter(m => m.index > last.index);
+    if (fresh.length === 0) return;
+    // Our own message has come back from the transcript
+    const echoed = fresh.some(m => m.role === 'user');
+    setMessages(prev => [
+      ...prev.filter(m => !m.pending && m.index <= last.index),
+      ...fresh,
+      ...(echoed ? [] : prev.filter(m => m.pending)),
+    ]);
+  });
+
+  const onSent = useCallback(({ text, attachments }: SentMessage) => {
+    const blocks: ChatMessage['blocks'] = [
+      ...(text ? [{ type: 'text' as const, text }] : []),
+      ...(attachments.length > 0 ? [{ type: 'text' as const, text: attachments.map(name => `📎 ${name}`).join('\n') }] : []),
+    ];
+    setMessages(prev => [...prev, { index: prev.length, role: 'user', text, blocks, timestamp: new Date().toISOString(), pending: true }]);
+    list.scrollToEnd();
+  }, [list]);
+
+  const activity = cursors.after ? { working: false } : agentActivity([...messages].reverse().find(m => !m.pending));
+
+  const selectMessage = (msg: ChatMessage) => {
+    if (msg.pending) return;
+    if (anchor === null) {
+      setAnchor(msg.index);
+      setRange({ from: msg.index, to: msg.index });
+    } else {
+      setRange({ from: Math.min(anchor, msg.index), to: Math.max(anchor, msg.index) });
+      setAnchor(null);
+    }
+  };
+
+  const exportUrl = (format: string) => {
+    const query = new URLSearchParams({ format });
+    if (session.agent) query.set('agent', session.agent);
+    if (range) {
+      query.set('from', `#${range.from}`);
+      query.set('to', `#${range.to}`);
+    }
+    return `/api/sessions/${encodeURIComponent(session.key)}/export?${query}`;
+  };
+
+  const copyMarkdown = async () => {
+    try {
+      const res = await fetch(exportUrl('md'));
+      if (!res.ok) return;
+      await navigator.clipboard.writeText(await res.text());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {}
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setRange(null);
+    setAnchor(null);
+  };
+
+  return (
+    <div className="card-base overflow-hidden flex flex-col" style={{ height: 'calc(100vh - 180px)' }}>
+      {/* Chat Header */}
+      <div className="flex items-center justify-between px-4 py-2.5 border-b" style={{ borderColor: 'var(--border-dim)' }}>
+        <div className="flex items-center gap-3 min-w-0">
+          <button
+            onClick={onBack}
+            className="text-sm shrink-0"
+            style={{ color: 'var(--accent-cyan)' }}
+          >
+            ←
+          </button>
+          <div className="min-w-0">
+            <h2 className="text-[12px] font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+              {session.emoji && `${session.emoji} `}{session.label}
+            </h2>
+            <div className="text-[9px]" style={{ color: 'var(--text-dim)' }}>
+              {session.kind ?? 'transcript'} · {total ?? session.messageCount ?? 0} msgs · {session.totalTokens ? `${(session.totalTokens / 1000).toFixed(0)}k tokens` : ''}
+              {session.estimatedCost > 0 && <span style={{ color: 'var(--accent-yellow)' }}> · ${session.estimatedCost.toFixed(2)}</span>}
+              {session.model && <span> · {session.model.replace('claude-', '').replace('-20250514', '')}</span>}
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+            className="text-[10px] px-2 py-1 rounded border tracking-wider"
+            style={{ borderColor: 'var(--border-dim)', color: selecting ? 'var(--accent-cyan)' : 'var(--text-dim)' }}
+          >
+            EXPORT
+          </button>
+          <button onClick={refresh} className="text-[10px] px-2 py-1 rounded border" style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)' }}>
+            ↻
+          </button>
+        </div>
+      </div>
+
+      {selecting && (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-1.5 border-b text-[10px]" style={{ borderColor: 'var(--border-dim)', background: 'var(--bg-secondary)' }}>
+          <span style={{ color: 'var(--text-dim)' }}>
+            {!range ? 'Whole session — click a message to start a range'
+              : anchor !== null ? 'Click the last message of the range'
+              : `${range.to - range.from + 1} messages selected`}
+          </span>
+          <div className="ml-auto flex items-center gap-1">
+            {EXPORT_FORMATS.map(f => (
+              <a key={f.value} href={exportUrl(f.value)} download className="px-2 py-0.5 rounded border text-[9px] tracking-wider" style={{ borderColor: 'var(--border-dim)', color: 'var(--accent-cyan)' }}>
+                {f.label}
+              </a>
+            ))}
+            <button onClick={copyMarkdown} className="px-2 py-0.5 rounded border text-[9px] tracking-wider" style={{ borderColor: 'var(--border-dim)', color: copied ? 'var(--accent-green)' : 'var(--accent-cyan)' }}>
+              {copied ? '✓ COPIED' : '⧉ COPY AS MARKDOWN'}
+            </button>
+            {range && (
+              <button onClick={() => { setRange(null); setAnchor(null); }} className="px-2 py-0.5 text-[9px] tracking-wider" style={{ color: 'var(--text-dim)' }}>
+                CLEAR
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Messages */}
+      <div
+        ref={list.containerRef}
+        onScroll={onScroll}
+        className="flex-1 min-h-0 overflow-auto"
+        style={{ background: '#08080e' }}
+      >
+        {loading && (
+          <div className="text-center py-8" style={{ color: 'var(--text-dim)' }}>
+            <span className="animate-pulse-glow">Loading messages...</span>
+          </div>
+        )}
+        <div className="relative" style={{ height: list.totalSize }}>
+          {list.items.map(({ index, key, start }) => {
+            const msg = messages[index];
+            const focused = !msg.pending && msg.index === focusIndex;
+            const selected = !msg.pending && range !== null && msg.index >= range.from && msg.index <= range.to;
+            return (
+              <div
+                key={key}
+                ref={list.measure}
+                data-key={key}
+                className={`absolute left-0 right-0 px-4 py-1.5 flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                style={{ top: start, cursor: selecting && !msg.pending ? 'pointer' : undefined }}
+                onClick={selecting ? () => selectMessage(msg) : undefined}
+              >
+                <div
+                  className="max-w-[85%] rounded-lg px-3 py-2"
+                  style={{
+                    background: msg.role === 'user' ? 'rgba(0,255,200,0.1)' : 'var(--bg-card)',
+                    border: `1px solid ${msg.role === 'user' ? 'rgba(0,255,200,0.2)' : 'var(--border-dim)'}`,
+                    boxShadow: selected ? '0 0 0 2px var(--accent-cyan)' : focused ? '0 0 0 2px var(--accent-yellow)' : undefined,
+                    opacity: msg.pending ? 0.6 : undefined,
+                  }}
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-[9px] font-medium uppercase tracking-wider" style={{ color: ROLE_LABELS[msg.role].color }}>
+                      {ROLE_LABELS[msg.role].label}
+                    </span>
+                    {msg.timestamp && (
+                      <span className="text-[8px]" style={{ color: 'var(--text-dim)' }}>
+                        {new Date(msg.timestamp).toLocaleTimeString()}
+                      </span>
+                    )}
+                    {msg.channelMessageId && !selecting && (
+                      <button
+                        onClick={() => setReplyTo(msg)}
+                        className="ml-auto text-[10px]"
+                        style={{ color: replyTo?.channelMessageId === msg.channelMessageId ? 'var(--accent-cyan)' : 'var(--text-dim)' }}
+                        title="Reply to this message"
+                      >
+                        ↩
+                      </button>
+                    )}
+                  </div>
+                  <div className="text-[12px] leading-relaxed break-words" style={{ color: 'var(--text-primary)' }}>
+                    <ContentBlocks blocks={msg.blocks} />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {activity.working && (
+        <div className="flex items-center gap-2 px-4 py-1.5 text-[10px] border-t" style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)' }}>
+          <span className="animate-pulse-glow" style={{ color: 'var(--accent-purple)' }}>●</span>
+          {activity.tool ? <>running <span style={{ color: 'var(--accent-purple)', fontFamily: 'var(--font-data)' }}>{activity.tool}</span>…</> : 'working…'}
+        </div>
+      )}
+
+      <Composer session={session} replyTo={replyTo} onCancelReply={() => setReplyTo(null)} onSent={onSent} />
+    </div>
+  );
+}
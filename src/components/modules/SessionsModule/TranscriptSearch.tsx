@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect, type ReactNode } from 'react';
+import { Card } from '@/components/shared/StatCard';
+import type { SearchResult } from '@/lib/session-search';
+
+const ROLE_OPTIONS = [
+  { value: '', label: 'ALL' },
+  { value: 'user', label: 'USER' },
+  { value: 'assistant', label: 'ASSISTANT' },
+];
+const KIND_OPTIONS = ['', 'main', 'telegram', 'subagent', 'channel'];
+const RANGE_OPTIONS = [
+  { value: 0, label: 'ANY TIME' },
+  { value: 24 * 60 * 60 * 1000, label: '24H' },
+  { value: 7 * 24 * 60 * 60 * 1000, label: '7D' },
+  { value: 30 * 24 * 60 * 60 * 1000, label: '30D' },
+];
+const PAGE_SIZE = 20;
+const DEBOUNCE_MS = 300;
+
+const chipStyle = (active: boolean) => active
+  ? { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' }
+  : { background: 'transparent', color: 'var(--text-dim)' };
+
+function highlight(text: string, ranges: [number, number][]): ReactNode {
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const [start, end] of ranges) {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <mark key={start} style={{ background: 'rgba(255,200,0,0.35)', color: 'inherit', borderRadius: 2 }}>{text.slice(start, end)}</mark>
+    );
+    last = end;
+  }
+  parts.push(text.slice(last));
+  return parts;
+}
+
+export function TranscriptSearch({ onOpen }: { onOpen: (result: SearchResult) => void }) {
+  const [query, setQuery] = useState('');
+  const [role, setRole] = useState('');
+  const [kind, setKind] = useState('');
+  const [range, setRange] = useState(0);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [stats, setStats] = useState<{ files: number; messages: number; evicted?: number; tookMs: number } | null>(null);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [loading, setLoading] = useState(false);
+
+  // A new query or filter starts back at the first page
+  useEffect(() => setLimit(PAGE_SIZE), [query, role, kind, range]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      setTotal(0);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q, limit: String(limit) });
+      if (role) params.set('role', role);
+      if (kind) params.set('kind', kind);
+      if (range) params.set('since', String(Date.now() - range));
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/sessions/search?${params}`, { signal: controller.signal });
+        const data = await res.json();
+        setResults(data.results || []);
+        setTotal(data.total || 0);
+        if (data.indexed) setStats({ ...data.indexed, tookMs: data.tookMs });
+      } catch {}
+      setLoading(false);
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, role, kind, range, limit]);
+
+  return (
+    <Card
+      title="TRANSCRIPT SEARCH"
+      tag={stats ? `${stats.messages.toLocaleString()} MSGS · ${stats.files} FILES${stats.evicted ? ` · ${stats.evicted} TOO OLD` : ''}` : undefined}
+    >
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder='Search every transcript — use "quotes" for exact phrases'
+        className="w-full px-3 py-1.5 rounded border bg-transparent outline-none text-[12px] mb-2"
+        style={{ borderColor: 'var(--border-dim)', color: 'var(--text-primary)', fontFamily: 'var(--font-data)', caretColor: 'var(--accent-cyan)' }}
+      />
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-2">
+        <div className="flex items-center gap-1">
+          {ROLE_OPTIONS.map(o => (
+            <button key={o.value} onClick={() => setRole(o.value)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(role === o.value)}>
+              {o.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          {KIND_OPTIONS.map(k => (
+            <button key={k} onClick={() => setKind(k)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(kind === k)}>
+              {k || 'ANY KIND'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          {RANGE_OPTIONS.map(o => (
+            <button key={o.value} onClick={() => setRange(o.value)} className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors" style={chipStyle(range === o.value)}>
+              {o.label}
+            </button>
+          ))}
+        </div>
+        {query.trim() && (
+          <span className="ml-auto text-[9px]" style={{ color: 'var(--text-dim)' }}>
+            {loading ? 'searching…' : `${total} match${total === 1 ? '' : 'es'}${stats ? ` · ${stats.tookMs}ms` : ''}`}
+          </span>
+        )}
+      </div>
+
+      {query.trim() && !loading && results.length === 0 && (
+        <div className="text-[10px] py-3 text-center" style={{ color: 'var(--text-dim)' }}>No messages match</div>
+      )}
+
+      <div className="space-y-1">
+        {results.map(r => (
+          <button
+            key={`${r.sessionKey}-${r.ordinal}`}
+            onClick={() => onOpen(r)}
+            className="block w-full text-left px-2 py-1.5 rounded border transition-colors hover:bg-white/5"
+            style={{ borderColor: 'var(--border-dim)' }}
+          >
+            <div className="flex items-center gap-2 text-[9px] mb-0.5">
+              <span className="truncate" style={{ color: 'var(--text-primary)' }}>{r.label}</span>
+              <span className="uppercase tracking-wider" style={{ color: r.role === 'user' ? 'var(--accent-cyan)' : 'var(--accent-green)' }}>
+                {r.role === 'user' ? 'you' : 'assistant'}
+              </span>
+              {r.timestamp > 0 && (
+                <span className="ml-auto shrink-0" style={{ color: 'var(--text-dim)' }}>{new Date(r.timestamp).toLocaleString()}</span>
+              )}
+            </div>
+            <div className="text-[11px] leading-snug break-words" style={{ color: 'var(--text-secondary)' }}>
+              {highlight(r.snippet, r.highlights)}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {results.length < total && (
+        <button onClick={() => setLimit(limit + PAGE_SIZE)} className="w-full mt-2 text-[10px] tracking-wider" style={{ color: 'var(--accent-cyan)' }}>
+          SHOW MORE ({total - results.length} more)
+        </button>
+      )}
+    </Card>
+  );
+}
@@ -1,174 +1,258 @@
 'use client';
 
 import { useState, useCallback, useEffect, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Card, MetricBlock } from '@/components/shared/StatCard';
-import { renderMarkdown } from '@/components/shared/MarkdownRenderer';
 import { timeAgo } from '@/lib/types';
+import type { SearchResult } from '@/lib/session-search';
+import { LabelEditor } from './LabelEditor';
+import { SessionViewer } from './SessionViewer';
+import { TranscriptSearch } from './TranscriptSearch';
+import { WORKING_TIMEOUT_MS, agentActivity, useSessionEvents } from './useSessionEvents';
+
+const UNREAD_STORAGE_KEY = 'clawtrol:session-unread';
+// A burst of new sessions (or a reconnect) refetches the list once
+const REFETCH_DELAY_MS = 1000;
+
+/** Sessions are unique per agent, not by key alone */
+const sessionId = (session: { agent?: string; key: string }) => `${session.agent ?? ''}:${session.key}`;
 
 export default function SessionsModule() {
   const [sessions, setSessions] = useState<any[]>([]);
   const [selectedSession, setSelectedSession] = useState<any | null>(null);
-  const [chatMessages, setChatMessages] = useState<any[]>([]);
-  const [chatInput, setChatInput] = useState('');
-  const [chatSending, setChatSending] = useState(false);
-  const [chatLoading, setChatLoading] = useState(false);
+  // Message id (or `#n`) a deep link asked the viewer to open at
+  const [focusCursor, setFocusCursor] = useState<string | undefined>();
   const [usageData, setUsageData] = useState<any>(null);
-  const chatEndRef = useRef<HTMLDivElement>(null);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [agents, setAgents] = useState<string[]>([]);
+  const [agentFilter, setAgentFilter] = useState('');
+  // Messages that arrived while a session wasn't open, by sessionId()
+  const [unread, setUnread] = useState<Record<string, number>>({});
+  const refetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const linkedSession = searchParams.get('session');
+  const linkedMessage = searchParams.get('msg');
+  const linkedAgent = searchParams.get('agent');
+  const agentQuery = agentFilter ? `?agent=${encodeURIComponent(agentFilter)}` : '';
 
   const fetchSessions = useCallback(async () => {
     try {
-      const res = await fetch('/api/sessions');
+      const res = await fetch(`/api/sessions${agentQuery}`);
       const data = await res.json();
       setSessions(data.sessions || []);
+      if (data.agents) setAgents(data.agents);
     } catch {}
-  }, []);
+  }, [agentQuery]);
 
   const fetchUsage = useCallback(async () => {
     try {
-      const res = await fetch('/api/usage');
+      const res = await fetch(`/api/usage${agentQuery}`);
       const data = await res.json();
       setUsageData(data);
     } catch {}
-  }, []);
+  }, [agentQuery]);
 
-  const openSessionChat = useCallback(async (session: any) => {
+  const openSessionChat = useCallback((session: any, around?: string) => {
     setSelectedSession(session);
-    setChatMessages([]);
-    setChatLoading(true);
-    try {
-      const res = await fetch(`/api/sessions/${encodeURIComponent(session.key)}?limit=50`);
-      const data = await res.json();
-      setChatMessages(data.messages || []);
-    } catch {}
-    setChatLoading(false);
-    setTimeout(() => chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
+    setFocusCursor(around);
+    setUnread(prev => {
+      const next = { ...prev };
+      delete next[sessionId(session)];
+      return next;
+    });
   }, []);
 
-  const refreshChat = useCallback(async () => {
-    if (!selectedSession) return;
-    try {
-      const res = await fetch(`/api/sessions/${encodeURIComponent(selectedSession.key)}?limit=50`);
-      const data = await res.json();
-      setChatMessages(data.messages || []);
-    } catch {}
-    setTimeout(() => chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
-  }, [selectedSession]);
-
-  const sendChatMessage = useCallback(async () => {
-    if (!chatInput.trim() || !selectedSession || chatSending) return;
-    const msg = chatInput.trim();
-    setChatInput('');
-    setChatSending(true);
+  useEffect(() => {
     try {
-      await fetch('/api/sessions/send', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionKey: selectedSession.key, message: msg }),
-      });
-      setChatMessages(prev => [...prev, { role: 'user', text: msg, timestamp: new Date().toISOString() }]);
-      setTimeout(() => chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
-      setTimeout(refreshChat, 5000);
+      setUnread(JSON.parse(localStorage.getItem(UNREAD_STORAGE_KEY) || '{}'));
     } catch {}
-    setChatSending(false);
-  }, [chatInput, selectedSession, chatSending, refreshChat]);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(UNREAD_STORAGE_KEY, JSON.stringify(unread));
+  }, [unread]);
+
+  const scheduleRefetch = useCallback(() => {
+    if (refetchTimer.current) return;
+    refetchTimer.current = setTimeout(() => {
+      refetchTimer.current = null;
+      fetchSessions();
+    }, REFETCH_DELAY_MS);
+  }, [fetchSessions]);
+
+  useEffect(() => () => {
+    if (refetchTimer.current) clearTimeout(refetchTimer.current);
+  }, []);
+
+  // Keep cards current as transcripts grow, instead of polling
+  useSessionEvents((event) => {
+    if (event.type === 'resync') {
+      scheduleRefetch();
+      return;
+    }
+    if (agentFilter && event.agent !== agentFilter) return;
+    const id = sessionId(event);
+    const known = sessions.some(s => sessionId(s) === id);
+    if (!known) {
+      if (event.type !== 'reset') scheduleRefetch();
+      return;
+    }
+
+    if (event.type === 'session-updated') {
+      setSessions(prev => prev.map(s => (sessionId(s) === id ? { ...s, lastActivity: new Date(event.updatedAt).toISOString() } : s)));
+      return;
+    }
+    if (event.type !== 'new-message') return;
+
+    const last = event.messages[event.messages.length - 1];
+    const chat = event.messages.filter(m => (m.role === 'user' || m.role === 'assistant') && m.text);
+    setSessions(prev => prev.map(s => (sessionId(s) !== id ? s : {
+      ...s,
+      lastActivity: last.timestamp || new Date().toISOString(),
+      messageCount: (s.messageCount || 0) + event.messages.length,
+      lastMessages: [...(s.lastMessages || []), ...chat.map(m => ({ role: m.role, text: m.text.slice(0, 300), timestamp: m.timestamp }))].slice(-3),
+      activity: agentActivity(last),
+    })));
+    const open = selectedSession && selectedSession.key === event.key && (!selectedSession.agent || selectedSession.agent === event.agent);
+    if (chat.length > 0 && !open) {
+      setUnread(prev => ({ ...prev, [id]: (prev[id] ?? 0) + chat.length }));
+    }
+  });
+
+  // ?session=<key>&msg=<id|#n> opens that transcript at the message — search results link here
+  useEffect(() => {
+    if (!linkedSession) return;
+    const known = sessions.find(s => s.key === linkedSession);
+    openSessionChat(known ?? { key: linkedSession, label: linkedSession, agent: linkedAgent ?? undefined }, linkedMessage ?? undefined);
+  }, [linkedSession, linkedMessage, linkedAgent, openSessionChat]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // A deep link can beat the session list; swap in the full entry once it arrives
+  useEffect(() => {
+    setSelectedSession((prev: any) => (prev && !prev.lastActivity ? sessions.find(s => s.key === prev.key) ?? prev : prev));
+  }, [sessions]);
+
+  const openSearchResult = useCallback((result: SearchResult) => {
+    const msg = result.messageId ?? `#${result.ordinal}`;
+    router.push(`?tab=sessions&agent=${encodeURIComponent(result.agent)}&session=${encodeURIComponent(result.sessionKey)}&msg=${encodeURIComponent(msg)}`, { scroll: false });
+  }, [router]);
+
+  const closeChat = useCallback(() => {
+    setSelectedSession(null);
+    if (linkedSession) router.push('?tab=sessions', { scroll: false });
+  }, [linkedSession, router]);
 
   useEffect(() => {
     fetchSessions();
     fetchUsage();
   }, [fetchSessions, fetchUsage]);
 
-  return (
-    <div className="animate-fade-in">
-      {selectedSession ? (
-        <div className="card-base overflow-hidden" style={{ height: 'calc(100vh - 180px)' }}>
-          {/* Chat Header */}
-          <div className="flex items-center justify-between px-4 py-2.5 border-b" style={{ borderColor: 'var(--border-dim)' }}>
-            <div className="flex items-center gap-3 min-w-0">
+  const archivedCount = sessions.filter(s => s.archived).length;
+  // Pinned first, then most recent — live updates move a session to the top
+  const visibleSessions = sessions
+    .filter(s => showArchived || !s.archived)
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned)
+      || (Date.parse(b.lastActivity) || 0) - (Date.parse(a.lastActivity) || 0));
+  // One section per agent when several are listed together
+  const groups: [string | null, any[]][] = agentFilter || agents.length <= 1
+    ? [[null, visibleSessions]]
+    : agents.map((agent): [string, any[]] => [agent, visibleSessions.filter(s => s.agent === agent)]).filter(([, group]) => group.length > 0);
+
+  const renderSession = (session: any) => {
+    const lastActivityDate = new Date(session.lastActivity);
+    const now = Date.now();
+    const hourAgo = now - 60 * 60 * 1000;
+    const dayAgo = now - 24 * 60 * 60 * 1000;
+
+    let activityColor = 'var(--text-dim)';
+    if (lastActivityDate.getTime() > hourAgo) activityColor = 'var(--accent-green)';
+    else if (lastActivityDate.getTime() > dayAgo) activityColor = 'var(--accent-yellow)';
+    const unreadCount = unread[sessionId(session)] ?? 0;
+    // Set by live events; re-checked so a stalled agent stops showing as busy
+    const working = session.activity?.working && Date.now() - lastActivityDate.getTime() < WORKING_TIMEOUT_MS;
+
+    return (
+      <div
+        key={session.key}
+        className="card-base p-3 min-w-0 cursor-pointer transition-all hover:scale-[1.01] active:scale-[0.99]"
+        style={{
+          borderColor: 'var(--border-dim)',
+          borderLeft: session.color ? `3px solid ${session.color}` : undefined,
+          opacity: session.archived ? 0.6 : undefined,
+        }}
+        onClick={() => editingKey !== session.key && openSessionChat(session)}
+      >
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-2 h-2 rounded-full shrink-0" style={{ background: activityColor, boxShadow: activityColor === 'var(--accent-green)' ? '0 0 6px rgba(0,255,106,0.5)' : undefined }} />
+              <h3 className="text-[12px] font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+                {session.pinned && '📌 '}{session.emoji && `${session.emoji} `}{session.label}
+              </h3>
+              {unreadCount > 0 && (
+                <span className="text-[9px] px-1.5 rounded-full font-mono shrink-0" style={{ background: 'var(--accent-cyan)', color: 'var(--bg-primary)' }} title={`${unreadCount} new messages`}>
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
               <button
-                onClick={() => setSelectedSession(null)}
-                className="text-sm shrink-0"
-                style={{ color: 'var(--accent-cyan)' }}
+                onClick={(e) => { e.stopPropagation(); setEditingKey(editingKey === session.key ? null : session.key); }}
+                title="Edit label"
+                className="text-[10px] shrink-0 transition-colors"
+                style={{ color: editingKey === session.key ? 'var(--accent-cyan)' : 'var(--text-dim)' }}
               >
-                ←
+                ✎
               </button>
-              <div className="min-w-0">
-                <h2 className="text-[12px] font-medium truncate" style={{ color: 'var(--text-primary)' }}>
-                  {selectedSession.label}
-                </h2>
-                <div className="text-[9px]" style={{ color: 'var(--text-dim)' }}>
-                  {selectedSession.kind} · {selectedSession.messageCount} msgs · {selectedSession.totalTokens ? `${(selectedSession.totalTokens / 1000).toFixed(0)}k tokens` : ''}
-                  {selectedSession.estimatedCost > 0 && <span style={{ color: 'var(--accent-yellow)' }}> · ${selectedSession.estimatedCost.toFixed(2)}</span>}
-                  {selectedSession.model && <span> · {selectedSession.model.replace('claude-', '').replace('-20250514', '')}</span>}
-                </div>
-              </div>
             </div>
-            <button onClick={refreshChat} className="text-[10px] px-2 py-1 rounded border" style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)' }}>
-              ↻
-            </button>
+            <div className="text-[9px]" style={{ color: 'var(--text-dim)' }}>
+              {(() => {
+                const usage = usageData?.sessions?.find((u: any) => u.key === session.key);
+                const cost = usage?.totalCost || 0;
+                const calls = usage?.apiCalls || 0;
+                return <>
+                  {session.messageCount} msgs{calls > 0 && ` · ${calls} API calls`}
+                  {cost > 0 && <span style={{ color: cost > 10 ? 'var(--accent-red)' : cost > 1 ? 'var(--accent-yellow)' : 'var(--accent-green)' }}> · ${cost.toFixed(2)}</span>}
+                </>;
+              })()}
+            </div>
           </div>
-
-          {/* Messages */}
-          <div className="flex-1 overflow-auto p-4 space-y-3" style={{ height: 'calc(100% - 110px)', background: '#08080e' }}>
-            {chatLoading && (
-              <div className="text-center py-8" style={{ color: 'var(--text-dim)' }}>
-                <span className="animate-pulse-glow">Loading messages...</span>
+          <div className="text-[9px] shrink-0 text-right" style={{ color: 'var(--text-dim)' }}>
+            {timeAgo(session.lastActivity)}
+            {working && (
+              <div className="animate-pulse-glow truncate max-w-[120px]" style={{ color: 'var(--accent-purple)' }}>
+                ● {session.activity.tool ?? 'working'}
               </div>
             )}
-            {chatMessages.map((msg: any, i: number) => (
-              <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div
-                  className="max-w-[85%] rounded-lg px-3 py-2"
-                  style={{
-                    background: msg.role === 'user' ? 'rgba(0,255,200,0.1)' : 'var(--bg-card)',
-                    border: `1px solid ${msg.role === 'user' ? 'rgba(0,255,200,0.2)' : 'var(--border-dim)'}`,
-                  }}
-                >
-                  <div className="flex items-center gap-2 mb-1">
-                    <span className="text-[9px] font-medium uppercase tracking-wider" style={{ color: msg.role === 'user' ? 'var(--accent-cyan)' : 'var(--accent-green)' }}>
-                      {msg.role === 'user' ? 'you' : 'assistant'}
-                    </span>
-                    {msg.timestamp && (
-                      <span className="text-[8px]" style={{ color: 'var(--text-dim)' }}>
-                        {new Date(msg.timestamp).toLocaleTimeString()}
-                      </span>
-                    )}
-                  </div>
-                  <div className="text-[12px] leading-relaxed break-words" style={{ color: 'var(--text-primary)' }}>
-                    {renderMarkdown(msg.text)}
-                  </div>
-                </div>
-              </div>
-            ))}
-            <div ref={chatEndRef} />
           </div>
+        </div>
+
+        {editingKey === session.key && (
+          <LabelEditor session={session} onClose={() => setEditingKey(null)} onSaved={fetchSessions} />
+        )}
 
-          {/* Input */}
-          <div className="flex items-center gap-3 px-4 py-3 border-t" style={{ borderColor: 'var(--border-accent)', background: '#0c0c14' }}>
-            <input
-              type="text"
-              value={chatInput}
-              onChange={(e) => setChatInput(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && sendChatMessage()}
-              placeholder="Send a message..."
-              disabled={chatSending}
-              className="flex-1 bg-transparent border-none outline-none text-[13px]"
-              style={{ color: 'var(--text-primary)', fontFamily: 'var(--font-data)', caretColor: 'var(--accent-cyan)' }}
-              autoFocus
-            />
-            <button
-              onClick={sendChatMessage}
-              disabled={chatSending || !chatInput.trim()}
-              className="px-3 py-1.5 rounded text-[11px] tracking-wider font-medium border transition-all disabled:opacity-30"
-              style={{ borderColor: 'var(--border-accent)', color: 'var(--accent-cyan)', background: 'rgba(0,255,200,0.05)' }}
-            >
-              {chatSending ? '···' : 'SEND'}
-            </button>
+        {session.lastMessages && session.lastMessages.length > 0 && (
+          <div className="mt-2 p-2 rounded text-[10px]" style={{ background: 'var(--bg-secondary)' }}>
+            <div className="truncate" style={{ color: 'var(--text-secondary)' }}>
+              <span style={{ color: session.lastMessages[session.lastMessages.length - 1]?.role === 'user' ? 'var(--accent-cyan)' : 'var(--accent-green)' }}>
+                {session.lastMessages[session.lastMessages.length - 1]?.role === 'user' ? 'you: ' : 'assistant: '}
+              </span>
+              {session.lastMessages[session.lastMessages.length - 1]?.text?.slice(0, 100)}
+            </div>
           </div>
-        </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="animate-fade-in">
+      {selectedSession ? (
+        <SessionViewer key={`${selectedSession.key}:${focusCursor ?? ''}`} session={selectedSession} focus={focusCursor} onBack={closeChat} />
       ) : (
-        <>
+        <div className="space-y-3">
+          <TranscriptSearch onOpen={openSearchResult} />
           {usageData?.totals && (
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
               <MetricBlock label="TOTAL COST" value={`$${usageData.totals.totalCost.toFixed(2)}`} accent="var(--accent-yellow)" />
               <MetricBlock label="API CALLS" value={`${usageData.totals.apiCalls.toLocaleString()}`} accent="var(--accent-cyan)" />
               <MetricBlock label="TOKENS" value={`${(usageData.totals.totalTokens / 1_000_000).toFixed(1)}M`} accent="var(--accent-purple)" />
@@ -176,76 +260,56 @@ export default function SessionsModule() {
             </div>
           )}
           <Card title="SESSIONS" actions={
-            <button onClick={() => { fetchSessions(); fetchUsage(); }} className="text-[10px] tracking-wider transition-colors" style={{ color: 'var(--text-dim)' }}>
-              ↻ REFRESH
-            </button>
+            <div className="flex items-center gap-3">
+              {agents.length > 1 && (
+                <div className="flex items-center gap-1">
+                  {['', ...agents].map(agent => (
+                    <button
+                      key={agent || 'all'}
+                      onClick={() => setAgentFilter(agent)}
+                      className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors"
+                      style={agentFilter === agent ? { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' } : { color: 'var(--text-dim)' }}
+                    >
+                      {agent || 'ALL AGENTS'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {archivedCount > 0 && (
+                <button
+                  onClick={() => setShowArchived(!showArchived)}
+                  className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors"
+                  style={showArchived ? { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' } : { color: 'var(--text-dim)' }}
+                >
+                  ARCHIVED ({archivedCount})
+                </button>
+              )}
+              <button onClick={() => { fetchSessions(); fetchUsage(); }} className="text-[10px] tracking-wider transition-colors" style={{ color: 'var(--text-dim)' }}>
+                ↻ REFRESH
+              </button>
+            </div>
           }>
-            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-3 min-w-0">
-              {sessions.map((session) => {
-                const lastActivityDate = new Date(session.lastActivity);
-                const now = Date.now();
-                const hourAgo = now - 60 * 60 * 1000;
-                const dayAgo = now - 24 * 60 * 60 * 1000;
-
-                let activityColor = 'var(--text-dim)';
-                if (lastActivityDate.getTime() > hourAgo) activityColor = 'var(--accent-green)';
-                else if (lastActivityDate.getTime() > dayAgo) activityColor = 'var(--accent-yellow)';
-
-                return (
-                  <div
-                    key={session.key}
-                    className="card-base p-3 min-w-0 cursor-pointer transition-all hover:scale-[1.01] active:scale-[0.99]"
-                    style={{ borderColor: 'var(--border-dim)' }}
-                    onClick={() => openSessionChat(session)}
-                  >
-                    <div className="flex items-start justify-between gap-2 mb-2">
-                      <div className="min-w-0 flex-1">
-                        <div className="flex items-center gap-2 mb-1">
-                          <div className="w-2 h-2 rounded-full shrink-0" style={{ background: activityColor, boxShadow: activityColor === 'var(--accent-green)' ? '0 0 6px rgba(0,255,106,0.5)' : undefined }} />
-                          <h3 className="text-[12px] font-medium truncate" style={{ color: 'var(--text-primary)' }}>
-                            {session.label}
-                          </h3>
-                        </div>
-                        <div className="text-[9px]" style={{ color: 'var(--text-dim)' }}>
-                          {(() => {
-                            const usage = usageData?.sessions?.find((u: any) => u.key === session.key);
-                            const cost = usage?.totalCost || 0;
-                            const calls = usage?.apiCalls || 0;
-                            return <>
-                              {session.messageCount} msgs{calls > 0 && ` · ${calls} API calls`}
-                              {cost > 0 && <span style={{ color: cost > 10 ? 'var(--accent-red)' : cost > 1 ? 'var(--accent-yellow)' : 'var(--accent-green)' }}> · ${cost.toFixed(2)}</span>}
-                            </>;
-                          })()}
-                        </div>
-                      </div>
-                      <div className="text-[9px] shrink-0" style={{ color: 'var(--text-dim)' }}>
-                        {timeAgo(session.lastActivity)}
-                      </div>
-                    </div>
-
-                    {session.lastMessages && session.lastMessages.length > 0 && (
-                      <div className="mt-2 p-2 rounded text-[10px]" style={{ background: 'var(--bg-secondary)' }}>
-                        <div className="truncate" style={{ color: 'var(--text-secondary)' }}>
-                          <span style={{ color: session.lastMessages[session.lastMessages.length - 1]?.role === 'user' ? 'var(--accent-cyan)' : 'var(--accent-green)' }}>
-                            {session.lastMessages[session.lastMessages.length - 1]?.role === 'user' ? 'you: ' : 'assistant: '}
-                          </span>
-                          {session.lastMessages[session.lastMessages.length - 1]?.text?.slice(0, 100)}
-                        </div>
-                      </div>
-                    )}
+            {groups.map(([agent, group]) => (
+              <div key={agent ?? 'all'} className="mb-3 last:mb-0">
+                {agent && (
+                  <div className="text-[10px] tracking-wider uppercase mb-2" style={{ color: 'var(--text-dim)' }}>
+                    {agent} · {group.length}
                   </div>
-                );
-              })}
-            </div>
+                )}
+                <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-3 min-w-0">
+                  {group.map(renderSession)}
+                </div>
+              </div>
+            ))}
 
-            {sessions.length === 0 && (
+            {visibleSessions.length === 0 && (
               <div className="text-center py-8" style={{ color: 'var(--text-dim)' }}>
                 <div className="text-2xl mb-2">◉</div>
-                <div>No active sessions</div>
+                <div>{archivedCount > 0 ? 'All sessions are archived' : 'No active sessions'}</div>
               </div>
             )}
           </Card>
-        </>
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { SessionEvent } from '@/lib/session-watcher';
+import type { TranscriptMessage } from '@/lib/sessions';
+
+/** `resync` means events were missed (dropped or disconnected) — refetch */
+export type SessionStreamEvent = SessionEvent | { type: 'resync' };
+
+type Handler = (event: SessionStreamEvent) => void;
+
+const EVENT_TYPES = ['new-message', 'session-updated', 'reset', 'resync'] as const;
+// No reply after a tool call for this long means the agent stopped, not that it's busy
+export const WORKING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// One stream per page, shared by the session list and the open transcript
+let stream: { source: EventSource; handlers: Set<Handler> } | null = null;
+
+function connect() {
+  const source = new EventSource('/api/sessions/events');
+  const handlers = new Set<Handler>();
+  let lost = false;
+
+  const dispatch = (event: SessionStreamEvent) => handlers.forEach(handler => handler(event));
+  for (const type of EVENT_TYPES) {
+    source.addEventListener(type, (e) => {
+      try {
+        dispatch({ ...JSON.parse((e as MessageEvent).data), type });
+      } catch {}
+    });
+  }
+  // EventSource reconnects by itself; whatever happened meanwhile is gone
+  source.onerror = () => { lost = true; };
+  source.onopen = () => {
+    if (lost) dispatch({ type: 'resync' });
+    lost = false;
+  };
+  return { source, handlers };
+}
+
+/** Subscribe to live session events for as long as the component is mounted */
+export function useSessionEvents(handler: Handler) {
+  const latest = useRef(handler);
+  useEffect(() => {
+    latest.current = handler;
+  });
+
+  useEffect(() => {
+    stream ??= connect();
+    const current = stream;
+    const forward: Handler = (event) => latest.current(event);
+    current.handlers.add(forward);
+    return () => {
+      current.handlers.delete(forward);
+      if (current.handlers.size === 0) {
+        current.source.close();
+        if (stream === current) stream = null;
+      }
+    };
+  }, []);
+}
+
+/**
+ * What the agent is doing, judging by the last message of a transcript:
+ * a tool call (or a result it hasn't answered yet) means it's mid-turn.
+ */
+export function agentActivity(last: Pick<TranscriptMessage, 'role' | 'blocks' | 'timestamp'> | undefined): { working: boolean; tool?: string } {
+  if (!last) return { working: false };
+  const at = new Date(last.timestamp).getTime();
+  if (at && Date.now() - at > WORKING_TIMEOUT_MS) return { working: false };
+  if (last.role === 'tool') return { working: true };
+  if (last.role !== 'assistant') return { working: false };
+  const call = [...last.blocks].reverse().find(b => b.type === 'tool_call');
+  return call && call.type === 'tool_call' ? { working: true, tool: call.name } : { working: false };
+}
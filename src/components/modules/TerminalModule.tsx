@@ -1,38 +1,163 @@
 'use client';
 
+import { useState, useCallback, useEffect } from 'react';
+import dynamic from 'next/dynamic';
+import { WebTerminal } from '@/components/shared/WebTerminal';
+
+// xterm.js touches the DOM on import — browser only
+const PtyTerminal = dynamic(() => import('@/components/shared/PtyTerminal').then(m => m.PtyTerminal), { ssr: false });
+
+type TerminalMode = 'pty' | 'exec';
+
+interface PtySession {
+  name: string;
+  owner: string;
+  clients: number;
+  lastActivity: number;
+}
+
+const ACTIVE_SESSION_KEY = 'clawtrol:pty-session';
+
+function nextSessionName(existing: string[]): string {
+  let n = 1;
+  while (existing.includes(`shell-${n}`)) n++;
+  return `shell-${n}`;
+}
+
 export default function TerminalModule() {
+  const [mode, setMode] = useState<TerminalMode>('pty');
+  const [sessions, setSessions] = useState<PtySession[]>([]);
+  const [active, setActive] = useState<string | null>(null);
+  const [available, setAvailable] = useState(true);
+  const [ptyPort, setPtyPort] = useState(7683);
+  // PTY is admin-only; other roles get EXEC
+  const [denied, setDenied] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const res = await fetch('/api/terminal/pty');
+      const data = await res.json();
+      if (res.status === 403) {
+        setDenied(data.error || 'PTY shells are for admins');
+        setMode('exec');
+        return [];
+      }
+      setAvailable(data.available);
+      setPtyPort(data.port);
+      setSessions(data.sessions || []);
+      return (data.sessions || []) as PtySession[];
+    } catch {
+      return [];
+    }
+  }, []);
+
+  // Reattach to the last used session, or the first one still running
+  useEffect(() => {
+    fetchSessions().then(list => {
+      const saved = localStorage.getItem(ACTIVE_SESSION_KEY);
+      const names = list.map(s => s.name);
+      setActive(saved && names.includes(saved) ? saved : names[0] ?? 'shell-1');
+    });
+    const interval = setInterval(fetchSessions, 10000);
+    return () => clearInterval(interval);
+  }, [fetchSessions]);
+
+  useEffect(() => {
+    if (active) localStorage.setItem(ACTIVE_SESSION_KEY, active);
+  }, [active]);
+
+  const newSession = () => {
+    const name = nextSessionName([...sessions.map(s => s.name), ...(active ? [active] : [])]);
+    setActive(name);
+    setTimeout(fetchSessions, 1000);
+  };
+
+  const killSession = async (name: string) => {
+    await fetch(`/api/terminal/pty?session=${encodeURIComponent(name)}`, { method: 'DELETE' }).catch(() => {});
+    const remaining = (await fetchSessions()).filter(s => s.name !== name);
+    if (active === name) setActive(remaining[0]?.name ?? nextSessionName([name]));
+  };
+
+  const handleExit = useCallback(() => {
+    setTimeout(fetchSessions, 500);
+  }, [fetchSessions]);
+
+  // The active tab may not be in the list yet (it's created on connect)
+  const tabs = active && !sessions.some(s => s.name === active)
+    ? [...sessions.map(s => s.name), active]
+    : sessions.map(s => s.name);
+
   return (
     <div className="animate-fade-in">
       <div className="card-base overflow-hidden" style={{ height: 'calc(100vh - 180px)' }}>
-        <div className="flex items-center justify-between px-3 py-2 border-b" style={{ borderColor: 'var(--border-dim)' }}>
+        <div className="flex items-center justify-between px-3 py-2 border-b gap-3" style={{ borderColor: 'var(--border-dim)' }}>
           <div className="flex items-center gap-2">
             <h2 className="text-[11px] font-medium uppercase tracking-widest" style={{ color: 'var(--text-secondary)', fontFamily: 'var(--font-display)' }}>
               TERMINAL
             </h2>
-            <span className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider" style={{ background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' }}>
-              PTY
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <button
-              onClick={() => {
-                const iframe = document.getElementById('terminal-frame') as HTMLIFrameElement;
-                if (iframe) iframe.src = iframe.src;
-              }}
-              className="px-2 py-0.5 rounded text-[10px] border transition-colors"
-              style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)', background: 'transparent' }}
-            >
-              ↻ NEW SHELL
-            </button>
+            {(['pty', 'exec'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className="text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider transition-colors"
+                style={mode === m
+                  ? { background: 'rgba(0,255,200,0.1)', color: 'var(--accent-cyan)' }
+                  : { background: 'transparent', color: 'var(--text-dim)' }}
+              >
+                {m}
+              </button>
+            ))}
           </div>
+
+          {mode === 'pty' && (
+            <div className="flex items-center gap-1 overflow-x-auto min-w-0">
+              {tabs.map(name => (
+                <div
+                  key={name}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded text-[10px] border shrink-0"
+                  style={name === active
+                    ? { borderColor: 'var(--border-accent)', color: 'var(--accent-cyan)', background: 'rgba(0,255,200,0.05)' }
+                    : { borderColor: 'var(--border-dim)', color: 'var(--text-dim)', background: 'transparent' }}
+                >
+                  <button onClick={() => setActive(name)}>{name}</button>
+                  <button onClick={() => killSession(name)} className="opacity-60 hover:opacity-100" title="Kill session">✕</button>
+                </div>
+              ))}
+              <button
+                onClick={newSession}
+                className="px-2 py-0.5 rounded text-[10px] border transition-colors shrink-0"
+                style={{ borderColor: 'var(--border-dim)', color: 'var(--text-dim)', background: 'transparent' }}
+              >
+                + NEW SHELL
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div style={{ height: 'calc(100% - 40px)' }}>
+          {mode === 'exec' ? (
+            <WebTerminal />
+          ) : denied ? (
+            <div className="flex flex-col items-center justify-center h-full gap-2 text-[11px]" style={{ color: 'var(--text-dim)' }}>
+              <div className="text-2xl">⌨</div>
+              <div>{denied}</div>
+              <div className="text-[10px]">Use EXEC to run commands</div>
+            </div>
+          ) : !available ? (
+            <div className="flex flex-col items-center justify-center h-full gap-2 text-[11px]" style={{ color: 'var(--text-dim)' }}>
+              <div className="text-2xl">⌨</div>
+              <div>PTY server is not running on port {ptyPort}</div>
+              <div className="text-[10px]">
+                Start it with <code style={{ color: 'var(--accent-cyan)' }}>npm run pty</code> (it starts automatically with <code style={{ color: 'var(--accent-cyan)' }}>clawtrol start</code>)
+              </div>
+              <button onClick={fetchSessions} className="mt-2 text-[10px] tracking-wider" style={{ color: 'var(--accent-cyan)' }}>
+                ↻ RETRY
+              </button>
+            </div>
+          ) : active ? (
+            <PtyTerminal key={active} session={active} onExit={handleExit} />
+          ) : null}
         </div>
-        <iframe
-          id="terminal-frame"
-          src={typeof window !== 'undefined' ? `http://${window.location.hostname}:7682/` : 'http://localhost:7682/'}
-          className="w-full border-none"
-          style={{ height: 'calc(100% - 40px)', background: '#0c0c12' }}
-          allow="clipboard-read; clipboard-write"
-        />
       </div>
     </div>
   );
@@ -14,12 +14,15 @@ export const MODULE_COMPONENTS: Record<ModuleId, ComponentType> = {
   terminal:   dynamic(() => import('./TerminalModule'),   { loading: Loading }),
   files:      dynamic(() => import('./FilesModule'),      { loading: Loading }),
   sessions:   dynamic(() => import('./SessionsModule'),   { loading: Loading }),
+  costs:      dynamic(() => import('./CostsModule'),      { loading: Loading }),
   tasks:      dynamic(() => import('./TasksModule'),      { loading: Loading }),
   memory:     dynamic(() => import('./MemoryModule'),     { loading: Loading }),
   cron:       dynamic(() => import('./CronModule'),       { loading: Loading }),
   logs:       dynamic(() => import('./LogsModule'),       { loading: Loading }),
   network:    dynamic(() => import('./NetworkModule'),    { loading: Loading }),
   subagents:  dynamic(() => import('./SubagentsModule'),  { loading: Loading }),
+  audit:      dynamic(() => import('./AuditModule'),      { loading: Loading }),
+  alerts:     dynamic(() => import('./AlertsModule'),     { loading: Loading }),
 };
 
 // Register all widget manifests
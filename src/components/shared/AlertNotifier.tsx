@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { AlertEvent } from '@/lib/alerts';
+
+const POLL_MS = 30000;
+const TOAST_MS = 10000;
+
+const SEVERITY_COLORS: Record<string, string> = {
+  info: 'var(--accent-cyan)',
+  warning: 'var(--accent-yellow)',
+  critical: 'var(--accent-red)',
+};
+
+/**
+ * Delivers the "browser" alert channel: polls /api/alerts for new events and
+ * shows them as desktop notifications (when allowed) and in-page toasts.
+ */
+export function AlertNotifier() {
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const sinceRef = useRef(Date.now());
+
+  useEffect(() => {
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/alerts?since=${sinceRef.current}`);
+        if (!res.ok) return;
+        const data = await res.json();
+        const events: AlertEvent[] = data.events || [];
+        if (events.length === 0) return;
+        sinceRef.current = Math.max(...events.map(e => e.at));
+
+        for (const event of events) {
+          if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+            new Notification(`${event.kind === 'resolved' ? 'Resolved' : 'Alert'}: ${event.alert.name}`, {
+              body: event.alert.message,
+              tag: event.alert.id,
+            });
+          }
+        }
+        setToasts(prev => [...prev, ...events].slice(-5));
+        setTimeout(() => {
+          setToasts(prev => prev.filter(t => !events.includes(t)));
+        }, TOAST_MS);
+      } catch {}
+    };
+
+    const interval = setInterval(poll, POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 space-y-2 w-72">
+      {toasts.map(event => (
+        <button
+          key={event.id}
+          onClick={() => {
+            window.dispatchEvent(new CustomEvent('clawtrol:navigate', { detail: { tab: 'alerts' } }));
+            setToasts(prev => prev.filter(t => t !== event));
+          }}
+          className="card-base w-full text-left p-2 border-l-2 animate-fade-in"
+          style={{ borderLeftColor: event.kind === 'resolved' ? 'var(--accent-green)' : SEVERITY_COLORS[event.alert.severity] }}
+        >
+          <div className="text-[9px] uppercase tracking-widest" style={{ color: event.kind === 'resolved' ? 'var(--accent-green)' : SEVERITY_COLORS[event.alert.severity] }}>
+            {event.kind === 'resolved' ? 'RESOLVED' : event.kind === 'test' ? 'TEST' : event.alert.severity}
+          </div>
+          <div className="text-[11px]" style={{ color: 'var(--text-primary)' }}>{event.alert.name}</div>
+          <div className="text-[10px] truncate" style={{ color: 'var(--text-dim)' }}>{event.alert.message}</div>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -2,9 +2,46 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import type { ScreenInfo } from '@/lib/types';
+import { ScreenStream, type ScreenStreamInfo } from './ScreenStream';
 
-export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { screen: string; onRefresh: () => void; externalScreenInfo?: ScreenInfo | null }) {
+export interface ScreenActionBody {
+  x: number;
+  y: number;
+  type: string;
+  text?: string;
+}
+
+/** A point drawn over the screen without acting on it (macro dry runs) */
+export interface ScreenMarker {
+  x: number;
+  y: number;
+  label: string;
+}
+
+/**
+ * POST one action to /api/screen/click, then announce it as a
+ * `clawtrol:screen-action` event so the macro recorder can pick it up.
+ */
+async function sendAction(action: ScreenActionBody) {
+  const res = await fetch('/api/screen/click', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(action),
+  });
+  if (res.ok) window.dispatchEvent(new CustomEvent('clawtrol:screen-action', { detail: action }));
+}
+
+export function InteractiveScreen({ screen, onRefresh, externalScreenInfo, stream, onStreamInfo, onStreamError }: {
+  screen: string;
+  onRefresh: () => void;
+  externalScreenInfo?: ScreenInfo | null;
+  /** Show the live stream instead of the `screen` snapshot */
+  stream?: { fps: number; quality: number };
+  onStreamInfo?: (info: ScreenStreamInfo) => void;
+  onStreamError?: (error: string | null) => void;
+}) {
   const imgRef = useRef<HTMLImageElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const [screenInfo, setScreenInfo] = useState<ScreenInfo | null>(null);
   const [clicking, setClicking] = useState(false);
   const [lastClick, setLastClick] = useState<{ x: number; y: number } | null>(null);
@@ -14,6 +51,14 @@ export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { s
   const [hoverMode, setHoverMode] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const hiddenInputRef = useRef<HTMLInputElement>(null);
+  const [markers, setMarkers] = useState<ScreenMarker[]>([]);
+
+  // Dry runs publish where their clicks would land; an empty list clears them
+  useEffect(() => {
+    const onMarkers = (e: Event) => setMarkers((e as CustomEvent<ScreenMarker[]>).detail ?? []);
+    window.addEventListener('clawtrol:screen-markers', onMarkers);
+    return () => window.removeEventListener('clawtrol:screen-markers', onMarkers);
+  }, []);
 
   useEffect(() => {
     if (externalScreenInfo) {
@@ -27,12 +72,13 @@ export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { s
     }
   }, [externalScreenInfo]);
 
-  const handleClick = async (e: React.MouseEvent<HTMLImageElement>) => {
-    if (!interactMode || !screenInfo || !imgRef.current) return;
+  const handleClick = async (e: React.MouseEvent<HTMLElement>) => {
+    const view = stream ? canvasRef.current : imgRef.current;
+    if (!interactMode || !screenInfo || !view) return;
     e.preventDefault();
     e.stopPropagation();
 
-    const rect = imgRef.current.getBoundingClientRect();
+    const rect = view.getBoundingClientRect();
     const relX = (e.clientX - rect.left) / rect.width;
     const relY = (e.clientY - rect.top) / rect.height;
     const x = Math.round(relX * screenInfo.logicalWidth);
@@ -43,11 +89,7 @@ export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { s
     setLastClick({ x: e.clientX - rect.left, y: e.clientY - rect.top });
 
     try {
-      await fetch('/api/screen/click', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ x, y, type: isHover ? 'hover' : 'click' }),
-      });
+      await sendAction({ x, y, type: isHover ? 'hover' : 'click' });
       if (!isHover) {
         setTimeout(() => hiddenInputRef.current?.focus(), 100);
       }
@@ -58,11 +100,7 @@ export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { s
 
   const handleKey = useCallback(async (key: string) => {
     try {
-      await fetch('/api/screen/click', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ x: 0, y: 0, type: 'key', text: key }),
-      });
+      await sendAction({ x: 0, y: 0, type: 'key', text: key });
       setTimeout(onRefresh, 300);
     } catch {}
   }, [onRefresh]);
@@ -78,11 +116,7 @@ export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { s
 
   const handleShortcut = async (shortcut: string) => {
     try {
-      await fetch('/api/screen/click', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ x: 0, y: 0, type: 'shortcut', text: shortcut }),
-      });
+      await sendAction({ x: 0, y: 0, type: 'shortcut', text: shortcut });
       setTimeout(onRefresh, 300);
     } catch {}
   };
@@ -90,11 +124,7 @@ export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { s
   const handleType = async () => {
     if (!typingText) return;
     try {
-      await fetch('/api/screen/click', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ x: 0, y: 0, type: 'type', text: typingText }),
-      });
+      await sendAction({ x: 0, y: 0, type: 'type', text: typingText });
       setTypingText('');
       setTimeout(onRefresh, 300);
     } catch {}
@@ -116,27 +146,15 @@ export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { s
       const mapped = keyMap[e.key];
       if (mapped) {
         e.preventDefault();
-        await fetch('/api/screen/click', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ x: 0, y: 0, type: 'key', text: mapped }),
-        });
+        await sendAction({ x: 0, y: 0, type: 'key', text: mapped });
         setTimeout(onRefresh, 400);
       } else if (e.key.length === 1 && !e.metaKey && !e.ctrlKey && !e.altKey) {
         e.preventDefault();
-        await fetch('/api/screen/click', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ x: 0, y: 0, type: 'type', text: e.key }),
-        });
+        await sendAction({ x: 0, y: 0, type: 'type', text: e.key });
         setTimeout(onRefresh, 800);
       } else if (e.key.length === 1 && e.metaKey) {
         e.preventDefault();
-        await fetch('/api/screen/click', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ x: 0, y: 0, type: 'shortcut', text: `cmd+${e.key}` }),
-        });
+        await sendAction({ x: 0, y: 0, type: 'shortcut', text: `cmd+${e.key}` });
         setTimeout(onRefresh, 400);
       }
     };
@@ -150,11 +168,7 @@ export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { s
     if (!value) return;
     e.currentTarget.value = '';
     try {
-      await fetch('/api/screen/click', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ x: 0, y: 0, type: 'type', text: value }),
-      });
+      await sendAction({ x: 0, y: 0, type: 'type', text: value });
       setTimeout(onRefresh, 800);
     } catch {}
   };
@@ -171,6 +185,9 @@ export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { s
     }
   };
 
+  const viewCursor = interactMode ? (hoverMode ? 'cursor-pointer' : 'cursor-crosshair') : '';
+  const viewStyle: React.CSSProperties | undefined = interactMode ? { touchAction: 'none', userSelect: 'none', WebkitUserSelect: 'none' } : undefined;
+
   const btnStyle = "px-2.5 py-1 rounded text-[11px] font-medium transition-all";
   const btnDefault = `${btnStyle} border`;
   const btnDefaultStyle = { background: 'var(--bg-elevated)', borderColor: 'var(--border-dim)', color: 'var(--text-secondary)' };
@@ -233,18 +250,52 @@ export function InteractiveScreen({ screen, onRefresh, externalScreenInfo }: { s
       )}
 
       <div className="relative rounded overflow-hidden border" style={{ borderColor: 'var(--border-dim)' }}>
-        {screen ? (
+        {stream || screen ? (
           <>
-            <img
-              ref={imgRef}
-              src={screen}
-              alt="Screen"
-              className={`w-full h-auto ${interactMode ? (hoverMode ? 'cursor-pointer' : 'cursor-crosshair') : ''}`}
-              style={interactMode ? { touchAction: 'none', userSelect: 'none', WebkitUserSelect: 'none' } : undefined}
-              onClick={handleClick}
-              onTouchEnd={(e) => { if (interactMode) e.preventDefault(); }}
-              draggable={false}
-            />
+            {stream ? (
+              <ScreenStream
+                fps={stream.fps}
+                quality={stream.quality}
+                canvasRef={canvasRef}
+                className={`w-full h-auto block ${viewCursor}`}
+                style={viewStyle}
+                onClick={handleClick}
+                onInfo={(info) => { setScreenInfo(info.screenDims); onStreamInfo?.(info); }}
+                onError={onStreamError}
+              />
+            ) : (
+              <img
+                ref={imgRef}
+                src={screen}
+                alt="Screen"
+                className={`w-full h-auto ${viewCursor}`}
+                style={viewStyle}
+                onClick={handleClick}
+                onTouchEnd={(e) => { if (interactMode) e.preventDefault(); }}
+                draggable={false}
+              />
+            )}
+            {screenInfo && markers.map((m, i) => (
+              <div
+                key={i}
+                className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+                style={{ left: `${(m.x / screenInfo.logicalWidth) * 100}%`, top: `${(m.y / screenInfo.logicalHeight) * 100}%` }}
+              >
+                <div className="w-5 h-5 rounded-full border-2 border-dashed" style={{ borderColor: 'var(--accent-purple)', background: 'rgba(180,100,255,0.2)' }} />
+                <div className="absolute left-6 top-0 whitespace-nowrap px-1 rounded text-[9px]" style={{ background: 'rgba(0,0,0,0.8)', color: 'var(--accent-purple)' }}>
+                  {m.label}
+                </div>
+              </div>
+            ))}
+            {markers.length > 0 && (
+              <button
+                onClick={() => setMarkers([])}
+                className="absolute top-2 right-2 px-2 py-1 rounded text-[10px]"
+                style={{ background: 'rgba(0,0,0,0.8)', color: 'var(--accent-purple)' }}
+              >
+                DRY RUN · {markers.length} points ✕
+              </button>
+            )}
             {clicking && lastClick && (
               <div
                 className="absolute w-5 h-5 rounded-full border -translate-x-1/2 -translate-y-1/2 animate-ping pointer-events-none"
@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+
+type Status = 'connecting' | 'connected' | 'reconnecting' | 'exited' | 'error';
+
+const MAX_RETRY_DELAY_MS = 10000;
+
+/** Why the socket never opened, in terms of what to change */
+function unreachableReason(target: URL, loopback: boolean, custom: boolean): string {
+  const local = ['localhost', '127.0.0.1', '[::1]'].includes(window.location.hostname);
+  if (!custom && loopback && !local) {
+    return 'PTY server only listens on the dashboard machine — set terminal.ptyUrl or ptyHost';
+  }
+  return `Can't reach PTY server at ${target.host} — is it running?`;
+}
+
+/**
+ * Interactive shell attached to a named PTY session on the sidecar.
+ * Reconnects (and reattaches with scrollback) when the socket drops.
+ */
+export function PtyTerminal({ session, onExit }: { session: string; onExit?: () => void }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onExitRef = useRef(onExit);
+  const [status, setStatus] = useState<Status>('connecting');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onExitRef.current = onExit;
+  }, [onExit]);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const term = new Terminal({
+      cursorBlink: true,
+      fontSize: 13,
+      fontFamily: 'var(--font-data), "JetBrains Mono", Menlo, monospace',
+      scrollback: 5000,
+      theme: {
+        background: '#0c0c12',
+        foreground: '#c8d0da',
+        cursor: '#00ffc8',
+        selectionBackground: 'rgba(0,255,200,0.25)',
+      },
+    });
+    const fit = new FitAddon();
+    term.loadAddon(fit);
+    term.open(containerRef.current);
+    fit.fit();
+
+    let ws: WebSocket | null = null;
+    let disposed = false;
+    let exited = false;
+    let retries = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const send = (msg: object) => {
+      if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+    };
+
+    const connect = async () => {
+      try {
+        const res = await fetch('/api/terminal/pty', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ session, cols: term.cols, rows: term.rows }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        if (disposed) return;
+
+        const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+        const target = new URL(data.url ?? `${protocol}://${window.location.hostname}:${data.port}/`);
+        target.searchParams.set('ticket', data.ticket);
+        let opened = false;
+        ws = new WebSocket(target);
+        ws.onopen = () => {
+          opened = true;
+        };
+
+        ws.onmessage = (event) => {
+          const msg = JSON.parse(event.data);
+          if (msg.type === 'ready') {
+            retries = 0;
+            setStatus('connected');
+            setError(null);
+            // Scrollback is replayed right after — start from a clean screen
+            term.reset();
+          } else if (msg.type === 'output') {
+            term.write(msg.data);
+          } else if (msg.type === 'exit') {
+            exited = true;
+            setStatus('exited');
+            term.write(`\r\n\x1b[2m[process exited with code ${msg.code}]\x1b[0m\r\n`);
+            onExitRef.current?.();
+          }
+        };
+
+        ws.onclose = () => {
+          if (disposed || exited) return;
+          if (!opened) setError(unreachableReason(target, data.loopback, !!data.url));
+          scheduleReconnect(!opened);
+        };
+      } catch (err) {
+        if (disposed) return;
+        setError(String(err instanceof Error ? err.message : err));
+        scheduleReconnect(true);
+      }
+    };
+
+    // A dropped connection gets one quiet retry; a failed one shows why at once
+    const scheduleReconnect = (failed = false) => {
+      setStatus(retries === 0 && !failed ? 'reconnecting' : 'error');
+      const delay = Math.min(1000 * 2 ** retries, MAX_RETRY_DELAY_MS);
+      retries++;
+      retryTimer = setTimeout(connect, delay);
+    };
+
+    const input = term.onData((data) => send({ type: 'input', data }));
+    const resize = term.onResize(({ cols, rows }) => send({ type: 'resize', cols, rows }));
+
+    const observer = new ResizeObserver(() => {
+      try {
+        fit.fit();
+      } catch {}
+    });
+    observer.observe(containerRef.current);
+
+    connect();
+    term.focus();
+
+    return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      observer.disconnect();
+      input.dispose();
+      resize.dispose();
+      // Closing the socket detaches; the shell keeps running on the server
+      ws?.close();
+      term.dispose();
+    };
+  }, [session]);
+
+  return (
+    <div className="relative w-full h-full" style={{ background: '#0c0c12' }}>
+      <div ref={containerRef} className="w-full h-full p-2" />
+      {status !== 'connected' && status !== 'exited' && (
+        <div className="absolute top-2 right-3 text-[10px] tracking-wider px-2 py-0.5 rounded" style={{
+          background: status === 'error' ? 'rgba(255,59,92,0.15)' : 'rgba(0,255,200,0.08)',
+          color: status === 'error' ? 'var(--accent-red)' : 'var(--accent-cyan)',
+        }}>
+          {status === 'connecting' ? 'CONNECTING…' : status === 'reconnecting' ? 'RECONNECTING…' : `OFFLINE${error ? ` — ${error}` : ''}`}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ScreenInfo } from '@/lib/types';
+import type { StreamFrame } from '@/lib/screen-stream';
+
+export interface ScreenStreamInfo {
+  backend: string;
+  screenDims: ScreenInfo;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  const img = new Image();
+  img.src = src;
+  return img.decode().then(() => img);
+}
+
+/**
+ * Canvas fed by /api/screen/stream: keyframes repaint it, patches are drawn
+ * over the regions that changed. Frames are applied strictly in order.
+ */
+export function ScreenStream({ fps, quality, canvasRef, className, style, onClick, onInfo, onError }: {
+  fps: number;
+  quality: number;
+  canvasRef?: React.RefObject<HTMLCanvasElement | null>;
+  className?: string;
+  style?: React.CSSProperties;
+  onClick?: (e: React.MouseEvent<HTMLCanvasElement>) => void;
+  onInfo?: (info: ScreenStreamInfo) => void;
+  onError?: (error: string | null) => void;
+}) {
+  const ownRef = useRef<HTMLCanvasElement>(null);
+  const ref = canvasRef ?? ownRef;
+  const [ready, setReady] = useState(false);
+  // Latest callbacks without reconnecting the stream when they change
+  const handlers = useRef({ onInfo, onError });
+  handlers.current = { onInfo, onError };
+
+  useEffect(() => {
+    const source = new EventSource(`/api/screen/stream?fps=${fps}&quality=${quality}`);
+    let queue = Promise.resolve();
+
+    const apply = async (frame: StreamFrame) => {
+      const canvas = ref.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      const images = await Promise.all(frame.rects.map(r => loadImage(r.image)));
+      if (frame.keyframe && (canvas.width !== frame.width || canvas.height !== frame.height)) {
+        canvas.width = frame.width;
+        canvas.height = frame.height;
+      }
+      frame.rects.forEach((r, i) => ctx.drawImage(images[i], r.x, r.y, r.w, r.h));
+      if (frame.keyframe) setReady(true);
+    };
+
+    source.addEventListener('info', (event) => {
+      handlers.current.onInfo?.(JSON.parse((event as MessageEvent).data));
+      handlers.current.onError?.(null);
+    });
+    source.addEventListener('frame', (event) => {
+      const frame = JSON.parse((event as MessageEvent).data) as StreamFrame;
+      queue = queue.then(() => apply(frame)).catch(() => {});
+      handlers.current.onError?.(null);
+    });
+    // Named "error" events carry a payload; connection errors don't
+    source.addEventListener('error', (event) => {
+      const data = (event as MessageEvent).data;
+      handlers.current.onError?.(data ? JSON.parse(data).error : 'Stream disconnected — reconnecting');
+    });
+
+    return () => source.close();
+  }, [fps, quality, ref]);
+
+  return (
+    <div className="relative">
+      <canvas ref={ref} className={className} style={style} onClick={onClick} />
+      {!ready && (
+        <div className="absolute inset-0 min-h-48 flex items-center justify-center" style={{ color: 'var(--text-dim)' }}>
+          <span className="animate-pulse-glow">◈ Connecting to screen...</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,58 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import type { TerminalEntry } from '@/lib/types';
+import { readSSE } from '@/lib/sse';
+import type { TerminalChunk, TerminalEntry } from '@/lib/types';
+
+// Keep the browser responsive when a command is very chatty
+const MAX_OUTPUT_CHARS = 500_000;
+
+function appendChunk(output: TerminalChunk[], chunk: TerminalChunk): TerminalChunk[] {
+  const last = output[output.length - 1];
+  const next = last && last.stream === chunk.stream
+    ? [...output.slice(0, -1), { stream: chunk.stream, data: last.data + chunk.data }]
+    : [...output, chunk];
+
+  let total = next.reduce((n, c) => n + c.data.length, 0);
+  while (total > MAX_OUTPUT_CHARS && next.length > 0) {
+    const excess = total - MAX_OUTPUT_CHARS;
+    if (next[0].data.length <= excess) {
+      total -= next.shift()!.data.length;
+    } else {
+      next[0] = { ...next[0], data: next[0].data.slice(excess) };
+      total = MAX_OUTPUT_CHARS;
+    }
+  }
+  return next;
+}
+
+function TerminalOutput({ output }: { output: TerminalChunk[] }) {
+  if (output.length === 0) return null;
+  return (
+    <pre className="mt-1.5 whitespace-pre-wrap pl-5">
+      {output.map((chunk, i) => (
+        <span key={i} style={{ color: chunk.stream === 'stderr' ? 'var(--accent-red)' : '#c8d0da' }}>{chunk.data}</span>
+      ))}
+    </pre>
+  );
+}
 
 export function WebTerminal() {
   const [history, setHistory] = useState<TerminalEntry[]>([]);
   const [input, setInput] = useState('');
   const [running, setRunning] = useState(false);
   const [runningCmd, setRunningCmd] = useState('');
+  const [liveOutput, setLiveOutput] = useState<TerminalChunk[]>([]);
+  // null until the server tells us where commands start
+  const [cwd, setCwd] = useState<string | null>(null);
+  const [pendingConfirm, setPendingConfirm] = useState<{ command: string; reason: string } | null>(null);
   const [cmdHistory, setCmdHistory] = useState<string[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [elapsed, setElapsed] = useState(0);
   const outputRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const abortRef = useRef<AbortController | null>(null);
+  const runIdRef = useRef<string | null>(null);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   const INTERACTIVE_CMDS = ['claude', 'vim', 'nvim', 'nano', 'top', 'htop', 'less', 'more', 'man', 'ssh', 'python3 -i', 'python -i', 'node --', 'irb', 'psql'];
@@ -22,29 +61,31 @@ export function WebTerminal() {
     if (outputRef.current) {
       outputRef.current.scrollTop = outputRef.current.scrollHeight;
     }
-  }, [history, running]);
+  }, [history, running, liveOutput]);
 
-  const cancelRun = () => {
-    if (abortRef.current) abortRef.current.abort();
-    if (timerRef.current) clearInterval(timerRef.current);
-    setHistory(prev => [...prev, {
-      command: runningCmd, stdout: '', stderr: `Cancelled after ${elapsed}s`, exitCode: 130, timestamp: Date.now(),
-    }]);
-    setRunning(false);
-    setRunningCmd('');
-    setElapsed(0);
-    setTimeout(() => inputRef.current?.focus(), 50);
+  const cancelRun = async () => {
+    const id = runIdRef.current;
+    if (id) {
+      // The server kills the process group; the stream then ends with an exit event
+      const res = await fetch('/api/terminal/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      }).catch(() => null);
+      if (res?.ok) return;
+    }
+    // Not started yet or cancel failed — dropping the connection also stops it
+    abortRef.current?.abort();
   };
 
-  const execute = async () => {
-    const cmd = input.trim();
+  const execute = async (cmd = input.trim(), confirmed = false) => {
     if (!cmd) return;
 
     const baseCmd = cmd.split(/\s+/)[0];
     if (INTERACTIVE_CMDS.some(ic => cmd === ic || baseCmd === ic)) {
       setHistory(prev => [...prev, {
-        command: cmd, stdout: '',
-        stderr: `⚠ "${baseCmd}" is interactive and needs a real terminal (PTY).\nThis web terminal only supports non-interactive commands.\n\nTry running it from the Screen tab instead, or use SSH.`,
+        command: cmd,
+        output: [{ stream: 'stderr', data: `⚠ "${baseCmd}" is interactive and needs a real terminal (PTY).\nThis web terminal only supports non-interactive commands.\n\nSwitch the Terminal tab to PTY mode, or use SSH.` }],
         exitCode: 1, timestamp: Date.now(),
       }]);
       setInput('');
@@ -53,9 +94,10 @@ export function WebTerminal() {
 
     setRunning(true);
     setRunningCmd(cmd);
+    setLiveOutput([]);
     setInput('');
     setElapsed(0);
-    setCmdHistory(prev => [...prev, cmd]);
+    if (!confirmed) setCmdHistory(prev => [...prev, cmd]);
     setHistoryIndex(-1);
 
     const start = Date.now();
@@ -64,36 +106,93 @@ export function WebTerminal() {
     const controller = new AbortController();
     abortRef.current = controller;
 
+    let output: TerminalChunk[] = [];
+    const push = (chunk: TerminalChunk) => {
+      output = appendChunk(output, chunk);
+      setLiveOutput(output);
+    };
+    let entry: TerminalEntry | null = null;
+
     try {
       const res = await fetch('/api/terminal', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ command: cmd }),
+        body: JSON.stringify({ command: cmd, cwd, confirmed }),
         signal: controller.signal,
       });
-      const data = await res.json();
-      setHistory(prev => [...prev, {
-        command: cmd, stdout: data.stdout || '', stderr: data.stderr || data.error || '',
-        exitCode: data.exitCode ?? 1, timestamp: Date.now(),
-      }]);
+
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        if (res.status === 409 && data.confirm) {
+          // Policy wants a second prompt before running this one
+          setPendingConfirm({ command: cmd, reason: data.reason });
+        } else {
+          if (data.cwd) setCwd(data.cwd);
+          push({ stream: 'stderr', data: data.error || `HTTP ${res.status}` });
+          entry = { command: cmd, output, exitCode: 1, timestamp: Date.now() };
+        }
+      } else {
+        for await (const { event, data } of readSSE(res.body)) {
+          if (event === 'start') {
+            runIdRef.current = data.id;
+            setCwd(data.cwd);
+          } else if (event === 'cwd') setCwd(data.cwd);
+          else if (event === 'stdout' || event === 'stderr') push({ stream: event, data: data.data });
+          else if (event === 'exit') {
+            entry = {
+              command: cmd,
+              output,
+              exitCode: data.code ?? (data.cancelled ? 130 : 1),
+              durationMs: data.durationMs,
+              cancelled: data.cancelled,
+              timestamp: Date.now(),
+            };
+          }
+        }
+      }
     } catch (err) {
       if ((err as Error).name !== 'AbortError') {
-        setHistory(prev => [...prev, {
-          command: cmd, stdout: '', stderr: `Connection error: ${err}`, exitCode: 1, timestamp: Date.now(),
-        }]);
+        push({ stream: 'stderr', data: `Connection error: ${err}` });
       }
     }
+
+    if (entry || output.length > 0 || controller.signal.aborted) {
+      setHistory(prev => [...prev, entry ?? {
+        command: cmd, output, exitCode: 130, cancelled: true, durationMs: Date.now() - start, timestamp: Date.now(),
+      }]);
+    }
     if (timerRef.current) clearInterval(timerRef.current);
     setRunning(false);
     setRunningCmd('');
+    setLiveOutput([]);
     setElapsed(0);
     abortRef.current = null;
+    runIdRef.current = null;
     setTimeout(() => inputRef.current?.focus(), 50);
   };
 
+  const answerConfirm = (answer: string) => {
+    if (!pendingConfirm) return;
+    const yes = ['y', 'yes'].includes(answer.trim().toLowerCase());
+    setInput('');
+    setPendingConfirm(null);
+    if (yes) {
+      execute(pendingConfirm.command, true);
+    } else {
+      setHistory(prev => [...prev, {
+        command: pendingConfirm.command, output: [{ stream: 'stderr', data: 'Not confirmed — command was not run' }],
+        exitCode: 1, cancelled: true, timestamp: Date.now(),
+      }]);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
-      execute();
+      if (pendingConfirm) answerConfirm(input);
+      else execute();
+    } else if (e.key === 'Escape' && pendingConfirm) {
+      e.preventDefault();
+      answerConfirm('');
     } else if (e.key === 'c' && e.ctrlKey && running) {
       e.preventDefault();
       cancelRun();
@@ -123,7 +222,7 @@ export function WebTerminal() {
   };
 
   return (
-    <div className="flex flex-col h-[calc(100vh-200px)]" onClick={() => inputRef.current?.focus()}>
+    <div className="flex flex-col h-full" onClick={() => inputRef.current?.focus()}>
       <div ref={outputRef} className="flex-1 overflow-auto p-4 font-mono text-[13px] leading-relaxed" style={{ background: '#0c0c12' }}>
         {history.length === 0 && !running && (
           <div style={{ color: 'var(--text-dim)' }}>
@@ -137,12 +236,16 @@ export function WebTerminal() {
               <span style={{ color: 'var(--text-primary)', fontWeight: 500 }}>{entry.command}</span>
               {entry.exitCode !== 0 && (
                 <span className="text-[10px] px-1.5 py-0.5 rounded" style={{ background: 'rgba(255,59,92,0.15)', color: 'var(--accent-red)' }}>
-                  exit {entry.exitCode}
+                  {entry.cancelled ? 'cancelled' : `exit ${entry.exitCode}`}
+                </span>
+              )}
+              {entry.durationMs != null && (
+                <span className="text-[10px]" style={{ color: 'var(--text-dim)' }}>
+                  {entry.durationMs < 1000 ? `${entry.durationMs}ms` : `${(entry.durationMs / 1000).toFixed(1)}s`}
                 </span>
               )}
             </div>
-            {entry.stdout && <pre className="mt-1.5 whitespace-pre-wrap pl-5" style={{ color: '#c8d0da' }}>{entry.stdout}</pre>}
-            {entry.stderr && <pre className="mt-1.5 whitespace-pre-wrap pl-5" style={{ color: 'var(--accent-red)' }}>{entry.stderr}</pre>}
+            <TerminalOutput output={entry.output} />
           </div>
         ))}
         {running && (
@@ -151,6 +254,7 @@ export function WebTerminal() {
               <span style={{ color: 'var(--accent-cyan)' }}>❯</span>
               <span style={{ color: 'var(--text-primary)', fontWeight: 500 }}>{runningCmd}</span>
             </div>
+            <TerminalOutput output={liveOutput} />
             <div className="flex items-center gap-3 mt-2 pl-5">
               <span className="animate-pulse-glow" style={{ color: 'var(--accent-cyan)' }}>⠿</span>
               <span style={{ color: 'var(--text-secondary)' }}>Running{elapsed > 0 ? ` (${elapsed}s)` : '...'}</span>
@@ -165,17 +269,36 @@ export function WebTerminal() {
             </div>
           </div>
         )}
+        {pendingConfirm && (
+          <div className="mb-4">
+            <div className="flex items-center gap-2">
+              <span style={{ color: 'var(--accent-yellow)' }}>❯</span>
+              <span style={{ color: 'var(--text-primary)', fontWeight: 500 }}>{pendingConfirm.command}</span>
+            </div>
+            <div className="mt-1.5 pl-5" style={{ color: 'var(--accent-yellow)' }}>
+              ⚠ {pendingConfirm.reason}
+            </div>
+            <div className="pl-5 text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+              Run it anyway? Type <b>y</b> and Enter to confirm, anything else (or Esc) to skip.
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-3 px-4 py-3 border-t" style={{ borderColor: 'var(--border-accent)', background: '#08080e' }}>
-        <span style={{ color: 'var(--accent-cyan)' }}>❯</span>
+        {cwd && (
+          <span className="text-[11px] shrink-0" style={{ color: 'var(--text-dim)', fontFamily: 'var(--font-data)' }} title={cwd}>
+            {cwd.split('/').filter(Boolean).pop() ?? '/'}
+          </span>
+        )}
+        <span style={{ color: pendingConfirm ? 'var(--accent-yellow)' : 'var(--accent-cyan)' }}>{pendingConfirm ? '?' : '❯'}</span>
         <input
           ref={inputRef}
           type="text"
           value={input}
           onChange={(e) => setInput(e.target.value)}
           onKeyDown={handleKeyDown}
-          placeholder={running ? 'Command running...' : 'Enter command...'}
+          placeholder={running ? 'Command running...' : pendingConfirm ? 'Confirm? (y/N)' : 'Enter command...'}
           disabled={running}
           className="flex-1 bg-transparent border-none outline-none text-[13px]"
           style={{ color: 'var(--text-primary)', fontFamily: 'var(--font-data)', caretColor: 'var(--accent-cyan)' }}
@@ -0,0 +1,15 @@
+/**
+ * Runs once when the server starts. Background jobs go here so they don't
+ * depend on someone having the dashboard open.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  const { recordSocketAddresses } = await import('./lib/auth');
+  recordSocketAddresses();
+  const { startMetricsSampler } = await import('./lib/metrics');
+  startMetricsSampler().catch(err => console.error('Metrics sampler failed to start:', err));
+  const { startAlertEngine } = await import('./lib/alerts');
+  startAlertEngine();
+  const { startBudgetEngine } = await import('./lib/budgets');
+  startBudgetEngine();
+}
@@ -0,0 +1,73 @@
+import type { AlertChannelConfig } from './config';
+import type { AlertEvent } from './alerts';
+import { sendOpenclawMessage } from './openclaw';
+
+export type AlertChannelSender = (event: AlertEvent, channel: AlertChannelConfig) => Promise<void>;
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const MAX_BROWSER_EVENTS = 100;
+
+// The engine (instrumentation) and the routes are separate bundles with their
+// own module state, so the queue and the registered senders live on globalThis
+const shared = globalThis as typeof globalThis & {
+  __clawtrolBrowserAlerts?: AlertEvent[];
+  __clawtrolAlertChannels?: Map<string, AlertChannelSender>;
+};
+
+/**
+ * One line for chat-style channels, e.g.
+ * "[FIRING] Disk almost full — disk 93.1% > 90 (warning)"
+ */
+export function formatAlertEvent(event: AlertEvent): string {
+  const { alert } = event;
+  const label = event.kind === 'test' ? 'TEST' : event.kind.toUpperCase();
+  return `[${label}] ${alert.name} — ${alert.message} (${alert.severity})`;
+}
+
+class AlertChannelRegistryImpl {
+  private senders = (shared.__clawtrolAlertChannels ??= new Map());
+
+  register(type: string, sender: AlertChannelSender) {
+    this.senders.set(type, sender);
+  }
+
+  get(type: string): AlertChannelSender | undefined {
+    return this.senders.get(type);
+  }
+
+  types(): string[] {
+    return Array.from(this.senders.keys());
+  }
+}
+
+export const alertChannelRegistry = new AlertChannelRegistryImpl();
+
+// Queued for open dashboards; AlertNotifier polls /api/alerts and shows them
+alertChannelRegistry.register('browser', async (event) => {
+  const queue = (shared.__clawtrolBrowserAlerts ??= []);
+  queue.push(event);
+  if (queue.length > MAX_BROWSER_EVENTS) queue.splice(0, queue.length - MAX_BROWSER_EVENTS);
+});
+
+alertChannelRegistry.register('webhook', async (event, channel) => {
+  if (!channel.url) throw new Error(`Webhook channel "${channel.id}" has no url`);
+  const res = await fetch(channel.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...event, text: formatAlertEvent(event) }),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`Webhook "${channel.id}" returned HTTP ${res.status}`);
+});
+
+// Same path as /api/message
+alertChannelRegistry.register('openclaw', async (event, channel) => {
+  await sendOpenclawMessage(formatAlertEvent(event), channel.target);
+});
+
+/**
+ * Browser notifications newer than `since` (event time, ms).
+ */
+export function getBrowserEvents(since: number): AlertEvent[] {
+  return (shared.__clawtrolBrowserAlerts ?? []).filter(e => e.at > since);
+}
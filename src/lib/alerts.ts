@@ -0,0 +1,423 @@
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { randomBytes, randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+import type { AlertChannelConfig, AlertMetric, AlertRule, AlertSeverity } from './config';
+import { alertChannelRegistry } from './alert-channels';
+import { getMetrics } from './metrics';
+import { getGatewayProcess } from './system';
+import config from '../../clawtrol.config';
+
+const DATA_DIR = path.join(os.homedir(), '.openclaw', 'control-center');
+export const ALERTS_FILE = path.join(DATA_DIR, 'alerts.json');
+
+const ARANET_FILE = path.join(os.homedir(), '.openclaw', 'aranet-latest.json');
+const CRON_FILE = path.join(os.homedir(), '.openclaw', 'cron', 'jobs.json');
+
+const DEFAULT_INTERVAL_S = 30;
+const MAX_RESOLVED = 200;
+// Readings older than this don't count — a stopped sampler shouldn't keep an alert firing
+const STALE_MS = 10 * 60_000;
+
+export type AlertState = 'pending' | 'firing' | 'acknowledged' | 'resolved';
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  /** Distinguishes alerts from one rule, e.g. one per failed cron job */
+  key: string;
+  name: string;
+  severity: AlertSeverity;
+  state: AlertState;
+  message: string;
+  value: number | null;
+  startedAt: number;
+  firedAt?: number;
+  resolvedAt?: number;
+  acknowledgedBy?: string;
+  acknowledgedAt?: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  kind: 'firing' | 'resolved' | 'test';
+  alert: Alert;
+  at: number;
+}
+
+interface AlertStore {
+  alerts: Alert[];
+  /** ruleId → silenced until (ms) */
+  silences: Record<string, number>;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'gateway-down', name: 'Gateway not running', check: 'gateway-down', for: 60, severity: 'critical' },
+  { id: 'disk-full', name: 'Disk almost full', metric: 'disk', op: '>', value: 90, for: 300, severity: 'warning' },
+  { id: 'cron-failed', name: 'Cron job failed', check: 'cron-failed', severity: 'warning' },
+];
+
+const DEFAULT_CHANNELS: AlertChannelConfig[] = [{ id: 'browser', type: 'browser' }];
+
+const METRIC_LABELS: Record<AlertMetric, { label: string; unit: string }> = {
+  cpu: { label: 'CPU', unit: '%' },
+  memory: { label: 'RAM', unit: '%' },
+  disk: { label: 'disk', unit: '%' },
+  temperature: { label: 'temperature', unit: '°C' },
+  gatewayRss: { label: 'gateway RSS', unit: ' B' },
+  gatewayCpu: { label: 'gateway CPU', unit: '%' },
+  co2: { label: 'CO2', unit: ' ppm' },
+};
+
+// Engine and route handlers are bundled separately — keep one copy of the state
+const shared = globalThis as typeof globalThis & {
+  __clawtrolAlerts?: AlertStore;
+  __clawtrolAlertsRunning?: boolean;
+  __clawtrolAlertsWrite?: Promise<void>;
+};
+
+export function getAlertRules(): AlertRule[] {
+  return config.alerts?.rules ?? DEFAULT_ALERT_RULES;
+}
+
+export function getAlertChannels(): AlertChannelConfig[] {
+  return config.alerts?.channels ?? DEFAULT_CHANNELS;
+}
+
+/**
+ * Short human description of a rule's condition, e.g. "disk > 90 for 5m".
+ */
+export function describeRule(rule: AlertRule): string {
+  const holdFor = rule.for ? ` for ${rule.for >= 60 ? `${Math.round(rule.for / 60)}m` : `${rule.for}s`}` : '';
+  if ('metric' in rule) return `${rule.metric} ${rule.op} ${rule.value}${holdFor}`;
+  if (rule.check === 'cron-failed') return `cron job ${rule.job ? `"${rule.job}" ` : ''}failed${holdFor}`;
+  return `gateway not running${holdFor}`;
+}
+
+async function loadStore(): Promise<AlertStore> {
+  if (shared.__clawtrolAlerts) return shared.__clawtrolAlerts;
+  let store: AlertStore = { alerts: [], silences: {} };
+  try {
+    const data = JSON.parse(await readFile(ALERTS_FILE, 'utf-8'));
+    store = { alerts: Array.isArray(data.alerts) ? data.alerts : [], silences: data.silences ?? {} };
+  } catch {}
+  // Another caller may have loaded it while we were reading
+  shared.__clawtrolAlerts ??= store;
+  return shared.__clawtrolAlerts;
+}
+
+/**
+ * Writes queue up behind each other, so an older snapshot never lands after
+ * a newer one; the tmp name is unique in case another process writes too.
+ */
+function saveStore(store: AlertStore): Promise<void> {
+  const write = (shared.__clawtrolAlertsWrite ?? Promise.resolve()).then(async () => {
+    try {
+      await mkdir(DATA_DIR, { recursive: true });
+      const tmp = `${ALERTS_FILE}.${process.pid}.${randomBytes(3).toString('hex')}.tmp`;
+      await writeFile(tmp, JSON.stringify(store, null, 2));
+      await rename(tmp, ALERTS_FILE);
+    } catch (err) {
+      console.error('Alerts persist error:', err);
+    }
+  });
+  shared.__clawtrolAlertsWrite = write;
+  return write;
+}
+
+// ── Observations ─────────────────────────────────────────────────────
+
+interface Observation {
+  key: string;
+  value: number | null;
+  message: string;
+}
+
+/** Readings shared by all rules in one evaluation pass, fetched on first use */
+class Readings {
+  private cache = new Map<string, Promise<unknown>>();
+
+  private once<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (!this.cache.has(key)) this.cache.set(key, load().catch(() => null));
+    return this.cache.get(key) as Promise<T>;
+  }
+
+  metric(metric: AlertMetric): Promise<number | null> {
+    if (metric === 'co2') {
+      return this.once('co2', async () => {
+        const data = JSON.parse(await readFile(ARANET_FILE, 'utf-8'));
+        return Date.now() - data.timestamp < STALE_MS && typeof data.co2 === 'number' ? data.co2 : null;
+      });
+    }
+    return this.once('metrics', async () => {
+      const { samples } = getMetrics('1h');
+      const latest = samples[samples.length - 1];
+      return latest && Date.now() - latest.t < STALE_MS ? latest : null;
+    }).then(latest => (latest ? latest[metric] : null));
+  }
+
+  gatewayRunning(): Promise<boolean> {
+    return this.once('gateway', async () => (await getGatewayProcess()) !== null);
+  }
+
+  cronJobs(): Promise<any[]> {
+    return this.once('cron', async () => JSON.parse(await readFile(CRON_FILE, 'utf-8')).jobs ?? []).then(jobs => jobs ?? []);
+  }
+}
+
+function compare(value: number, op: string, threshold: number): boolean {
+  switch (op) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    default: return false;
+  }
+}
+
+async function observe(rule: AlertRule, readings: Readings): Promise<Observation[]> {
+  if ('metric' in rule) {
+    const value = await readings.metric(rule.metric);
+    if (value === null || !compare(value, rule.op, rule.value)) return [];
+    const { label, unit } = METRIC_LABELS[rule.metric];
+    const shown = rule.metric === 'gatewayRss' ? Math.round(value) : Math.round(value * 10) / 10;
+    return [{ key: rule.metric, value, message: `${label} ${shown}${unit} ${rule.op} ${rule.value}` }];
+  }
+
+  if (rule.check === 'gateway-down') {
+    // Gateway liveness comes from ps, so a missing reading (null) isn't "down"
+    const running = await readings.gatewayRunning();
+    return running === false ? [{ key: 'gateway', value: null, message: 'openclaw-gateway process not found' }] : [];
+  }
+
+  const jobs = await readings.cronJobs();
+  return jobs
+    .filter(job => job.state?.lastStatus === 'error' && (!rule.job || rule.job === job.id || rule.job === job.name))
+    .map(job => ({
+      key: `cron:${job.id}`,
+      value: null,
+      message: `${job.name ?? job.id}: ${job.state?.lastError ?? 'last run failed'}`,
+    }));
+}
+
+// ── Engine ───────────────────────────────────────────────────────────
+
+// Returns the channels that failed; a broken channel never stops the others
+async function deliver(event: AlertEvent, channels: AlertChannelConfig[]): Promise<{ channel: string; error: string }[]> {
+  const failures: { channel: string; error: string }[] = [];
+  await Promise.all(channels.map(async (channel) => {
+    try {
+      const send = alertChannelRegistry.get(channel.type);
+      if (!send) throw new Error(`Unknown channel type "${channel.type}"`);
+      await send(event, channel);
+    } catch (err) {
+      console.error(`Alert channel "${channel.id}" error:`, err);
+      failures.push({ channel: channel.id, error: err instanceof Error ? err.message : String(err) });
+    }
+  }));
+  return failures;
+}
+
+async function notify(store: AlertStore, rule: AlertRule, kind: AlertEvent['kind'], alert: Alert) {
+  if ((store.silences[alert.ruleId] ?? 0) > Date.now()) return;
+
+  const channels = getAlertChannels().filter(c =>
+    (!rule.channels || rule.channels.includes(c.id)) &&
+    (!c.severities || c.severities.includes(alert.severity))
+  );
+  await deliver({ id: randomUUID(), kind, alert: { ...alert }, at: Date.now() }, channels);
+}
+
+/**
+ * One pass over every rule: start, fire or resolve alerts as conditions change.
+ */
+export async function evaluateAlerts() {
+  const store = await loadStore();
+  const rules = getAlertRules();
+  const readings = new Readings();
+  const now = Date.now();
+  let changed = false;
+
+  for (const rule of rules) {
+    let observations: Observation[];
+    try {
+      observations = await observe(rule, readings);
+    } catch (err) {
+      console.error(`Alert rule "${rule.id}" error:`, err);
+      continue;
+    }
+
+    const active = store.alerts.filter(a => a.ruleId === rule.id && a.state !== 'resolved');
+    const holdMs = (rule.for ?? 0) * 1000;
+
+    for (const obs of observations) {
+      let alert = active.find(a => a.key === obs.key);
+      if (!alert) {
+        alert = {
+          id: randomUUID(),
+          ruleId: rule.id,
+          key: obs.key,
+          name: rule.name ?? rule.id,
+          severity: rule.severity ?? 'warning',
+          state: 'pending',
+          message: obs.message,
+          value: obs.value,
+          startedAt: now,
+        };
+        store.alerts.push(alert);
+        changed = true;
+      } else if (alert.message !== obs.message) {
+        alert.message = obs.message;
+        alert.value = obs.value;
+        changed = true;
+      }
+
+      if (alert.state === 'pending' && now - alert.startedAt >= holdMs) {
+        alert.state = 'firing';
+        alert.firedAt = now;
+        changed = true;
+        await notify(store, rule, 'firing', alert);
+      }
+    }
+
+    for (const alert of active) {
+      if (observations.some(o => o.key === alert.key)) continue;
+      changed = true;
+      if (alert.state === 'pending') {
+        // Never held long enough to fire — forget it
+        store.alerts.splice(store.alerts.indexOf(alert), 1);
+        continue;
+      }
+      alert.state = 'resolved';
+      alert.resolvedAt = now;
+      await notify(store, rule, 'resolved', alert);
+    }
+  }
+
+  // Rules removed from the config can't resolve on their own
+  for (const alert of store.alerts) {
+    if (alert.state !== 'resolved' && !rules.some(r => r.id === alert.ruleId)) {
+      alert.state = 'resolved';
+      alert.resolvedAt = now;
+      changed = true;
+    }
+  }
+
+  for (const [ruleId, until] of Object.entries(store.silences)) {
+    if (until <= now) {
+      delete store.silences[ruleId];
+      changed = true;
+    }
+  }
+
+  const resolved = store.alerts.filter(a => a.state === 'resolved');
+  if (resolved.length > MAX_RESOLVED) {
+    const drop = new Set(resolved.slice(0, resolved.length - MAX_RESOLVED));
+    store.alerts = store.alerts.filter(a => !drop.has(a));
+    changed = true;
+  }
+
+  if (changed) await saveStore(store);
+}
+
+/**
+ * Start evaluating rules in the background. Called once from instrumentation.ts.
+ */
+export function startAlertEngine() {
+  if (shared.__clawtrolAlertsRunning || config.alerts?.enabled === false) return;
+  shared.__clawtrolAlertsRunning = true;
+
+  let busy = false;
+  const tick = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      await evaluateAlerts();
+    } catch (err) {
+      console.error('Alert evaluation error:', err);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const interval = Math.max(config.alerts?.interval ?? DEFAULT_INTERVAL_S, 5) * 1000;
+  // First pass after the metrics sampler has had a chance to take a sample
+  setTimeout(tick, 5000).unref();
+  setInterval(tick, interval).unref();
+}
+
+export function isAlertEngineRunning(): boolean {
+  return shared.__clawtrolAlertsRunning === true;
+}
+
+// ── Actions ──────────────────────────────────────────────────────────
+
+/**
+ * Current alerts (newest first) and active silences.
+ */
+export async function getAlerts(): Promise<AlertStore> {
+  const store = await loadStore();
+  const now = Date.now();
+  return {
+    alerts: [...store.alerts].sort((a, b) => (b.firedAt ?? b.startedAt) - (a.firedAt ?? a.startedAt)),
+    silences: Object.fromEntries(Object.entries(store.silences).filter(([, until]) => until > now)),
+  };
+}
+
+export async function acknowledgeAlert(id: string, user: string): Promise<Alert | null> {
+  const store = await loadStore();
+  const alert = store.alerts.find(a => a.id === id);
+  if (!alert || alert.state !== 'firing') return null;
+  alert.state = 'acknowledged';
+  alert.acknowledgedBy = user;
+  alert.acknowledgedAt = Date.now();
+  await saveStore(store);
+  return alert;
+}
+
+/**
+ * Mute notifications for a rule until `until` (ms); 0 lifts the silence.
+ * Alerts keep being tracked while silenced.
+ */
+export async function silenceRule(ruleId: string, until: number) {
+  const store = await loadStore();
+  if (until > Date.now()) store.silences[ruleId] = until;
+  else delete store.silences[ruleId];
+  await saveStore(store);
+}
+
+/**
+ * Push an alert that doesn't come from a rule (e.g. a spending budget)
+ * through the configured channels. Severity filters apply; silences don't.
+ */
+export async function sendAlertEvent(alert: Alert, kind: AlertEvent['kind'] = 'firing', channelIds?: string[]) {
+  const channels = getAlertChannels().filter(c =>
+    (!channelIds || channelIds.includes(c.id)) &&
+    (!c.severities || c.severities.includes(alert.severity))
+  );
+  return deliver({ id: randomUUID(), kind, alert: { ...alert }, at: Date.now() }, channels);
+}
+
+/**
+ * Send a sample alert through one channel (or all) to check the setup,
+ * ignoring silences and severity filters.
+ */
+export async function sendTestAlert(channelId?: string) {
+  const channels = getAlertChannels().filter(c => !channelId || c.id === channelId);
+  if (channels.length === 0) throw new Error(`Unknown alert channel: ${channelId}`);
+
+  const now = Date.now();
+  const alert: Alert = {
+    id: randomUUID(),
+    ruleId: 'test',
+    key: 'test',
+    name: 'Test alert',
+    severity: 'info',
+    state: 'firing',
+    message: 'Clawtrol alert channels are working',
+    value: null,
+    startedAt: now,
+    firedAt: now,
+  };
+  return deliver({ id: randomUUID(), kind: 'test', alert, at: now }, channels);
+}
@@ -0,0 +1,217 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { getClientIp, getRequestUser } from './auth';
+import type { AuthUser } from './auth';
+
+const DATA_DIR = path.join(os.homedir(), '.openclaw', 'control-center');
+export const AUDIT_FILE = path.join(DATA_DIR, 'audit.jsonl');
+
+const MAX_STRING = 500;
+const REDACT_KEYS = /pass(word)?|secret|token|authorization|cookie/i;
+
+export type AuditResult = 'ok' | 'error' | 'denied';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  user: string;
+  via: AuthUser['via'] | 'anonymous';
+  role?: AuthUser['role'];
+  ip: string;
+  method: string;
+  route: string;
+  action?: string;
+  summary?: string;
+  payload?: unknown;
+  result: AuditResult;
+  status: number;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface AuditDetails {
+  action?: string;
+  summary?: string;
+  /** Replaces the request body in the log (e.g. to leave out typed text) */
+  payload?: unknown;
+}
+
+/**
+ * Drop secrets and clip long strings so payloads stay readable in the log.
+ */
+function summarizePayload(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}… (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) {
+    if (depth > 3) return `[${value.length} items]`;
+    return value.slice(0, 20).map(v => summarizePayload(v, depth + 1));
+  }
+  if (value && typeof value === 'object') {
+    if (depth > 3) return '{…}';
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      out[key] = REDACT_KEYS.test(key) ? '[redacted]' : summarizePayload(v, depth + 1);
+    }
+    return out;
+  }
+  return value;
+}
+
+// Serialize writes so concurrent requests never interleave lines
+let writeQueue: Promise<void> = Promise.resolve();
+
+async function appendEntry(entry: AuditEntry): Promise<void> {
+  writeQueue = writeQueue
+    .then(async () => {
+      await mkdir(DATA_DIR, { recursive: true });
+      await appendFile(AUDIT_FILE, JSON.stringify(entry) + '\n', { mode: 0o600 });
+    })
+    .catch(err => console.error('Audit write error:', err));
+  return writeQueue;
+}
+
+/**
+ * Record a single audited event for the caller of `request`.
+ */
+export async function recordAudit(
+  request: Request,
+  entry: Omit<AuditEntry, 'id' | 'timestamp' | 'user' | 'via' | 'role' | 'ip' | 'method' | 'route'> & { route?: string },
+  user?: AuthUser | null,
+): Promise<void> {
+  const caller = user === undefined ? await getRequestUser(request).catch(() => null) : user;
+  await appendEntry({
+    id: randomUUID(),
+    timestamp: Date.now(),
+    user: caller?.username ?? 'anonymous',
+    via: caller?.via ?? 'anonymous',
+    role: caller?.role,
+    ip: getClientIp(request),
+    method: request.method,
+    route: new URL(request.url).pathname,
+    ...entry,
+    payload: entry.payload === undefined ? undefined : summarizePayload(entry.payload),
+  });
+}
+
+/** Form fields as an object; uploads are logged by name and size, never their contents */
+function formFields(form: FormData): Record<string, unknown> {
+  const fields: Record<string, unknown[]> = {};
+  for (const [name, value] of form.entries()) {
+    (fields[name] ??= []).push(typeof value === 'string' ? value : { name: value.name, size: value.size });
+  }
+  return Object.fromEntries(Object.entries(fields).map(([name, values]) => [name, values.length === 1 ? values[0] : values]));
+}
+
+/**
+ * Wrap a mutating route handler so every call is appended to the audit log
+ * with its caller, payload and outcome. `describe` picks the action name and
+ * a one-line summary out of the parsed request (JSON or form fields) and
+ * response bodies.
+ */
+export function withAudit<R extends Request>(
+  handler: (request: R) => Promise<Response>,
+  describe?: (body: any, data: any) => AuditDetails,
+): (request: R) => Promise<Response> {
+  return async (request: R) => {
+    const started = Date.now();
+    let body: unknown;
+    const contentType = request.headers.get('content-type') ?? '';
+    if (contentType.includes('application/json')) {
+      body = await request.clone().json().catch(() => undefined);
+    } else if (contentType.includes('multipart/form-data')) {
+      const form = await request.clone().formData().catch(() => undefined);
+      if (form) body = formFields(form);
+    }
+
+    const response = await handler(request);
+
+    let data: any = null;
+    if (response.headers.get('content-type')?.includes('application/json')) {
+      data = await response.clone().json().catch(() => null);
+    }
+    const error = response.status >= 400
+      ? (typeof data?.error === 'string' ? data.error : response.statusText || undefined)
+      : undefined;
+
+    let details: AuditDetails = {};
+    try {
+      details = describe?.(body ?? {}, data ?? {}) ?? {};
+    } catch {}
+
+    await recordAudit(request, {
+      action: details.action,
+      summary: details.summary,
+      payload: details.payload !== undefined ? details.payload : body,
+      result: response.status === 401 || response.status === 403 ? 'denied' : response.status >= 400 ? 'error' : 'ok',
+      status: response.status,
+      error,
+      durationMs: Date.now() - started,
+    });
+
+    return response;
+  };
+}
+
+export interface AuditQuery {
+  user?: string;
+  route?: string;
+  action?: string;
+  result?: AuditResult;
+  since?: number;
+  until?: number;
+  q?: string;
+  limit?: number;
+}
+
+/**
+ * Read matching entries, newest first. Streams the file so a large log
+ * never has to fit in memory at once.
+ */
+export async function readAudit(query: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }> {
+  const limit = query.limit ?? 200;
+  const needle = query.q?.toLowerCase();
+  const matches: AuditEntry[] = [];
+  let total = 0;
+
+  let stream;
+  try {
+    stream = createReadStream(AUDIT_FILE, { encoding: 'utf-8' });
+    await new Promise<void>((resolve, reject) => {
+      stream!.once('open', () => resolve());
+      stream!.once('error', reject);
+    });
+  } catch {
+    return { entries: [], total: 0 };
+  }
+
+  const rl = createInterface({ input: stream, crlfDelay: Infinity });
+  for await (const line of rl) {
+    if (!line.trim()) continue;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    if (query.user && entry.user !== query.user) continue;
+    if (query.route && !entry.route.startsWith(query.route)) continue;
+    if (query.action && entry.action !== query.action) continue;
+    if (query.result && entry.result !== query.result) continue;
+    if (query.since && entry.timestamp < query.since) continue;
+    if (query.until && entry.timestamp > query.until) continue;
+    if (needle && !line.toLowerCase().includes(needle)) continue;
+
+    total++;
+    matches.push(entry);
+    // Only the newest `limit` entries are returned
+    if (matches.length > limit) matches.shift();
+  }
+
+  return { entries: matches.reverse(), total };
+}
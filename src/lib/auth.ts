@@ -0,0 +1,275 @@
+import { createHash, createHmac, randomBytes, scrypt as nodeScrypt, timingSafeEqual } from 'crypto';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import http from 'http';
+import https from 'https';
+import os from 'os';
+import path from 'path';
+import type { TLSSocket } from 'tls';
+import type { Role } from './config';
+import config from '../../clawtrol.config';
+
+export const SESSION_COOKIE = 'clawtrol_session';
+
+const DATA_DIR = path.join(os.homedir(), '.openclaw', 'control-center');
+const SECRET_FILE = path.join(DATA_DIR, 'session-secret');
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+export interface AuthUser {
+  username: string;
+  via: 'session' | 'token' | 'local';
+  role: Role;
+}
+
+interface SessionPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+export function isAuthEnabled(): boolean {
+  return config.auth?.enabled === true;
+}
+
+export function getSessionTtlSeconds(): number {
+  return Math.round((config.auth?.sessionTtlHours ?? DEFAULT_TTL_HOURS) * 3600);
+}
+
+function scrypt(password: string, salt: Buffer, keylen: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    nodeScrypt(password, salt, keylen, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+/**
+ * Check a plaintext secret against a stored hash.
+ * Supports `scrypt$<salt>$<hash>` (passwords) and `sha256$<hash>` (API tokens).
+ */
+async function verifyHash(plain: string, stored: string): Promise<boolean> {
+  const [algo, ...parts] = stored.split('$');
+  if (algo === 'scrypt' && parts.length === 2) {
+    const expected = Buffer.from(parts[1], 'hex');
+    if (expected.length === 0) return false;
+    const actual = await scrypt(plain, Buffer.from(parts[0], 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+  if (algo === 'sha256' && parts.length === 1) {
+    const expected = Buffer.from(parts[0], 'hex');
+    const actual = createHash('sha256').update(plain).digest();
+    return expected.length === actual.length && timingSafeEqual(actual, expected);
+  }
+  return false;
+}
+
+/**
+ * Read a hex key from `file`, creating it (mode 0600) on first use.
+ * Shared with sidecar processes that need to verify our signatures.
+ */
+export async function loadOrCreateKey(file: string): Promise<Buffer> {
+  try {
+    const existing = (await readFile(file, 'utf-8')).trim();
+    if (existing) return Buffer.from(existing, 'hex');
+  } catch {}
+
+  const generated = randomBytes(32).toString('hex');
+  await mkdir(path.dirname(file), { recursive: true });
+  try {
+    await writeFile(file, generated, { mode: 0o600, flag: 'wx' });
+    return Buffer.from(generated, 'hex');
+  } catch {
+    // Another request created it first
+    return Buffer.from((await readFile(file, 'utf-8')).trim(), 'hex');
+  }
+}
+
+let secretPromise: Promise<Buffer> | null = null;
+
+// Never from clawtrol.config.ts: it's bundled into the client, and the key forges sessions
+async function loadSecret(): Promise<Buffer> {
+  const configured = process.env.CLAWTROL_SESSION_SECRET;
+  if (configured) return Buffer.from(configured);
+  return loadOrCreateKey(SECRET_FILE);
+}
+
+function getSecret(): Promise<Buffer> {
+  if (!secretPromise) {
+    secretPromise = loadSecret().catch((err) => {
+      secretPromise = null;
+      throw err;
+    });
+  }
+  return secretPromise;
+}
+
+/**
+ * Create a signed, self-contained token: base64url(payload).signature
+ */
+export function signWithKey(payload: object, key: Buffer): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${createHmac('sha256', key).update(body).digest('base64url')}`;
+}
+
+/**
+ * Verify a token created by signWithKey. Returns the payload, or null if the
+ * signature is wrong or the token has expired.
+ */
+export function verifyWithKey<T extends { exp: number }>(token: string, key: Buffer): T | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(createHmac('sha256', key).update(body).digest('base64url'));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8')) as T;
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export async function signToken(payload: object): Promise<string> {
+  return signWithKey(payload, await getSecret());
+}
+
+export async function verifyToken<T extends { exp: number }>(token: string): Promise<T | null> {
+  return verifyWithKey<T>(token, await getSecret());
+}
+
+export async function createSessionToken(username: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = { sub: username, iat: now, exp: now + getSessionTtlSeconds() };
+  return signToken(payload);
+}
+
+/**
+ * Check a username/password pair against the configured users.
+ */
+export async function authenticateUser(username: string, password: string): Promise<AuthUser | null> {
+  const user = config.auth?.users?.find(u => u.username === username);
+  if (!user?.passwordHash) {
+    // Burn comparable time so unknown usernames aren't distinguishable
+    await scrypt(password, randomBytes(16), 64);
+    return null;
+  }
+  if (!(await verifyHash(password, user.passwordHash))) return null;
+  return { username: user.username, via: 'session', role: user.role ?? 'admin' };
+}
+
+async function authenticateToken(token: string): Promise<AuthUser | null> {
+  for (const entry of config.auth?.tokens ?? []) {
+    if (entry.tokenHash && await verifyHash(token, entry.tokenHash)) {
+      return { username: entry.name, via: 'token', role: entry.role ?? 'admin' };
+    }
+  }
+  return null;
+}
+
+function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return null;
+}
+
+/**
+ * Resolve the caller of a request from its session cookie or bearer token.
+ * When auth is disabled every caller is the implicit "local" user.
+ */
+export async function getRequestUser(request: Request): Promise<AuthUser | null> {
+  if (!isAuthEnabled()) return { username: 'local', via: 'local', role: 'admin' };
+
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authenticateToken(authorization.slice(7).trim());
+  }
+
+  const cookie = readCookie(request, SESSION_COOKIE);
+  if (!cookie) return null;
+
+  const payload = await verifyToken<SessionPayload>(cookie);
+  if (!payload) return null;
+
+  // Users removed from config (or given a new role) take effect immediately
+  const user = config.auth?.users?.find(u => u.username === payload.sub);
+  return user ? { username: user.username, via: 'session', role: user.role ?? 'admin' } : null;
+}
+
+// Set by recordSocketAddresses; anything a client sends under these names is overwritten
+const CLIENT_IP_HEADER = 'x-clawtrol-client-ip';
+const CLIENT_PROTO_HEADER = 'x-clawtrol-client-proto';
+
+const shared = globalThis as typeof globalThis & { __clawtrolSocketAddresses?: boolean };
+
+/**
+ * Route handlers never see the socket, and Next.js only fills in
+ * x-forwarded-for when the client didn't send one — so a forged header looks
+ * just like a proxy's. Stamp every incoming request with its socket address
+ * before Next.js reads it. Called once from instrumentation.
+ */
+export function recordSocketAddresses() {
+  if (shared.__clawtrolSocketAddresses) return;
+  shared.__clawtrolSocketAddresses = true;
+  for (const Server of [http.Server, https.Server]) {
+    const emit = Server.prototype.emit as (this: http.Server, event: string | symbol, ...args: any[]) => boolean;
+    Server.prototype.emit = function (this: http.Server, event: string | symbol, ...args: any[]) {
+      if (event === 'request') {
+        const req = args[0] as http.IncomingMessage;
+        req.headers[CLIENT_IP_HEADER] = req.socket.remoteAddress ?? '';
+        req.headers[CLIENT_PROTO_HEADER] = (req.socket as TLSSocket).encrypted ? 'https' : 'http';
+      }
+      return emit.call(this, event, ...args);
+    } as typeof Server.prototype.emit;
+  }
+}
+
+const normalizeIp = (ip: string) => ip.trim().replace(/^::ffff:/, '');
+const trustedProxies = () => (config.auth?.trustedProxies ?? []).map(normalizeIp);
+
+/**
+ * The address a request came from. Forwarding headers only count when the
+ * connection itself comes from one of `auth.trustedProxies`; then the chain is
+ * walked back to the first address that isn't a trusted proxy.
+ */
+export function getClientIp(request: Request): string {
+  const socket = shared.__clawtrolSocketAddresses ? request.headers.get(CLIENT_IP_HEADER) : null;
+  if (!socket) return 'unknown';
+  const trusted = trustedProxies();
+  let ip = normalizeIp(socket);
+  if (!trusted.includes(ip)) return ip;
+
+  const chain = (request.headers.get('x-forwarded-for') ?? '').split(',').map(normalizeIp).filter(Boolean);
+  if (chain.length === 0) return normalizeIp(request.headers.get('x-real-ip') || ip);
+  for (let i = chain.length - 1; i >= 0; i--) {
+    ip = chain[i];
+    if (!trusted.includes(ip)) return ip;
+  }
+  return ip;
+}
+
+/**
+ * Whether the browser reached us over HTTPS. Like forwarding addresses,
+ * x-forwarded-proto only counts when it comes from a trusted proxy.
+ */
+function isSecureRequest(request: Request): boolean {
+  if (!shared.__clawtrolSocketAddresses) return new URL(request.url).protocol === 'https:';
+  const socket = normalizeIp(request.headers.get(CLIENT_IP_HEADER) ?? '');
+  const forwardedProto = trustedProxies().includes(socket) ? request.headers.get('x-forwarded-proto') : null;
+  if (forwardedProto) return forwardedProto.split(',')[0].trim() === 'https';
+  return request.headers.get(CLIENT_PROTO_HEADER) === 'https';
+}
+
+export function sessionCookieOptions(request: Request, maxAge: number) {
+  const secure = isSecureRequest(request);
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure,
+    path: '/',
+    maxAge,
+  };
+}
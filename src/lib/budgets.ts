@@ -0,0 +1,421 @@
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { randomBytes, randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+import type { BudgetAction, BudgetRule } from './config';
+import { sendAlertEvent } from './alerts';
+import { listAgents } from './sessions';
+import { clearAgentTask, listRegistryAgents, loadAgentCosts, type AgentCostsData } from './subclawds';
+import { readSessionUsage, type UsageRecord } from './usage-history';
+import config from '../../clawtrol.config';
+
+const DATA_DIR = path.join(os.homedir(), '.openclaw', 'control-center');
+export const BUDGETS_FILE = path.join(DATA_DIR, 'budgets.json');
+
+const CRON_FILE = path.join(os.homedir(), '.openclaw', 'cron', 'jobs.json');
+
+const DEFAULT_INTERVAL_S = 60;
+const DEFAULT_SOFT_RATIO = 0.8;
+const MAX_ACTION_LOG = 20;
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+const LEVEL_RANK: Record<BudgetLevel, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+export interface BudgetActionLog {
+  action: BudgetAction;
+  at: number;
+  ok: boolean;
+  detail: string;
+}
+
+interface BudgetState {
+  /** Period the level belongs to — YYYY-MM-DD or YYYY-MM, server time */
+  period: string;
+  level: BudgetLevel;
+  warnedAt?: number;
+  exceededAt?: number;
+  actions: BudgetActionLog[];
+  /** Cron jobs this budget disabled; they stay off until resumed */
+  pausedJobs: string[];
+}
+
+interface BudgetStore {
+  budgets: Record<string, BudgetState>;
+}
+
+export interface BudgetStatus {
+  id: string;
+  name: string;
+  scope: string;
+  period: BudgetRule['period'];
+  limit: number;
+  soft: number;
+  spent: number;
+  /** Spend at the end of the period if the burn rate so far holds */
+  projected: number;
+  periodStart: number;
+  periodEnd: number;
+  level: BudgetLevel;
+  warnedAt?: number;
+  exceededAt?: number;
+  actions: BudgetActionLog[];
+  pausedJobs: string[];
+  /** Misconfiguration worth showing, e.g. an agent that doesn't exist */
+  problem?: string;
+}
+
+// Engine and route handlers are bundled separately — keep one copy of the state
+const shared = globalThis as typeof globalThis & {
+  __clawtrolBudgets?: BudgetStore;
+  __clawtrolBudgetsRunning?: boolean;
+  __clawtrolBudgetsWrite?: Promise<void>;
+  __clawtrolBudgetsCron?: Promise<unknown>;
+};
+
+export function getBudgetRules(): BudgetRule[] {
+  return config.budgets?.rules ?? [];
+}
+
+async function loadStore(): Promise<BudgetStore> {
+  if (shared.__clawtrolBudgets) return shared.__clawtrolBudgets;
+  let store: BudgetStore = { budgets: {} };
+  try {
+    const data = JSON.parse(await readFile(BUDGETS_FILE, 'utf-8'));
+    if (data.budgets && typeof data.budgets === 'object') store = { budgets: data.budgets };
+  } catch {}
+  shared.__clawtrolBudgets ??= store;
+  return shared.__clawtrolBudgets;
+}
+
+/**
+ * Writes queue up behind each other, so an older snapshot never lands after
+ * a newer one; the tmp name is unique in case another process writes too.
+ */
+function saveStore(store: BudgetStore): Promise<void> {
+  const write = (shared.__clawtrolBudgetsWrite ?? Promise.resolve()).then(async () => {
+    try {
+      await mkdir(DATA_DIR, { recursive: true });
+      const tmp = `${BUDGETS_FILE}.${process.pid}.${randomBytes(3).toString('hex')}.tmp`;
+      await writeFile(tmp, JSON.stringify(store, null, 2));
+      await rename(tmp, BUDGETS_FILE);
+    } catch (err) {
+      console.error('Budgets persist error:', err);
+    }
+  });
+  shared.__clawtrolBudgetsWrite = write;
+  return write;
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, '0');
+}
+
+function periodBounds(period: BudgetRule['period'], now = new Date()) {
+  const y = now.getFullYear();
+  const m = now.getMonth();
+  if (period === 'monthly') {
+    return { key: `${y}-${pad(m + 1)}`, start: new Date(y, m, 1).getTime(), end: new Date(y, m + 1, 1).getTime() };
+  }
+  const d = now.getDate();
+  return { key: `${y}-${pad(m + 1)}-${pad(d)}`, start: new Date(y, m, d).getTime(), end: new Date(y, m, d + 1).getTime() };
+}
+
+function matchesSession(pattern: string, key: string) {
+  if (!pattern.includes('*')) return pattern === key;
+  return new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`).test(key);
+}
+
+export function describeScope(rule: BudgetRule): string {
+  if (rule.session) return `session ${rule.session}`;
+  if (rule.agent) return `agent ${rule.agent}`;
+  return 'whole install';
+}
+
+/** Everything spend is counted from, read once per pass */
+interface SpendSources {
+  sessions: { agent: string; key: string; records: UsageRecord[] }[];
+  openclawAgents: Set<string>;
+  registryAgents: Set<string>;
+  agentCosts: AgentCostsData;
+}
+
+async function loadSources(): Promise<SpendSources> {
+  const [sessions, openclawAgents, registryAgents, agentCosts] = await Promise.all([
+    readSessionUsage(),
+    listAgents(),
+    listRegistryAgents(),
+    loadAgentCosts(),
+  ]);
+  return { sessions, openclawAgents: new Set(openclawAgents), registryAgents: new Set(registryAgents), agentCosts };
+}
+
+function sumRecords(records: UsageRecord[], start: number, end: number) {
+  let total = 0;
+  for (const r of records) if (r.t >= start && r.t < end) total += r.cost;
+  return total;
+}
+
+/**
+ * An OpenClaw agent's spend comes from its transcripts; a sub-agent that
+ * only exists in registry.json uses what it reported to /api/subclawds/costs.
+ */
+function measureSpend(rule: BudgetRule, sources: SpendSources, start: number, end: number): { spent: number; problem?: string } {
+  if (rule.session) {
+    const spent = sources.sessions
+      .filter(s => matchesSession(rule.session!, s.key))
+      .reduce((sum, s) => sum + sumRecords(s.records, start, end), 0);
+    return { spent };
+  }
+  if (rule.agent) {
+    if (sources.openclawAgents.has(rule.agent)) {
+      const spent = sources.sessions
+        .filter(s => s.agent === rule.agent)
+        .reduce((sum, s) => sum + sumRecords(s.records, start, end), 0);
+      return { spent };
+    }
+    const entries = sources.agentCosts.agents[rule.agent]?.sessions ?? [];
+    const spent = entries
+      .filter(e => {
+        const t = new Date(e.timestamp).getTime();
+        return t >= start && t < end;
+      })
+      .reduce((sum, e) => sum + (e.cost || 0), 0);
+    return sources.registryAgents.has(rule.agent) || entries.length > 0
+      ? { spent }
+      : { spent, problem: `No OpenClaw or registry agent named "${rule.agent}"` };
+  }
+  return { spent: sources.sessions.reduce((sum, s) => sum + sumRecords(s.records, start, end), 0) };
+}
+
+function computeStatus(rule: BudgetRule, sources: SpendSources, state: BudgetState | undefined, now: number): BudgetStatus {
+  const { key, start, end } = periodBounds(rule.period, new Date(now));
+  const { spent, problem } = measureSpend(rule, sources, start, end);
+  const soft = rule.soft ?? rule.limit * DEFAULT_SOFT_RATIO;
+  const elapsed = Math.max(now - start, 60_000);
+  const current = state?.period === key ? state : undefined;
+
+  let actionProblem: string | undefined;
+  if (rule.actions?.includes('clear-subagent-task') && !rule.agent) {
+    actionProblem = 'clear-subagent-task needs an agent';
+  }
+
+  return {
+    id: rule.id,
+    name: rule.name ?? rule.id,
+    scope: describeScope(rule),
+    period: rule.period,
+    limit: rule.limit,
+    soft,
+    spent: Math.round(spent * 10000) / 10000,
+    projected: Math.round((spent / elapsed) * (end - start) * 100) / 100,
+    periodStart: start,
+    periodEnd: end,
+    level: spent >= rule.limit ? 'exceeded' : spent >= soft ? 'warning' : 'ok',
+    warnedAt: current?.warnedAt,
+    exceededAt: current?.exceededAt,
+    actions: state?.actions ?? [],
+    pausedJobs: state?.pausedJobs ?? [],
+    problem: problem ?? actionProblem,
+  };
+}
+
+/**
+ * Spend against every budget for the current period. Read-only — the
+ * engine is what notifies and acts.
+ */
+export async function getBudgetStatuses(): Promise<BudgetStatus[]> {
+  const rules = getBudgetRules();
+  if (rules.length === 0) return [];
+  const [store, sources] = await Promise.all([loadStore(), loadSources()]);
+  const now = Date.now();
+  return rules.map(rule => computeStatus(rule, sources, store.budgets[rule.id], now));
+}
+
+// ── Actions ──────────────────────────────────────────────────────────
+
+/** The fields of an OpenClaw cron job we read; the rest is written back untouched */
+interface CronJob {
+  id: string;
+  name?: string;
+  enabled?: boolean;
+  updatedAtMs?: number;
+}
+
+/**
+ * Read-modify-write of jobs.json, one at a time so the engine and a manual
+ * resume can't overwrite each other's changes.
+ */
+function setCronJobsEnabled(match: (job: CronJob) => boolean, enabled: boolean): Promise<string[]> {
+  const update = (shared.__clawtrolBudgetsCron ?? Promise.resolve()).catch(() => {}).then(() => updateCronJobs(match, enabled));
+  shared.__clawtrolBudgetsCron = update;
+  return update;
+}
+
+async function updateCronJobs(match: (job: CronJob) => boolean, enabled: boolean): Promise<string[]> {
+  const data: { jobs?: CronJob[] } = JSON.parse(await readFile(CRON_FILE, 'utf-8'));
+  const changed: string[] = [];
+  for (const job of data.jobs ?? []) {
+    if (!!job.enabled === enabled || !match(job)) continue;
+    job.enabled = enabled;
+    job.updatedAtMs = Date.now();
+    changed.push(job.id);
+  }
+  if (changed.length > 0) {
+    // The gateway reads this file too — never leave it half-written
+    const tmp = `${CRON_FILE}.${process.pid}.${randomBytes(3).toString('hex')}.tmp`;
+    await writeFile(tmp, JSON.stringify(data, null, 2));
+    await rename(tmp, CRON_FILE);
+  }
+  return changed;
+}
+
+async function runAction(action: BudgetAction, rule: BudgetRule, state: BudgetState): Promise<BudgetActionLog> {
+  const at = Date.now();
+  try {
+    switch (action) {
+      case 'notify':
+        return { action, at, ok: true, detail: 'Notified' };
+      case 'pause-cron': {
+        const paused = await setCronJobsEnabled(
+          job => !rule.cronJobs || rule.cronJobs.includes(job.id) || (job.name !== undefined && rule.cronJobs.includes(job.name)),
+          false,
+        );
+        state.pausedJobs = [...new Set([...state.pausedJobs, ...paused])];
+        return { action, at, ok: true, detail: paused.length ? `Paused ${paused.length} cron job${paused.length === 1 ? '' : 's'}` : 'No enabled cron jobs to pause' };
+      }
+      case 'clear-subagent-task': {
+        if (!rule.agent) throw new Error('Budget has no agent');
+        await clearAgentTask(rule.agent);
+        return { action, at, ok: true, detail: `Cleared ${rule.agent}'s task` };
+      }
+      default:
+        throw new Error(`Unknown action "${action}"`);
+    }
+  } catch (err) {
+    console.error(`Budget "${rule.id}" action ${action} error:`, err);
+    return { action, at, ok: false, detail: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function formatUsd(value: number) {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Check every budget once: warn the first time spend crosses the soft
+ * limit in a period, and notify and run the rule's actions the first time
+ * it crosses the hard limit.
+ */
+export async function evaluateBudgets() {
+  const rules = getBudgetRules();
+  if (rules.length === 0) return;
+  const [store, sources] = await Promise.all([loadStore(), loadSources()]);
+  const now = Date.now();
+  let changed = false;
+
+  for (const rule of rules) {
+    const status = computeStatus(rule, sources, store.budgets[rule.id], now);
+    const { key } = periodBounds(rule.period, new Date(now));
+    let state = store.budgets[rule.id];
+    if (!state || state.period !== key) {
+      // A new period starts clean, but paused cron jobs wait for a person
+      state = { period: key, level: 'ok', actions: state?.actions ?? [], pausedJobs: state?.pausedJobs ?? [] };
+      store.budgets[rule.id] = state;
+      changed = true;
+    }
+    if (LEVEL_RANK[status.level] <= LEVEL_RANK[state.level]) continue;
+
+    state.level = status.level;
+    changed = true;
+    const summary = `${formatUsd(status.spent)} of ${formatUsd(rule.limit)} ${rule.period} budget (${status.scope})`;
+
+    if (status.level === 'warning') {
+      state.warnedAt = now;
+      await sendAlertEvent(budgetAlert(rule, 'warning', `Soft limit ${formatUsd(status.soft)} reached — ${summary}`, status.spent, now), 'firing', rule.channels);
+      continue;
+    }
+
+    state.exceededAt = now;
+    state.warnedAt ??= now;
+    const logs: BudgetActionLog[] = [];
+    for (const action of rule.actions ?? ['notify']) logs.push(await runAction(action, rule, state));
+    state.actions = [...state.actions, ...logs].slice(-MAX_ACTION_LOG);
+
+    const taken = logs.filter(l => l.action !== 'notify').map(l => (l.ok ? l.detail : `${l.action} failed: ${l.detail}`));
+    await sendAlertEvent(
+      budgetAlert(rule, 'critical', `Limit reached — ${summary}${taken.length ? `. ${taken.join('; ')}` : ''}`, status.spent, now),
+      'firing',
+      rule.channels,
+    );
+  }
+
+  // Budgets removed from the config
+  for (const id of Object.keys(store.budgets)) {
+    if (!rules.some(r => r.id === id) && store.budgets[id].pausedJobs.length === 0) {
+      delete store.budgets[id];
+      changed = true;
+    }
+  }
+
+  if (changed) await saveStore(store);
+}
+
+function budgetAlert(rule: BudgetRule, severity: 'warning' | 'critical', message: string, spent: number, now: number) {
+  return {
+    id: randomUUID(),
+    ruleId: `budget:${rule.id}`,
+    key: rule.id,
+    name: rule.name ?? `Budget ${rule.id}`,
+    severity,
+    state: 'firing' as const,
+    message,
+    value: spent,
+    startedAt: now,
+    firedAt: now,
+  };
+}
+
+/**
+ * Re-enable the cron jobs a budget paused. Returns the job ids turned back
+ * on, or null if the budget has none paused.
+ */
+export async function resumeBudgetCron(id: string): Promise<string[] | null> {
+  const store = await loadStore();
+  const state = store.budgets[id];
+  if (!state || state.pausedJobs.length === 0) return null;
+  const paused = new Set(state.pausedJobs);
+  const resumed = await setCronJobsEnabled(job => paused.has(job.id), true);
+  state.pausedJobs = [];
+  await saveStore(store);
+  return resumed;
+}
+
+/**
+ * Start checking budgets in the background. Called once from instrumentation.ts.
+ */
+export function startBudgetEngine() {
+  if (shared.__clawtrolBudgetsRunning || config.budgets?.enabled === false || getBudgetRules().length === 0) return;
+  shared.__clawtrolBudgetsRunning = true;
+
+  let busy = false;
+  const tick = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      await evaluateBudgets();
+    } catch (err) {
+      console.error('Budget evaluation error:', err);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const interval = Math.max(config.budgets?.interval ?? DEFAULT_INTERVAL_S, 10) * 1000;
+  setTimeout(tick, 10_000).unref();
+  setInterval(tick, interval).unref();
+}
+
+export function isBudgetEngineRunning(): boolean {
+  return shared.__clawtrolBudgetsRunning === true;
+}
@@ -0,0 +1,101 @@
+import { mkdirSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { defaultCwd, evaluateCommand, getJail, resolveCwd } from './command-policy';
+
+vi.mock('../../clawtrol.config', async () => {
+  const { tmpdir } = await import('os');
+  const { join } = await import('path');
+  return {
+    default: {
+      terminal: {
+        policy: {
+          deny: [{ pattern: /\bshutdown\b/, reason: 'No shutdowns' }],
+          allow: [{ pattern: /^(ls|cat|git|echo)\b/, roles: ['operator'] }],
+          confirm: [{ pattern: 'git push --force', reason: 'Rewrites history' }],
+          jail: join(tmpdir(), 'clawtrol-policy-test'),
+          jailRoles: ['operator'],
+        },
+      },
+    },
+  };
+});
+
+const jail = path.join(os.tmpdir(), 'clawtrol-policy-test');
+
+beforeAll(() => {
+  mkdirSync(path.join(jail, 'app'), { recursive: true });
+});
+
+afterAll(() => {
+  rmSync(jail, { recursive: true, force: true });
+});
+
+describe('evaluateCommand', () => {
+  it('applies the built-in blocks to every role', () => {
+    expect(evaluateCommand('rm -rf / --no-preserve-root', 'admin', jail)).toEqual({
+      action: 'deny',
+      reason: 'Recursive delete from an absolute path',
+    });
+  });
+
+  it('checks deny rules before anything else', () => {
+    expect(evaluateCommand('sudo shutdown now', 'admin', jail)).toEqual({ action: 'deny', reason: 'No shutdowns' });
+  });
+
+  it('limits roles with allow rules to those commands', () => {
+    expect(evaluateCommand('ls -la', 'operator', jail)).toEqual({ action: 'allow' });
+    expect(evaluateCommand('python3 x.py', 'operator', jail)).toEqual({
+      action: 'deny',
+      reason: 'Not in the allow list for the operator role',
+    });
+    // The allow rule is scoped to operators
+    expect(evaluateCommand('python3 x.py', 'admin', jail)).toEqual({ action: 'allow' });
+  });
+
+  it('asks for confirmation until confirmed', () => {
+    expect(evaluateCommand('git push --force origin main', 'operator', jail)).toEqual({
+      action: 'confirm',
+      reason: 'Rewrites history',
+    });
+    expect(evaluateCommand('git push --force origin main', 'operator', jail, true)).toEqual({ action: 'allow' });
+  });
+
+  it('keeps path arguments inside the jail', () => {
+    const app = path.join(jail, 'app');
+    expect(evaluateCommand('cat ../x', 'operator', app)).toEqual({ action: 'allow' });
+    expect(evaluateCommand('cat ../../x', 'operator', app).action).toBe('deny');
+    expect(evaluateCommand('cat /etc/passwd', 'operator', jail)).toEqual({
+      action: 'deny',
+      reason: `/etc/passwd is outside the working directory jail (${jail})`,
+    });
+    expect(evaluateCommand('ls ~', 'operator', jail).action).toBe('deny');
+    expect(evaluateCommand('cat x>/dev/null', 'operator', jail)).toEqual({ action: 'allow' });
+  });
+
+  it('does not jail roles outside jailRoles', () => {
+    expect(getJail('admin')).toBeNull();
+    expect(evaluateCommand('cat /etc/passwd', 'admin', jail)).toEqual({ action: 'allow' });
+  });
+});
+
+describe('resolveCwd', () => {
+  it('starts jailed roles in the jail and others at home', () => {
+    expect(defaultCwd('operator')).toBe(jail);
+    expect(defaultCwd('admin')).toBe(os.homedir());
+    expect(resolveCwd(undefined, '/', 'operator')).toEqual({ cwd: jail });
+  });
+
+  it('resolves relative to the current directory', () => {
+    expect(resolveCwd('app', jail, 'operator')).toEqual({ cwd: path.join(jail, 'app') });
+    expect(resolveCwd('..', path.join(jail, 'app'), 'operator')).toEqual({ cwd: jail });
+  });
+
+  it('refuses to leave the jail or enter missing directories', () => {
+    expect(resolveCwd('..', jail, 'operator')).toEqual({
+      error: `${path.dirname(jail)} is outside the working directory jail (${jail})`,
+    });
+    expect(resolveCwd('missing', jail, 'operator')).toEqual({ error: `No such directory: ${path.join(jail, 'missing')}` });
+  });
+});
@@ -0,0 +1,129 @@
+import { statSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { CommandRule, Role } from './config';
+import config from '../../clawtrol.config';
+
+export type PolicyDecision =
+  | { action: 'allow' }
+  | { action: 'deny'; reason: string }
+  | { action: 'confirm'; reason: string };
+
+// Always on, whatever the config says
+const BUILTIN_DENY: CommandRule[] = [
+  { pattern: 'rm -rf /', reason: 'Recursive delete from an absolute path' },
+  { pattern: 'mkfs', reason: 'Formatting filesystems is not allowed' },
+  { pattern: ':(){', reason: 'Fork bomb' },
+  { pattern: 'dd if=', reason: 'Raw disk copies are not allowed' },
+];
+
+// Special files commands may reference even inside a jail
+const JAIL_EXEMPT = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/stdin', '/dev/tty']);
+
+const policy = config.terminal?.policy ?? {};
+
+function expandHome(p: string): string {
+  return p === '~' || p.startsWith('~/') ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+function matches(rule: CommandRule, command: string): boolean {
+  return typeof rule.pattern === 'string'
+    ? command.includes(rule.pattern)
+    : new RegExp(rule.pattern.source, rule.pattern.flags.replace('g', '')).test(command);
+}
+
+function appliesTo(rule: CommandRule, role: Role): boolean {
+  return !rule.roles || rule.roles.includes(role);
+}
+
+function describe(rule: CommandRule, fallback: string): string {
+  return rule.reason ?? `${fallback} (${rule.pattern})`;
+}
+
+/**
+ * Directory the role is confined to, or null when unrestricted.
+ */
+export function getJail(role: Role): string | null {
+  if (!policy.jail) return null;
+  if (policy.jailRoles && !policy.jailRoles.includes(role)) return null;
+  return path.resolve(expandHome(policy.jail));
+}
+
+function isInside(dir: string, root: string): boolean {
+  const rel = path.relative(root, dir);
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+/**
+ * Starting directory for a role — the jail if there is one, else home.
+ */
+export function defaultCwd(role: Role): string {
+  return getJail(role) ?? os.homedir();
+}
+
+/**
+ * Resolve a directory change (or the cwd a client sends back) relative to
+ * `from`, enforcing the jail and checking that the directory exists.
+ */
+export function resolveCwd(target: string | undefined, from: string, role: Role): { cwd: string } | { error: string } {
+  const jail = getJail(role);
+  const resolved = target ? path.resolve(from, expandHome(target)) : defaultCwd(role);
+
+  if (jail && !isInside(resolved, jail)) {
+    return { error: `${resolved} is outside the working directory jail (${jail})` };
+  }
+  try {
+    if (!statSync(resolved).isDirectory()) return { error: `Not a directory: ${resolved}` };
+  } catch {
+    return { error: `No such directory: ${resolved}` };
+  }
+  return { cwd: resolved };
+}
+
+// Words that look like paths: absolute, home-relative or climbing with ..
+// Only literal words — whatever the shell expands or builds at run time
+// ($VAR, $(...), backticks, eval, `cd x && ...`) gets through, so the jail
+// is best-effort and the allow list is what actually confines a role.
+function pathArguments(command: string): string[] {
+  return command
+    .split(/[\s;|&<>()`'"=]+/)
+    .filter(word => word.startsWith('/') || word.startsWith('~') || word.split('/').includes('..'));
+}
+
+/**
+ * Decide whether `role` may run `command` from `cwd`.
+ * Order: deny rules → jail → allow list → confirmation rules.
+ */
+export function evaluateCommand(command: string, role: Role, cwd: string, confirmed = false): PolicyDecision {
+  for (const rule of [...BUILTIN_DENY, ...(policy.deny ?? [])]) {
+    if (appliesTo(rule, role) && matches(rule, command)) {
+      return { action: 'deny', reason: describe(rule, 'Blocked by deny rule') };
+    }
+  }
+
+  const jail = getJail(role);
+  if (jail) {
+    for (const arg of pathArguments(command)) {
+      if (JAIL_EXEMPT.has(arg)) continue;
+      const resolved = path.resolve(cwd, expandHome(arg));
+      if (!isInside(resolved, jail)) {
+        return { action: 'deny', reason: `${arg} is outside the working directory jail (${jail})` };
+      }
+    }
+  }
+
+  const allowRules = (policy.allow ?? []).filter(rule => appliesTo(rule, role));
+  if (allowRules.length > 0 && !allowRules.some(rule => matches(rule, command))) {
+    return { action: 'deny', reason: `Not in the allow list for the ${role} role` };
+  }
+
+  if (!confirmed) {
+    for (const rule of policy.confirm ?? []) {
+      if (appliesTo(rule, role) && matches(rule, command)) {
+        return { action: 'confirm', reason: describe(rule, 'Needs confirmation') };
+      }
+    }
+  }
+
+  return { action: 'allow' };
+}
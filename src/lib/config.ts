@@ -4,12 +4,15 @@ export type ModuleId =
   | 'terminal'
   | 'files'
   | 'sessions'
+  | 'costs'
   | 'tasks'
   | 'memory'
   | 'cron'
   | 'logs'
   | 'network'
-  | 'subagents';
+  | 'subagents'
+  | 'audit'
+  | 'alerts';
 
 export interface WidgetConfig {
   module: string;
@@ -19,6 +22,183 @@ export interface WidgetConfig {
 
 import type { ThemePresetId } from './themes';
 
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export interface AuthConfig {
+  /** Require a login for the dashboard and every /api route */
+  enabled?: boolean;
+  /** Dashboard accounts — generate hashes with `clawtrol hash-password` (role defaults to admin) */
+  users?: Array<{ username: string; passwordHash: string; role?: Role }>;
+  /** Bearer tokens for scripts and agents — generate with `clawtrol token <name>` (role defaults to admin) */
+  tokens?: Array<{ name: string; tokenHash: string; role?: Role }>;
+  /** Override which modules each role can open (see DEFAULT_ROLE_MODULES in lib/permissions) */
+  roles?: Partial<Record<Role, ModuleId[]>>;
+  /** Session lifetime in hours (default: 168) */
+  sessionTtlHours?: number;
+  /** Reverse proxies in front of the dashboard (e.g. ['127.0.0.1']) — only they may set X-Forwarded-For */
+  trustedProxies?: string[];
+}
+
+export interface CommandRule {
+  /** RegExp, or a plain string matched as a substring */
+  pattern: RegExp | string;
+  /** Shown in the terminal when the rule triggers */
+  reason?: string;
+  /** Only apply to these roles (default: every role) */
+  roles?: Role[];
+}
+
+export interface CommandPolicyConfig {
+  /** When any allow rule applies to a role, that role may only run matching commands */
+  allow?: CommandRule[];
+  /** Always blocked (in addition to the built-in rm -rf / , mkfs, fork bomb, dd rules) */
+  deny?: CommandRule[];
+  /** Run only after the user confirms a second prompt */
+  confirm?: CommandRule[];
+  /**
+   * Keep the working directory and path arguments inside this directory (e.g. '~/projects').
+   * Best-effort: paths built by the shell ($VAR, $(...), cd chains) aren't seen. Pair with `allow`.
+   */
+  jail?: string;
+  /** Roles the jail applies to (default: every role) */
+  jailRoles?: Role[];
+}
+
+export interface TerminalConfig {
+  /** Port for the PTY WebSocket sidecar (bin/pty-server.mjs, default: 7683) */
+  ptyPort?: number;
+  /** Interface the sidecar listens on (default: 127.0.0.1 — '0.0.0.0' for other machines) */
+  ptyHost?: string;
+  /**
+   * WebSocket URL browsers connect to, when the sidecar sits behind a reverse
+   * proxy (e.g. 'wss://dash.example.com/pty'). Default: ws(s)://<dashboard host>:<ptyPort>
+   */
+  ptyUrl?: string;
+  /** Rules for the EXEC command runner (/api/terminal) */
+  policy?: CommandPolicyConfig;
+}
+
+export interface MetricsConfig {
+  /** Record system stats in the background for the history charts (default: true) */
+  enabled?: boolean;
+  /** Seconds between samples (default: 15) */
+  interval?: number;
+}
+
+export interface ScreenConfig {
+  /** Capture/input backend (default: 'auto' — macos on darwin, x11 elsewhere) */
+  backend?: 'auto' | 'macos' | 'x11';
+  /** X display to use (default: $DISPLAY) */
+  display?: string;
+  /** Run a private Xvfb server for headless Linux boxes */
+  xvfb?: {
+    enabled?: boolean;
+    /** Display number to claim (default: ':99') */
+    display?: string;
+    /** Virtual screen size (default: '1920x1080') */
+    size?: string;
+    /** Command started inside the virtual display, e.g. a window manager or browser */
+    session?: string;
+  };
+}
+
+export interface SessionLabelRule {
+  /** Exact session key, a glob with `*`, or a RegExp whose groups `label` can use as $1, $2… */
+  match: string | RegExp;
+  label?: string;
+  emoji?: string;
+  /** Hex color or theme variable, e.g. 'var(--accent-purple)' */
+  color?: string;
+}
+
+export interface SessionSendConfig {
+  /**
+   * Adapter per channel name, '*' for all of them — telegram, discord,
+   * slack, gateway or file. Channels without their own adapter use the gateway.
+   */
+  adapters?: Record<string, string>;
+  /** JSONL file the 'file' adapter appends to (default ~/.openclaw/control-center/outbox.jsonl) */
+  file?: string;
+}
+
+export interface SessionsConfig {
+  /** Naming rules; the first match wins, and renames made in the Sessions tab win over all of them */
+  labels?: SessionLabelRule[];
+  /** How replies typed in the Sessions tab are delivered */
+  send?: SessionSendConfig;
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/** Values the alert engine can compare against a threshold */
+export type AlertMetric = 'cpu' | 'memory' | 'disk' | 'temperature' | 'gatewayRss' | 'gatewayCpu' | 'co2';
+
+export type AlertCondition =
+  | { metric: AlertMetric; op: '>' | '>=' | '<' | '<='; value: number }
+  | { check: 'gateway-down' }
+  /** Fires per job whose last run failed; `job` limits it to one id or name */
+  | { check: 'cron-failed'; job?: string };
+
+export type AlertRule = AlertCondition & {
+  id: string;
+  name?: string;
+  severity?: AlertSeverity;
+  /** Seconds the condition must hold before the alert fires (default: 0) */
+  for?: number;
+  /** Channel ids to notify (default: all) */
+  channels?: string[];
+};
+
+export interface AlertChannelConfig {
+  id: string;
+  /** browser | webhook | openclaw, or a type registered by a plugin */
+  type: string;
+  /** webhook: URL to POST the alert JSON to */
+  url?: string;
+  /** openclaw: recipient passed to `openclaw send --to` */
+  target?: string;
+  /** Only notify for these severities (default: all) */
+  severities?: AlertSeverity[];
+}
+
+export interface AlertsConfig {
+  enabled?: boolean;
+  /** Seconds between rule evaluations (default: 30) */
+  interval?: number;
+  rules?: AlertRule[];
+  channels?: AlertChannelConfig[];
+}
+
+/** What a budget does once spend reaches its limit; every action also notifies */
+export type BudgetAction = 'notify' | 'pause-cron' | 'clear-subagent-task';
+
+export interface BudgetRule {
+  id: string;
+  name?: string;
+  /** Count one agent's spend — an OpenClaw agent directory or a sub-agent in registry.json */
+  agent?: string;
+  /** Count one session key (or `*` glob) instead; neither means the whole install */
+  session?: string;
+  period: 'daily' | 'monthly';
+  /** Hard limit in USD */
+  limit: number;
+  /** Warn from this many USD (default: 80% of limit) */
+  soft?: number;
+  /** At the hard limit (default: ['notify']) */
+  actions?: BudgetAction[];
+  /** pause-cron: job ids or names to disable (default: every enabled job) */
+  cronJobs?: string[];
+  /** Alert channel ids to notify (default: all) */
+  channels?: string[];
+}
+
+export interface BudgetsConfig {
+  enabled?: boolean;
+  /** Seconds between checks (default: 60) */
+  interval?: number;
+  rules?: BudgetRule[];
+}
+
 export interface ClawtrolConfig {
   title?: string;
   modules?: ModuleId[];
@@ -34,6 +214,13 @@ export interface ClawtrolConfig {
     gatewayPort?: number;
   };
   port?: number;
+  auth?: AuthConfig;
+  terminal?: TerminalConfig;
+  metrics?: MetricsConfig;
+  alerts?: AlertsConfig;
+  budgets?: BudgetsConfig;
+  screen?: ScreenConfig;
+  sessions?: SessionsConfig;
 }
 
 export const defaultConfig: ClawtrolConfig = {
@@ -44,12 +231,15 @@ export const defaultConfig: ClawtrolConfig = {
     'terminal',
     'files',
     'sessions',
+    'costs',
     'tasks',
     'memory',
     'cron',
     'logs',
     'network',
     'subagents',
+    'audit',
+    'alerts',
   ],
   theme: {
     mode: 'dark',
@@ -63,13 +253,16 @@ export const defaultConfig: ClawtrolConfig = {
 export const MODULE_META: Record<ModuleId, { label: string; icon: string; description: string }> = {
   overview:  { label: 'Overview',    icon: '', description: 'System info — CPU, RAM, disk, uptime, weather' },
   screen:    { label: 'Screen',      icon: '', description: 'Remote screen viewer with click interaction' },
-  terminal:  { label: 'Terminal',    icon: '', description: 'Web terminal via ttyd PTY' },
+  terminal:  { label: 'Terminal',    icon: '', description: 'Interactive PTY shells & streaming command runner' },
   files:     { label: 'Files',       icon: '', description: 'File browser with read & zip' },
   sessions:  { label: 'Sessions',    icon: '', description: 'OpenClaw session viewer & chat' },
+  costs:     { label: 'Costs',       icon: '', description: 'Daily spend by model and session' },
   tasks:     { label: 'Tasks',       icon: '', description: 'Kanban task board' },
   memory:    { label: 'Memory',      icon: '', description: 'Memory & markdown file browser' },
   cron:      { label: 'Cron',        icon: '', description: 'Cron job manager' },
   logs:      { label: 'Logs',        icon: '', description: 'Gateway log viewer' },
   network:   { label: 'Network',     icon: '', description: 'Tailscale peers & processes' },
   subagents: { label: 'Sub-agents',  icon: '', description: 'Sub-agent management' },
+  audit:     { label: 'Audit',       icon: '', description: 'Log of every mutating action — who, when, what' },
+  alerts:    { label: 'Alerts',      icon: '', description: 'Threshold alerts — firing, acknowledged, silenced' },
 };
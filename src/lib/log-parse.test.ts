@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { compileSearch } from './log-parse';
+
+describe('compileSearch', () => {
+  it('matches plain text literally and case-insensitively', () => {
+    const search = compileSearch('a.b (x)')!;
+    expect(search.test('A.B (X)')).toBe(true);
+    search.lastIndex = 0;
+    expect(search.test('aXb (x)')).toBe(false);
+    expect(compileSearch('')).toBeNull();
+  });
+
+  it('leaves plain text alone however it looks', () => {
+    expect(() => compileSearch('(a+)+', false)).not.toThrow();
+  });
+
+  it('accepts ordinary regular expressions', () => {
+    for (const pattern of ['error|warn', '^\\[gateway\\] .*timeout', '(foo|bar) \\d+', '(ab)+', 'a{2,3}b+', '[(+*]+', '(\\d+)x']) {
+      expect(() => compileSearch(pattern, true), pattern).not.toThrow();
+    }
+  });
+
+  it('rejects nested repetition', () => {
+    for (const pattern of ['(a+)+', '(a*)*', '((ab)+)+', '(\\w+\\s?)*$', '(x{1,3}){2,}']) {
+      expect(() => compileSearch(pattern, true), pattern).toThrow('Nested repetition');
+    }
+  });
+
+  it('rejects repeated alternation', () => {
+    for (const pattern of ['(a|aa)+', '(a|b)*c', '(?:x|xy)+']) {
+      expect(() => compileSearch(pattern, true), pattern).toThrow('Repeated alternation');
+    }
+  });
+
+  it('rejects backreferences', () => {
+    expect(() => compileSearch('(a)\\1', true)).toThrow('Backreferences');
+    expect(() => compileSearch('(?<w>a)\\k<w>', true)).toThrow('Backreferences');
+  });
+
+  it('ignores repetition and groups inside character classes or escapes', () => {
+    expect(() => compileSearch('([+*])+', true)).not.toThrow();
+    expect(() => compileSearch('(\\+)+', true)).not.toThrow();
+    expect(() => compileSearch('([]a+])+', true)).not.toThrow();
+  });
+
+  it('caps the pattern length', () => {
+    expect(() => compileSearch('a'.repeat(201), true)).toThrow('longer than 200');
+  });
+
+  it('still reports invalid syntax', () => {
+    expect(() => compileSearch('(unclosed', true)).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Gateway log line parsing and matching. No Node imports — the Logs module
+ * uses the same search/filter logic in the browser.
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogStream = 'out' | 'err';
+
+export interface LogRecord {
+  stream: LogStream;
+  timestamp: number | null;
+  level: LogLevel;
+  component: string | null;
+  message: string;
+  raw: string;
+  /** Stack trace or wrapped output belonging to the record before it */
+  continuation?: boolean;
+}
+
+export interface LogFilter {
+  levels?: LogLevel[];
+  since?: number;
+  until?: number;
+  search?: RegExp | null;
+}
+
+// 2026-01-27T10:15:32.123Z, 2026-01-27 10:15:32,123, optionally in [brackets]
+const TIMESTAMP = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\]?\s*/;
+const LEVEL_TOKEN = /^\[?(trace|debug|info|warn|warning|error|err|fatal)\]?:?\s+/i;
+const COMPONENT = /^\[([\w.:/@-]{1,40})\]:?\s*/;
+const CONTINUATION = /^(\s+|at\s|Caused by:|\.\.\. \d+ more)/;
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  trace: 'debug', debug: 'debug', info: 'info',
+  warn: 'warn', warning: 'warn',
+  error: 'error', err: 'error', fatal: 'error',
+};
+
+function normalizeLevel(value: unknown): LogLevel | null {
+  if (typeof value === 'number') {
+    // pino / bunyan numeric levels
+    if (value >= 50) return 'error';
+    if (value >= 40) return 'warn';
+    if (value >= 30) return 'info';
+    return 'debug';
+  }
+  return typeof value === 'string' ? LEVEL_ALIASES[value.toLowerCase()] ?? null : null;
+}
+
+// Same keywords the overview activity feed colours by
+function inferLevel(message: string): LogLevel {
+  if (/\b(error|err|fatal|exception|uncaught|unhandled)\b/i.test(message)) return 'error';
+  if (/\b(warn|warning|deprecated)\b/i.test(message)) return 'warn';
+  if (/\bdebug\b/i.test(message)) return 'debug';
+  return 'info';
+}
+
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+  if (typeof value !== 'string') return null;
+  const parsed = Date.parse(value.replace(' ', 'T').replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+}
+
+function parseJsonLine(raw: string, stream: LogStream): LogRecord | null {
+  let obj: Record<string, any>;
+  try {
+    obj = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return null;
+
+  const meta = obj._meta && typeof obj._meta === 'object' ? obj._meta : {};
+  const message = obj.msg ?? obj.message ?? obj['0'] ?? raw;
+  const text = typeof message === 'string' ? message : JSON.stringify(message);
+
+  return {
+    stream,
+    timestamp: parseTimestamp(obj.time ?? obj.timestamp ?? obj.ts ?? meta.date),
+    level: normalizeLevel(obj.level ?? obj.levelName ?? meta.logLevelName) ?? inferLevel(text),
+    component: obj.subsystem ?? obj.component ?? obj.module ?? meta.name ?? null,
+    message: text,
+    raw,
+  };
+}
+
+/**
+ * Parse one line into a record. Handles JSON lines and the usual
+ * `<timestamp> <LEVEL> [component] message` text shapes in any combination;
+ * pass the previous record so stack traces inherit its timestamp and level.
+ */
+export function parseLogLine(raw: string, stream: LogStream, previous?: LogRecord | null): LogRecord {
+  if (raw.startsWith('{')) {
+    const record = parseJsonLine(raw, stream);
+    if (record) return record;
+  }
+
+  let rest = raw;
+  let timestamp: number | null = null;
+  let level: LogLevel | null = null;
+  let component: string | null = null;
+
+  const ts = rest.match(TIMESTAMP);
+  if (ts) {
+    timestamp = parseTimestamp(ts[1]);
+    rest = rest.slice(ts[0].length);
+  }
+
+  if (!ts && previous && raw.trim() && CONTINUATION.test(raw)) {
+    return {
+      stream,
+      timestamp: previous.timestamp,
+      level: previous.level,
+      component: previous.component,
+      message: raw,
+      raw,
+      continuation: true,
+    };
+  }
+
+  // Level and component show up in either order
+  for (let i = 0; i < 2; i++) {
+    const lv: RegExpMatchArray | null = level ? null : rest.match(LEVEL_TOKEN);
+    if (lv) {
+      level = LEVEL_ALIASES[lv[1].toLowerCase()];
+      rest = rest.slice(lv[0].length);
+      continue;
+    }
+    const comp: RegExpMatchArray | null = component ? null : rest.match(COMPONENT);
+    if (comp) {
+      component = comp[1];
+      rest = rest.slice(comp[0].length);
+    }
+  }
+
+  return { stream, timestamp, level: level ?? inferLevel(rest), component, message: rest, raw };
+}
+
+/**
+ * Parse consecutive lines from one stream, carrying state for continuations.
+ */
+export function parseLogLines(lines: string[], stream: LogStream, previous: LogRecord | null = null): LogRecord[] {
+  const records: LogRecord[] = [];
+  for (const line of lines) {
+    previous = parseLogLine(line, stream, previous);
+    records.push(previous);
+  }
+  return records;
+}
+
+// Searches run on the server's only thread, over thousands of lines
+const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * Refuse patterns that can backtrack exponentially: a repeated group that
+ * itself contains a repetition or an alternation, like `(a+)+` or `(a|aa)*`,
+ * and backreferences. Conservative — some harmless patterns are turned away too.
+ */
+function checkPattern(pattern: string) {
+  if (pattern.length > MAX_PATTERN_LENGTH) throw new Error(`Pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+  // One entry per open group: does it contain a repetition, or a `|`?
+  const groups: { repeats: boolean; alternates: boolean }[] = [{ repeats: false, alternates: false }];
+  const repeatAt = (i: number) => pattern[i] === '*' || pattern[i] === '+' || (pattern[i] === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)));
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) throw new Error('Backreferences are not supported');
+      i++;
+    } else if (c === '[') {
+      // Skip the class; `]` right after `[` or `[^` is a literal
+      i += pattern[i + 1] === '^' ? 2 : 1;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+    } else if (c === '(') {
+      groups.push({ repeats: false, alternates: false });
+    } else if (c === ')' && groups.length > 1) {
+      const inner = groups.pop()!;
+      const repeated = repeatAt(i + 1);
+      if (repeated && inner.repeats) throw new Error('Nested repetition like (a+)+ is not supported');
+      if (repeated && inner.alternates) throw new Error('Repeated alternation like (a|aa)+ is not supported');
+      if (inner.repeats || repeated) groups[groups.length - 1].repeats = true;
+    } else if (c === '|') {
+      groups[groups.length - 1].alternates = true;
+    } else if (repeatAt(i)) {
+      groups[groups.length - 1].repeats = true;
+    }
+  }
+}
+
+/**
+ * Case-insensitive search pattern; plain text is matched literally.
+ * Throws on an invalid or potentially catastrophic regular expression.
+ */
+export function compileSearch(query: string, regex = false): RegExp | null {
+  if (!query) return null;
+  if (regex) checkPattern(query);
+  return new RegExp(regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+}
+
+export function searchMatches(record: LogRecord, search: RegExp): boolean {
+  search.lastIndex = 0;
+  const hit = search.test(record.raw);
+  search.lastIndex = 0;
+  return hit;
+}
+
+export function matchesFilter(record: LogRecord, filter: LogFilter): boolean {
+  if (filter.levels && !filter.levels.includes(record.level)) return false;
+  // Undated lines can't be placed in a time range
+  if (filter.since !== undefined && (record.timestamp === null || record.timestamp < filter.since)) return false;
+  if (filter.until !== undefined && (record.timestamp === null || record.timestamp > filter.until)) return false;
+  if (filter.search && !searchMatches(record, filter.search)) return false;
+  return true;
+}
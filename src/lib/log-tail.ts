@@ -0,0 +1,147 @@
+import { open, stat } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { matchesFilter, parseLogLines, type LogFilter, type LogRecord, type LogStream } from './log-parse';
+
+export const GATEWAY_LOG_DIR = path.join(os.homedir(), '.openclaw', 'logs');
+
+export const GATEWAY_LOGS = {
+  out: path.join(GATEWAY_LOG_DIR, 'gateway.log'),
+  err: path.join(GATEWAY_LOG_DIR, 'gateway.err.log'),
+} as const;
+
+const CHUNK_SIZE = 64 * 1024;
+// How far back a filtered query looks in each file
+const SCAN_LINES = 20000;
+const POLL_MS = 500;
+// Don't push more than this per poll if a file suddenly grows by gigabytes
+const MAX_READ_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Read the last `count` lines of a file that end at or before byte `end`.
+ */
+export async function readLastLines(file: string, count: number, end: number): Promise<string[]> {
+  if (count <= 0 || end <= 0) return [];
+  const handle = await open(file, 'r');
+  try {
+    let position = end;
+    let newlines = 0;
+    const chunks: Buffer[] = [];
+    // One extra newline so the first kept line is complete
+    while (position > 0 && newlines <= count) {
+      const size = Math.min(CHUNK_SIZE, position);
+      position -= size;
+      const buffer = Buffer.alloc(size);
+      await handle.read(buffer, 0, size, position);
+      chunks.unshift(buffer);
+      for (const byte of buffer) if (byte === 0x0a) newlines++;
+    }
+    const lines = Buffer.concat(chunks).toString('utf-8').split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines.slice(-count);
+  } finally {
+    await handle.close();
+  }
+}
+
+export interface FollowHandlers {
+  onLines(lines: string[]): void;
+  /** File was truncated or replaced (log rotation) — reading restarts from the top */
+  onReset(): void;
+}
+
+/**
+ * Follow a file like `tail -f`, starting at byte `from`. Polls size and
+ * inode, so it survives truncation, rotation and the file not existing yet.
+ * Returns a function that stops following.
+ */
+export function followFile(file: string, from: number, handlers: FollowHandlers): () => void {
+  let offset = from;
+  let inode: number | null = null;
+  let partial = '';
+  // Keeps a multi-byte character split across two reads in one piece
+  let decoder = new StringDecoder('utf-8');
+  let stopped = false;
+  let busy = false;
+
+  const poll = async () => {
+    if (stopped || busy) return;
+    busy = true;
+    try {
+      const info = await stat(file).catch(() => null);
+      if (!info) return;
+
+      if (inode !== null && info.ino !== inode) {
+        offset = 0;
+        partial = '';
+        decoder = new StringDecoder('utf-8');
+        handlers.onReset();
+      } else if (info.size < offset) {
+        offset = 0;
+        partial = '';
+        decoder = new StringDecoder('utf-8');
+        handlers.onReset();
+      }
+      inode = info.ino;
+      if (info.size === offset) return;
+
+      const length = Math.min(info.size - offset, MAX_READ_BYTES);
+      const handle = await open(file, 'r');
+      try {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, offset);
+        offset += bytesRead;
+        const text = partial + decoder.write(buffer.subarray(0, bytesRead));
+        const lines = text.split('\n');
+        // Hold back an unfinished last line until its newline arrives
+        partial = lines.pop() ?? '';
+        if (lines.length > 0 && !stopped) handlers.onLines(lines);
+      } finally {
+        await handle.close();
+      }
+    } catch (err) {
+      console.error('Log follow error:', err);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const interval = setInterval(poll, POLL_MS);
+  poll();
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+  };
+}
+
+/**
+ * Parse the tail of each gateway log, apply the filter and return the newest
+ * `limit` matches in time order (lines without a timestamp keep their place).
+ */
+export async function queryLogs(
+  streams: LogStream[],
+  filter: LogFilter,
+  limit: number,
+): Promise<{ records: LogRecord[]; scanned: number }> {
+  let scanned = 0;
+  const keyed: { record: LogRecord; key: number }[] = [];
+
+  for (const stream of streams) {
+    const file = GATEWAY_LOGS[stream];
+    const size = await stat(file).then(s => s.size).catch(() => 0);
+    const lines = await readLastLines(file, SCAN_LINES, size).catch(() => []);
+    scanned += lines.length;
+
+    let lastTime = 0;
+    for (const record of parseLogLines(lines, stream)) {
+      if (record.timestamp !== null) lastTime = record.timestamp;
+      if (matchesFilter(record, filter)) keyed.push({ record, key: lastTime });
+    }
+  }
+
+  // Array sort is stable, so each file's own order survives the merge
+  keyed.sort((a, b) => a.key - b.key);
+  return { records: keyed.slice(-limit).map(k => k.record), scanned };
+}
@@ -0,0 +1,219 @@
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import os from 'os';
+import path from 'path';
+import si from 'systeminformation';
+import { getGatewayProcess, getMacMemory } from './system';
+import config from '../../clawtrol.config';
+
+const DATA_DIR = path.join(os.homedir(), '.openclaw', 'control-center');
+export const METRICS_FILE = path.join(DATA_DIR, 'metrics.json');
+
+const DEFAULT_INTERVAL_S = 15;
+const PERSIST_MS = 60_000;
+
+export interface MetricSample {
+  /** Start of the bucket (ms) */
+  t: number;
+  /** CPU load, percent */
+  cpu: number;
+  /** Memory used, percent */
+  memory: number;
+  /** Main disk used, percent */
+  disk: number;
+  /** °C, null when the sensor isn't readable */
+  temperature: number | null;
+  /** openclaw-gateway RSS in bytes, null when it isn't running */
+  gatewayRss: number | null;
+  /** openclaw-gateway CPU, percent */
+  gatewayCpu: number | null;
+}
+
+type SeriesKey = Exclude<keyof MetricSample, 't'>;
+const SERIES: SeriesKey[] = ['cpu', 'memory', 'disk', 'temperature', 'gatewayRss', 'gatewayCpu'];
+
+// Each window keeps averaged buckets of its own width, capped at `size`
+export const METRIC_WINDOWS = {
+  '1h': { step: 15_000, size: 240 },
+  '24h': { step: 5 * 60_000, size: 288 },
+  '7d': { step: 30 * 60_000, size: 336 },
+} as const;
+
+export type MetricWindow = keyof typeof METRIC_WINDOWS;
+
+interface Bucket {
+  start: number;
+  sums: Record<SeriesKey, number>;
+  counts: Record<SeriesKey, number>;
+}
+
+interface Tier {
+  points: MetricSample[];
+  pending: Bucket | null;
+}
+
+type Store = Record<MetricWindow, Tier>;
+
+// instrumentation.ts and the route handlers are bundled separately, so the
+// sampler's state lives on globalThis rather than in this module
+const shared = globalThis as typeof globalThis & { __clawtrolMetrics?: Store };
+
+function emptyStore(): Store {
+  return {
+    '1h': { points: [], pending: null },
+    '24h': { points: [], pending: null },
+    '7d': { points: [], pending: null },
+  };
+}
+
+function emptyBucket(start: number): Bucket {
+  const zero = () => Object.fromEntries(SERIES.map(k => [k, 0])) as Record<SeriesKey, number>;
+  return { start, sums: zero(), counts: zero() };
+}
+
+function average(bucket: Bucket): MetricSample {
+  const point: Record<string, number | null> = { t: bucket.start };
+  for (const key of SERIES) {
+    point[key] = bucket.counts[key] > 0 ? bucket.sums[key] / bucket.counts[key] : null;
+  }
+  return point as unknown as MetricSample;
+}
+
+function addSample(store: Store, sample: MetricSample) {
+  for (const [window, { step, size }] of Object.entries(METRIC_WINDOWS) as [MetricWindow, { step: number; size: number }][]) {
+    const tier = store[window];
+    const start = Math.floor(sample.t / step) * step;
+
+    if (tier.pending && tier.pending.start !== start) {
+      tier.points.push(average(tier.pending));
+      if (tier.points.length > size) tier.points.splice(0, tier.points.length - size);
+      tier.pending = null;
+    }
+    tier.pending ??= emptyBucket(start);
+
+    for (const key of SERIES) {
+      const value = sample[key];
+      if (value === null || !isFinite(value)) continue;
+      tier.pending.sums[key] += value;
+      tier.pending.counts[key]++;
+    }
+  }
+}
+
+async function collect(): Promise<MetricSample> {
+  const [load, mem, disks, temp, macMem, gateway] = await Promise.all([
+    si.currentLoad(),
+    si.mem(),
+    si.fsSize(),
+    si.cpuTemperature(),
+    getMacMemory(),
+    getGatewayProcess(),
+  ]);
+
+  // Same disk the System Stats widget shows
+  const mainDisk = disks.find(d => d.mount === '/' || d.mount.includes('Data'));
+
+  return {
+    t: Date.now(),
+    cpu: load.currentLoad,
+    memory: macMem ? macMem.usedPercent : (mem.used / mem.total) * 100,
+    disk: mainDisk?.use ?? 0,
+    temperature: typeof temp.main === 'number' && temp.main > 0 ? temp.main : null,
+    gatewayRss: gateway?.memory ?? null,
+    gatewayCpu: gateway?.cpu ?? null,
+  };
+}
+
+async function load(): Promise<Store> {
+  try {
+    const data = JSON.parse(await readFile(METRICS_FILE, 'utf-8'));
+    const loaded = emptyStore();
+    for (const window of Object.keys(METRIC_WINDOWS) as MetricWindow[]) {
+      if (Array.isArray(data.tiers?.[window]?.points)) {
+        loaded[window] = { points: data.tiers[window].points, pending: data.tiers[window].pending ?? null };
+      }
+    }
+    return loaded;
+  } catch {
+    return emptyStore();
+  }
+}
+
+async function persist(store: Store) {
+  try {
+    await mkdir(DATA_DIR, { recursive: true });
+    // Write-then-rename so a crash mid-write can't leave half a file; the tmp
+    // name is unique so a second dev server or a slow save can't share it
+    const tmp = `${METRICS_FILE}.${process.pid}.${randomBytes(3).toString('hex')}.tmp`;
+    await writeFile(tmp, JSON.stringify({ version: 1, savedAt: Date.now(), tiers: store }));
+    await rename(tmp, METRICS_FILE);
+  } catch (err) {
+    console.error('Metrics persist error:', err);
+  }
+}
+
+/**
+ * Start sampling in the background. Called once from instrumentation.ts;
+ * later calls are no-ops. Saved every minute, so a restart loses at most that.
+ */
+export async function startMetricsSampler() {
+  if (shared.__clawtrolMetrics || config.metrics?.enabled === false) return;
+  const store = emptyStore();
+  shared.__clawtrolMetrics = store;
+  Object.assign(store, await load());
+
+  const interval = Math.max(config.metrics?.interval ?? DEFAULT_INTERVAL_S, 5) * 1000;
+  let busy = false;
+  const sample = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      addSample(store, await collect());
+    } catch (err) {
+      console.error('Metrics sample error:', err);
+    } finally {
+      busy = false;
+    }
+  };
+
+  sample();
+  setInterval(sample, interval).unref();
+  setInterval(() => persist(store), PERSIST_MS).unref();
+}
+
+/**
+ * Samples for a window, oldest first, including the bucket still filling.
+ * With `points`, buckets are averaged down to at most that many.
+ */
+export function getMetrics(window: MetricWindow, points?: number): { step: number; samples: MetricSample[]; running: boolean } {
+  const { step, size } = METRIC_WINDOWS[window];
+  const store = shared.__clawtrolMetrics;
+  if (!store) return { step, samples: [], running: false };
+
+  const tier = store[window];
+  const cutoff = Date.now() - step * size;
+  let samples = [...tier.points, ...(tier.pending ? [average(tier.pending)] : [])].filter(s => s.t >= cutoff);
+  let effectiveStep: number = step;
+
+  if (points && points > 0 && samples.length > points) {
+    const factor = Math.ceil(samples.length / points);
+    const merged: MetricSample[] = [];
+    for (let i = 0; i < samples.length; i += factor) {
+      const group = samples.slice(i, i + factor);
+      const bucket = emptyBucket(group[0].t);
+      for (const s of group) {
+        for (const key of SERIES) {
+          const value = s[key];
+          if (value === null) continue;
+          bucket.sums[key] += value;
+          bucket.counts[key]++;
+        }
+      }
+      merged.push(average(bucket));
+    }
+    samples = merged;
+    effectiveStep = step * factor;
+  }
+
+  return { step: effectiveStep, samples, running: true };
+}
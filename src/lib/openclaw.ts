@@ -0,0 +1,32 @@
+import { readFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execSafe } from './security';
+import config from '../../clawtrol.config';
+
+export const OPENCLAW_CONFIG = config.openclaw?.configPath
+  ? config.openclaw.configPath.replace(/^~(?=\/|$)/, os.homedir())
+  : path.join(os.homedir(), '.openclaw', 'openclaw.json');
+export const DEFAULT_GATEWAY_PORT = 18789;
+
+/** Parsed openclaw.json, or {} when it's missing or unreadable */
+export async function readOpenclawConfig(): Promise<Record<string, any>> {
+  try {
+    return JSON.parse(await readFile(OPENCLAW_CONFIG, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Send a message through the openclaw CLI (`openclaw send [--to target] message`).
+ * Uses execFile, so the message is never shell-interpolated.
+ */
+export async function sendOpenclawMessage(message: string, target?: string) {
+  const args = ['send'];
+  if (target) {
+    args.push('--to', target);
+  }
+  args.push(message);
+  await execSafe('openclaw', args);
+}
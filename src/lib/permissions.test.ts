@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import { checkApiAccess, getRoleModules, hasRole } from './permissions';
+
+vi.mock('../../clawtrol.config', () => ({
+  default: { auth: { roles: { viewer: ['overview', 'sessions', 'logs'] } } },
+}));
+
+describe('hasRole', () => {
+  it('ranks viewer < operator < admin', () => {
+    expect(hasRole('admin', 'operator')).toBe(true);
+    expect(hasRole('operator', 'operator')).toBe(true);
+    expect(hasRole('viewer', 'operator')).toBe(false);
+  });
+});
+
+describe('getRoleModules', () => {
+  it('prefers the configured modules over the defaults', () => {
+    expect(getRoleModules('viewer')).toEqual(['overview', 'sessions', 'logs']);
+    expect(getRoleModules('operator')).not.toContain('audit');
+    expect(getRoleModules('admin')).toContain('audit');
+  });
+});
+
+describe('checkApiAccess', () => {
+  it('always lets anyone reach the auth routes', () => {
+    expect(checkApiAccess('viewer', 'POST', '/api/auth/login')).toBeNull();
+  });
+
+  it('lets viewers read modules they can see', () => {
+    expect(checkApiAccess('viewer', 'GET', '/api/sessions')).toBeNull();
+    expect(checkApiAccess('viewer', 'GET', '/api/gateway/logs')).toBeNull();
+  });
+
+  it('hides modules the role is not given', () => {
+    expect(checkApiAccess('viewer', 'GET', '/api/cron')).toBe('The viewer role cannot use the Cron module');
+    expect(checkApiAccess('operator', 'GET', '/api/audit')).toMatch(/cannot use the Audit/);
+  });
+
+  it('keeps viewers read-only', () => {
+    expect(checkApiAccess('viewer', 'POST', '/api/sessions/abc')).toBe('The viewer role is read-only');
+    expect(checkApiAccess('viewer', 'HEAD', '/api/sessions')).toBeNull();
+    expect(checkApiAccess('operator', 'POST', '/api/sessions/abc')).toBeNull();
+  });
+
+  it('uses the most specific prefix', () => {
+    expect(checkApiAccess('operator', 'POST', '/api/terminal')).toBeNull();
+    expect(checkApiAccess('operator', 'POST', '/api/terminal/pty')).toBe('Requires the admin role');
+    expect(checkApiAccess('admin', 'POST', '/api/terminal/pty')).toBeNull();
+    expect(checkApiAccess('operator', 'GET', '/api/usage/history')).toBeNull();
+  });
+
+  it('matches whole path segments only', () => {
+    // Not a child of /api/terminal/pty, so only the operator rule applies
+    expect(checkApiAccess('operator', 'POST', '/api/terminal/pty-other')).toBeNull();
+  });
+
+  it('falls back to the read-only rule for unlisted routes', () => {
+    expect(checkApiAccess('viewer', 'GET', '/api/system')).toBeNull();
+    expect(checkApiAccess('viewer', 'POST', '/api/system')).toBe('The viewer role is read-only');
+  });
+});
@@ -0,0 +1,102 @@
+import { MODULE_META } from './config';
+import type { ModuleId, Role } from './config';
+import config from '../../clawtrol.config';
+
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+const ALL_MODULES = Object.keys(MODULE_META) as ModuleId[];
+
+export const DEFAULT_ROLE_MODULES: Record<Role, ModuleId[]> = {
+  viewer: ['overview', 'sessions', 'tasks'],
+  operator: ALL_MODULES.filter(m => m !== 'audit'),
+  admin: ALL_MODULES,
+};
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export function getRoleModules(role: Role): ModuleId[] {
+  return config.auth?.roles?.[role] ?? DEFAULT_ROLE_MODULES[role];
+}
+
+export function canUseModule(role: Role, module: string): boolean {
+  return getRoleModules(role).includes(module as ModuleId);
+}
+
+interface ApiRule {
+  prefix: string;
+  /** Module whose tab must be visible to the role */
+  module?: ModuleId;
+  /** Minimum role for any method */
+  minRole?: Role;
+}
+
+// Most specific prefix first — the first match wins.
+// Routes not listed here (system, weather, plugins, …) are shared by the overview widgets.
+const API_RULES: ApiRule[] = [
+  { prefix: '/api/auth' },
+  // PTY shells are unrestricted login shells — the EXEC command policy can't reach them
+  { prefix: '/api/terminal/pty', module: 'terminal', minRole: 'admin' },
+  { prefix: '/api/terminal', module: 'terminal', minRole: 'operator' },
+  { prefix: '/api/processes/kill', module: 'memory', minRole: 'operator' },
+  { prefix: '/api/processes', module: 'memory' },
+  { prefix: '/api/actions/cleanup', module: 'memory', minRole: 'operator' },
+  { prefix: '/api/actions', minRole: 'operator' },
+  { prefix: '/api/screen/click', module: 'screen', minRole: 'operator' },
+  { prefix: '/api/screen', module: 'screen' },
+  { prefix: '/api/files', module: 'files' },
+  { prefix: '/api/sessions', module: 'sessions' },
+  { prefix: '/api/message', module: 'sessions' },
+  { prefix: '/api/usage/history', module: 'costs' },
+  { prefix: '/api/budgets', module: 'costs' },
+  { prefix: '/api/usage', module: 'sessions' },
+  { prefix: '/api/tasks', module: 'tasks' },
+  { prefix: '/api/cron', module: 'cron' },
+  { prefix: '/api/gateway/restart', minRole: 'admin' },
+  { prefix: '/api/gateway/logs', module: 'logs' },
+  { prefix: '/api/tailscale', module: 'network' },
+  { prefix: '/api/network', module: 'network' },
+  { prefix: '/api/subclawds', module: 'subagents' },
+  { prefix: '/api/audit', module: 'audit' },
+  { prefix: '/api/alerts', module: 'alerts' },
+];
+
+// Branches of /api/actions, checked by the route once the body is parsed
+export const ACTION_ROLES: Record<string, Role> = {
+  'pm2-restart': 'admin',
+  'pm2-stop': 'admin',
+  'pm2-start': 'admin',
+  'git-pull': 'admin',
+  'openclaw-update': 'admin',
+  'clear-logs': 'operator',
+};
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+/**
+ * Decide whether a role may call an API route. Viewers are read-only:
+ * anything other than GET/HEAD needs at least operator.
+ * Returns null when allowed, otherwise the reason it was denied.
+ */
+export function checkApiAccess(role: Role, method: string, pathname: string): string | null {
+  const rule = API_RULES.find(r => matchesPrefix(pathname, r.prefix));
+  if (rule?.prefix === '/api/auth') return null;
+
+  if (rule?.module && !canUseModule(role, rule.module)) {
+    return `The ${role} role cannot use the ${MODULE_META[rule.module].label} module`;
+  }
+  if (rule?.minRole && !hasRole(role, rule.minRole)) {
+    return `Requires the ${rule.minRole} role`;
+  }
+  if (method !== 'GET' && method !== 'HEAD' && !hasRole(role, 'operator')) {
+    return 'The viewer role is read-only';
+  }
+  return null;
+}
@@ -0,0 +1,74 @@
+import { randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { loadOrCreateKey, signWithKey } from './auth';
+import type { AuthUser } from './auth';
+import { hasRole } from './permissions';
+import config from '../../clawtrol.config';
+
+// Shared with bin/pty-server.mjs, which verifies the tickets we sign
+const KEY_FILE = path.join(os.homedir(), '.openclaw', 'control-center', 'pty-secret');
+const TICKET_TTL_SECONDS = 60;
+
+export const PTY_PORT = config.terminal?.ptyPort ?? 7683;
+const PTY_HOST = config.terminal?.ptyHost ?? '127.0.0.1';
+/** Where browsers open the WebSocket; unset means the dashboard's host on PTY_PORT */
+export const PTY_URL = config.terminal?.ptyUrl || null;
+/** Only browsers on this machine can reach a sidecar bound to loopback */
+export const PTY_LOOPBACK = /^(127\.|::1$|localhost$)/.test(PTY_HOST);
+export const SESSION_NAME = /^[a-zA-Z0-9_-]{1,32}$/;
+
+export interface PtySession {
+  name: string;
+  owner: string;
+  pid: number;
+  cols: number;
+  rows: number;
+  clients: number;
+  createdAt: number;
+  lastActivity: number;
+}
+
+let keyPromise: Promise<Buffer> | null = null;
+
+function getKey(): Promise<Buffer> {
+  if (process.env.CLAWTROL_PTY_SECRET) return Promise.resolve(Buffer.from(process.env.CLAWTROL_PTY_SECRET));
+  if (!keyPromise) {
+    keyPromise = loadOrCreateKey(KEY_FILE).catch((err) => {
+      keyPromise = null;
+      throw err;
+    });
+  }
+  return keyPromise;
+}
+
+// `jti` lets the sidecar refuse a ticket it has already seen
+async function ticket(payload: object): Promise<string> {
+  const exp = Math.floor(Date.now() / 1000) + TICKET_TTL_SECONDS;
+  return signWithKey({ ...payload, exp, jti: randomUUID() }, await getKey());
+}
+
+/**
+ * Ticket the browser presents when opening the WebSocket to the sidecar.
+ */
+export function createAttachTicket(user: AuthUser, session: string, cols: number, rows: number): Promise<string> {
+  return ticket({ scope: 'attach', sub: user.username, session, cols, rows });
+}
+
+/**
+ * Call the sidecar's management API on behalf of `user`.
+ * Admins can see and kill every user's shells.
+ */
+export async function ptyRequest<T>(user: AuthUser, pathname: string, init: RequestInit = {}): Promise<T> {
+  const token = await ticket({ scope: 'manage', sub: user.username, admin: hasRole(user.role, 'admin') });
+  // A sidecar listening on every interface is still reachable on loopback
+  const host = PTY_HOST === '0.0.0.0' || PTY_HOST === '::' ? '127.0.0.1' : PTY_HOST;
+  const res = await fetch(`http://${host.includes(':') ? `[${host}]` : host}:${PTY_PORT}${pathname}`, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${token}` },
+    signal: AbortSignal.timeout(5000),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `PTY server returned ${res.status}`);
+  return data as T;
+}
@@ -0,0 +1,257 @@
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { randomBytes, randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { getScreenBackend, SCREEN_ACTION_TYPES, type ScreenActionType } from './screen';
+import { recordScreenEvent } from './screen-recorder';
+
+const DATA_DIR = path.join(os.homedir(), '.openclaw', 'control-center');
+export const MACROS_FILE = path.join(DATA_DIR, 'macros.json');
+
+const MAX_STEPS = 500;
+const MAX_WAIT_MS = 60000;
+const MAX_TEXT = 2000;
+// Breathing room between actions so the UI under automation can keep up
+const STEP_GAP_MS = 50;
+// A run still going after this is cancelled (500 steps of 60 s waits would be 8 hours)
+export const MAX_RUN_MS = 15 * 60 * 1000;
+
+export type MacroStep =
+  | { type: ScreenActionType; x?: number; y?: number; text?: string }
+  | { type: 'wait'; ms: number };
+
+export interface Macro {
+  id: string;
+  name: string;
+  description?: string;
+  steps: MacroStep[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Where a pointer step would land — what a dry run reports */
+export interface MacroPoint {
+  step: number;
+  type: ScreenActionType;
+  x: number;
+  y: number;
+}
+
+export interface MacroRun {
+  id: string;
+  macroId: string;
+  name: string;
+  step: number;
+  total: number;
+  startedAt: number;
+  cancelled: boolean;
+  /** Set once the run is over, along with the outcome */
+  finishedAt?: number;
+  completed?: number;
+  timedOut?: boolean;
+  error?: string;
+}
+
+const POINTER_TYPES = new Set<ScreenActionType>(['click', 'hover', 'doubleclick', 'rightclick', 'clicktype']);
+
+// Only one macro drives the screen at a time; shared so any route can cancel it.
+// The last finished run stays around so callers can collect its outcome.
+// Edits to macros.json queue up behind each other.
+const shared = globalThis as typeof globalThis & {
+  __clawtrolMacroRun?: MacroRun;
+  __clawtrolLastMacroRun?: MacroRun;
+  __clawtrolMacrosWrite?: Promise<unknown>;
+};
+
+async function loadMacros(): Promise<Macro[]> {
+  try {
+    const data = JSON.parse(await readFile(MACROS_FILE, 'utf-8'));
+    return Array.isArray(data.macros) ? data.macros : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveMacros(macros: Macro[]) {
+  await mkdir(DATA_DIR, { recursive: true });
+  const tmp = `${MACROS_FILE}.${process.pid}.${randomBytes(3).toString('hex')}.tmp`;
+  await writeFile(tmp, JSON.stringify({ macros }, null, 2));
+  await rename(tmp, MACROS_FILE);
+}
+
+/**
+ * Run a load-change-save of macros.json after any edit already in flight,
+ * so two saves can't each drop the other's change.
+ */
+function editMacros<T>(edit: (macros: Macro[]) => Promise<T>): Promise<T> {
+  const next = (shared.__clawtrolMacrosWrite ?? Promise.resolve()).catch(() => {}).then(async () => edit(await loadMacros()));
+  shared.__clawtrolMacrosWrite = next;
+  return next;
+}
+
+/**
+ * Check and normalize steps from a request body. Throws with the offending
+ * step number so the editor can point at it.
+ */
+export function validateSteps(input: unknown): MacroStep[] {
+  if (!Array.isArray(input) || input.length === 0) throw new Error('A macro needs at least one step');
+  if (input.length > MAX_STEPS) throw new Error(`A macro can have at most ${MAX_STEPS} steps`);
+
+  return input.map((raw, i): MacroStep => {
+    const step = raw as Record<string, unknown>;
+    if (step?.type === 'wait') {
+      const ms = Math.round(Number(step.ms));
+      if (!(ms >= 0 && ms <= MAX_WAIT_MS)) throw new Error(`Step ${i + 1}: wait must be 0–${MAX_WAIT_MS} ms`);
+      return { type: 'wait', ms };
+    }
+    if (!SCREEN_ACTION_TYPES.includes(step?.type as ScreenActionType)) {
+      throw new Error(`Step ${i + 1}: unknown action "${step?.type}"`);
+    }
+    const type = step.type as ScreenActionType;
+    const out: MacroStep = { type };
+    if (POINTER_TYPES.has(type)) {
+      const x = Math.round(Number(step.x));
+      const y = Math.round(Number(step.y));
+      if (!Number.isFinite(x) || !Number.isFinite(y)) throw new Error(`Step ${i + 1}: ${type} needs x and y`);
+      out.x = x;
+      out.y = y;
+    }
+    if (step.text !== undefined && step.text !== '') {
+      if (typeof step.text !== 'string' || step.text.length > MAX_TEXT) throw new Error(`Step ${i + 1}: invalid text`);
+      out.text = step.text;
+    } else if (type !== 'click' && type !== 'hover' && type !== 'doubleclick' && type !== 'rightclick') {
+      throw new Error(`Step ${i + 1}: ${type} needs text`);
+    }
+    return out;
+  });
+}
+
+export async function listMacros(): Promise<Macro[]> {
+  return (await loadMacros()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** By id, or by name (case-insensitive) for the CLI */
+export async function findMacro(idOrName: string): Promise<Macro | null> {
+  const macros = await loadMacros();
+  const lower = idOrName.toLowerCase();
+  return macros.find(m => m.id === idOrName) ?? macros.find(m => m.name.toLowerCase() === lower) ?? null;
+}
+
+export async function saveMacro(input: { id?: string; name: string; description?: string; steps: unknown }): Promise<Macro> {
+  const name = input.name?.trim();
+  if (!name) throw new Error('Name required');
+  const steps = validateSteps(input.steps);
+
+  return editMacros(async (macros) => {
+    const clash = macros.find(m => m.name.toLowerCase() === name.toLowerCase() && m.id !== input.id);
+    if (clash) throw new Error(`A macro named "${clash.name}" already exists`);
+
+    const now = Date.now();
+    const existing = input.id ? macros.find(m => m.id === input.id) : undefined;
+    if (input.id && !existing) throw new Error('Macro not found');
+
+    const macro: Macro = {
+      id: existing?.id ?? randomUUID(),
+      name,
+      description: input.description?.trim() || undefined,
+      steps,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await saveMacros(existing ? macros.map(m => (m.id === macro.id ? macro : m)) : [...macros, macro]);
+    return macro;
+  });
+}
+
+export function deleteMacro(id: string): Promise<boolean> {
+  return editMacros(async (macros) => {
+    const next = macros.filter(m => m.id !== id);
+    if (next.length === macros.length) return false;
+    await saveMacros(next);
+    return true;
+  });
+}
+
+/** Pointer steps with their coordinates, in order — nothing is sent. */
+export function planMacro(macro: Macro): MacroPoint[] {
+  return macro.steps.flatMap((step, i) => (
+    step.type !== 'wait' && POINTER_TYPES.has(step.type)
+      ? [{ step: i + 1, type: step.type, x: step.x ?? 0, y: step.y ?? 0 }]
+      : []
+  ));
+}
+
+export function getMacroRun(): MacroRun | null {
+  return shared.__clawtrolMacroRun ?? null;
+}
+
+export function getLastMacroRun(): MacroRun | null {
+  return shared.__clawtrolLastMacroRun ?? null;
+}
+
+/** A run by id, whether it's still playing or just finished */
+export function findMacroRun(id: string): MacroRun | null {
+  return [shared.__clawtrolMacroRun, shared.__clawtrolLastMacroRun].find(run => run?.id === id) ?? null;
+}
+
+export function cancelMacroRun(): boolean {
+  const run = shared.__clawtrolMacroRun;
+  if (!run) return false;
+  run.cancelled = true;
+  return true;
+}
+
+/**
+ * Start playing the steps through the screen backend and return right away;
+ * follow the run with findMacroRun. It stops at the first failing step, on
+ * cancel, or after MAX_RUN_MS.
+ */
+export function startMacroRun(macro: Macro): MacroRun {
+  if (shared.__clawtrolMacroRun) throw new Error(`Macro "${shared.__clawtrolMacroRun.name}" is already running`);
+
+  const run: MacroRun = { id: randomUUID(), macroId: macro.id, name: macro.name, step: 0, total: macro.steps.length, startedAt: Date.now(), cancelled: false };
+  shared.__clawtrolMacroRun = run;
+  const deadline = setTimeout(() => {
+    run.timedOut = true;
+    run.cancelled = true;
+  }, MAX_RUN_MS);
+  deadline.unref();
+
+  playSteps(macro, run)
+    .then(completed => { run.completed = completed; })
+    .catch(err => {
+      run.completed = run.step - 1;
+      run.error = err instanceof Error ? err.message : String(err);
+    })
+    .finally(() => {
+      clearTimeout(deadline);
+      run.finishedAt = Date.now();
+      shared.__clawtrolLastMacroRun = run;
+      shared.__clawtrolMacroRun = undefined;
+    });
+  return run;
+}
+
+async function playSteps(macro: Macro, run: MacroRun): Promise<number> {
+  const backend = getScreenBackend();
+  for (const step of macro.steps) {
+    if (run.cancelled) break;
+    run.step++;
+    if (step.type === 'wait') {
+      // Sliced so a cancel doesn't have to sit out a long wait
+      for (let left = step.ms; left > 0 && !run.cancelled; left -= 250) {
+        await new Promise(r => setTimeout(r, Math.min(250, left)));
+      }
+      continue;
+    }
+    const action = { type: step.type, x: step.x ?? 0, y: step.y ?? 0, text: step.text };
+    try {
+      await backend.input(action);
+    } catch (err) {
+      throw new Error(`Step ${run.step} (${step.type}) failed: ${err instanceof Error ? err.message : err}`);
+    }
+    recordScreenEvent(action);
+    await new Promise(r => setTimeout(r, STEP_GAP_MS));
+  }
+  return run.cancelled ? run.step - 1 : run.step;
+}
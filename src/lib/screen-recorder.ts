@@ -0,0 +1,254 @@
+import { readFile, writeFile, rename, mkdir, readdir, rm, stat } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { getScreenBackend, type ScreenAction, type ScreenActionType, type ScreenDims } from './screen';
+
+const DATA_DIR = path.join(os.homedir(), '.openclaw', 'control-center');
+export const RECORDINGS_DIR = path.join(DATA_DIR, 'recordings');
+
+const MANIFEST = 'recording.json';
+const DEFAULT_INTERVAL_S = 1;
+const DEFAULT_MAX_MINUTES = 30;
+const MAX_CONSECUTIVE_ERRORS = 5;
+const FRAME_WIDTH = 1280;
+const FRAME_QUALITY = 60;
+
+export const RECORDING_ID = /^[\w-]+$/;
+const FRAME_FILE = /^\d{6}\.jpg$/;
+
+export interface RecordingFrame {
+  /** ms since the recording started */
+  t: number;
+  file: string;
+}
+
+export interface RecordingEvent {
+  t: number;
+  type: ScreenActionType;
+  x: number;
+  y: number;
+  /** Key or shortcut name; typed text is never stored */
+  text?: string;
+  /** Length of typed text */
+  chars?: number;
+}
+
+export interface Recording {
+  id: string;
+  name: string;
+  owner: string;
+  startedAt: number;
+  endedAt: number | null;
+  /** Capture interval, ms */
+  interval: number;
+  backend: string;
+  screenDims: ScreenDims;
+  stoppedBy?: 'user' | 'limit' | 'error';
+  error?: string;
+  frames: RecordingFrame[];
+  events: RecordingEvent[];
+}
+
+export type RecordingSummary = Omit<Recording, 'frames' | 'events'> & {
+  frameCount: number;
+  eventCount: number;
+  /** Last frame time, ms */
+  duration: number;
+};
+
+interface ActiveRecording {
+  recording: Recording;
+  dir: string;
+  timer?: ReturnType<typeof setTimeout>;
+  lastFrame: Buffer | null;
+  stopAt: number;
+  errors: number;
+}
+
+// The click route is bundled apart from the recordings route, so the
+// active recording lives on globalThis where both can reach it.
+// `Starting` holds the slot while a start is still awaiting the backend.
+const shared = globalThis as typeof globalThis & { __clawtrolRecording?: ActiveRecording; __clawtrolRecordingStarting?: boolean };
+
+function summarize(recording: Recording): RecordingSummary {
+  const { frames, events, ...rest } = recording;
+  return {
+    ...rest,
+    frameCount: frames.length,
+    eventCount: events.length,
+    duration: frames.length ? frames[frames.length - 1].t : 0,
+  };
+}
+
+async function saveManifest(dir: string, recording: Recording) {
+  const file = path.join(dir, MANIFEST);
+  // Unique tmp name: a capture tick and stop() can save at the same moment
+  const tmp = `${file}.${randomBytes(3).toString('hex')}.tmp`;
+  await writeFile(tmp, JSON.stringify(recording));
+  await rename(tmp, file);
+}
+
+function recordingDir(id: string): string {
+  if (!RECORDING_ID.test(id)) throw new Error('Invalid recording id');
+  return path.join(RECORDINGS_DIR, id);
+}
+
+async function captureFrame(active: ActiveRecording) {
+  const { recording } = active;
+  const jpeg = await getScreenBackend().capture({ width: FRAME_WIDTH, quality: FRAME_QUALITY });
+  // An idle screen encodes to the same bytes — playback just holds the last frame
+  if (active.lastFrame?.equals(jpeg)) return;
+
+  const file = `${String(recording.frames.length + 1).padStart(6, '0')}.jpg`;
+  await writeFile(path.join(active.dir, file), jpeg);
+  recording.frames.push({ t: Date.now() - recording.startedAt, file });
+  active.lastFrame = jpeg;
+}
+
+async function tick(active: ActiveRecording) {
+  if (shared.__clawtrolRecording !== active) return;
+  const started = Date.now();
+
+  try {
+    await captureFrame(active);
+    active.errors = 0;
+  } catch (err) {
+    active.errors++;
+    active.recording.error = err instanceof Error ? err.message : String(err);
+    if (active.errors >= MAX_CONSECUTIVE_ERRORS) {
+      await stopRecording('error');
+      return;
+    }
+  }
+
+  if (Date.now() >= active.stopAt) {
+    await stopRecording('limit');
+    return;
+  }
+
+  // stop() may have run while we were capturing; it saves the final manifest
+  if (shared.__clawtrolRecording !== active) return;
+  await saveManifest(active.dir, active.recording).catch(err => console.error('Recording persist error:', err));
+  active.timer = setTimeout(() => tick(active), Math.max(0, active.recording.interval - (Date.now() - started)));
+}
+
+export function getActiveRecording(): RecordingSummary | null {
+  const active = shared.__clawtrolRecording;
+  return active ? summarize(active.recording) : null;
+}
+
+interface RecordingOptions {
+  name?: string;
+  interval?: number;
+  maxMinutes?: number;
+  owner: string;
+}
+
+/**
+ * Start capturing frames every `interval` seconds until stopped or
+ * `maxMinutes` pass. Only one recording runs at a time.
+ */
+export async function startRecording(options: RecordingOptions): Promise<RecordingSummary> {
+  if (shared.__clawtrolRecording || shared.__clawtrolRecordingStarting) throw new Error('A recording is already running');
+  shared.__clawtrolRecordingStarting = true;
+  try {
+    return await beginRecording(options);
+  } finally {
+    shared.__clawtrolRecordingStarting = false;
+  }
+}
+
+async function beginRecording(options: RecordingOptions): Promise<RecordingSummary> {
+  const backend = getScreenBackend();
+  const startedAt = Date.now();
+  const stamp = new Date(startedAt).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const id = `${stamp}-${randomBytes(2).toString('hex')}`;
+  const interval = Math.min(60, Math.max(0.25, options.interval ?? DEFAULT_INTERVAL_S)) * 1000;
+  const maxMinutes = Math.min(240, Math.max(1, options.maxMinutes ?? DEFAULT_MAX_MINUTES));
+
+  const recording: Recording = {
+    id,
+    name: options.name?.trim() || `Recording ${new Date(startedAt).toLocaleString()}`,
+    owner: options.owner,
+    startedAt,
+    endedAt: null,
+    interval,
+    backend: backend.name,
+    screenDims: await backend.dimensions(),
+    frames: [],
+    events: [],
+  };
+
+  const dir = recordingDir(id);
+  await mkdir(dir, { recursive: true });
+  await saveManifest(dir, recording);
+
+  const active: ActiveRecording = { recording, dir, lastFrame: null, stopAt: startedAt + maxMinutes * 60000, errors: 0 };
+  shared.__clawtrolRecording = active;
+  tick(active);
+  return summarize(recording);
+}
+
+export async function stopRecording(reason: Recording['stoppedBy'] = 'user'): Promise<RecordingSummary | null> {
+  const active = shared.__clawtrolRecording;
+  if (!active) return null;
+  shared.__clawtrolRecording = undefined;
+  clearTimeout(active.timer);
+
+  active.recording.endedAt = Date.now();
+  active.recording.stoppedBy = reason;
+  await saveManifest(active.dir, active.recording);
+  return summarize(active.recording);
+}
+
+/**
+ * Note an interaction from /api/screen/click on the running recording, if any.
+ */
+export function recordScreenEvent(action: ScreenAction) {
+  const active = shared.__clawtrolRecording;
+  if (!active) return;
+  const typed = action.type === 'type' || action.type === 'clicktype';
+  active.recording.events.push({
+    t: Date.now() - active.recording.startedAt,
+    type: action.type,
+    x: action.x,
+    y: action.y,
+    ...(typed ? { chars: action.text?.length ?? 0 } : action.text ? { text: action.text } : {}),
+  });
+}
+
+export async function listRecordings(): Promise<RecordingSummary[]> {
+  const active = shared.__clawtrolRecording;
+  const entries = await readdir(RECORDINGS_DIR).catch(() => [] as string[]);
+  const summaries = await Promise.all(entries.filter(e => RECORDING_ID.test(e)).map(async (id) => {
+    if (active?.recording.id === id) return summarize(active.recording);
+    const recording = await getRecording(id);
+    return recording ? summarize(recording) : null;
+  }));
+  return summaries.filter((s): s is RecordingSummary => s !== null).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getRecording(id: string): Promise<Recording | null> {
+  const active = shared.__clawtrolRecording;
+  if (active?.recording.id === id) return active.recording;
+  try {
+    return JSON.parse(await readFile(path.join(recordingDir(id), MANIFEST), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+export async function readRecordingFrame(id: string, file: string): Promise<Buffer | null> {
+  if (!FRAME_FILE.test(file)) return null;
+  return readFile(path.join(recordingDir(id), file)).catch(() => null);
+}
+
+export async function deleteRecording(id: string): Promise<boolean> {
+  if (shared.__clawtrolRecording?.recording.id === id) throw new Error('Stop the recording before deleting it');
+  const dir = recordingDir(id);
+  const exists = await stat(dir).then(() => true, () => false);
+  if (!exists) return false;
+  await rm(dir, { recursive: true, force: true });
+  return true;
+}
@@ -0,0 +1,163 @@
+import sharp from 'sharp';
+
+// Dirty-region grid; a multiple of 16 so JPEG blocks never straddle tiles
+const TILE = 64;
+// Resync periodically in case a client dropped a patch
+const KEYFRAME_INTERVAL_MS = 30000;
+// Past this share of changed tiles a full frame is cheaper than patches
+const FULL_FRAME_RATIO = 0.5;
+
+export interface StreamOptions {
+  fps: number;
+  quality: number;
+  width: number;
+}
+
+const LIMITS: Record<keyof StreamOptions, { min: number; max: number; fallback: number }> = {
+  fps: { min: 0.2, max: 10, fallback: 2 },
+  quality: { min: 20, max: 90, fallback: 60 },
+  width: { min: 320, max: 1920, fallback: 1280 },
+};
+
+/**
+ * Read fps / quality / width from a query string, clamped to sane ranges.
+ */
+export function parseStreamOptions(params: URLSearchParams): StreamOptions {
+  const read = (key: keyof StreamOptions) => {
+    const { min, max, fallback } = LIMITS[key];
+    const value = Number(params.get(key));
+    return params.has(key) && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+  };
+  return { fps: read('fps'), quality: Math.round(read('quality')), width: Math.round(read('width')) };
+}
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** JPEG data URL */
+  image: string;
+}
+
+export interface StreamFrame {
+  seq: number;
+  width: number;
+  height: number;
+  /** Whole frame — the client should reset its canvas */
+  keyframe: boolean;
+  rects: FrameRect[];
+}
+
+const toDataUrl = (jpeg: Buffer) => `data:image/jpeg;base64,${jpeg.toString('base64')}`;
+
+/**
+ * Turns a sequence of full-screen JPEGs into keyframes and changed-region
+ * patches. Compares against the last frame handed out, so skipping captures
+ * under back-pressure never leaves the client out of sync.
+ */
+export class FrameDiffer {
+  private previous: Buffer | null = null;
+  private width = 0;
+  private height = 0;
+  private seq = 0;
+  private lastKeyframe = 0;
+
+  constructor(private quality: number) {}
+
+  /** Returns null when nothing changed since the last frame. */
+  async next(jpeg: Buffer): Promise<StreamFrame | null> {
+    const { data, info } = await sharp(jpeg).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+    const { width, height } = info;
+
+    const keyframe = !this.previous
+      || width !== this.width
+      || height !== this.height
+      || Date.now() - this.lastKeyframe > KEYFRAME_INTERVAL_MS;
+
+    const dirty = keyframe ? null : this.dirtyRects(data, width, height, info.channels);
+    if (dirty && dirty.rects.length === 0) return null;
+
+    this.previous = data;
+    this.width = width;
+    this.height = height;
+    this.seq++;
+
+    if (!dirty || dirty.ratio > FULL_FRAME_RATIO) {
+      this.lastKeyframe = Date.now();
+      return {
+        seq: this.seq, width, height, keyframe: true,
+        rects: [{ x: 0, y: 0, w: width, h: height, image: toDataUrl(jpeg) }],
+      };
+    }
+
+    const raw = { width, height, channels: info.channels };
+    const rects = await Promise.all(dirty.rects.map(async (r) => {
+      const patch = await sharp(data, { raw })
+        .extract({ left: r.x, top: r.y, width: r.w, height: r.h })
+        .jpeg({ quality: this.quality })
+        .toBuffer();
+      return { ...r, image: toDataUrl(patch) };
+    }));
+    return { seq: this.seq, width, height, keyframe: false, rects };
+  }
+
+  /**
+   * Changed tiles, merged into horizontal runs and then stacked vertically
+   * where runs line up.
+   */
+  private dirtyRects(data: Buffer, width: number, height: number, bpp: number) {
+    const prev = this.previous!;
+    const stride = width * bpp;
+    const cols = Math.ceil(width / TILE);
+    const rows = Math.ceil(height / TILE);
+
+    const tileChanged = (tx: number, ty: number) => {
+      const x0 = tx * TILE * bpp;
+      const x1 = Math.min(width, (tx + 1) * TILE) * bpp;
+      for (let y = ty * TILE; y < Math.min(height, (ty + 1) * TILE); y++) {
+        const start = y * stride;
+        if (!data.subarray(start + x0, start + x1).equals(prev.subarray(start + x0, start + x1))) return true;
+      }
+      return false;
+    };
+
+    const rects: Omit<FrameRect, 'image'>[] = [];
+    let open = new Map<string, Omit<FrameRect, 'image'>>();
+    let changed = 0;
+
+    for (let ty = 0; ty < rows; ty++) {
+      const next = new Map<string, Omit<FrameRect, 'image'>>();
+      const y = ty * TILE;
+      const h = Math.min(TILE, height - y);
+      let runStart = -1;
+
+      for (let tx = 0; tx <= cols; tx++) {
+        const isDirty = tx < cols && tileChanged(tx, ty);
+        if (isDirty) {
+          changed++;
+          if (runStart < 0) runStart = tx;
+          continue;
+        }
+        if (runStart < 0) continue;
+
+        const x = runStart * TILE;
+        const w = Math.min(width, tx * TILE) - x;
+        const key = `${x}:${w}`;
+        const above = open.get(key);
+        if (above) {
+          above.h += h;
+          next.set(key, above);
+        } else {
+          const rect = { x, y, w, h };
+          rects.push(rect);
+          next.set(key, rect);
+        }
+        runStart = -1;
+      }
+      open = next;
+    }
+
+    return { rects, ratio: changed / (cols * rows) };
+  }
+}
@@ -0,0 +1,390 @@
+import { execFile, spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { promisify } from 'util';
+import { existsSync } from 'fs';
+import { readFile, unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import config from '../../clawtrol.config';
+import { execSafe } from './security';
+
+const execFileAsync = promisify(execFile);
+
+// Snapshot defaults: downscaled to this width and sent as JPEG
+const CAPTURE_WIDTH = 1280;
+const CAPTURE_QUALITY = 60;
+const MAX_CAPTURE_BYTES = 32 * 1024 * 1024;
+const XVFB_START_TIMEOUT_MS = 5000;
+
+export interface ScreenDims {
+  logicalWidth: number;
+  logicalHeight: number;
+}
+
+export const SCREEN_ACTION_TYPES = [
+  'click', 'hover', 'doubleclick', 'rightclick', 'type', 'clicktype', 'key', 'shortcut', 'scroll',
+] as const;
+
+export type ScreenActionType = typeof SCREEN_ACTION_TYPES[number];
+
+/**
+ * One remote interaction. Key names follow cliclick (`return`, `arrow-up`, …)
+ * and shortcuts are written `cmd+a`; backends translate as needed.
+ */
+export interface ScreenAction {
+  type: ScreenActionType;
+  x: number;
+  y: number;
+  text?: string;
+}
+
+export interface CaptureOptions {
+  /** Maximum output width in pixels (default: 1280) */
+  width?: number;
+  /** JPEG quality 1–100 (default: 60) */
+  quality?: number;
+}
+
+export interface ScreenBackend {
+  name: 'macos' | 'x11';
+  /** JPEG of the whole screen, scaled down to `width` */
+  capture(options?: CaptureOptions): Promise<Buffer>;
+  dimensions(): Promise<ScreenDims>;
+  input(action: ScreenAction): Promise<void>;
+}
+
+const FALLBACK_DIMS: ScreenDims = { logicalWidth: 1920, logicalHeight: 1080 };
+
+const pause = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// ── macOS ────────────────────────────────────────────────────────────
+
+/**
+ * Run an AppleScript safely via stdin (no shell interpolation).
+ */
+async function runAppleScript(script: string): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const child = execFile('osascript', ['-'], { timeout: 10000 }, (err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+    child.stdin?.write(script);
+    child.stdin?.end();
+  });
+}
+
+const macosBackend: ScreenBackend = {
+  name: 'macos',
+
+  async capture({ width = CAPTURE_WIDTH, quality = CAPTURE_QUALITY } = {}) {
+    // Captures can overlap (recorder tick plus a snapshot), so never share a name
+    const id = randomUUID();
+    const tempRaw = join(tmpdir(), `screen-raw-${id}.png`);
+    const tempOut = join(tmpdir(), `screen-${id}.jpg`);
+    try {
+      await execSafe('screencapture', ['-x', '-t', 'png', '-C', tempRaw], { timeout: 10000 });
+      await execSafe('sips', [
+        '--resampleWidth', String(width),
+        '-s', 'format', 'jpeg',
+        '-s', 'formatOptions', String(quality),
+        tempRaw, '--out', tempOut,
+      ], { timeout: 10000 });
+      return await readFile(tempOut);
+    } finally {
+      await Promise.all([unlink(tempRaw).catch(() => {}), unlink(tempOut).catch(() => {})]);
+    }
+  },
+
+  async dimensions() {
+    // Primary: CoreGraphics via swift (works with or without monitor)
+    try {
+      const { stdout } = await execSafe('swift', [
+        '-e',
+        'import CoreGraphics; let id = CGMainDisplayID(); print("\\(CGDisplayPixelsWide(id)) \\(CGDisplayPixelsHigh(id))")',
+      ], { timeout: 5000 });
+      const parts = stdout.trim().split(' ');
+      if (parts.length === 2) {
+        return { logicalWidth: parseInt(parts[0]), logicalHeight: parseInt(parts[1]) };
+      }
+    } catch {}
+
+    // Fallback: Finder bounds
+    try {
+      const { stdout } = await execSafe('osascript', ['-e', 'tell application "Finder" to get bounds of window of desktop'], { timeout: 5000 });
+      const parts = stdout.trim().split(',').map(s => parseInt(s.trim()));
+      return { logicalWidth: parts[2] || 1920, logicalHeight: parts[3] || 1080 };
+    } catch {}
+
+    return FALLBACK_DIMS;
+  },
+
+  async input({ type, x, y, text }) {
+    switch (type) {
+      case 'click':
+        await execSafe('cliclick', [`c:${x},${y}`]);
+        break;
+      case 'hover':
+        await execSafe('cliclick', [`m:${x},${y}`]);
+        break;
+      case 'doubleclick':
+        await execSafe('cliclick', [`dc:${x},${y}`]);
+        break;
+      case 'rightclick':
+        await execSafe('cliclick', [`rc:${x},${y}`]);
+        break;
+      case 'type':
+        if (text) await execSafe('cliclick', [`t:${text}`]);
+        break;
+      case 'clicktype':
+        if (text) {
+          await execSafe('cliclick', [`c:${x},${y}`]);
+          await pause(150);
+          await execSafe('cliclick', [`t:${text}`]);
+        }
+        break;
+      case 'key':
+        if (text) {
+          // Validate key name is safe (alphanumeric + dashes)
+          const safeKey = text.replace(/[^a-zA-Z0-9-]/g, '');
+          await execSafe('cliclick', [`kp:${safeKey}`]);
+        }
+        break;
+      case 'shortcut':
+        if (text) {
+          const parts = text.split('+');
+          const key = parts.pop()?.replace(/[^a-zA-Z0-9]/g, '') || '';
+          const map: Record<string, string> = { cmd: 'command', ctrl: 'control', alt: 'option', shift: 'shift' };
+          const modStr = parts
+            .map(m => map[m.toLowerCase()])
+            .filter(Boolean)
+            .map(m => `${m} down`)
+            .join(', ');
+          await runAppleScript(modStr
+            ? `tell application "System Events" to keystroke "${key}" using {${modStr}}`
+            : `tell application "System Events" to keystroke "${key}"`);
+        }
+        break;
+      case 'scroll':
+        if (text) {
+          const keyCode = text === 'up' ? '126' : '125';
+          await runAppleScript(`tell application "System Events" to key code ${keyCode}`);
+        }
+        break;
+    }
+  },
+};
+
+// ── X11 (and Xvfb) ───────────────────────────────────────────────────
+
+// cliclick key names → X keysyms
+const X11_KEYS: Record<string, string> = {
+  return: 'Return',
+  enter: 'KP_Enter',
+  delete: 'BackSpace',
+  'fwd-delete': 'Delete',
+  escape: 'Escape',
+  tab: 'Tab',
+  space: 'space',
+  home: 'Home',
+  end: 'End',
+  'page-up': 'Prior',
+  'page-down': 'Next',
+  'arrow-up': 'Up',
+  'arrow-down': 'Down',
+  'arrow-left': 'Left',
+  'arrow-right': 'Right',
+};
+
+// There is no Command key on X — cmd+c means ctrl+c there
+const X11_MODIFIERS: Record<string, string> = { cmd: 'ctrl', ctrl: 'ctrl', alt: 'alt', shift: 'shift', super: 'super' };
+
+function toKeysym(name: string): string {
+  const lower = name.toLowerCase();
+  if (X11_KEYS[lower]) return X11_KEYS[lower];
+  if (/^f\d{1,2}$/.test(lower)) return lower.toUpperCase();
+  return name.replace(/[^a-zA-Z0-9_]/g, '');
+}
+
+// Shared across route bundles so only one Xvfb is ever spawned
+const shared = globalThis as typeof globalThis & { __clawtrolXvfb?: Promise<void> };
+
+function displaySocket(display: string): string {
+  return `/tmp/.X11-unix/X${display.replace(/^.*:/, '').split('.')[0]}`;
+}
+
+/**
+ * Start Xvfb on `display` unless something is already listening there,
+ * then launch the configured session inside it.
+ */
+function ensureXvfb(display: string): Promise<void> {
+  if (shared.__clawtrolXvfb) return shared.__clawtrolXvfb;
+  const xvfb = config.screen?.xvfb ?? {};
+  const started: Promise<void> = new Promise<void>((resolve, reject) => {
+    const socket = displaySocket(display);
+    if (existsSync(socket)) return resolve();
+
+    const server = spawn('Xvfb', [display, '-screen', '0', `${xvfb.size ?? '1920x1080'}x24`, '-nolisten', 'tcp'], {
+      detached: true,
+      stdio: 'ignore',
+    });
+    server.unref();
+    server.on('error', (err: NodeJS.ErrnoException) => {
+      reject(err.code === 'ENOENT' ? new Error('Xvfb is not installed (apt install xvfb)') : err);
+    });
+    server.on('exit', (code) => {
+      clearInterval(poll);
+      // Gone (killed, crashed) — the next capture starts a fresh one
+      if (shared.__clawtrolXvfb === started) shared.__clawtrolXvfb = undefined;
+      reject(new Error(`Xvfb exited with code ${code}`));
+    });
+
+    const startedAt = Date.now();
+    const poll = setInterval(() => {
+      if (existsSync(socket)) {
+        clearInterval(poll);
+        if (xvfb.session) {
+          spawn('/bin/sh', ['-c', xvfb.session], {
+            env: { ...process.env, DISPLAY: display },
+            detached: true,
+            stdio: 'ignore',
+          }).unref();
+        }
+        resolve();
+      } else if (Date.now() - startedAt > XVFB_START_TIMEOUT_MS) {
+        clearInterval(poll);
+        reject(new Error(`Xvfb did not come up on ${display}`));
+      }
+    }, 100);
+  }).catch((err) => {
+    // Let the next request try again
+    if (shared.__clawtrolXvfb === started) shared.__clawtrolXvfb = undefined;
+    throw err;
+  });
+  shared.__clawtrolXvfb = started;
+  return started;
+}
+
+function missingTool(err: unknown, tool: string, pkg: string): Error {
+  if ((err as NodeJS.ErrnoException)?.code === 'ENOENT') {
+    return new Error(`${tool} not found — install ${pkg}`);
+  }
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function createX11Backend(): ScreenBackend {
+  const xvfb = config.screen?.xvfb;
+  const display = xvfb?.enabled ? (xvfb.display ?? ':99') : (config.screen?.display ?? process.env.DISPLAY);
+
+  const ready = async () => {
+    if (!display) throw new Error('No X display — set DISPLAY, screen.display or enable screen.xvfb');
+    if (xvfb?.enabled) await ensureXvfb(display);
+    return { ...process.env, DISPLAY: display };
+  };
+
+  const xdotool = async (args: string[]) => {
+    const env = await ready();
+    try {
+      await execFileAsync('xdotool', args, { env, timeout: 10000 });
+    } catch (err) {
+      throw missingTool(err, 'xdotool', 'xdotool');
+    }
+  };
+
+  return {
+    name: 'x11',
+
+    async capture({ width = CAPTURE_WIDTH, quality = CAPTURE_QUALITY } = {}) {
+      const env = await ready();
+      const resize = `${width}x>`;
+      const opts = { env, timeout: 10000, encoding: 'buffer' as const, maxBuffer: MAX_CAPTURE_BYTES };
+      try {
+        const { stdout } = await execFileAsync('import', [
+          '-silent', '-window', 'root', '-resize', resize, '-quality', String(quality), 'jpeg:-',
+        ], opts);
+        return stdout;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      }
+      // No ImageMagick `import` (some distros ship only `magick`) — go through xwd
+      try {
+        const { stdout } = await execFileAsync('/bin/sh', [
+          '-c',
+          `xwd -root -silent | convert xwd:- -resize '${resize}' -quality ${quality} jpeg:-`,
+        ], opts);
+        return stdout;
+      } catch (err) {
+        throw new Error(`Screen capture needs ImageMagick (import) or xwd + convert: ${(err as Error).message}`);
+      }
+    },
+
+    async dimensions() {
+      const env = await ready();
+      try {
+        const { stdout } = await execFileAsync('xdotool', ['getdisplaygeometry'], { env, timeout: 5000 });
+        const [w, h] = stdout.trim().split(/\s+/).map(Number);
+        if (w && h) return { logicalWidth: w, logicalHeight: h };
+      } catch {}
+
+      try {
+        const { stdout } = await execFileAsync('xdpyinfo', [], { env, timeout: 5000 });
+        const match = stdout.match(/dimensions:\s+(\d+)x(\d+)/);
+        if (match) return { logicalWidth: Number(match[1]), logicalHeight: Number(match[2]) };
+      } catch {}
+
+      const size = xvfb?.enabled ? xvfb.size?.match(/^(\d+)x(\d+)/) : null;
+      return size ? { logicalWidth: Number(size[1]), logicalHeight: Number(size[2]) } : FALLBACK_DIMS;
+    },
+
+    async input({ type, x, y, text }) {
+      const at = ['mousemove', String(x), String(y)];
+      switch (type) {
+        case 'click':
+          await xdotool([...at, 'click', '1']);
+          break;
+        case 'hover':
+          await xdotool(at);
+          break;
+        case 'doubleclick':
+          await xdotool([...at, 'click', '--repeat', '2', '1']);
+          break;
+        case 'rightclick':
+          await xdotool([...at, 'click', '3']);
+          break;
+        case 'type':
+          if (text) await xdotool(['type', '--delay', '12', '--', text]);
+          break;
+        case 'clicktype':
+          if (text) {
+            await xdotool([...at, 'click', '1']);
+            await pause(150);
+            await xdotool(['type', '--delay', '12', '--', text]);
+          }
+          break;
+        case 'key':
+          if (text) await xdotool(['key', '--', toKeysym(text)]);
+          break;
+        case 'shortcut':
+          if (text) {
+            const parts = text.split('+');
+            const key = toKeysym(parts.pop() || '');
+            const mods = parts.map(m => X11_MODIFIERS[m.toLowerCase()]).filter(Boolean);
+            await xdotool(['key', '--', [...mods, key].join('+')]);
+          }
+          break;
+        case 'scroll':
+          // Wheel buttons: 4 = up, 5 = down
+          if (text) await xdotool(['click', '--repeat', '3', text === 'up' ? '4' : '5']);
+          break;
+      }
+    },
+  };
+}
+
+/**
+ * Backend for this host, from `screen.backend` (auto picks by platform).
+ */
+export function getScreenBackend(): ScreenBackend {
+  const choice = config.screen?.backend ?? 'auto';
+  if (choice === 'macos' || (choice === 'auto' && process.platform === 'darwin')) return macosBackend;
+  return createX11Backend();
+}
@@ -0,0 +1,95 @@
+import { mkdir, readFile, readdir, realpath, rm, stat, writeFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+
+const DATA_DIR = path.join(os.homedir(), '.openclaw', 'control-center');
+export const UPLOADS_DIR = path.join(DATA_DIR, 'uploads');
+
+export const MAX_ATTACHMENTS = 10;
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+// Uploads only need to outlive the send (and a retry or two)
+const UPLOAD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.csv': 'text/csv',
+  '.zip': 'application/zip',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.mp4': 'video/mp4',
+};
+
+/** A file on this machine, ready for a channel adapter to send */
+export interface SendAttachment {
+  name: string;
+  mimeType: string;
+  path: string;
+  size: number;
+}
+
+export function mimeTypeFor(name: string): string {
+  return MIME_TYPES[path.extname(name).toLowerCase()] ?? 'application/octet-stream';
+}
+
+export function isImage(attachment: SendAttachment): boolean {
+  return attachment.mimeType.startsWith('image/') && attachment.mimeType !== 'image/svg+xml';
+}
+
+export async function readAttachment(attachment: SendAttachment): Promise<Blob> {
+  return new Blob([new Uint8Array(await readFile(attachment.path))], { type: attachment.mimeType });
+}
+
+async function pruneUploads() {
+  const cutoff = Date.now() - UPLOAD_TTL_MS;
+  for (const name of await readdir(UPLOADS_DIR).catch(() => [] as string[])) {
+    const file = path.join(UPLOADS_DIR, name);
+    const info = await stat(file).catch(() => null);
+    if (info && info.mtimeMs < cutoff) await rm(file, { force: true });
+  }
+}
+
+/** Keep a browser upload on disk so every adapter can treat it like a local file */
+export async function storeUpload(file: File): Promise<SendAttachment> {
+  if (file.size > MAX_ATTACHMENT_BYTES) throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+  await mkdir(UPLOADS_DIR, { recursive: true });
+  pruneUploads().catch(err => console.error('Upload prune error:', err));
+
+  const name = path.basename(file.name || 'upload').replace(/[^\w.-]+/g, '_');
+  const target = path.join(UPLOADS_DIR, `${randomUUID()}-${name}`);
+  await writeFile(target, new Uint8Array(await file.arrayBuffer()));
+  return { name, mimeType: file.type || mimeTypeFor(name), path: target, size: file.size };
+}
+
+/**
+ * A file picked in the Files browser. Stricter than /api/files, since this
+ * sends the file off the machine: it has to be under the home directory and
+ * outside any dotfile or dot-directory (~/.ssh, ~/.openclaw with its bot
+ * tokens and our own keys), after following symlinks.
+ */
+export async function attachmentFromPath(requested: string): Promise<SendAttachment> {
+  const home = await realpath(os.homedir());
+  const resolved = await realpath(path.resolve(path.normalize(requested))).catch(() => null);
+  if (!resolved) throw new Error(`Not a file: ${requested}`);
+  const relative = path.relative(home, resolved);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Access denied: ${requested} is outside the home directory`);
+  }
+  if (relative.split(path.sep).some(part => part.startsWith('.')) || resolved.startsWith(DATA_DIR + path.sep)) {
+    throw new Error(`Access denied: ${requested} is a hidden file or inside a hidden directory`);
+  }
+  const info = await stat(resolved).catch(() => null);
+  if (!info?.isFile()) throw new Error(`Not a file: ${requested}`);
+  if (info.size > MAX_ATTACHMENT_BYTES) throw new Error(`${path.basename(resolved)} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+  const name = path.basename(resolved);
+  return { name, mimeType: mimeTypeFor(name), path: resolved, size: info.size };
+}
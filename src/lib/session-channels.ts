@@ -0,0 +1,303 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_GATEWAY_PORT, readOpenclawConfig } from './openclaw';
+import { isImage, readAttachment, type SendAttachment } from './session-attachments';
+import { agentFromKey, findSession, DEFAULT_AGENT } from './sessions';
+import config from '../../clawtrol.config';
+
+const SEND_TIMEOUT_MS = 15000;
+const UPLOAD_TIMEOUT_MS = 120000;
+const TELEGRAM_CAPTION_LIMIT = 1024;
+export const DEFAULT_OUTBOX_FILE = path.join(os.homedir(), '.openclaw', 'control-center', 'outbox.jsonl');
+
+/** Where a reply to a session goes */
+export interface SendTarget {
+  key: string;
+  agent: string;
+  /** telegram, discord, slack, whatsapp… */
+  channel: string;
+  kind: 'group' | 'channel' | 'dm';
+  /** Chat, channel or user id on that channel */
+  to: string;
+  /** Telegram topic, Discord thread or Slack thread_ts */
+  threadId?: string;
+}
+
+export interface SendResult {
+  messageId?: string;
+}
+
+export interface OutgoingMessage {
+  text: string;
+  attachments?: SendAttachment[];
+  /** The channel's id for the message being replied to */
+  replyTo?: string;
+}
+
+export type SessionChannelAdapter = (target: SendTarget, message: OutgoingMessage) => Promise<SendResult>;
+
+class SessionChannelRegistryImpl {
+  private adapters = new Map<string, SessionChannelAdapter>();
+
+  register(name: string, adapter: SessionChannelAdapter) {
+    this.adapters.set(name, adapter);
+  }
+
+  get(name: string): SessionChannelAdapter | undefined {
+    return this.adapters.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
+
+export const sessionChannelRegistry = new SessionChannelRegistryImpl();
+
+const KIND_ALIASES: Record<string, SendTarget['kind']> = { group: 'group', channel: 'channel', dm: 'dm', direct: 'dm' };
+
+/**
+ * Target encoded in the key itself:
+ * agent:<agent>:<channel>:<group|channel|dm|direct>:<id>[:topic|thread:<id>]
+ */
+export function parseSessionKey(key: string): Omit<SendTarget, 'agent'> | null {
+  const m = key.match(/^agent:[^:]+:([^:]+):(group|channel|dm|direct):(.+?)(?::(?:topic|thread):([^:]+))?$/);
+  if (!m) return null;
+  return { key, channel: m[1], kind: KIND_ALIASES[m[2]], to: m[3], threadId: m[4] };
+}
+
+/**
+ * Where replies to this session should go. The key says it for channel
+ * sessions; main and per-peer DM sessions fall back to the route the agent
+ * last delivered on (sessions.json), then to the default Telegram chat.
+ */
+export async function resolveSendTarget(key: string, agent?: string): Promise<SendTarget | null> {
+  if (key.includes(':subagent:')) return null;
+  const parsed = parseSessionKey(key);
+  if (parsed) return { ...parsed, agent: agent ?? agentFromKey(key) ?? DEFAULT_AGENT };
+
+  const found = await findSession(key, agent);
+  const session = (found?.session ?? {}) as Record<string, any>;
+  const delivery = session.deliveryContext ?? {};
+  const channel = delivery.channel ?? session.lastChannel;
+  const to = delivery.to ?? session.lastTo;
+  const resolvedAgent = found?.agent ?? agent ?? agentFromKey(key) ?? DEFAULT_AGENT;
+  if (channel && to) {
+    const threadId = delivery.threadId ?? session.lastThreadId;
+    return {
+      key,
+      agent: resolvedAgent,
+      channel: String(channel),
+      kind: session.chatType === 'group' ? 'group' : 'dm',
+      to: String(to).replace(/^(?:user|channel|chat):/, ''),
+      threadId: threadId != null ? String(threadId) : undefined,
+    };
+  }
+
+  if (/^agent:[^:]+:main$/.test(key)) {
+    const openclaw = await readOpenclawConfig();
+    const chatId = process.env.CLAWTROL_CHAT_ID
+      || openclaw.channels?.telegram?.chatId
+      || openclaw.channels?.telegram?.defaultChatId;
+    if (chatId) return { key, agent: resolvedAgent, channel: 'telegram', kind: 'dm', to: String(chatId) };
+  }
+  return null;
+}
+
+/**
+ * Adapter for a channel: `sessions.send.adapters` (by channel, then '*'),
+ * else the channel's own adapter, else the OpenClaw gateway.
+ */
+export function adapterFor(channel: string): string {
+  const overrides = config.sessions?.send?.adapters ?? {};
+  return overrides[channel] ?? overrides['*'] ?? (sessionChannelRegistry.get(channel) ? channel : 'gateway');
+}
+
+/**
+ * Deliver a message to the chat a session belongs to. Returns null when
+ * the session has nowhere to reply to; adapter failures throw.
+ */
+export async function sendToSession(key: string, message: OutgoingMessage, agent?: string) {
+  const target = await resolveSendTarget(key, agent);
+  if (!target) return null;
+  const name = adapterFor(target.channel);
+  const adapter = sessionChannelRegistry.get(name);
+  if (!adapter) throw new Error(`No session channel adapter named "${name}"`);
+  const result = await adapter(target, message);
+  return { target, adapter: name, ...result };
+}
+
+/** JSON bodies are encoded; FormData and URLSearchParams set their own content type */
+async function post(url: string, body: unknown, headers: Record<string, string> = {}, timeout = SEND_TIMEOUT_MS) {
+  const encoded = body instanceof FormData || body instanceof URLSearchParams;
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: encoded ? headers : { 'Content-Type': 'application/json', ...headers },
+    body: encoded ? body : JSON.stringify(body),
+    signal: AbortSignal.timeout(timeout),
+  });
+  const data = await res.json().catch(() => ({}));
+  return { res, data };
+}
+
+sessionChannelRegistry.register('telegram', async (target, message) => {
+  const token = (await readOpenclawConfig()).channels?.telegram?.botToken;
+  if (!token) throw new Error('Telegram bot token not configured');
+  const call = async (method: string, body: unknown) => {
+    const { data } = await post(`https://api.telegram.org/bot${token}/${method}`, body, {}, UPLOAD_TIMEOUT_MS);
+    if (!data.ok) throw new Error(`Telegram API error: ${data.description ?? 'unknown error'}`);
+    return data.result?.message_id != null ? String(data.result.message_id) : undefined;
+  };
+
+  const attachments = message.attachments ?? [];
+  // A lone attachment carries the text as its caption when it fits
+  const caption = attachments.length === 1 && message.text.length <= TELEGRAM_CAPTION_LIMIT ? message.text : '';
+  // Only the first message sent is the reply
+  let replyTo = message.replyTo;
+  const ids: (string | undefined)[] = [];
+
+  if (message.text && !caption) {
+    const body: Record<string, unknown> = { chat_id: target.to, text: message.text };
+    if (target.threadId) body.message_thread_id = parseInt(target.threadId, 10);
+    if (replyTo) body.reply_parameters = { message_id: parseInt(replyTo, 10), allow_sending_without_reply: true };
+    replyTo = undefined;
+    ids.push(await call('sendMessage', body));
+  }
+  for (const attachment of attachments) {
+    const photo = isImage(attachment) && attachment.mimeType !== 'image/gif';
+    const form = new FormData();
+    form.append('chat_id', target.to);
+    if (target.threadId) form.append('message_thread_id', target.threadId);
+    if (caption) form.append('caption', caption);
+    if (replyTo) form.append('reply_parameters', JSON.stringify({ message_id: parseInt(replyTo, 10), allow_sending_without_reply: true }));
+    replyTo = undefined;
+    form.append(photo ? 'photo' : 'document', await readAttachment(attachment), attachment.name);
+    ids.push(await call(photo ? 'sendPhoto' : 'sendDocument', form));
+  }
+  return { messageId: ids[0] };
+});
+
+sessionChannelRegistry.register('discord', async (target, message) => {
+  const token = (await readOpenclawConfig()).channels?.discord?.token;
+  if (!token) throw new Error('Discord bot token not configured');
+  const auth = { Authorization: `Bot ${token}` };
+
+  // Threads are channels of their own; DMs need the user's DM channel first
+  let channelId = target.threadId ?? target.to;
+  if (target.kind === 'dm' && !target.threadId) {
+    const { res, data } = await post('https://discord.com/api/v10/users/@me/channels', { recipient_id: target.to }, auth);
+    if (!res.ok) throw new Error(`Discord API error: ${data.message ?? `HTTP ${res.status}`}`);
+    channelId = data.id;
+  }
+
+  const attachments = message.attachments ?? [];
+  const payload: Record<string, unknown> = { content: message.text };
+  if (message.replyTo) payload.message_reference = { message_id: message.replyTo, fail_if_not_exists: false };
+  let body: unknown = payload;
+  if (attachments.length > 0) {
+    const form = new FormData();
+    form.append('payload_json', JSON.stringify({ ...payload, attachments: attachments.map((a, id) => ({ id, filename: a.name })) }));
+    for (const [i, attachment] of attachments.entries()) {
+      form.append(`files[${i}]`, await readAttachment(attachment), attachment.name);
+    }
+    body = form;
+  }
+
+  const { res, data } = await post(`https://discord.com/api/v10/channels/${encodeURIComponent(channelId)}/messages`, body, auth, UPLOAD_TIMEOUT_MS);
+  if (!res.ok) throw new Error(`Discord API error: ${data.message ?? `HTTP ${res.status}`}`);
+  return { messageId: data.id };
+});
+
+sessionChannelRegistry.register('slack', async (target, message) => {
+  const token = (await readOpenclawConfig()).channels?.slack?.botToken;
+  if (!token) throw new Error('Slack bot token not configured');
+  const auth = { Authorization: `Bearer ${token}` };
+  // Slack replies are thread replies
+  const threadTs = message.replyTo ?? target.threadId;
+  const attachments = message.attachments ?? [];
+
+  if (attachments.length === 0) {
+    const body: Record<string, unknown> = { channel: target.to, text: message.text };
+    if (threadTs) body.thread_ts = threadTs;
+    const { data } = await post('https://slack.com/api/chat.postMessage', body, auth);
+    if (!data.ok) throw new Error(`Slack API error: ${data.error ?? 'unknown error'}`);
+    return { messageId: data.ts };
+  }
+
+  // Upload each file, then share them all in one message with the text as its comment
+  const files: { id: string; title: string }[] = [];
+  for (const attachment of attachments) {
+    const { data: slot } = await post(
+      'https://slack.com/api/files.getUploadURLExternal',
+      new URLSearchParams({ filename: attachment.name, length: String(attachment.size) }),
+      auth,
+    );
+    if (!slot.ok) throw new Error(`Slack API error: ${slot.error ?? 'unknown error'}`);
+    const upload = await fetch(slot.upload_url, { method: 'POST', body: await readAttachment(attachment), signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS) });
+    if (!upload.ok) throw new Error(`Slack upload of ${attachment.name} failed: HTTP ${upload.status}`);
+    files.push({ id: slot.file_id, title: attachment.name });
+  }
+  const body: Record<string, unknown> = { files, channel_id: target.to };
+  if (message.text) body.initial_comment = message.text;
+  if (threadTs) body.thread_ts = threadTs;
+  const { data } = await post('https://slack.com/api/files.completeUploadExternal', body, auth);
+  if (!data.ok) throw new Error(`Slack API error: ${data.error ?? 'unknown error'}`);
+  return { messageId: data.files?.[0]?.id };
+});
+
+// Any channel the agent is on, via the gateway's tool endpoint. One call per
+// attachment: the message tool takes a single `media` path.
+sessionChannelRegistry.register('gateway', async (target, message) => {
+  const openclaw = await readOpenclawConfig();
+  const port = config.openclaw?.gatewayPort ?? openclaw.gateway?.port ?? DEFAULT_GATEWAY_PORT;
+  const token = process.env.OPENCLAW_GATEWAY_TOKEN || openclaw.gateway?.auth?.token;
+
+  const attachments = message.attachments ?? [];
+  const calls = attachments.length > 0
+    ? attachments.map((a, i) => ({ message: i === 0 ? message.text : '', media: a.path }))
+    : [{ message: message.text, media: undefined }];
+  const ids: (string | undefined)[] = [];
+  for (const [i, call] of calls.entries()) {
+    const { res, data } = await post(
+      `http://127.0.0.1:${port}/tools/invoke`,
+      {
+        tool: 'message',
+        sessionKey: target.key,
+        args: {
+          action: 'send',
+          channel: target.channel,
+          target: target.to,
+          threadId: target.threadId,
+          replyTo: i === 0 ? message.replyTo : undefined,
+          ...call,
+        },
+      },
+      token ? { Authorization: `Bearer ${token}` } : {},
+      UPLOAD_TIMEOUT_MS,
+    );
+    if (!res.ok || data.ok === false) {
+      throw new Error(`Gateway error: ${data.error?.message ?? data.error ?? `HTTP ${res.status}`}`);
+    }
+    const messageId = data.result?.messageId ?? data.result?.details?.messageId;
+    ids.push(messageId != null ? String(messageId) : undefined);
+  }
+  return { messageId: ids[0] };
+});
+
+// Appends to a JSONL file instead of sending — for trying the dashboard out
+sessionChannelRegistry.register('file', async (target, message) => {
+  const file = config.sessions?.send?.file ?? DEFAULT_OUTBOX_FILE;
+  const messageId = randomUUID();
+  await mkdir(path.dirname(file), { recursive: true });
+  await appendFile(file, JSON.stringify({
+    id: messageId,
+    at: new Date().toISOString(),
+    ...target,
+    message: message.text,
+    replyTo: message.replyTo,
+    attachments: message.attachments,
+  }) + '\n');
+  return { messageId };
+});
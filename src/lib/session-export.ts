@@ -0,0 +1,258 @@
+import { getThemePreset } from './themes';
+import { matchesCursor, readTranscript, type ContentBlock, type TranscriptMessage } from './sessions';
+import config from '../../clawtrol.config';
+
+export const EXPORT_FORMATS = ['md', 'html', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+export interface ExportMeta {
+  key: string;
+  label: string;
+  model: string | null;
+  exportedAt: string;
+}
+
+const ROLE_NAMES: Record<TranscriptMessage['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool',
+};
+
+/**
+ * Messages from `from` through `to` (inclusive cursors, either may be
+ * omitted). Returns null if a given cursor isn't in the transcript.
+ */
+export async function readRange(file: string, from?: string, to?: string): Promise<TranscriptMessage[] | null> {
+  const messages: TranscriptMessage[] = [];
+  let started = !from;
+  let ended = false;
+  for await (const message of readTranscript(file)) {
+    if (!started && matchesCursor(message, from!)) started = true;
+    if (!started) continue;
+    messages.push(message);
+    if (to && matchesCursor(message, to)) {
+      ended = true;
+      break;
+    }
+  }
+  if (!started || (to && !ended)) return null;
+  return messages;
+}
+
+function totals(messages: TranscriptMessage[]) {
+  return messages.reduce(
+    (t, m) => ({ tokens: t.tokens + (m.usage?.tokens ?? 0), cost: t.cost + (m.usage?.cost ?? 0) }),
+    { tokens: 0, cost: 0 },
+  );
+}
+
+function formatCost(cost: number) {
+  return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatTime(timestamp: string) {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+}
+
+function inputText(input: unknown) {
+  return typeof input === 'string' ? input : JSON.stringify(input, null, 2);
+}
+
+// ─── Markdown ───────────────────────────────────────────────────
+
+/** A fence longer than any backtick run inside, so code can't close it early */
+function fence(body: string, lang = '') {
+  const longest = Math.max(2, ...(body.match(/`+/g) ?? []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${lang}\n${body}\n${ticks}`;
+}
+
+function blockToMarkdown(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.text;
+    case 'thinking':
+      return block.text.split('\n').map(line => `> ${line}`).join('\n');
+    case 'tool_call':
+      return `**Tool call** \`${block.name}\`${block.truncated ? ' (arguments truncated)' : ''}\n\n${fence(inputText(block.input), 'json')}`;
+    case 'tool_result': {
+      const details = [
+        block.name && `\`${block.name}\``,
+        block.durationMs !== undefined && formatDuration(block.durationMs),
+        block.isError && '**error**',
+        block.truncated && 'output truncated',
+      ].filter(Boolean).join(' · ');
+      return `**Result**${details ? ` ${details}` : ''}\n\n${fence(block.text || '(no output)')}`;
+    }
+    case 'image':
+      return `_[image · ${block.mimeType}]_`;
+  }
+}
+
+export function toMarkdown(meta: ExportMeta, messages: TranscriptMessage[]): string {
+  const { cost } = totals(messages);
+  const header = [
+    `# ${meta.label}`,
+    '',
+    [
+      `\`${meta.key}\``,
+      meta.model,
+      `${messages.length} messages`,
+      cost > 0 && formatCost(cost),
+      `exported ${formatTime(meta.exportedAt)}`,
+    ].filter(Boolean).join(' · '),
+  ].join('\n');
+
+  const body = messages.map(m => {
+    const heading = [ROLE_NAMES[m.role], formatTime(m.timestamp), m.usage?.cost && formatCost(m.usage.cost)]
+      .filter(Boolean).join(' · ');
+    return `### ${heading}\n\n${m.blocks.map(blockToMarkdown).join('\n\n')}`;
+  });
+
+  return [header, ...body].join('\n\n---\n\n') + '\n';
+}
+
+// ─── JSON ───────────────────────────────────────────────────────
+
+export function toJson(meta: ExportMeta, messages: TranscriptMessage[]): string {
+  return JSON.stringify({
+    session: { key: meta.key, label: meta.label, model: meta.model },
+    exportedAt: meta.exportedAt,
+    totals: { messages: messages.length, ...totals(messages) },
+    messages: messages.map(m => ({
+      index: m.index,
+      id: m.id ?? null,
+      role: m.role,
+      timestamp: m.timestamp || null,
+      model: m.model ?? null,
+      usage: m.usage ?? null,
+      blocks: m.blocks,
+    })),
+  }, null, 2);
+}
+
+// ─── HTML ───────────────────────────────────────────────────────
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+/** The same subset MarkdownRenderer draws in the dashboard, as static HTML */
+function markdownToHtml(text: string): string {
+  const inline = (line: string) => escapeHtml(line)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^\w*])\*([^*]+)\*/g, '$1<em>$2</em>')
+    .replace(/\[([^\]]+)\]\((https?:[^)\s]+)\)/g, '<a href="$2" rel="noopener noreferrer">$1</a>');
+
+  return text.split(/(```[\s\S]*?```)/g).map(part => {
+    if (part.startsWith('```') && part.endsWith('```')) {
+      const inner = part.slice(3, -3);
+      const newline = inner.indexOf('\n');
+      return `<pre><code>${escapeHtml(newline > -1 ? inner.slice(newline + 1) : inner)}</code></pre>`;
+    }
+    return part.split('\n').map(line => {
+      const heading = line.match(/^(#{1,3}) (.+)/);
+      if (heading) return `<div class="h">${inline(heading[2])}</div>`;
+      const bullet = line.match(/^\s*[•\-*] (.+)/);
+      if (bullet) return `<div class="li">• ${inline(bullet[1])}</div>`;
+      return line.trim() ? `<div>${inline(line)}</div>` : '<div class="gap"></div>';
+    }).join('');
+  }).join('');
+}
+
+function blockToHtml(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return `<div class="text">${markdownToHtml(block.text)}</div>`;
+    case 'thinking':
+      return `<details class="thinking"><summary>thinking</summary><div>${escapeHtml(block.text)}</div></details>`;
+    case 'tool_call':
+      return `<details class="tool call"><summary>⚙ ${escapeHtml(block.name)}</summary><pre>${escapeHtml(inputText(block.input))}</pre></details>`;
+    case 'tool_result': {
+      const meta = [block.durationMs !== undefined && formatDuration(block.durationMs), block.truncated && 'truncated']
+        .filter(Boolean).join(' · ');
+      return `<details class="tool ${block.isError ? 'error' : 'result'}"><summary>${block.isError ? '✗' : '✓'} ${escapeHtml(block.name ?? 'result')}${meta ? ` <span class="dim">${meta}</span>` : ''}</summary><pre>${escapeHtml(block.text || '(no output)')}</pre></details>`;
+    }
+    case 'image':
+      return block.src?.startsWith('data:')
+        ? `<img src="${escapeHtml(block.src)}" alt="Attached image">`
+        : `<div class="dim">[image · ${escapeHtml(block.mimeType)}]</div>`;
+  }
+}
+
+/** A single file that opens anywhere, styled with the dashboard's theme preset */
+export function toHtml(meta: ExportMeta, messages: TranscriptMessage[]): string {
+  const preset = getThemePreset(config.theme?.preset);
+  const variables = { ...preset.variables, ...(config.theme?.accent ? { '--accent-cyan': config.theme.accent } : {}) };
+  const { cost } = totals(messages);
+
+  const rows = messages.map(m => {
+    const details = [formatTime(m.timestamp), m.usage?.cost && formatCost(m.usage.cost)].filter(Boolean).join(' · ');
+    return `<div class="msg ${m.role}"><div class="bubble"><div class="meta"><span class="role">${ROLE_NAMES[m.role]}</span> <span class="dim">${details}</span></div>${m.blocks.map(blockToHtml).join('')}</div></div>`;
+  }).join('\n');
+
+  const summary = [
+    escapeHtml(meta.key),
+    meta.model && escapeHtml(meta.model),
+    `${messages.length} messages`,
+    cost > 0 && formatCost(cost),
+    `exported ${formatTime(meta.exportedAt)}`,
+  ].filter(Boolean).join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(meta.label)}</title>
+<style>
+:root { ${Object.entries(variables).map(([k, v]) => `${k}: ${v};`).join(' ')} }
+body { margin: 0; background: var(--bg-primary); color: var(--text-primary); font: 13px/1.55 ui-sans-serif, system-ui, -apple-system, sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 24px 16px; }
+h1 { font-size: 18px; margin: 0 0 4px; }
+.dim { color: var(--text-dim); font-size: 11px; }
+.msg { display: flex; margin: 10px 0; }
+.msg.user { justify-content: flex-end; }
+.bubble { max-width: 85%; padding: 8px 12px; border-radius: 8px; background: var(--bg-card); border: 1px solid var(--border-dim); overflow-wrap: anywhere; }
+.msg.user .bubble { border-color: var(--border-accent); }
+.meta { margin-bottom: 4px; }
+.role { font-size: 10px; text-transform: uppercase; letter-spacing: .08em; font-weight: 600; color: var(--accent-green); }
+.msg.user .role { color: var(--accent-cyan); }
+.msg.tool .role { color: var(--accent-purple); }
+.h { font-weight: 700; color: var(--accent-cyan); margin: 8px 0 4px; }
+.li { padding-left: 8px; }
+.gap { height: 8px; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; color: var(--accent-cyan); }
+pre { background: var(--bg-secondary); border: 1px solid var(--border-dim); border-radius: 4px; padding: 8px; overflow-x: auto; white-space: pre-wrap; font: 11px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; color: var(--text-secondary); }
+a { color: var(--accent-cyan); }
+details { margin: 4px 0; border: 1px solid var(--border-dim); border-left: 2px solid var(--accent-purple); border-radius: 4px; padding: 2px 8px; font-size: 12px; }
+details.result { border-left-color: var(--accent-green); }
+details.error { border-left-color: var(--accent-red); }
+details.error pre { color: var(--accent-red); }
+details.thinking { border-left-color: var(--text-dim); font-style: italic; color: var(--text-secondary); white-space: pre-wrap; }
+summary { cursor: pointer; }
+img { max-width: 100%; border-radius: 4px; }
+</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(meta.label)}</h1>
+<div class="dim">${summary}</div>
+${rows}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,172 @@
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import os from 'os';
+import path from 'path';
+import type { SessionLabelRule } from './config';
+import config from '../../clawtrol.config';
+
+const DATA_DIR = path.join(os.homedir(), '.openclaw', 'control-center');
+export const LABELS_FILE = path.join(DATA_DIR, 'session-labels.json');
+
+const MAX_LABEL = 80;
+const MAX_EMOJI = 8;
+// Hex or a theme variable — the UI's palette only produces these
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|var\(--[\w-]+\))$/i;
+
+// Edits to the store queue up behind each other, across route bundles
+const shared = globalThis as typeof globalThis & { __clawtrolLabelsWrite?: Promise<unknown> };
+
+/** What the Sessions tab saved for one key; wins over config rules */
+export interface SessionLabelOverride {
+  label?: string;
+  emoji?: string;
+  color?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  updatedAt: number;
+}
+
+export interface SessionLabel {
+  label: string;
+  emoji?: string;
+  color?: string;
+  pinned: boolean;
+  archived: boolean;
+}
+
+function globToRegExp(glob: string) {
+  return new RegExp(`^${glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+}
+
+/** First config rule matching the key, with `$1`… filled from a RegExp match */
+function matchRule(key: string): Omit<SessionLabelRule, 'match'> | null {
+  for (const rule of config.sessions?.labels ?? []) {
+    const match = rule.match instanceof RegExp
+      ? key.match(rule.match)
+      : rule.match.includes('*') ? key.match(globToRegExp(rule.match)) : rule.match === key ? [key] : null;
+    if (!match) continue;
+    return {
+      label: rule.label?.replace(/\$(\d)/g, (_, n) => match[Number(n)] ?? ''),
+      emoji: rule.emoji,
+      color: rule.color,
+    };
+  }
+  return null;
+}
+
+function builtInLabel(key: string, origin?: Record<string, string>): string {
+  if (key === 'agent:main:main') return 'Main Session (DM)';
+  const agentMain = key.match(/^agent:([^:]+):main$/);
+  if (agentMain) return `${agentMain[1]} · Main`;
+
+  // Subagent
+  if (key.includes(':subagent:')) {
+    const uuid = key.split(':subagent:')[1] || '';
+    return `Subagent ${uuid.slice(0, 8)}`;
+  }
+
+  // Telegram topic
+  const topicMatch = key.match(/:topic:(\d+)$/);
+  if (topicMatch) return `Topic ${topicMatch[1]}`;
+
+  // Telegram group without topic
+  if (key.includes(':telegram:group:')) {
+    const groupId = key.match(/:group:(-?\d+)/)?.[1] || '';
+    return `Group ${groupId}`;
+  }
+
+  return origin?.label || key.split(':').pop() || key;
+}
+
+export async function loadLabelOverrides(): Promise<Record<string, SessionLabelOverride>> {
+  try {
+    const data = JSON.parse(await readFile(LABELS_FILE, 'utf-8'));
+    return data.labels && typeof data.labels === 'object' ? data.labels : {};
+  } catch {
+    return {};
+  }
+}
+
+async function saveLabelOverrides(labels: Record<string, SessionLabelOverride>) {
+  await mkdir(DATA_DIR, { recursive: true });
+  const tmp = `${LABELS_FILE}.${process.pid}.${randomBytes(3).toString('hex')}.tmp`;
+  await writeFile(tmp, JSON.stringify({ labels }, null, 2));
+  await rename(tmp, LABELS_FILE);
+}
+
+/** Load-change-save after any edit already in flight, so none is lost */
+function editLabelOverrides<T>(edit: (labels: Record<string, SessionLabelOverride>) => Promise<T>): Promise<T> {
+  const next = (shared.__clawtrolLabelsWrite ?? Promise.resolve()).catch(() => {}).then(async () => edit(await loadLabelOverrides()));
+  shared.__clawtrolLabelsWrite = next;
+  return next;
+}
+
+/**
+ * Resolve labels for many sessions against one read of the store: UI edits,
+ * then config rules, then the built-in naming.
+ */
+export async function getSessionLabeler(): Promise<(key: string, origin?: Record<string, string>) => SessionLabel> {
+  const overrides = await loadLabelOverrides();
+  return (key, origin) => {
+    const rule = matchRule(key);
+    const override = overrides[key];
+    return {
+      label: override?.label || rule?.label || builtInLabel(key, origin),
+      emoji: override?.emoji ?? rule?.emoji,
+      color: override?.color ?? rule?.color,
+      pinned: override?.pinned ?? false,
+      archived: override?.archived ?? false,
+    };
+  };
+}
+
+/**
+ * Merge a patch into the key's override. Empty strings and null clear a
+ * field; an override left with nothing in it is removed.
+ */
+export async function updateSessionLabel(
+  key: string,
+  patch: { label?: string | null; emoji?: string | null; color?: string | null; pinned?: boolean; archived?: boolean },
+): Promise<SessionLabelOverride | null> {
+  if (!key) throw new Error('Session key required');
+  if (patch.label && patch.label.length > MAX_LABEL) throw new Error(`Label must be at most ${MAX_LABEL} characters`);
+  if (patch.emoji && [...patch.emoji].length > MAX_EMOJI) throw new Error('Emoji is too long');
+  if (patch.color && !COLOR_PATTERN.test(patch.color)) throw new Error('Color must be a hex value or a theme variable');
+
+  return editLabelOverrides(async (labels) => {
+    const next: SessionLabelOverride = { ...labels[key], updatedAt: Date.now() };
+    for (const field of ['label', 'emoji', 'color'] as const) {
+      if (patch[field] === undefined) continue;
+      const value = patch[field]?.trim();
+      if (value) next[field] = value;
+      else delete next[field];
+    }
+    for (const field of ['pinned', 'archived'] as const) {
+      if (patch[field] === undefined) continue;
+      if (patch[field]) next[field] = true;
+      else delete next[field];
+    }
+
+    if (Object.keys(next).every(field => field === 'updatedAt')) delete labels[key];
+    else labels[key] = next;
+    await saveLabelOverrides(labels);
+    return labels[key] ?? null;
+  });
+}
+
+export function resetSessionLabel(key: string): Promise<boolean> {
+  return editLabelOverrides(async (labels) => {
+    if (!labels[key]) return false;
+    delete labels[key];
+    await saveLabelOverrides(labels);
+    return true;
+  });
+}
+
+/** Config rules in a JSON-safe shape, for showing in the UI */
+export function describeLabelRules() {
+  return (config.sessions?.labels ?? []).map(rule => ({
+    ...rule,
+    match: rule.match instanceof RegExp ? String(rule.match) : rule.match,
+  }));
+}
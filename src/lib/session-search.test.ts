@@ -0,0 +1,125 @@
+import { appendFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../clawtrol.config', () => ({ default: {} }));
+
+let home: string;
+let sessions: string;
+let search: typeof import('./session-search');
+
+const line = (id: string, role: string, content: unknown, minute: number) => JSON.stringify({
+  type: 'message',
+  id,
+  timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute)).toISOString(),
+  message: { role, content },
+}) + '\n';
+
+beforeAll(async () => {
+  // Paths under ~/.openclaw are fixed when the modules load
+  home = mkdtempSync(path.join(os.tmpdir(), 'clawtrol-search-'));
+  vi.stubEnv('HOME', home);
+  sessions = path.join(home, '.openclaw', 'agents', 'main', 'sessions');
+  mkdirSync(sessions, { recursive: true });
+  writeFileSync(path.join(sessions, 'sessions.json'), JSON.stringify({
+    'agent:main:main': { sessionId: 'main-1' },
+    'agent:main:telegram:group:-42': { sessionId: 'tg-1' },
+  }));
+  writeFileSync(path.join(sessions, 'main-1.jsonl'), [
+    line('a1', 'user', 'Please deploy the staging server', 1),
+    line('a2', 'assistant', [{ type: 'toolCall', id: 't1', name: 'exec', arguments: {} }, { type: 'text', text: 'Deploying now.' }], 2),
+    line('a3', 'toolResult', [{ type: 'toolResult', toolCallId: 't1', content: 'deploy ok' }], 3),
+    line('a4', 'assistant', 'The staging deployment finished without errors', 4),
+  ].join(''));
+  writeFileSync(path.join(sessions, 'tg-1.jsonl'), line('b1', 'user', 'Is production deploy frozen this week?', 5));
+  // In the directory but not in sessions.json
+  writeFileSync(path.join(sessions, 'f00dcafe-0000.jsonl'), line('c1', 'user', 'old deploy notes', 0));
+  search = await import('./session-search');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(home, { recursive: true, force: true });
+});
+
+const keys = (results: { sessionKey: string; messageId: string | null }[]) => results.map(r => `${r.sessionKey}/${r.messageId}`);
+
+describe('tokenize', () => {
+  it('splits on anything that is not a letter or digit, lowercased', () => {
+    expect(search.tokenize('Hello, Wörld! v2.1')).toEqual(['hello', 'wörld', 'v2', '1']);
+  });
+});
+
+describe('searchSessions', () => {
+  it('finds messages across sessions, newest first', async () => {
+    const { results, total, indexed } = await search.searchSessions({ q: 'deploy' });
+    expect(keys(results)).toEqual([
+      'agent:main:telegram:group:-42/b1',
+      'agent:main:main/a4',
+      'agent:main:main/a2',
+      'agent:main:main/a1',
+      'f00dcafe-0000/c1',
+    ]);
+    expect(total).toBe(5);
+    expect(indexed.files).toBe(3);
+  });
+
+  it('treats only the last term as a prefix', async () => {
+    expect(keys((await search.searchSessions({ q: 'deploy staging' })).results)).toEqual(['agent:main:main/a1']);
+  });
+
+  it('requires every term, and phrases verbatim', async () => {
+    expect(keys((await search.searchSessions({ q: 'staging deploy' })).results)).toEqual([
+      'agent:main:main/a4',
+      'agent:main:main/a1',
+    ]);
+    expect(keys((await search.searchSessions({ q: '"deploy the staging"' })).results)).toEqual(['agent:main:main/a1']);
+  });
+
+  it('filters by role and kind', async () => {
+    expect(keys((await search.searchSessions({ q: 'deploy', role: 'assistant' })).results)).toEqual([
+      'agent:main:main/a4',
+      'agent:main:main/a2',
+    ]);
+    expect(keys((await search.searchSessions({ q: 'deploy', kind: 'telegram' })).results)).toEqual([
+      'agent:main:telegram:group:-42/b1',
+    ]);
+  });
+
+  it('never returns tool output but counts it toward the ordinal', async () => {
+    const { results } = await search.searchSessions({ q: 'finished' });
+    expect(results).toHaveLength(1);
+    expect(results[0].ordinal).toBe(3);
+    expect((await search.searchSessions({ q: 'ok' })).total).toBe(0);
+  });
+
+  it('labels orphan transcripts by file name', async () => {
+    const { results } = await search.searchSessions({ q: 'notes' });
+    expect(results[0].label).toBe('Transcript f00dcafe');
+  });
+
+  it('marks the matched words in the snippet', async () => {
+    const [result] = (await search.searchSessions({ q: 'frozen' })).results;
+    expect(result.snippet).toBe('Is production deploy frozen this week?');
+    expect(result.highlights).toEqual([[21, 27]]);
+  });
+
+  it('indexes appended messages and finishes half-written lines later', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      appendFileSync(path.join(sessions, 'tg-1.jsonl'), line('b2', 'user', 'Ünïcödé rollout', 6) + '{"type":"mess');
+      vi.setSystemTime(Date.now() + 60_000);
+      expect(keys((await search.searchSessions({ q: 'ünïcödé' })).results)).toEqual(['agent:main:telegram:group:-42/b2']);
+
+      // The half-written line is completed later
+      appendFileSync(path.join(sessions, 'tg-1.jsonl'), 'age","id":"b3","message":{"role":"user","content":"rollback"}}\n');
+      vi.setSystemTime(Date.now() + 60_000);
+      const { results } = await search.searchSessions({ q: 'rollback' });
+      expect(keys(results)).toEqual(['agent:main:telegram:group:-42/b3']);
+      expect(results[0].ordinal).toBe(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,355 @@
+import { createReadStream } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import path from 'path';
+import {
+  getSessionKind, listAgents, parseTranscriptEntry,
+  readSessionsIndex, resolveSessionFile, sessionsDir, type SessionKind,
+} from './sessions';
+import { getSessionLabeler } from './session-labels';
+
+// Re-scan the transcript directory at most this often
+const REFRESH_INTERVAL_MS = 5000;
+const SNIPPET_CHARS = 160;
+const MAX_RESULTS = 100;
+// Only the start of a very long message is kept (and searchable)
+const MAX_TEXT_CHARS = 4000;
+// Past this, the least recently written transcripts drop out of the index
+const MAX_INDEXED_MESSAGES = 250_000;
+
+interface IndexedMessage {
+  agent: string;
+  sessionKey: string;
+  /** Not in sessions.json — keyed by file name */
+  orphan: boolean;
+  kind: SessionKind;
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+  messageId: string | null;
+  /** Position in the transcript — matches the [key] route's `#n` cursors */
+  ordinal: number;
+}
+
+interface IndexedFile {
+  /** Key from sessions.json at index time, if the file is listed there */
+  key?: string;
+  size: number;
+  mtimeMs: number;
+  /** Bytes parsed so far — appends only need the tail read */
+  offset: number;
+  /** Transcript messages seen, searchable or not */
+  count: number;
+  messages: IndexedMessage[];
+  /** Dropped to stay under MAX_INDEXED_MESSAGES; appends are still indexed */
+  evicted?: boolean;
+}
+
+interface SearchIndex {
+  files: Map<string, IndexedFile>;
+  /** token → message refs, rebuilt lazily when files change */
+  postings: Map<string, IndexedMessage[]> | null;
+  refreshedAt: number;
+  refreshing: Promise<void> | null;
+}
+
+export interface SearchQuery {
+  q: string;
+  role?: 'user' | 'assistant';
+  kind?: SessionKind;
+  agent?: string;
+  since?: number;
+  until?: number;
+  sort?: 'recent' | 'relevance';
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchResult {
+  agent: string;
+  sessionKey: string;
+  label: string;
+  kind: SessionKind;
+  role: 'user' | 'assistant';
+  timestamp: number;
+  messageId: string | null;
+  ordinal: number;
+  snippet: string;
+  /** [start, end) character ranges within snippet */
+  highlights: [number, number][];
+}
+
+const shared = globalThis as typeof globalThis & { __clawtrolSessionSearch?: SearchIndex };
+
+function getIndex(): SearchIndex {
+  if (!shared.__clawtrolSessionSearch) {
+    shared.__clawtrolSessionSearch = { files: new Map(), postings: null, refreshedAt: 0, refreshing: null };
+  }
+  return shared.__clawtrolSessionSearch;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Map transcript paths back to their session keys via the agent's sessions.json */
+async function fileKeys(agent: string): Promise<Map<string, string>> {
+  const keys = new Map<string, string>();
+  try {
+    const index = await readSessionsIndex(agent);
+    for (const [key, session] of Object.entries(index)) {
+      const file = resolveSessionFile(session, agent);
+      if (file) keys.set(file, key);
+    }
+  } catch {}
+  return keys;
+}
+
+/**
+ * Complete lines between `start` and `end`, streamed so a multi-hundred-MB
+ * transcript never sits in memory whole. Splits on raw bytes: `consumed` is
+ * exact even when a chunk ends inside a UTF-8 character, and stops after the
+ * last newline so a line still being written is read again next time.
+ */
+async function readLines(file: string, start: number, end: number, onLine: (line: string) => void): Promise<number> {
+  let consumed = 0;
+  let rest: Buffer = Buffer.alloc(0);
+  for await (const chunk of createReadStream(file, { start, end: end - 1 })) {
+    let data = rest.length > 0 ? Buffer.concat([rest, chunk as Buffer]) : chunk as Buffer;
+    let newline: number;
+    while ((newline = data.indexOf(0x0a)) >= 0) {
+      const line = data.subarray(0, newline).toString('utf-8');
+      consumed += newline + 1;
+      data = data.subarray(newline + 1);
+      if (line) onLine(line);
+    }
+    rest = data;
+  }
+  return consumed;
+}
+
+async function indexFile(file: string, agent: string, key: string | undefined, entry: IndexedFile | undefined): Promise<IndexedFile> {
+  const info = await stat(file);
+  // Transcripts are append-only; anything else (or a re-keyed file) means start over
+  const resume = entry && entry.key === key && info.size >= entry.offset ? entry : undefined;
+  if (resume && resume.size === info.size && resume.mtimeMs === info.mtimeMs) return resume;
+
+  const sessionKey = key ?? path.basename(file, '.jsonl');
+  const kind = key ? getSessionKind(key) : 'channel';
+  const messages = resume ? resume.messages : [];
+  const start = resume ? resume.offset : 0;
+  let ordinal = resume ? resume.count : 0;
+
+  const consumed = start < info.size ? await readLines(file, start, info.size, (line) => {
+    let message: ReturnType<typeof parseTranscriptEntry>;
+    try {
+      message = parseTranscriptEntry(JSON.parse(line));
+    } catch {
+      return; // Skip unparseable lines
+    }
+    if (!message) return;
+    // Tool output isn't searched, but still counts toward the ordinal
+    const position = ordinal++;
+    if (message.role === 'tool' || !message.text) return;
+    messages.push({
+      agent,
+      sessionKey,
+      orphan: !key,
+      kind,
+      role: message.role,
+      text: message.text.slice(0, MAX_TEXT_CHARS),
+      timestamp: message.timestamp ? new Date(message.timestamp).getTime() || 0 : 0,
+      messageId: message.id ?? null,
+      ordinal: position,
+    });
+  }) : 0;
+
+  return { key, size: info.size, mtimeMs: info.mtimeMs, offset: start + consumed, count: ordinal, messages, evicted: resume?.evicted };
+}
+
+async function refresh(index: SearchIndex) {
+  const files: { file: string; agent: string }[] = [];
+  const keys = new Map<string, string>();
+  for (const agent of await listAgents()) {
+    const dir = sessionsDir(agent);
+    const names = await readdir(dir).catch(() => [] as string[]);
+    for (const n of names) {
+      if (n.endsWith('.jsonl') && !n.includes('.deleted.')) files.push({ file: path.join(dir, n), agent });
+    }
+    for (const [file, key] of await fileKeys(agent)) keys.set(file, key);
+  }
+
+  let changed = false;
+  const next = new Map<string, IndexedFile>();
+  for (const { file, agent } of files) {
+    const prev = index.files.get(file);
+    try {
+      const entry = await indexFile(file, agent, keys.get(file), prev);
+      if (entry !== prev) changed = true;
+      next.set(file, entry);
+    } catch {
+      // Vanished mid-scan
+    }
+  }
+  if (next.size !== index.files.size) changed = true;
+  if (evict(next)) changed = true;
+
+  index.files = next;
+  if (changed) index.postings = null;
+  index.refreshedAt = Date.now();
+}
+
+/** Empty the oldest transcripts until the index fits; returns whether anything was dropped */
+function evict(files: Map<string, IndexedFile>): boolean {
+  let total = 0;
+  for (const entry of files.values()) total += entry.messages.length;
+  if (total <= MAX_INDEXED_MESSAGES) return false;
+
+  const oldest = [...files.values()].filter(f => f.messages.length > 0).sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const entry of oldest) {
+    if (total <= MAX_INDEXED_MESSAGES) break;
+    total -= entry.messages.length;
+    entry.messages = [];
+    entry.evicted = true;
+  }
+  return true;
+}
+
+async function ensureFresh(): Promise<SearchIndex> {
+  const index = getIndex();
+  if (Date.now() - index.refreshedAt >= REFRESH_INTERVAL_MS) {
+    index.refreshing ??= refresh(index).finally(() => { index.refreshing = null; });
+  }
+  if (index.refreshing) await index.refreshing;
+  return index;
+}
+
+function buildPostings(index: SearchIndex) {
+  const postings = new Map<string, IndexedMessage[]>();
+  for (const entry of index.files.values()) {
+    for (const message of entry.messages) {
+      for (const token of new Set(tokenize(message.text))) {
+        let list = postings.get(token);
+        if (!list) postings.set(token, list = []);
+        list.push(message);
+      }
+    }
+  }
+  index.postings = postings;
+  return postings;
+}
+
+/** Terms and "quoted phrases" from the raw query */
+function parseQuery(q: string) {
+  const phrases: string[] = [];
+  const rest = q.replace(/"([^"]+)"/g, (_, phrase: string) => {
+    phrases.push(phrase.toLowerCase());
+    return ' ';
+  });
+  const terms = tokenize(rest);
+  const phraseTerms = phrases.flatMap(tokenize);
+  return { terms, phrases, all: [...new Set([...terms, ...phraseTerms])], prefixLast: /[\p{L}\p{N}]$/u.test(rest.trimEnd()) };
+}
+
+/** Messages containing the token, or any token starting with it */
+function lookup(postings: Map<string, IndexedMessage[]>, token: string, prefix: boolean): Set<IndexedMessage> {
+  const hits = new Set(postings.get(token) ?? []);
+  if (prefix) {
+    for (const [t, list] of postings) {
+      if (t !== token && t.startsWith(token)) list.forEach(m => hits.add(m));
+    }
+  }
+  return hits;
+}
+
+function makeSnippet(text: string, needles: string[]): { snippet: string; highlights: [number, number][] } {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const needle of needles) {
+    // Word-prefix matches, so "deploy" lights up "deployment" but not "redeploy"
+    const re = new RegExp(`(?<![\\p{L}\\p{N}])${needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'gu');
+    for (const m of lower.matchAll(re)) ranges.push([m.index!, m.index! + needle.length]);
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const first = ranges[0]?.[0] ?? 0;
+  let start = Math.max(0, first - Math.floor(SNIPPET_CHARS / 3));
+  const end = Math.min(text.length, start + SNIPPET_CHARS);
+  start = Math.max(0, end - SNIPPET_CHARS);
+
+  const prefix = start > 0 ? '…' : '';
+  const raw = text.slice(start, end).replace(/\s/g, ' ');
+  const snippet = `${prefix}${raw}${end < text.length ? '…' : ''}`;
+  // Phrases overlap their own terms — merge so each character is marked once
+  const highlights: [number, number][] = [];
+  for (const [s, e] of ranges) {
+    if (s < start || e > end) continue;
+    const from = s - start + prefix.length;
+    const to = e - start + prefix.length;
+    const last = highlights[highlights.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else highlights.push([from, to]);
+  }
+  return { snippet, highlights };
+}
+
+export async function searchSessions(query: SearchQuery): Promise<{
+  results: SearchResult[];
+  total: number;
+  indexed: { files: number; messages: number; evicted: number };
+}> {
+  const index = await ensureFresh();
+  const postings = index.postings ?? buildPostings(index);
+  const indexed = {
+    files: index.files.size,
+    messages: [...index.files.values()].reduce((n, f) => n + f.messages.length, 0),
+    evicted: [...index.files.values()].filter(f => f.evicted).length,
+  };
+
+  const { terms, phrases, all, prefixLast } = parseQuery(query.q);
+  if (all.length === 0) return { results: [], total: 0, indexed };
+
+  // Intersect postings, smallest first; the last bare term may be half-typed
+  const sets = all
+    .map(token => lookup(postings, token, prefixLast && token === terms[terms.length - 1]))
+    .sort((a, b) => a.size - b.size);
+  let matches = [...sets[0]].filter(m => sets.every(s => s.has(m)));
+
+  matches = matches.filter(m =>
+    (!query.role || m.role === query.role)
+    && (!query.kind || m.kind === query.kind)
+    && (!query.agent || m.agent === query.agent)
+    && (!query.since || m.timestamp >= query.since)
+    && (!query.until || m.timestamp <= query.until)
+    && phrases.every(p => m.text.toLowerCase().includes(p)),
+  );
+
+  if (query.sort === 'relevance') {
+    const score = (m: IndexedMessage) => {
+      const tokens = tokenize(m.text);
+      const hits = tokens.filter(t => all.some(a => t.startsWith(a))).length;
+      return hits / Math.sqrt(tokens.length || 1);
+    };
+    const scores = new Map(matches.map(m => [m, score(m)]));
+    matches.sort((a, b) => scores.get(b)! - scores.get(a)! || b.timestamp - a.timestamp);
+  } else {
+    matches.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  // Labels resolve now rather than at index time so renames show up immediately
+  const labelFor = await getSessionLabeler();
+  const offset = Math.max(0, query.offset ?? 0);
+  const limit = Math.min(Math.max(query.limit ?? 20, 1), MAX_RESULTS);
+  const results = matches.slice(offset, offset + limit).map((m): SearchResult => ({
+    agent: m.agent,
+    sessionKey: m.sessionKey,
+    label: m.orphan ? `Transcript ${m.sessionKey.slice(0, 8)}` : labelFor(m.sessionKey).label,
+    kind: m.kind,
+    role: m.role,
+    timestamp: m.timestamp,
+    messageId: m.messageId,
+    ordinal: m.ordinal,
+    ...makeSnippet(m.text, [...phrases, ...all]),
+  }));
+
+  return { results, total: matches.length, indexed };
+}
@@ -0,0 +1,63 @@
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+
+const DATA_DIR = path.join(os.homedir(), '.openclaw', 'control-center');
+export const SNIPPETS_FILE = path.join(DATA_DIR, 'snippets.json');
+
+const MAX_NAME = 60;
+const MAX_TEXT = 8000;
+
+/** A saved prompt the session composer can insert */
+export interface PromptSnippet {
+  id: string;
+  name: string;
+  text: string;
+  updatedAt: number;
+}
+
+export async function loadSnippets(): Promise<PromptSnippet[]> {
+  try {
+    const data = JSON.parse(await readFile(SNIPPETS_FILE, 'utf-8'));
+    return Array.isArray(data.snippets) ? data.snippets : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveSnippets(snippets: PromptSnippet[]) {
+  await mkdir(DATA_DIR, { recursive: true });
+  const tmp = `${SNIPPETS_FILE}.tmp`;
+  await writeFile(tmp, JSON.stringify({ snippets }, null, 2));
+  await rename(tmp, SNIPPETS_FILE);
+}
+
+/** Create a snippet, or replace the one with `id` */
+export async function saveSnippet(input: { id?: string; name?: string; text?: string }): Promise<PromptSnippet> {
+  const name = input.name?.trim();
+  const text = input.text?.trim();
+  if (!name) throw new Error('Name required');
+  if (!text) throw new Error('Text required');
+  if (name.length > MAX_NAME) throw new Error(`Name must be at most ${MAX_NAME} characters`);
+  if (text.length > MAX_TEXT) throw new Error(`Text must be at most ${MAX_TEXT} characters`);
+
+  const snippets = await loadSnippets();
+  const existing = input.id ? snippets.findIndex(s => s.id === input.id) : -1;
+  if (input.id && existing < 0) throw new Error('No snippet with that id');
+
+  const snippet: PromptSnippet = { id: input.id ?? randomUUID(), name, text, updatedAt: Date.now() };
+  if (existing >= 0) snippets[existing] = snippet;
+  else snippets.push(snippet);
+  snippets.sort((a, b) => a.name.localeCompare(b.name));
+  await saveSnippets(snippets);
+  return snippet;
+}
+
+export async function deleteSnippet(id: string): Promise<boolean> {
+  const snippets = await loadSnippets();
+  const next = snippets.filter(s => s.id !== id);
+  if (next.length === snippets.length) return false;
+  await saveSnippets(next);
+  return true;
+}
@@ -0,0 +1,324 @@
+import { createReadStream, watch, type FSWatcher } from 'fs';
+import { open, readdir, stat } from 'fs/promises';
+import path from 'path';
+import { createInterface } from 'readline';
+import {
+  linkToolCalls,
+  listAgents,
+  parseTranscriptEntry,
+  readSessionsIndex,
+  resolveSessionFile,
+  sessionsDir,
+  type PendingToolCalls,
+  type TranscriptMessage,
+} from './sessions';
+
+// Writers append in bursts; wait for the burst to end
+const DEBOUNCE_MS = 150;
+// Catches new agents and anything fs.watch missed
+const RESCAN_MS = 30_000;
+// Don't push more than this per read if a transcript suddenly grows by gigabytes
+const MAX_READ_BYTES = 4 * 1024 * 1024;
+
+export type SessionEvent =
+  | { type: 'new-message'; agent: string; key: string; messages: TranscriptMessage[]; total: number }
+  | { type: 'session-updated'; agent: string; key: string; updatedAt: number }
+  | { type: 'reset'; agent: string; key: string };
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+interface FileState {
+  agent: string;
+  /** Bytes consumed — everything before it has been counted */
+  offset: number;
+  ino: number;
+  partial: string;
+  /** Messages before `offset`, i.e. the next message's index; null until counted */
+  count: number | null;
+  calls: PendingToolCalls;
+}
+
+interface WatcherState {
+  listeners: Set<SessionEventListener>;
+  /** Bumped on every start and stop, so a start that's still awaiting can tell it's stale */
+  generation: number;
+  dirs: Map<string, FSWatcher>;
+  files: Map<string, FileState>;
+  /** agent → transcript file → session key */
+  keys: Map<string, Map<string, string>>;
+  /** agent → session key → updatedAt, to spot which sessions.json entries changed */
+  updated: Map<string, Map<string, number>>;
+  timers: Map<string, NodeJS.Timeout>;
+  /** Per-file work in order, so two reads never race for the same bytes */
+  queues: Map<string, Promise<void>>;
+  rescan?: NodeJS.Timeout;
+}
+
+// SSE route handlers are bundled separately — keep one watcher per process
+const shared = globalThis as typeof globalThis & { __clawtrolSessionWatcher?: WatcherState };
+
+function getState(): WatcherState {
+  shared.__clawtrolSessionWatcher ??= {
+    listeners: new Set(),
+    generation: 0,
+    dirs: new Map(),
+    files: new Map(),
+    keys: new Map(),
+    updated: new Map(),
+    timers: new Map(),
+    queues: new Map(),
+  };
+  return shared.__clawtrolSessionWatcher;
+}
+
+function emit(state: WatcherState, event: SessionEvent) {
+  for (const listener of state.listeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error('Session event listener error:', err);
+    }
+  }
+}
+
+// Work queued before a stop is dropped rather than run against cleared state
+function enqueue(state: WatcherState, id: string, work: () => Promise<void>) {
+  const generation = state.generation;
+  const next = (state.queues.get(id) ?? Promise.resolve())
+    .then(() => (generation === state.generation ? work() : undefined))
+    .catch(err => console.error('Session watcher error:', err));
+  state.queues.set(id, next);
+  next.then(() => {
+    if (state.queues.get(id) === next) state.queues.delete(id);
+  });
+}
+
+function debounce(state: WatcherState, id: string, work: () => Promise<void>) {
+  clearTimeout(state.timers.get(id));
+  state.timers.set(id, setTimeout(() => {
+    state.timers.delete(id);
+    enqueue(state, id, work);
+  }, DEBOUNCE_MS));
+}
+
+function keyFor(state: WatcherState, agent: string, file: string) {
+  return state.keys.get(agent)?.get(file) ?? path.basename(file, '.jsonl');
+}
+
+/** Re-read sessions.json; emits session-updated for entries that changed since last time */
+async function readIndex(state: WatcherState, agent: string, quiet = false) {
+  const generation = state.generation;
+  const index = await readSessionsIndex(agent).catch(() => null);
+  if (!index || generation !== state.generation) return;
+  const keys = new Map<string, string>();
+  const previous = state.updated.get(agent);
+  const updated = new Map<string, number>();
+  for (const [key, session] of Object.entries(index)) {
+    const file = resolveSessionFile(session, agent);
+    if (file) keys.set(file, key);
+    const updatedAt = Number(session.updatedAt) || 0;
+    updated.set(key, updatedAt);
+    if (!quiet && previous?.get(key) !== updatedAt) emit(state, { type: 'session-updated', agent, key, updatedAt });
+  }
+  state.keys.set(agent, keys);
+  state.updated.set(agent, updated);
+}
+
+async function endsWithNewline(file: string, end: number) {
+  const handle = await open(file, 'r');
+  try {
+    const buffer = Buffer.alloc(1);
+    await handle.read(buffer, 0, 1, end - 1);
+    return buffer[0] === 0x0a;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Count the messages before `tracked.offset` so new ones get the same indexes
+ * /api/sessions/[key] gives them. Only done the first time a transcript
+ * changes; an unfinished last line is left for the follow-up read.
+ */
+async function countMessages(file: string, tracked: FileState) {
+  let count = 0;
+  if (tracked.offset > 0) {
+    const complete = await endsWithNewline(file, tracked.offset);
+    const lines = createInterface({ input: createReadStream(file, { encoding: 'utf-8', start: 0, end: tracked.offset - 1 }), crlfDelay: Infinity });
+    const take = (line: string) => {
+      try {
+        const message = parseTranscriptEntry(JSON.parse(line));
+        if (!message) return;
+        linkToolCalls(message, tracked.calls);
+        count++;
+      } catch {}
+    };
+    let last: string | null = null;
+    for await (const line of lines) {
+      if (last !== null) take(last);
+      last = line;
+    }
+    if (last !== null) {
+      if (complete) take(last);
+      else tracked.offset -= Buffer.byteLength(last);
+    }
+  }
+  tracked.count = count;
+}
+
+async function readChanges(state: WatcherState, agent: string, file: string) {
+  const generation = state.generation;
+  const info = await stat(file).catch(() => null);
+  if (generation !== state.generation) return;
+  if (!info) {
+    state.files.delete(file);
+    return;
+  }
+
+  let tracked = state.files.get(file);
+  if (!tracked) {
+    tracked = { agent, offset: 0, ino: info.ino, partial: '', count: 0, calls: new Map() };
+    state.files.set(file, tracked);
+  } else if (tracked.ino !== info.ino || info.size < tracked.offset) {
+    Object.assign(tracked, { offset: 0, ino: info.ino, partial: '', count: 0, calls: new Map() });
+    emit(state, { type: 'reset', agent, key: keyFor(state, agent, file) });
+  }
+  if (tracked.count === null) await countMessages(file, tracked);
+  if (generation !== state.generation || info.size <= tracked.offset) return;
+
+  const length = Math.min(info.size - tracked.offset, MAX_READ_BYTES);
+  const buffer = Buffer.alloc(length);
+  const handle = await open(file, 'r');
+  let bytesRead: number;
+  try {
+    ({ bytesRead } = await handle.read(buffer, 0, length, tracked.offset));
+  } finally {
+    await handle.close();
+  }
+  // Stopped (and maybe restarted) while reading — this state is gone
+  if (generation !== state.generation) return;
+  tracked.offset += bytesRead;
+
+  const lines = (tracked.partial + buffer.subarray(0, bytesRead).toString('utf-8')).split('\n');
+  // Hold back an unfinished last line until its newline arrives
+  tracked.partial = lines.pop() ?? '';
+
+  const messages: TranscriptMessage[] = [];
+  let count = tracked.count!;
+  for (const line of lines) {
+    if (!line) continue;
+    try {
+      const message = parseTranscriptEntry(JSON.parse(line));
+      if (!message) continue;
+      linkToolCalls(message, tracked.calls);
+      messages.push({ index: count++, ...message });
+    } catch {}
+  }
+  tracked.count = count;
+  if (messages.length > 0) {
+    emit(state, { type: 'new-message', agent, key: keyFor(state, agent, file), messages, total: count });
+  }
+  if (tracked.offset < info.size) enqueue(state, file, () => readChanges(state, agent, file));
+}
+
+/** Look for transcripts that changed without an fs.watch event */
+async function scanDir(state: WatcherState, agent: string) {
+  const generation = state.generation;
+  const dir = sessionsDir(agent);
+  const names = await readdir(dir).catch(() => [] as string[]);
+  for (const name of names) {
+    if (!name.endsWith('.jsonl')) continue;
+    const file = path.join(dir, name);
+    const info = await stat(file).catch(() => null);
+    if (generation !== state.generation) return;
+    const known = state.files.get(file);
+    if (info && (!known || known.offset !== info.size || known.ino !== info.ino)) {
+      enqueue(state, file, () => readChanges(state, agent, file));
+    }
+  }
+}
+
+async function watchAgent(state: WatcherState, agent: string, generation: number) {
+  const dir = sessionsDir(agent);
+  await readIndex(state, agent, true);
+
+  // Existing transcripts start at their current end
+  for (const name of await readdir(dir).catch(() => [] as string[])) {
+    if (!name.endsWith('.jsonl')) continue;
+    const file = path.join(dir, name);
+    const info = await stat(file).catch(() => null);
+    if (info && !state.files.has(file)) {
+      state.files.set(file, { agent, offset: info.size, ino: info.ino, partial: '', count: null, calls: new Map() });
+    }
+  }
+  if (generation !== state.generation || state.dirs.has(agent)) return;
+
+  try {
+    const watcher = watch(dir, (_event, name) => {
+      const filename = name?.toString();
+      if (!filename) {
+        debounce(state, `scan:${agent}`, () => scanDir(state, agent));
+      } else if (filename.startsWith('sessions.json')) {
+        debounce(state, `index:${agent}`, () => readIndex(state, agent));
+      } else if (filename.endsWith('.jsonl')) {
+        const file = path.join(dir, filename);
+        debounce(state, file, () => readChanges(state, agent, file));
+      }
+    });
+    watcher.on('error', (err) => {
+      console.error(`Session watcher error (${agent}):`, err);
+      watcher.close();
+      state.dirs.delete(agent);
+    });
+    state.dirs.set(agent, watcher);
+  } catch (err) {
+    console.error(`Cannot watch ${dir}:`, err);
+  }
+}
+
+async function start(state: WatcherState) {
+  const generation = ++state.generation;
+  const sync = async () => {
+    for (const agent of await listAgents()) {
+      if (generation !== state.generation) return;
+      if (state.dirs.has(agent)) await scanDir(state, agent);
+      else await watchAgent(state, agent, generation);
+    }
+  };
+  await sync();
+  if (generation !== state.generation) return;
+  state.rescan = setInterval(() => {
+    sync().catch(err => console.error('Session watcher rescan error:', err));
+  }, RESCAN_MS);
+  state.rescan.unref();
+}
+
+function stop(state: WatcherState) {
+  state.generation++;
+  clearInterval(state.rescan);
+  state.rescan = undefined;
+  for (const watcher of state.dirs.values()) watcher.close();
+  for (const timer of state.timers.values()) clearTimeout(timer);
+  state.dirs.clear();
+  state.timers.clear();
+  state.queues.clear();
+  state.files.clear();
+  state.keys.clear();
+  state.updated.clear();
+}
+
+/**
+ * Get told about new transcript messages and sessions.json updates across
+ * every agent. The watcher runs while anyone is subscribed; returns the
+ * unsubscribe function.
+ */
+export function subscribeSessionEvents(listener: SessionEventListener): () => void {
+  const state = getState();
+  state.listeners.add(listener);
+  if (state.listeners.size === 1) {
+    start(state).catch(err => console.error('Session watcher failed to start:', err));
+  }
+  return () => {
+    if (state.listeners.delete(listener) && state.listeners.size === 0) stop(state);
+  };
+}
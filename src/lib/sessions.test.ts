@@ -0,0 +1,93 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { cursorFor, getSessionKind, matchesCursor, readTranscriptWindow, type TranscriptMessage } from './sessions';
+
+let dir: string;
+let file: string;
+
+const entry = (i: number) => JSON.stringify({
+  type: 'message',
+  // Every third message has no id and is addressed as #n
+  ...(i % 3 === 2 ? {} : { id: `m${i}` }),
+  timestamp: new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString(),
+  message: { role: i % 2 ? 'assistant' : 'user', content: `message ${i}` },
+});
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), 'clawtrol-sessions-'));
+  file = path.join(dir, 'transcript.jsonl');
+  const lines = Array.from({ length: 10 }, (_, i) => entry(i));
+  // Entries that aren't messages, and a broken line, don't count
+  lines.splice(4, 0, JSON.stringify({ type: 'session', id: 'meta' }), '{"type":');
+  writeFileSync(file, lines.join('\n') + '\n');
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const indexes = (page: Awaited<ReturnType<typeof readTranscriptWindow>>) => page?.messages.map(m => m.index);
+
+describe('readTranscriptWindow', () => {
+  it('returns the last messages for tail', async () => {
+    const page = await readTranscriptWindow(file, 'tail', null, 3);
+    expect(indexes(page)).toEqual([7, 8, 9]);
+    expect(page?.total).toBe(10);
+    expect(page?.focus).toBeNull();
+  });
+
+  it('pages before and after a cursor, excluding it', async () => {
+    expect(indexes(await readTranscriptWindow(file, 'before', 'm6', 3))).toEqual([3, 4, 5]);
+    expect(indexes(await readTranscriptWindow(file, 'before', 'm1', 3))).toEqual([0]);
+    expect(indexes(await readTranscriptWindow(file, 'after', 'm3', 3))).toEqual([4, 5, 6]);
+    expect(indexes(await readTranscriptWindow(file, 'after', 'm9', 3))).toEqual([]);
+  });
+
+  it('accepts #n cursors', async () => {
+    expect(indexes(await readTranscriptWindow(file, 'after', '#5', 2))).toEqual([6, 7]);
+  });
+
+  it('centres around the cursor and reports where it is', async () => {
+    const page = await readTranscriptWindow(file, 'around', 'm4', 5);
+    expect(indexes(page)).toEqual([2, 3, 4, 5, 6]);
+    expect(page?.focus).toBe(2);
+  });
+
+  it('fills the window from the other side near either end', async () => {
+    const start = await readTranscriptWindow(file, 'around', 'm0', 4);
+    expect(indexes(start)).toEqual([0, 1, 2, 3]);
+    expect(start?.focus).toBe(0);
+
+    const end = await readTranscriptWindow(file, 'around', 'm9', 4);
+    expect(indexes(end)).toEqual([7, 8, 9]);
+    expect(end?.focus).toBe(2);
+  });
+
+  it('returns null for a cursor that is not in the transcript', async () => {
+    expect(await readTranscriptWindow(file, 'before', 'missing', 3)).toBeNull();
+    expect(await readTranscriptWindow(file, 'around', '#99', 3)).toBeNull();
+  });
+});
+
+describe('cursors', () => {
+  it('prefer message ids and fall back to the index', () => {
+    const withId: TranscriptMessage = { index: 0, id: 'abc', role: 'user', text: '', blocks: [], timestamp: '' };
+    const withoutId: TranscriptMessage = { ...withId, index: 4, id: undefined };
+    expect(cursorFor(withId)).toBe('abc');
+    expect(cursorFor(withoutId)).toBe('#4');
+    expect(matchesCursor(withoutId, '#4')).toBe(true);
+    expect(matchesCursor(withId, '#0')).toBe(true);
+    expect(matchesCursor(withId, 'abd')).toBe(false);
+  });
+});
+
+describe('getSessionKind', () => {
+  it('tells main, telegram, sub-agent and other sessions apart', () => {
+    expect(getSessionKind('agent:main:main')).toBe('main');
+    expect(getSessionKind('agent:main:telegram:group:-100')).toBe('telegram');
+    expect(getSessionKind('agent:main:subagent:abc')).toBe('subagent');
+    expect(getSessionKind('agent:main:discord:channel:1')).toBe('channel');
+  });
+});
@@ -0,0 +1,362 @@
+import { createReadStream } from 'fs';
+import { readFile, readdir, stat } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createInterface } from 'readline';
+
+export const AGENTS_DIR = path.join(os.homedir(), '.openclaw', 'agents');
+export const DEFAULT_AGENT = 'main';
+
+// No leading dot: skips hidden directories and rules out `..`
+const AGENT_ID = /^[\w-][\w.-]*$/;
+
+export function isAgentId(id: string): boolean {
+  return AGENT_ID.test(id);
+}
+
+export function sessionsDir(agent = DEFAULT_AGENT): string {
+  return path.join(AGENTS_DIR, agent, 'sessions');
+}
+
+/** `agent:<id>:…` keys carry their agent; file-name keys don't */
+export function agentFromKey(key: string): string | null {
+  return key.match(/^agent:([^:]+):/)?.[1] ?? null;
+}
+
+/**
+ * Every agent under ~/.openclaw/agents with a sessions directory, default
+ * agent first. Falls back to just the default agent on a fresh install.
+ */
+export async function listAgents(): Promise<string[]> {
+  const entries = await readdir(AGENTS_DIR, { withFileTypes: true }).catch(() => []);
+  const agents: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !isAgentId(entry.name)) continue;
+    const info = await stat(sessionsDir(entry.name)).catch(() => null);
+    if (info?.isDirectory()) agents.push(entry.name);
+  }
+  agents.sort((a, b) => Number(b === DEFAULT_AGENT) - Number(a === DEFAULT_AGENT) || a.localeCompare(b));
+  return agents.length > 0 ? agents : [DEFAULT_AGENT];
+}
+
+export type SessionKind = 'main' | 'telegram' | 'subagent' | 'channel';
+
+export function getSessionKind(key: string): SessionKind {
+  if (key.includes(':subagent:')) return 'subagent';
+  if (/^agent:[^:]+:main$/.test(key)) return 'main';
+  if (key.includes(':telegram:')) return 'telegram';
+  return 'channel';
+}
+
+export function extractTextFromContent(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((p: Record<string, unknown>) => p.type === 'text' && p.text)
+      .map((p: Record<string, unknown>) => p.text as string)
+      .join(' ');
+  }
+  return '';
+}
+
+/**
+ * Absolute transcript path for an index entry. Supports sessionFile (full
+ * path), transcriptPath (filename), or a name derived from sessionId.
+ */
+export function resolveSessionFile(session: Record<string, unknown>, agent = DEFAULT_AGENT): string | null {
+  const file = (session.sessionFile as string)
+    || (session.transcriptPath as string)
+    || (session.sessionId ? `${session.sessionId}.jsonl` : null);
+  if (!file || file === 'N/A') return null;
+  return file.startsWith('/') ? file : path.join(sessionsDir(agent), file);
+}
+
+export async function readSessionsIndex(agent = DEFAULT_AGENT): Promise<Record<string, Record<string, unknown>>> {
+  return JSON.parse(await readFile(path.join(sessionsDir(agent), 'sessions.json'), 'utf-8'));
+}
+
+/**
+ * Index entry and transcript path for a key. Transcripts no longer in the
+ * index (e.g. search hits) are addressed by their file name. Without an
+ * agent, the key's own agent is tried first, then every other one.
+ */
+export async function findSession(key: string, agent?: string): Promise<{
+  agent: string;
+  session: Record<string, unknown>;
+  file: string | null;
+  orphan: boolean;
+} | null> {
+  if (agent && !isAgentId(agent)) return null;
+  const own = agent ?? agentFromKey(key);
+  const agents = agent ? [agent] : [...new Set([...(own ? [own] : []), ...(await listAgents())])];
+
+  for (const id of agents) {
+    const index = await readSessionsIndex(id).catch(() => ({} as Record<string, Record<string, unknown>>));
+    const session = index[key];
+    if (session) return { agent: id, session, file: resolveSessionFile(session, id), orphan: false };
+  }
+
+  if (!/^[\w-]+$/.test(key)) return null;
+  for (const id of agents) {
+    const orphan = path.join(sessionsDir(id), `${key}.jsonl`);
+    const info = await stat(orphan).catch(() => null);
+    if (info) return { agent: id, session: { sessionId: key, updatedAt: info.mtimeMs }, file: orphan, orphan: true };
+  }
+  return null;
+}
+
+// Tool output and arguments can run to megabytes (file reads, writes)
+const MAX_BLOCK_CHARS = 20000;
+// Larger inline images are listed but not shipped to the browser
+const MAX_IMAGE_BASE64 = 512 * 1024;
+
+export type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'tool_call'; id: string; name: string; input: unknown; truncated?: boolean }
+  | { type: 'tool_result'; toolCallId: string; name?: string; text: string; isError: boolean; durationMs?: number; truncated?: boolean }
+  | { type: 'image'; mimeType: string; src?: string };
+
+export type TranscriptRole = 'user' | 'assistant' | 'tool';
+
+export interface TranscriptMessage {
+  /** Position among the transcript's messages; `#n` cursors refer to it */
+  index: number;
+  id?: string;
+  role: TranscriptRole;
+  /** Just the text blocks, for previews and search */
+  text: string;
+  blocks: ContentBlock[];
+  timestamp: string;
+  /** Assistant turns only — what the API call behind it cost */
+  usage?: { tokens: number; cost: number };
+  model?: string;
+  /** The chat platform's id for this message, when the transcript records it — what replies point at */
+  channelMessageId?: string;
+}
+
+function clip(text: string): { text: string; truncated?: boolean } {
+  return text.length > MAX_BLOCK_CHARS ? { text: text.slice(0, MAX_BLOCK_CHARS), truncated: true } : { text };
+}
+
+function toolInput(raw: unknown): { input: unknown; truncated?: boolean } {
+  // Some providers store arguments as a JSON string
+  let input = raw;
+  if (typeof raw === 'string') {
+    try { input = JSON.parse(raw); } catch {}
+  }
+  const json = typeof input === 'string' ? input : JSON.stringify(input ?? {});
+  return json.length > MAX_BLOCK_CHARS ? { input: json.slice(0, MAX_BLOCK_CHARS), truncated: true } : { input };
+}
+
+function imageBlock(part: Record<string, any>): ContentBlock {
+  const source = part.source ?? part;
+  const mimeType = source.media_type || source.mimeType || 'image/png';
+  const data = typeof source.data === 'string' ? source.data : null;
+  return {
+    type: 'image',
+    mimeType,
+    src: data && data.length <= MAX_IMAGE_BASE64 ? `data:${mimeType};base64,${data}`
+      : source.type === 'url' ? source.url : undefined,
+  };
+}
+
+/**
+ * Typed blocks from a message's content. Accepts both the Anthropic shapes
+ * (tool_use / tool_result) and OpenClaw's (toolCall / toolResult messages).
+ */
+export function parseContentBlocks(content: unknown, message: Record<string, any> = {}): ContentBlock[] {
+  const parts: unknown[] = typeof content === 'string' ? [{ type: 'text', text: content }]
+    : Array.isArray(content) ? content : [];
+  const blocks: ContentBlock[] = [];
+
+  // A whole toolResult message is a single result block
+  if (message.role === 'toolResult' || message.role === 'tool') {
+    return [{
+      type: 'tool_result',
+      toolCallId: message.toolCallId || message.tool_call_id || '',
+      name: message.toolName || message.name || undefined,
+      isError: Boolean(message.isError ?? message.is_error),
+      ...clip(extractTextFromContent(content)),
+    }];
+  }
+
+  for (const raw of parts) {
+    const part = raw as Record<string, any>;
+    switch (part?.type) {
+      case 'text':
+        if (part.text) blocks.push({ type: 'text', text: part.text });
+        break;
+      case 'thinking':
+        if (part.thinking) blocks.push({ type: 'thinking', text: part.thinking });
+        break;
+      case 'redacted_thinking':
+        blocks.push({ type: 'thinking', text: '[redacted]' });
+        break;
+      case 'tool_use':
+      case 'toolCall':
+      case 'tool_call':
+        blocks.push({
+          type: 'tool_call',
+          id: part.id || '',
+          name: part.name || 'tool',
+          ...toolInput(part.input ?? part.arguments),
+        });
+        break;
+      case 'tool_result': {
+        const text = typeof part.content === 'string' ? part.content : extractTextFromContent(part.content);
+        blocks.push({
+          type: 'tool_result',
+          toolCallId: part.tool_use_id || part.toolCallId || '',
+          isError: Boolean(part.is_error ?? part.isError),
+          ...clip(text),
+        });
+        break;
+      }
+      case 'image':
+        blocks.push(imageBlock(part));
+        break;
+    }
+  }
+  return blocks;
+}
+
+function channelMessageId(entry: Record<string, any>, message: Record<string, any>, text: string): string | undefined {
+  const direct = message.messageId ?? message.message_id ?? entry.messageId;
+  if (direct != null) return String(direct);
+  // OpenClaw prefixes inbound messages with a metadata block: "message_id": "1234"
+  if (message.role !== 'user') return undefined;
+  return text.match(/"message_id":\s*"?([\w.:-]+)"?/)?.[1];
+}
+
+/**
+ * The message on one transcript line, or null if the line is something
+ * else (session headers, model changes) or carries no content we show.
+ */
+export function parseTranscriptEntry(entry: Record<string, any>): Omit<TranscriptMessage, 'index'> | null {
+  if (entry?.type !== 'message' || !entry.message) return null;
+  const message = entry.message;
+  if (!['user', 'assistant', 'toolResult', 'tool'].includes(message.role)) return null;
+
+  const blocks = parseContentBlocks(message.content, message);
+  if (blocks.length === 0) return null;
+  const onlyResults = blocks.every(b => b.type === 'tool_result');
+  const usage = message.usage;
+  const text = blocks.flatMap(b => (b.type === 'text' ? [b.text] : [])).join(' ');
+  const platformId = channelMessageId(entry, message, text);
+  return {
+    id: entry.id || undefined,
+    role: onlyResults ? 'tool' : message.role === 'assistant' ? 'assistant' : 'user',
+    text,
+    blocks,
+    timestamp: entry.timestamp || '',
+    ...(usage ? { usage: { tokens: usage.totalTokens || 0, cost: usage.cost?.total || 0 } } : {}),
+    ...(message.model ? { model: message.model } : {}),
+    ...(platformId ? { channelMessageId: platformId } : {}),
+  };
+}
+
+export type PendingToolCalls = Map<string, { name: string; at: number }>;
+
+/**
+ * Remember the tool calls in a message and give each tool result the name
+ * and duration of the call it answers. Feed messages in transcript order.
+ */
+export function linkToolCalls(message: Omit<TranscriptMessage, 'index'>, calls: PendingToolCalls) {
+  const at = new Date(message.timestamp).getTime();
+  for (const block of message.blocks) {
+    if (block.type === 'tool_call' && block.id) {
+      calls.set(block.id, { name: block.name, at });
+    } else if (block.type === 'tool_result') {
+      const call = calls.get(block.toolCallId);
+      if (!call) continue;
+      calls.delete(block.toolCallId);
+      block.name ??= call.name;
+      if (at >= call.at) block.durationMs = at - call.at;
+    }
+  }
+}
+
+/**
+ * Messages from a transcript, parsed a line at a time so multi-hundred-MB
+ * sessions never sit in memory whole. Tool results get the name and
+ * duration of the call they answer.
+ */
+export async function* readTranscript(file: string): AsyncGenerator<TranscriptMessage> {
+  const lines = createInterface({ input: createReadStream(file, 'utf-8'), crlfDelay: Infinity });
+  // Calls still waiting for their result
+  const calls: PendingToolCalls = new Map();
+  let index = 0;
+  try {
+    for await (const line of lines) {
+      if (!line) continue;
+      let message: Omit<TranscriptMessage, 'index'> | null;
+      try {
+        message = parseTranscriptEntry(JSON.parse(line));
+      } catch {
+        continue; // Skip unparseable lines
+      }
+      if (!message) continue;
+      linkToolCalls(message, calls);
+      yield { index: index++, ...message };
+    }
+  } finally {
+    lines.close();
+  }
+}
+
+export type TranscriptWindowMode = 'tail' | 'before' | 'after' | 'around';
+
+/**
+ * One pass over the transcript keeping at most `limit` messages, so memory
+ * stays flat however long the session is:
+ * - tail: the last `limit` messages
+ * - before/after: up to `limit` messages either side of the cursor (exclusive)
+ * - around: a window with the cursor near the middle
+ * Returns null when the cursor isn't in the transcript.
+ */
+export async function readTranscriptWindow(file: string, mode: TranscriptWindowMode, cursor: string | null, limit: number) {
+  const ring: TranscriptMessage[] = [];
+  const after: TranscriptMessage[] = [];
+  let anchor: TranscriptMessage | null = null;
+  let afterCap = 0;
+  let total = 0;
+
+  for await (const message of readTranscript(file)) {
+    total++;
+    if (!anchor && cursor && matchesCursor(message, cursor)) {
+      anchor = message;
+      if (mode === 'around') {
+        ring.splice(0, ring.length - Math.floor(limit / 2));
+        after.push(message);
+        afterCap = limit - ring.length;
+      } else {
+        afterCap = mode === 'after' ? limit : 0;
+      }
+    } else if (anchor) {
+      if (after.length < afterCap) after.push(message);
+    } else {
+      ring.push(message);
+      if (ring.length > limit) ring.shift();
+    }
+  }
+
+  if (mode !== 'tail' && !anchor) return null;
+  const messages = mode === 'tail' || mode === 'before' ? ring
+    : mode === 'after' ? after
+    : [...ring, ...after];
+  return {
+    messages,
+    total,
+    focus: mode === 'around' ? ring.length : null,
+  };
+}
+
+/** A message id, or `#n` for the n-th message */
+export function matchesCursor(message: TranscriptMessage, cursor: string): boolean {
+  return cursor.startsWith('#') ? message.index === parseInt(cursor.slice(1), 10) : message.id === cursor;
+}
+
+export function cursorFor(message: TranscriptMessage): string {
+  return message.id ?? `#${message.index}`;
+}
@@ -0,0 +1,124 @@
+export interface SSEChannel {
+  /** Send a named event with a JSON payload */
+  send(event: string, data: unknown): void;
+  /** End the stream from the server side */
+  close(): void;
+  readonly closed: boolean;
+  /** The client is behind — more than BUFFER_BYTES queued and unread */
+  readonly backedUp: boolean;
+}
+
+// Queue size past which backedUp reports true
+const BUFFER_BYTES = 256 * 1024;
+
+/**
+ * Build a text/event-stream response. `start` is called once the stream is
+ * open and may return a cleanup function, which runs when either side closes
+ * (server calls close(), or the client disconnects).
+ */
+export function createSSEResponse(
+  request: Request,
+  start: (channel: SSEChannel) => (() => void) | void,
+): Response {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const finish = () => {
+        if (closed) return;
+        closed = true;
+        request.signal.removeEventListener('abort', finish);
+        try {
+          cleanup?.();
+        } catch (err) {
+          console.error('SSE cleanup error:', err);
+        }
+        try {
+          controller.close();
+        } catch {}
+      };
+
+      const channel: SSEChannel = {
+        send(event, data) {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          } catch {
+            finish();
+          }
+        },
+        close: finish,
+        get closed() {
+          return closed;
+        },
+        get backedUp() {
+          return (controller.desiredSize ?? 1) <= 0;
+        },
+      };
+
+      request.signal.addEventListener('abort', finish);
+      cleanup = start(channel) || undefined;
+      // start() may have closed synchronously before returning its cleanup
+      if (closed) cleanup?.();
+    },
+    cancel() {
+      closed = true;
+      cleanup?.();
+    },
+  }, { highWaterMark: BUFFER_BYTES, size: chunk => chunk.byteLength });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+export interface SSEMessage {
+  event: string;
+  data: any;
+}
+
+/**
+ * Client-side reader for a fetch() body in text/event-stream format.
+ * Used where EventSource can't be (POST requests, custom headers).
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        const dataLines: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+        }
+        if (dataLines.length === 0) continue;
+        try {
+          yield { event, data: JSON.parse(dataLines.join('\n')) };
+        } catch {
+          yield { event, data: dataLines.join('\n') };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
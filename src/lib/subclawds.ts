@@ -0,0 +1,54 @@
+import { readFile, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export const REGISTRY_FILE = path.join(os.homedir(), 'agents', 'registry.json');
+export const MEMORY_BASE = path.join(os.homedir(), 'memory');
+export const AGENT_COSTS_FILE = path.join(MEMORY_BASE, 'costs', 'agent-costs.json');
+
+export interface AgentCostEntry {
+  sessionId: string;
+  cost: number;
+  tokens: number;
+  timestamp: string;
+}
+
+export interface AgentCosts {
+  totalCost: number;
+  taskCount: number;
+  sessions: AgentCostEntry[];
+}
+
+export interface AgentCostsData {
+  agents: Record<string, AgentCosts>;
+  lastUpdated: string;
+}
+
+/** Sub-agent ids from registry.json; empty when there's no registry */
+export async function listRegistryAgents(): Promise<string[]> {
+  try {
+    return Object.keys(JSON.parse(await readFile(REGISTRY_FILE, 'utf-8')).agents ?? {});
+  } catch {
+    return [];
+  }
+}
+
+export async function loadAgentCosts(): Promise<AgentCostsData> {
+  try {
+    return JSON.parse(await readFile(AGENT_COSTS_FILE, 'utf-8'));
+  } catch {
+    return { agents: {}, lastUpdated: new Date().toISOString() };
+  }
+}
+
+/** Reset an agent's current-task.md to the idle template */
+export async function clearAgentTask(agentId: string) {
+  if (!/^[\w-]+$/.test(agentId)) throw new Error(`Invalid agent id: ${agentId}`);
+  await writeFile(path.join(MEMORY_BASE, agentId, 'current-task.md'), `# Current Task
+
+*No active task*
+
+---
+Last updated: ${new Date().toISOString().split('T')[0]}
+`);
+}
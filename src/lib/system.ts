@@ -0,0 +1,72 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+/**
+ * macOS memory from vm_stat — si.mem() counts file cache as used, which makes
+ * a Mac look permanently full. Returns null elsewhere.
+ */
+export async function getMacMemory() {
+  try {
+    const { stdout } = await execAsync('vm_stat');
+    const pageSize = 16384;
+    const stats: Record<string, number> = {};
+
+    for (const line of stdout.trim().split('\n').slice(1)) {
+      const parts = line.split(':');
+      if (parts.length === 2) {
+        const key = parts[0].trim();
+        const val = parseInt(parts[1].trim().replace('.', '')) * pageSize;
+        stats[key] = val;
+      }
+    }
+
+    const total = 16 * 1024 ** 3; // 16GB Mac mini
+    const free = stats['Pages free'] || 0;
+    const speculative = stats['Pages speculative'] || 0;
+    const active = stats['Pages active'] || 0;
+    const wired = stats['Pages wired down'] || 0;
+    const inactive = stats['Pages inactive'] || 0;
+    const purgeable = stats['Pages purgeable'] || 0;
+
+    const actuallyUsed = active + wired;
+    const available = free + speculative + inactive + purgeable;
+
+    return {
+      total,
+      used: actuallyUsed,
+      free: available,
+      usedPercent: (actuallyUsed / total) * 100,
+      // Detailed breakdown
+      active,
+      wired,
+      inactive,
+      purgeable,
+      rawFree: free + speculative,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The openclaw-gateway process (it's standalone, not PM2), or null if it
+ * isn't running. `memory` is RSS in bytes.
+ */
+export async function getGatewayProcess(): Promise<{ pid: string; memory: number; cpu: number } | null> {
+  try {
+    const { stdout } = await execAsync("ps -eo pid,rss,%cpu,comm | grep 'openclaw-gateway' | grep -v grep");
+    const parts = stdout.trim().split(/\s+/);
+    if (parts.length >= 3) {
+      return {
+        pid: parts[0],
+        memory: parseInt(parts[1]) * 1024, // RSS is in KB, convert to bytes
+        cpu: parseFloat(parts[2]),
+      };
+    }
+  } catch {
+    // Process not found
+  }
+  return null;
+}
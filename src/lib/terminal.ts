@@ -0,0 +1,109 @@
+import { spawn } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import os from 'os';
+
+// Hard ceiling so a forgotten command can't run forever
+const MAX_RUNTIME_MS = 30 * 60 * 1000;
+// Grace period between SIGTERM and SIGKILL
+const KILL_GRACE_MS = 3000;
+
+const SHELL_PATH = `/opt/homebrew/bin:/usr/local/bin:/usr/bin:/bin:/usr/sbin:/sbin:${process.env.PATH}`;
+
+export interface TerminalRun {
+  id: string;
+  command: string;
+  cwd: string;
+  owner: string;
+  startedAt: number;
+  child: ChildProcess;
+  cancelled: boolean;
+}
+
+export interface RunHandlers {
+  onStdout(data: string): void;
+  onStderr(data: string): void;
+  onExit(result: { code: number | null; signal: string | null; durationMs: number; cancelled: boolean }): void;
+}
+
+// Active runs by id — module-level so the cancel route can reach them
+const runs = new Map<string, TerminalRun>();
+
+/**
+ * Start a shell command in its own process group so cancelling it also
+ * takes down anything it spawned (npm → node → …).
+ */
+export function startRun(command: string, owner: string, handlers: RunHandlers, cwd = os.homedir()): TerminalRun {
+  const child = spawn('/bin/sh', ['-c', command], {
+    cwd,
+    env: { ...process.env, PATH: SHELL_PATH, TERM: 'dumb', FORCE_COLOR: '0' },
+    detached: true,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  const run: TerminalRun = {
+    id: randomUUID(),
+    command,
+    cwd,
+    owner,
+    startedAt: Date.now(),
+    child,
+    cancelled: false,
+  };
+  runs.set(run.id, run);
+
+  child.stdout?.setEncoding('utf-8');
+  child.stderr?.setEncoding('utf-8');
+  child.stdout?.on('data', handlers.onStdout);
+  child.stderr?.on('data', handlers.onStderr);
+
+  const timeout = setTimeout(() => {
+    handlers.onStderr(`\nKilled after ${MAX_RUNTIME_MS / 60000} minutes\n`);
+    killRun(run);
+  }, MAX_RUNTIME_MS);
+
+  let exited = false;
+  const finish = (code: number | null, signal: string | null) => {
+    if (exited) return;
+    exited = true;
+    clearTimeout(timeout);
+    runs.delete(run.id);
+    handlers.onExit({ code, signal, durationMs: Date.now() - run.startedAt, cancelled: run.cancelled });
+  };
+
+  child.on('error', (err) => {
+    handlers.onStderr(`${err.message}\n`);
+    finish(127, null);
+  });
+  child.on('close', (code, signal) => finish(code, signal));
+
+  return run;
+}
+
+function signalGroup(run: TerminalRun, signal: NodeJS.Signals) {
+  if (!run.child.pid) return;
+  try {
+    process.kill(-run.child.pid, signal);
+  } catch {
+    // Group already gone — fall back to the direct child
+    try {
+      run.child.kill(signal);
+    } catch {}
+  }
+}
+
+/**
+ * Terminate a run: SIGTERM the whole process group, then SIGKILL whatever
+ * is still alive after a short grace period.
+ */
+export function killRun(run: TerminalRun) {
+  run.cancelled = true;
+  signalGroup(run, 'SIGTERM');
+  setTimeout(() => {
+    if (run.child.exitCode === null && run.child.signalCode === null) signalGroup(run, 'SIGKILL');
+  }, KILL_GRACE_MS).unref();
+}
+
+export function getRun(id: string): TerminalRun | undefined {
+  return runs.get(id);
+}
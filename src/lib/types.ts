@@ -39,11 +39,18 @@ export interface ProcessInfo {
   pid: string; rss: number; memPercent: number; cpuPercent: number; command: string; name: string;
 }
 
+export interface TerminalChunk {
+  stream: 'stdout' | 'stderr';
+  data: string;
+}
+
 export interface TerminalEntry {
   command: string;
-  stdout: string;
-  stderr: string;
+  // Interleaved in the order it arrived
+  output: TerminalChunk[];
   exitCode: number;
+  durationMs?: number;
+  cancelled?: boolean;
   timestamp: number;
 }
 
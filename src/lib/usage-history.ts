@@ -0,0 +1,302 @@
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { listAgents, readSessionsIndex, resolveSessionFile } from './sessions';
+
+const DAY_MS = 86400_000;
+export const MAX_HISTORY_DAYS = 366;
+// Every time zone offset is a multiple of 15 minutes, so day and period
+// boundaries never split a bucket
+const BUCKET_MS = 15 * 60_000;
+
+/** Usage of one model's assistant turns within a 15-minute bucket */
+export interface UsageRecord {
+  /** Start of the bucket */
+  t: number;
+  model: string;
+  calls: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  tokens: number;
+  cost: number;
+  inputCost: number;
+  cacheReadCost: number;
+}
+
+interface ParsedFile {
+  size: number;
+  mtimeMs: number;
+  /** Bytes parsed so far; transcripts only grow */
+  offset: number;
+  records: UsageRecord[];
+  /** Bucket start and model → position in `records` */
+  buckets: Map<string, number>;
+}
+
+// Parsed transcripts survive between requests (and dev reloads)
+const shared = globalThis as typeof globalThis & { __clawtrolUsageHistory?: Map<string, ParsedFile> };
+
+function getCache() {
+  if (!shared.__clawtrolUsageHistory) shared.__clawtrolUsageHistory = new Map();
+  return shared.__clawtrolUsageHistory;
+}
+
+function toRecord(entry: Record<string, any>, fallbackModel: string): UsageRecord | null {
+  const usage = entry?.message?.usage;
+  if (!usage) return null;
+  const t = new Date(entry.timestamp ?? entry.message.timestamp ?? 0).getTime();
+  if (!t) return null;
+  const cost = usage.cost ?? {};
+  return {
+    t: Math.floor(t / BUCKET_MS) * BUCKET_MS,
+    model: entry.message.model || fallbackModel,
+    calls: 1,
+    input: usage.input || 0,
+    output: usage.output || 0,
+    cacheRead: usage.cacheRead || 0,
+    cacheWrite: usage.cacheWrite || 0,
+    tokens: usage.totalTokens || 0,
+    cost: cost.total || 0,
+    inputCost: cost.input || 0,
+    cacheReadCost: cost.cacheRead || 0,
+  };
+}
+
+function addRecord(parsed: Pick<ParsedFile, 'records' | 'buckets'>, record: UsageRecord) {
+  const id = `${record.t}\0${record.model}`;
+  const at = parsed.buckets.get(id);
+  if (at === undefined) {
+    parsed.buckets.set(id, parsed.records.length);
+    parsed.records.push(record);
+    return;
+  }
+  const bucket = parsed.records[at];
+  bucket.calls++;
+  bucket.input += record.input;
+  bucket.output += record.output;
+  bucket.cacheRead += record.cacheRead;
+  bucket.cacheWrite += record.cacheWrite;
+  bucket.tokens += record.tokens;
+  bucket.cost += record.cost;
+  bucket.inputCost += record.inputCost;
+  bucket.cacheReadCost += record.cacheReadCost;
+}
+
+/** Feeds each complete line in [start, end) to onLine; returns the bytes consumed */
+async function readLines(file: string, start: number, end: number, onLine: (line: string) => void): Promise<number> {
+  let consumed = 0;
+  let rest: Buffer = Buffer.alloc(0);
+  for await (const chunk of createReadStream(file, { start, end: end - 1 })) {
+    let data = rest.length > 0 ? Buffer.concat([rest, chunk as Buffer]) : chunk as Buffer;
+    let newline: number;
+    while ((newline = data.indexOf(0x0a)) >= 0) {
+      const line = data.subarray(0, newline).toString('utf-8');
+      consumed += newline + 1;
+      data = data.subarray(newline + 1);
+      if (line) onLine(line);
+    }
+    // A half-written last line is left for next time
+    rest = data;
+  }
+  return consumed;
+}
+
+async function parseFile(file: string, model: string): Promise<UsageRecord[]> {
+  const cache = getCache();
+  const info = await stat(file);
+  const prev = cache.get(file);
+  if (prev && prev.size === info.size && prev.mtimeMs === info.mtimeMs) return prev.records;
+
+  const resume = prev && info.size >= prev.offset ? prev : undefined;
+  const start = resume?.offset ?? 0;
+  const parsed = resume ?? { records: [], buckets: new Map<string, number>() };
+
+  const consumed = start < info.size ? await readLines(file, start, info.size, (line) => {
+    try {
+      const record = toRecord(JSON.parse(line), model);
+      if (record) addRecord(parsed, record);
+    } catch {}
+  }) : 0;
+
+  cache.set(file, { size: info.size, mtimeMs: info.mtimeMs, offset: start + consumed, records: parsed.records, buckets: parsed.buckets });
+  return parsed.records;
+}
+
+/**
+ * Usage records of every session listed in the agents' sessions.json (one
+ * agent, or all of them). Cached per transcript, so calling often is cheap.
+ */
+export async function readSessionUsage(agent?: string): Promise<{ agent: string; key: string; records: UsageRecord[] }[]> {
+  const result: { agent: string; key: string; records: UsageRecord[] }[] = [];
+  for (const id of agent ? [agent] : await listAgents()) {
+    const index = await readSessionsIndex(id).catch(() => ({} as Record<string, Record<string, unknown>>));
+    for (const [key, session] of Object.entries(index)) {
+      const file = resolveSessionFile(session, id);
+      if (!file) continue;
+      try {
+        result.push({ agent: id, key, records: await parseFile(file, (session.model || session.modelProvider || 'unknown') as string) });
+      } catch (err) {
+        // Listed but not on disk yet; anything else would silently undercount spend
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      }
+    }
+  }
+  return result;
+}
+
+export interface UsageHistoryQuery {
+  /** Inclusive, YYYY-MM-DD in the caller's time zone */
+  from: string;
+  to: string;
+  /** Minutes behind UTC, as Date#getTimezoneOffset returns */
+  tzOffset?: number;
+  agent?: string;
+  /** Sessions returned, most expensive first */
+  limit?: number;
+}
+
+export interface DailyUsage {
+  date: string;
+  cost: number;
+  tokens: number;
+  calls: number;
+  byModel: Record<string, number>;
+}
+
+export interface ModelUsage {
+  model: string;
+  cost: number;
+  tokens: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  calls: number;
+  /** What the cache reads would have cost as fresh input, minus what they did cost */
+  cacheSavings: number;
+}
+
+export interface SessionUsage {
+  key: string;
+  agent: string;
+  cost: number;
+  tokens: number;
+  calls: number;
+  /** Cost per day, aligned with `days` */
+  daily: number[];
+}
+
+export interface UsageHistory {
+  from: string;
+  to: string;
+  days: DailyUsage[];
+  models: ModelUsage[];
+  sessions: SessionUsage[];
+  totals: { cost: number; tokens: number; calls: number; cacheSavings: number; cacheHitRate: number };
+}
+
+function round(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+/** Day number (days since epoch) of a YYYY-MM-DD string, or null */
+export function parseDay(value: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const t = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(t) ? null : Math.floor(t / DAY_MS);
+}
+
+function formatDay(day: number) {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Cost and token series between two local dates, bucketed by the day each
+ * message was written. Reads every agent's transcripts (or one agent's).
+ */
+export async function getUsageHistory(query: UsageHistoryQuery): Promise<UsageHistory> {
+  const first = parseDay(query.from);
+  const last = parseDay(query.to);
+  if (first === null || last === null) throw new Error('from and to must be YYYY-MM-DD');
+  if (last < first) throw new Error('from must not be after to');
+  if (last - first + 1 > MAX_HISTORY_DAYS) throw new Error(`Range is limited to ${MAX_HISTORY_DAYS} days`);
+
+  const shift = (query.tzOffset ?? 0) * 60_000;
+  const dayOf = (t: number) => Math.floor((t - shift) / DAY_MS);
+  const count = last - first + 1;
+
+  const days: DailyUsage[] = Array.from({ length: count }, (_, i) => ({
+    date: formatDay(first + i), cost: 0, tokens: 0, calls: 0, byModel: {},
+  }));
+  const models = new Map<string, ModelUsage & { inputCost: number; cacheReadCost: number }>();
+  const sessions: SessionUsage[] = [];
+
+  for (const { agent, key, records } of await readSessionUsage(query.agent)) {
+    const totals: SessionUsage = { key, agent, cost: 0, tokens: 0, calls: 0, daily: new Array(count).fill(0) };
+    for (const r of records) {
+      const i = dayOf(r.t) - first;
+      if (i < 0 || i >= count) continue;
+
+      const day = days[i];
+      day.cost += r.cost;
+      day.tokens += r.tokens;
+      day.calls += r.calls;
+      day.byModel[r.model] = (day.byModel[r.model] ?? 0) + r.cost;
+
+      let m = models.get(r.model);
+      if (!m) {
+        m = {
+          model: r.model, cost: 0, tokens: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0,
+          cacheWriteTokens: 0, calls: 0, cacheSavings: 0, inputCost: 0, cacheReadCost: 0,
+        };
+        models.set(r.model, m);
+      }
+      m.cost += r.cost;
+      m.tokens += r.tokens;
+      m.inputTokens += r.input;
+      m.outputTokens += r.output;
+      m.cacheReadTokens += r.cacheRead;
+      m.cacheWriteTokens += r.cacheWrite;
+      m.calls += r.calls;
+      m.inputCost += r.inputCost;
+      m.cacheReadCost += r.cacheReadCost;
+
+      totals.cost += r.cost;
+      totals.tokens += r.tokens;
+      totals.calls += r.calls;
+      totals.daily[i] += r.cost;
+    }
+    if (totals.calls > 0) sessions.push(totals);
+  }
+
+  const modelList: ModelUsage[] = [...models.values()].map(({ inputCost, cacheReadCost, ...m }) => {
+    // The model's average fresh-input price is what a cache hit avoided paying
+    const inputRate = m.inputTokens > 0 ? inputCost / m.inputTokens : 0;
+    return { ...m, cost: round(m.cost), cacheSavings: round(Math.max(0, m.cacheReadTokens * inputRate - cacheReadCost)) };
+  }).sort((a, b) => b.cost - a.cost);
+
+  for (const day of days) {
+    day.cost = round(day.cost);
+    for (const model of Object.keys(day.byModel)) day.byModel[model] = round(day.byModel[model]);
+  }
+  sessions.sort((a, b) => b.cost - a.cost);
+
+  const cacheRead = modelList.reduce((s, m) => s + m.cacheReadTokens, 0);
+  const prompt = modelList.reduce((s, m) => s + m.inputTokens + m.cacheReadTokens + m.cacheWriteTokens, 0);
+
+  return {
+    from: formatDay(first),
+    to: formatDay(last),
+    days,
+    models: modelList,
+    sessions: sessions.slice(0, query.limit ?? 20).map(s => ({ ...s, cost: round(s.cost), daily: s.daily.map(round) })),
+    totals: {
+      cost: round(days.reduce((s, d) => s + d.cost, 0)),
+      tokens: days.reduce((s, d) => s + d.tokens, 0),
+      calls: days.reduce((s, d) => s + d.calls, 0),
+      cacheSavings: round(modelList.reduce((s, m) => s + m.cacheSavings, 0)),
+      cacheHitRate: prompt > 0 ? cacheRead / prompt : 0,
+    },
+  };
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ModuleId, Role } from './config';
+
+export interface AuthSession {
+  authEnabled: boolean;
+  user: { username: string; via: 'session' | 'token' | 'local'; role: Role } | null;
+  /** Modules the signed-in role may open */
+  modules: ModuleId[];
+}
+
+// Shared across components so the shell and modules make a single request
+let sessionPromise: Promise<AuthSession> | null = null;
+
+function loadSession(): Promise<AuthSession> {
+  if (!sessionPromise) {
+    sessionPromise = fetch('/api/auth/session')
+      .then(res => res.json())
+      .catch(() => {
+        sessionPromise = null;
+        return { authEnabled: false, user: null, modules: [] };
+      });
+  }
+  return sessionPromise;
+}
+
+export function useAuthSession(): AuthSession | null {
+  const [session, setSession] = useState<AuthSession | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSession().then(s => { if (!cancelled) setSession(s); });
+    return () => { cancelled = true; };
+  }, []);
+
+  return session;
+}
+
+export async function logout() {
+  await fetch('/api/auth/logout', { method: 'POST' }).catch(() => {});
+  sessionPromise = null;
+  window.location.href = '/login';
+}
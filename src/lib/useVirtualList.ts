@@ -0,0 +1,135 @@
+'use client';
+
+import { useCallback, useLayoutEffect, useRef, useState } from 'react';
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+  start: number;
+}
+
+interface Options {
+  count: number;
+  getKey: (index: number) => string;
+  /** Height assumed for rows that haven't rendered yet */
+  estimateSize: number;
+  /** Extra pixels rendered above and below the viewport */
+  overscan?: number;
+}
+
+// Within this many pixels of the bottom counts as "following" new rows
+const END_SLACK = 40;
+
+/**
+ * Windowed rendering for variable-height rows. Rows are absolutely
+ * positioned inside a spacer of `totalSize`; each rendered row passes
+ * `measure` as its ref so real heights replace the estimate. Keeps the
+ * viewport still when rows are prepended or resize above it, and follows
+ * the end while the user is scrolled to the bottom.
+ */
+export function useVirtualList({ count, getKey, estimateSize, overscan = 400 }: Options) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sizes = useRef(new Map<string, number>());
+  const observer = useRef<ResizeObserver | null>(null);
+  const atEnd = useRef(true);
+  const firstKey = useRef<string | null>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [, setVersion] = useState(0);
+
+  const starts: number[] = [];
+  let totalSize = 0;
+  for (let i = 0; i < count; i++) {
+    starts.push(totalSize);
+    totalSize += sizes.current.get(getKey(i)) ?? estimateSize;
+  }
+
+  const items: VirtualItem[] = [];
+  const from = viewport.top - overscan;
+  const to = viewport.top + viewport.height + overscan;
+  for (let i = 0; i < count && starts[i] < to; i++) {
+    const end = i + 1 < count ? starts[i + 1] : totalSize;
+    if (end >= from) items.push({ index: i, key: getKey(i), start: starts[i] });
+  }
+
+  const syncViewport = useCallback(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    atEnd.current = el.scrollHeight - el.scrollTop - el.clientHeight < END_SLACK;
+    setViewport(v => (v.top === el.scrollTop && v.height === el.clientHeight ? v : { top: el.scrollTop, height: el.clientHeight }));
+  }, []);
+
+  const measure = useCallback((el: HTMLElement | null) => {
+    if (!el) return;
+    if (!observer.current) {
+      observer.current = new ResizeObserver(entries => {
+        const container = containerRef.current;
+        let changed = false;
+        for (const entry of entries) {
+          const row = entry.target as HTMLElement;
+          const key = row.dataset.key!;
+          const height = row.offsetHeight;
+          const previous = sizes.current.get(key) ?? estimateSize;
+          if (height === previous) continue;
+          sizes.current.set(key, height);
+          changed = true;
+          // A row above the viewport changed height — shift so the visible content stays put
+          if (container && !atEnd.current && row.offsetTop + previous <= container.scrollTop) {
+            container.scrollTop += height - previous;
+          }
+        }
+        if (changed) setVersion(v => v + 1);
+      });
+    }
+    const ro = observer.current;
+    ro.observe(el);
+    return () => ro.unobserve(el);
+  }, [estimateSize]);
+
+  // Prepended rows push the old first row down; move the scroll position with it
+  const currentFirst = count > 0 ? getKey(0) : null;
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    const previous = firstKey.current;
+    firstKey.current = currentFirst;
+    if (!el || !previous || previous === currentFirst || atEnd.current) return;
+    for (let i = 1; i < count; i++) {
+      if (getKey(i) === previous) {
+        el.scrollTop += starts[i];
+        break;
+      }
+    }
+  }, [currentFirst]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (el && atEnd.current) el.scrollTop = el.scrollHeight;
+    syncViewport();
+  }, [totalSize, syncViewport]);
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(syncViewport);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [syncViewport]);
+
+  const scrollToIndex = useCallback((index: number, align: 'start' | 'center' = 'center') => {
+    const el = containerRef.current;
+    if (!el || index < 0 || index >= count) return;
+    const size = sizes.current.get(getKey(index)) ?? estimateSize;
+    atEnd.current = false;
+    el.scrollTop = align === 'center' ? starts[index] - (el.clientHeight - size) / 2 : starts[index];
+    syncViewport();
+  }, [count, getKey, estimateSize, starts, syncViewport]);
+
+  const scrollToEnd = useCallback(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    atEnd.current = true;
+    el.scrollTop = el.scrollHeight;
+    syncViewport();
+  }, [syncViewport]);
+
+  return { containerRef, onScroll: syncViewport, measure, items, totalSize, scrollToIndex, scrollToEnd };
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, isAuthEnabled } from '@/lib/auth';
+import { checkApiAccess } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+
+// Reachable without a session so users can actually log in
+const PUBLIC_PATHS = new Set(['/login', '/api/auth/login']);
+
+function isMutating(request: NextRequest): boolean {
+  return request.method !== 'GET' && request.method !== 'HEAD';
+}
+
+export async function proxy(request: NextRequest) {
+  if (!isAuthEnabled()) return NextResponse.next();
+
+  const { pathname, search } = request.nextUrl;
+  if (PUBLIC_PATHS.has(pathname)) return NextResponse.next();
+
+  const user = await getRequestUser(request);
+  if (user) {
+    if (pathname.startsWith('/api/')) {
+      const denied = checkApiAccess(user.role, request.method, pathname);
+      if (denied) {
+        if (isMutating(request)) await recordAudit(request, { result: 'denied', status: 403, error: denied }, user);
+        return NextResponse.json({ error: denied }, { status: 403 });
+      }
+    }
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    if (isMutating(request)) {
+      await recordAudit(request, { result: 'denied', status: 401, error: 'Authentication required' }, null);
+    }
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  if (pathname !== '/') loginUrl.searchParams.set('next', `${pathname}${search}`);
+  else if (search) loginUrl.searchParams.set('next', `/${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};